@@ -245,7 +245,7 @@ const handleOnboardingComplete = (data: { name: string; goal: UserData['goal'];
       case 'history':
         return (
           <ScreenErrorBoundary screenName="history">
-            <History onNavigate={setCurrentScreen} />
+            <History userData={userData} onNavigate={setCurrentScreen} />
           </ScreenErrorBoundary>
         );
 
@@ -1,11 +1,17 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
-import { PencilLine, Droplet, Droplets, Egg, X, Flag, ChevronRight, Smile, Meh, Frown, Heart, FlaskConical, Sparkles } from 'lucide-react';
+import { PencilLine, Droplet, Droplets, Egg, X, Flag, ChevronRight, Smile, Meh, Frown, Heart, FlaskConical, Sparkles, Activity } from 'lucide-react';
 import { cn } from './ui/utils';
-import type { UserData, SymptomKey, CheckInEntry } from '../types';
+import type { UserData, SymptomKey, CheckInEntry, CervicalMucus, LhTestResult, PregnancyTestResult } from '../types';
 import { useEntries, useExperiment } from '../lib/appStore';
-import { computeCycleStats, estimatePhaseByFlow, getRhythmModel, sortByDateAsc } from '../lib/analytics';
+import { getBleedStarts, getLutealStats, sortByDateAsc } from '../lib/analytics';
+import { getCalendarDays } from '../lib/calendarDays';
+import { buildCycleEngine } from '../lib/cycleEngine';
+import { getRhythmModel } from '../lib/rhythmModel';
+import { CERVICAL_MUCUS_LABELS, LH_TEST_LABELS, PREGNANCY_TEST_LABELS, formatBbt } from '../lib/fertilitySignals';
 import { getRhythmTimingModel } from '../lib/rhythmTiming';
+import { getDayMood, getDayValue, getEntrySlots, timeOfDayLabel } from '../lib/checkInSlots';
+import { describeAnomalyDay, detectAnomalies, type AnomalyDay } from '../lib/personalBaselines';
 
 type Props = {
   userData: UserData;
@@ -29,17 +35,12 @@ function toISO(d: Date) {
   return `${y}-${m}-${day}`;
 }
 
-function addDaysISO(dateISO: string, days: number): string {
-  const d = new Date(dateISO + 'T00:00:00');
-  d.setDate(d.getDate() + days);
-  return toISO(d);
-}
-
-function daysBetweenISO(aISO: string, bISO: string): number {
-  const a = new Date(aISO + 'T00:00:00');
-  const b = new Date(bISO + 'T00:00:00');
-  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
-}
+const PHASE_LABELS: Record<string, string> = {
+  reset: 'Reset Phase',
+  rebuilding: 'Rebuilding Phase',
+  expressive: 'Expressive Phase',
+  protective: 'Protective Phase',
+};
 
 function clamp(n: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, n));
@@ -155,7 +156,7 @@ function shortPhaseCue(phaseKey: string | null | undefined): string {
 
 
 type CalendarMarker = {
-  key: 'period' | 'ovulation' | 'experiment' | 'sex';
+  key: 'period' | 'ovulation' | 'unusual' | 'experiment' | 'sex';
   priority: number;
   label: string;
   icon: React.ReactNode;
@@ -164,6 +165,7 @@ type CalendarMarker = {
 function getCalendarMarkers(args: {
   isPeriod: boolean;
   isPredictedOvulation: boolean;
+  unusual: AnomalyDay[];
   hasExperiment: boolean;
   hasSex: boolean;
 }): CalendarMarker[] {
@@ -186,10 +188,18 @@ function getCalendarMarkers(args: {
       icon: <Sparkles {...iconProps} aria-hidden="true" />,
     });
   }
+  if (args.unusual.length) {
+    markers.push({
+      key: 'unusual',
+      priority: 3,
+      label: `Unusual for you: ${args.unusual.map(describeAnomalyDay).join(', ')}`,
+      icon: <Activity {...iconProps} aria-hidden="true" />,
+    });
+  }
   if (args.hasExperiment) {
     markers.push({
       key: 'experiment',
-      priority: 3,
+      priority: 4,
       label: 'Experiment active',
       icon: <FlaskConical {...iconProps} aria-hidden="true" />,
     });
@@ -197,7 +207,7 @@ function getCalendarMarkers(args: {
   if (args.hasSex) {
     markers.push({
       key: 'sex',
-      priority: 4,
+      priority: 5,
       label: 'Sex logged',
       icon: <Heart {...iconProps} aria-hidden="true" />,
     });
@@ -216,79 +226,15 @@ function MoodIcon({ mood, className, size = 20 }: { mood?: number; className?: s
 }
 
 
-function getCycleStarts(entriesSorted: CheckInEntry[]): string[] {
-  const starts: string[] = [];
-
-  // We want to avoid treating a single day of very light / breakthrough spotting as a new cycle.
-  // Heuristic:
-  // - A clear bleed (flow >= 3 on a 0–10 scale) after no flow counts as a new cycle start
-  // - Spotting (flow 1–2) only counts if there are 2 consecutive spotting days
-  // - Manual override (cycleStartOverride) always counts as a new cycle start
-  let prevFlow = 0;
-  let spottingStreak = 0;
-  let spottingStreakStartISO: string | null = null;
-
-  for (const e of entriesSorted) {
-    const flowVal = e?.values?.flow;
-    const flow = typeof flowVal === 'number' ? flowVal : 0;
-    const override = Boolean(e?.cycleStartOverride);
-    const breakthrough = Boolean(e?.breakthroughBleed);
-    const effectiveFlow = breakthrough ? 0 : flow;
-
-    // Breakthrough/spotting flagged by the user should never start a cycle. Treat it as 'no flow' for cycle logic.
-    if (breakthrough && !override) {
-      prevFlow = 0;
-      spottingStreak = 0;
-      spottingStreakStartISO = null;
-      continue;
-    }
-
-    if (override) {
-      starts.push(e.dateISO);
-      // Keep state moving in case the user also logged flow the same day.
-      prevFlow = flow;
-      spottingStreak = 0;
-      spottingStreakStartISO = null;
-      continue;
-    }
-
-    const isBleed = effectiveFlow >= 3;
-    const isSpotting = effectiveFlow > 0 && effectiveFlow < 3;
-
-    if (isBleed && prevFlow === 0) {
-      starts.push(e.dateISO);
-      spottingStreak = 0;
-      spottingStreakStartISO = null;
-    } else if (isSpotting) {
-      if (spottingStreak === 0) spottingStreakStartISO = e.dateISO;
-      spottingStreak += 1;
-
-      // Only promote spotting to a cycle start if we see two consecutive spotting days and we were previously at zero.
-      if (prevFlow === 0 && spottingStreak >= 2 && spottingStreakStartISO) {
-        starts.push(spottingStreakStartISO);
-        // prevent repeated pushes on longer streaks
-        spottingStreak = 2;
-      }
-    } else {
-      spottingStreak = 0;
-      spottingStreakStartISO = null;
-    }
-
-    prevFlow = flow;
-  }
-
-  return Array.from(new Set(starts)).sort((a, b) => a.localeCompare(b));
-}
-
-
 function getOverlayValue(entry: CheckInEntry | null | undefined, key: SymptomKey | 'mood'): number | null {
   if (!entry) return null;
   if (key === 'mood') {
-    const m = entry.mood;
+    const m = getDayMood(entry);
     if (typeof m !== 'number') return null;
     return clamp(m, 1, 3);
   }
-  const v = entry?.values?.[key];
+  // Multiple check-ins on one day are rolled up per metric (eg pain uses the peak)
+  const v = getDayValue(entry, key);
   if (typeof v !== 'number') return null;
 
   // We have had a couple of different storage scales over time:
@@ -315,6 +261,11 @@ function overlayLabel(key: SymptomKey | 'mood'): string {
     acidReflux: 'Acid reflux',
     hotFlushes: 'Hot flushes',
     restlessLegs: 'Restless legs',
+    pelvicGirdlePain: 'Pelvic girdle pain',
+    lochia: 'Postpartum bleeding',
+    afterPains: 'After-pains',
+    perinealPain: 'Perineal pain',
+    nipplePain: 'Nipple pain',
     focus: 'Focus',
   };
   if (map[key]) return map[key]!;
@@ -334,8 +285,10 @@ export function CalendarView({ userData, onNavigate, onOpenCheckIn, onUpdateUser
   const { experiment } = useExperiment();
   const entriesSorted = useMemo(() => sortByDateAsc(entries), [entries]);
 
-  const cycleStats = useMemo(() => computeCycleStats(entriesSorted), [entriesSorted]);
-  const avgLen = cycleStats?.avgLength ?? null;
+  const cycleEngine = useMemo(
+    () => buildCycleEngine(entriesSorted, userData),
+    [entriesSorted, userData.hormonalRegimens, userData.pregnancies, userData.cycleTrackingMode, userData.goal, userData.ovulationOverrideISOs, userData.ovulationDetectedISOs]
+  );
 
   const [monthCursor, setMonthCursor] = useState(() => startOfMonth(new Date()));
   type OverlayKey = SymptomKey | 'mood';
@@ -422,134 +375,39 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
   const cycleEnabled = userData.cycleTrackingMode === 'cycle';
   const fertilityEnabled = Boolean(userData.fertilityMode) && cycleEnabled;
 
-  const ovulationSet = useMemo(() => {
-    const legacy = Array.isArray(userData.ovulationOverrideISOs)
-      ? (userData.ovulationOverrideISOs as string[])
-      : [];
-    const entryOverrides = entriesSorted
-      .filter((entry: any) => Boolean((entry as any)?.ovulationOverride))
-      .map((entry) => entry.dateISO);
-    return new Set([...legacy, ...entryOverrides]);
-  }, [userData.ovulationOverrideISOs, entriesSorted]);
-
-  const cycleStarts = cycleEnabled ? (cycleStats?.cycleStarts ?? []) : [];
-
-  const predictedOvulationSet = useMemo(() => {
-    const s = new Set<string>();
-    if (!fertilityEnabled) return s;
-
-    if (ovulationSet.size > 0) {
-      for (const iso of Array.from(ovulationSet)) s.add(iso);
-      return s;
-    }
+  // Period, predicted period, ovulation and fertile shading, all from the cycle engine
+  const calendarDays = useMemo(
+    () => getCalendarDays(entriesSorted, userData, cycleEngine, todayISO),
+    [entriesSorted, userData.cycleTrackingMode, userData.fertilityMode, userData.ovulationOverrideISOs, userData.ovulationDetectedISOs, cycleEngine, todayISO]
+  );
+  const { ovulation: ovulationSet, period: periodSet, predictedPeriod: predictedPeriodSet, predictedOvulation: predictedOvulationSet, fertile: fertileSet } = calendarDays;
 
-    if (cycleStarts.length === 0) return s;
+  const bleedStarts = useMemo(() => getBleedStarts(entriesSorted, userData), [entriesSorted, userData.hormonalRegimens, userData.pregnancies]);
 
-    const fallbackLen = avgLen ?? cycleStats?.lastLength ?? 28;
-    for (let i = 0; i < cycleStarts.length; i++) {
-      const startISO = cycleStarts[i];
-      const nextStartISO = cycleStarts[i + 1] ?? addDaysISO(startISO, fallbackLen);
-      const cycleLen = daysBetweenISO(startISO, nextStartISO);
-      const latestAllowed = Math.max(10, cycleLen - 10);
-      const ovulationDay = clamp(cycleLen - 14, 10, latestAllowed);
-      s.add(addDaysISO(startISO, ovulationDay));
-    }
-    return s;
-  }, [fertilityEnabled, ovulationSet, cycleStarts, avgLen, cycleStats?.lastLength]);
+  // Luteal phase length from confirmed ovulations (BBT/LH or marked by hand)
+  const lutealStats = useMemo(
+    () => getLutealStats(entriesSorted, Array.from(ovulationSet), userData),
+    [entriesSorted, ovulationSet, userData.hormonalRegimens, userData.pregnancies]
+  );
+
+  // Days well away from this person's own usual (rolling, phase-aware baseline)
+  const anomalyDays = useMemo(() => detectAnomalies(entriesSorted, userData).days, [entriesSorted, userData]);
 
   const rhythmModel = useMemo(() => getRhythmModel(entriesSorted, userData, todayISO), [entriesSorted, userData, todayISO]);
   const rhythmTiming = useMemo(() => getRhythmTimingModel(entriesSorted as any, userData), [entriesSorted, userData]);
   const rhythmContextLabel = useMemo(() => {
-    const map: Record<string, string> = {
-      reset: 'Reset Phase',
-      rebuilding: 'Rebuilding Phase',
-      expressive: 'Expressive Phase',
-      protective: 'Protective Phase',
-    };
-    return map[String(rhythmModel.phaseKey || '')] ?? 'Rhythm';
+    return PHASE_LABELS[String(rhythmModel.phaseKey || '')] ?? 'Rhythm';
   }, [rhythmModel.phaseKey]);
 
-  // Build period + fertile windows
-  const periodSet = useMemo(() => {
-    const s = new Set<string>();
-    if (!cycleEnabled) return s;
-
-    // 1) Always shade days where the user actually logged bleeding/spotting.
-    const byISO = new Map<string, any>();
-    for (const e of entriesSorted) byISO.set(e.dateISO, e);
-
-    const loggedBleed = (iso: string): boolean => {
-      const e = byISO.get(iso);
-      const flowVal = e?.values?.flow;
-      const flow = typeof flowVal === 'number' ? flowVal : 0;
-      return flow > 0;
-    };
-
-    for (const e of entriesSorted) {
-      if (loggedBleed(e.dateISO)) s.add(e.dateISO);
-    }
-
-    // 2) Provisional 7-day window after a cycle start.
-    //    This is a *starting point* and gets trimmed if the user logs bleeding down to zero early.
-    for (const startISO of cycleStarts) {
-      let seenPositive = false;
-      let stopAfterISO: string | null = null;
-
-      for (let i = 0; i < 7; i++) {
-        const dayISO = addDaysISO(startISO, i);
-        const e = byISO.get(dayISO);
-        const breakthrough = Boolean(e?.breakthroughBleed);
-        const flowVal = e?.values?.flow;
-        const flow = typeof flowVal === 'number' ? flowVal : 0;
-        const effectiveFlow = breakthrough ? 0 : flow;
-
-        if (effectiveFlow > 0) seenPositive = true;
-
-        // If the user has been bleeding and then explicitly logs 0, treat that as the end.
-        if (seenPositive && effectiveFlow === 0) {
-          stopAfterISO = dayISO;
-          break;
-        }
-
-        s.add(dayISO);
-      }
-
-      if (stopAfterISO) {
-        // remove stop day and anything after it in the provisional window
-        for (let i = 0; i < 7; i++) {
-          const dayISO = addDaysISO(startISO, i);
-          if (dayISO >= stopAfterISO) s.delete(dayISO);
-        }
-      }
-    }
-
-    return s;
-  }, [cycleEnabled, entriesSorted, cycleStarts]);
-
-  const fertileSet = useMemo(() => {
-    const s = new Set<string>();
-    if (!fertilityEnabled) return s;
-
-    if (predictedOvulationSet.size === 0) return s;
-
-    for (const ovISO of Array.from(predictedOvulationSet)) {
-      for (let d = -5; d <= 1; d++) {
-        const dayISO = addDaysISO(ovISO, d);
-        if (periodSet.has(dayISO)) continue;
-        s.add(dayISO);
-      }
-    }
-    return s;
-  }, [fertilityEnabled, periodSet, predictedOvulationSet]);
-
   const summaryModal = useMemo(() => {
     if (!summaryISO) return null;
     const e = byISO.get(summaryISO);
     const hasEntry = Boolean(e);
     const influences = influencesFromEntry(e);
     const note = typeof (e as any)?.notes === 'string' ? String((e as any).notes).trim() : '';
-    const moodNum = (e as any)?.mood as number | undefined;
+    const moodNum = getDayMood(e) as number | undefined;
     const mood = moodLabel(moodNum);
+    const slotTimes = getEntrySlots(e).map((slot) => timeOfDayLabel(slot.timeOfDay));
     const sexLogged = Boolean((e as any)?.events?.sex);
     const experimentActive = isExperimentActiveOnISO(experiment, summaryISO);
 
@@ -571,7 +429,7 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
     const enabled = Array.isArray(userData.enabledModules) ? (userData.enabledModules as SymptomKey[]) : [];
     const rows: Array<{ label: string; value: string }> = [];
     for (const k of enabled) {
-      const vRaw = (e as any)?.values?.[k];
+      const vRaw = getDayValue(e, k);
       if (typeof vRaw !== 'number') continue;
       const v = vRaw > 10 ? Math.round(vRaw / 10) : vRaw;
       rows.push({ label: overlayLabel(k), value: `${clamp(v, 0, 10)}/10` });
@@ -579,23 +437,13 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
     const topRows = rows.slice(0, 5);
 
     const isPeriod = periodSet.has(summaryISO);
+    const isPredictedPeriod = predictedPeriodSet.has(summaryISO);
     const isFertile = fertileSet.has(summaryISO);
     const isOv = fertilityEnabled && predictedOvulationSet.has(summaryISO);
+    const unusual = anomalyDays[summaryISO] ?? [];
 
-    const summaryPhase = (() => {
-      if (isPeriod) return 'Reset Phase';
-      const cycleStart = [...cycleStarts].reverse().find((startISO) => startISO <= summaryISO) ?? null;
-      if (cycleStart) {
-        const dayInCycle = daysBetweenISO(cycleStart, summaryISO) + 1;
-        const cycleLen = avgLen ?? cycleStats?.lastLength ?? 28;
-        const ovulationDay = Math.max(10, Math.min(cycleLen - 10, cycleLen - 14));
-        if (dayInCycle <= 5) return 'Reset Phase';
-        if (isOv || Math.abs(dayInCycle - ovulationDay) <= 1) return 'Expressive Phase';
-        if (dayInCycle < ovulationDay) return 'Rebuilding Phase';
-        return 'Protective Phase';
-      }
-      return estimatePhaseByFlow(summaryISO, entriesSorted) ?? null;
-    })();
+    const summaryDay = cycleEngine.dayInfo(summaryISO);
+    const summaryPhase = summaryDay ? PHASE_LABELS[summaryDay.phaseKey] : null;
 
     return (
       <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -624,6 +472,9 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
             {mood ? (
               <div className="mt-1 text-sm text-[rgb(var(--color-text-secondary))]">Mood: {mood}</div>
             ) : null}
+            {slotTimes.length > 1 ? (
+              <div className="mt-1 text-sm text-[rgb(var(--color-text-secondary))]">Checked in: {slotTimes.join(', ')}</div>
+            ) : null}
           </div>
 
           {!hasEntry ? (
@@ -635,9 +486,27 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
 
           {(() => {
             const pills: Array<{ key: string; text: string }> = [];
-            if (isPeriod) pills.push({ key: 'period', text: 'Period day' });
+            if (isPeriod) {
+              // Bleeds on the pill / patch / ring get their own label
+              const flowNow = getDayValue(e, 'flow') ?? 0;
+              const bleed = flowNow > 0 ? [...bleedStarts].reverse().find((b) => b.dateISO <= summaryISO) : null;
+              const text =
+                bleed?.kind === 'withdrawal' ? 'Withdrawal bleed' : bleed?.kind === 'breakthrough' ? 'Breakthrough bleed' : 'Period day';
+              pills.push({ key: 'period', text });
+            }
+            if (isPredictedPeriod && cycleEngine.nextPeriod) {
+              pills.push({ key: 'predicted', text: `Period may start (${cycleEngine.nextPeriod.confidence} confidence)` });
+            }
             if (isFertile) pills.push({ key: 'fertile', text: isOv ? 'Ovulation day' : 'Fertile window' });
             if (sexLogged) pills.push({ key: 'sex', text: 'Sex logged' });
+            if (fertilityEnabled) {
+              const f: any = (e as any)?.fertility;
+              if (typeof f?.bbt === 'number') pills.push({ key: 'bbt', text: `BBT ${formatBbt(f.bbt, userData.measurementUnits?.temperature)}${f.bbtDisturbed ? ' (disturbed)' : ''}` });
+              if (f?.cervicalMucus) pills.push({ key: 'cm', text: `Mucus: ${CERVICAL_MUCUS_LABELS[f.cervicalMucus as CervicalMucus] ?? f.cervicalMucus}` });
+              if (f?.lhTest) pills.push({ key: 'lh', text: `LH test: ${LH_TEST_LABELS[f.lhTest as LhTestResult] ?? f.lhTest}` });
+              if (f?.pregnancyTest) pills.push({ key: 'hcg', text: `Pregnancy test: ${PREGNANCY_TEST_LABELS[f.pregnancyTest as PregnancyTestResult] ?? f.pregnancyTest}` });
+            }
+            for (const day of unusual) pills.push({ key: `unusual:${day.metric}`, text: describeAnomalyDay(day) });
             if (experimentActive) pills.push({ key: 'experiment', text: 'Experiment active' });
             for (const inf of influences) pills.push({ key: `inf:${inf}`, text: inf });
 
@@ -745,17 +614,19 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
     summaryISO,
     byISO,
     userData.enabledModules,
+    userData.measurementUnits,
     sleepPeekOpen,
     periodSet,
+    predictedPeriodSet,
     fertileSet,
     predictedOvulationSet,
     fertilityEnabled,
     onOpenCheckIn,
-    cycleStarts,
-    avgLen,
-    cycleStats?.lastLength,
+    cycleEngine,
     entriesSorted,
     experiment,
+    bleedStarts,
+    anomalyDays,
   ]);
 
   const cycleEditModal = useMemo(() => {
@@ -790,7 +661,14 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
 
     const setFlow = (v: number) => {
       const base = ensureEntry();
-      const next = { ...base, values: { ...(base.values ?? {}), flow: v } };
+      // Calendar edits set the day's flow directly, so drop any per-slot flow that would outrank it.
+      const slots = Array.isArray(base.slots)
+        ? base.slots.map((slot: any) => {
+            const { flow: _flow, ...rest } = slot?.values ?? {};
+            return { ...slot, values: rest };
+          })
+        : base.slots;
+      const next = { ...base, values: { ...(base.values ?? {}), flow: v }, slots };
       saveEntry(next);
     };
 
@@ -938,6 +816,7 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
             const entry = byISO.get(iso);
 
             const isPeriod = periodSet.has(iso);
+            const isPredictedPeriod = predictedPeriodSet.has(iso);
             const isFertile = fertileSet.has(iso);
 
             // Overlay bar intensity
@@ -955,6 +834,7 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
             const dayMarkers = getCalendarMarkers({
               isPeriod,
               isPredictedOvulation,
+              unusual: anomalyDays[iso] ?? [],
               hasExperiment,
               hasSex,
             });
@@ -973,7 +853,13 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
                 style={{
                   // IMPORTANT: our CSS vars store space-separated RGB values (e.g. "132 155 130").
                   // Use the modern `rgb(R G B / a)` syntax (NOT rgba(var(--color-*), a)).
-                  background: isPeriod ? `rgb(var(--color-primary-dark) / 0.16)` : undefined,
+                  background: isPeriod
+                    ? `rgb(var(--color-primary-dark) / 0.16)`
+                    : isPredictedPeriod
+                      ? `rgb(var(--color-primary-dark) / 0.07)`
+                      : undefined,
+                  borderStyle: isPredictedPeriod ? 'dashed' : undefined,
+                  borderColor: isPredictedPeriod ? 'rgb(var(--color-primary-dark) / 0.35)' : undefined,
                 }}
               >
                 <div className="flex h-full min-h-[48px] flex-col">
@@ -1031,6 +917,19 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
                 </div>
               )}
 
+              {cycleEnabled && cycleEngine.nextPeriod && (
+                <div className="flex items-center gap-2">
+                  <span
+                    className="w-4 h-3 rounded-md"
+                    style={{
+                      background: 'rgb(var(--color-primary-dark) / 0.07)',
+                      border: '1px dashed rgb(var(--color-primary-dark) / 0.35)',
+                    }}
+                  />
+                  <span>Period likely to start</span>
+                </div>
+              )}
+
               {fertilityEnabled && (
                 <div className="flex items-center gap-2">
                   <span
@@ -1054,6 +953,19 @@ function isAllowedOverlayKey(v: any, allowed: OverlayKey[]): v is OverlayKey {
                   <span>Predicted ovulation</span>
                 </div>
               )}
+              {fertilityEnabled && lutealStats.avgLength != null && (
+                <div className="flex items-center gap-2">
+                  <Sparkles size={11} strokeWidth={1.75} className="opacity-0" />
+                  <span>
+                    Luteal phase ~{lutealStats.avgLength} days (from {lutealStats.lengths.length} confirmed{' '}
+                    {lutealStats.lengths.length === 1 ? 'ovulation' : 'ovulations'})
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Activity size={11} strokeWidth={1.75} className="opacity-80 text-[rgb(var(--color-primary-dark))]" />
+                <span>Unusual for you</span>
+              </div>
               <div className="flex items-center gap-2">
                 <FlaskConical size={11} strokeWidth={1.75} className="opacity-80 text-[rgb(var(--color-primary-dark))]" />
                 <span>Experiment active</span>
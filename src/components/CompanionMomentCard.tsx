@@ -1,7 +1,9 @@
 import React from 'react';
-import { Activity, FlaskConical, RefreshCw, Sparkles, Star, X } from 'lucide-react';
+import { Activity, CalendarDays, FlaskConical, Stethoscope, RefreshCw, Sparkles, Star, Sun, X } from 'lucide-react';
+import type { UserData } from '../types';
 import type { CompanionMoment } from '../lib/companionMoments';
 import { dismissMoment } from '../lib/companionMoments';
+import { getGoalPreset } from '../lib/goalPresets';
 import { inferPendingExperimentLaunchFromText, queuePendingExperimentLaunch } from '../lib/experimentLaunch';
 import { phaseLabelFromKey } from '../lib/phaseChange';
 
@@ -18,6 +20,12 @@ function iconForType(type: CompanionMoment['type']) {
       return <Sparkles className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
     case 'rhythm_shift':
       return <Activity className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
+    case 'cycle_diagnostic':
+      return <Stethoscope className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
+    case 'unusual_days':
+      return <CalendarDays className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
+    case 'menopause_milestone':
+      return <Sun className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
     default:
       return <Star className="w-5 h-5 text-[rgb(var(--color-primary))]" />;
   }
@@ -76,6 +84,30 @@ function copyForMoment(moment: CompanionMoment): { eyebrow?: string; title: stri
         button: 'View rhythm',
         screen: 'rhythm',
       };
+    case 'menopause_milestone':
+      return {
+        eyebrow: 'A milestone',
+        title: typeof data.title === 'string' ? data.title : '12 months without a period',
+        body: typeof data.body === 'string' ? data.body : 'A full year without a period is the usual marker for menopause.',
+        button: 'Switch to post-menopause',
+        screen: 'rhythm',
+      };
+    case 'cycle_diagnostic':
+      return {
+        eyebrow: data.severity === 'see_gp' ? 'Worth mentioning to your GP' : 'Worth keeping an eye on',
+        title: typeof data.title === 'string' ? data.title : 'Something in your cycle stood out',
+        body: typeof data.body === 'string' ? data.body : 'Your logged bleeding has shown something worth a closer look.',
+        button: 'View calendar',
+        screen: 'calendar',
+      };
+    case 'unusual_days':
+      return {
+        eyebrow: 'Unusual for you',
+        title: typeof data.title === 'string' ? data.title : 'The last few days look different from your usual',
+        body: typeof data.body === 'string' ? data.body : 'Something has been sitting well away from what is normal for you.',
+        button: 'View calendar',
+        screen: 'calendar',
+      };
     case 'unlock_milestone':
       return {
         eyebrow: 'For you',
@@ -96,11 +128,26 @@ function copyForMoment(moment: CompanionMoment): { eyebrow?: string; title: stri
   }
 }
 
-export function CompanionMomentCard(props: { moment: CompanionMoment; onNavigate: (screen: string) => void; onDismiss?: () => void }) {
+export function CompanionMomentCard(props: {
+  moment: CompanionMoment;
+  onNavigate: (screen: string) => void;
+  onDismiss?: () => void;
+  onUpdateUserData?: (updater: (prev: UserData) => UserData) => void;
+}) {
   const copy = copyForMoment(props.moment);
 
   const handlePrimaryAction = () => {
     const data = props.moment.data ?? {};
+    if (props.moment.type === 'menopause_milestone' && props.onUpdateUserData) {
+      const finalPeriodISO = typeof data.finalPeriodISO === 'string' ? data.finalPeriodISO : null;
+      // Keep what they already track, just switch the cycle side off
+      const { enabledModules: _m, enabledInfluences: _i, ...preset } = getGoalPreset('postmenopause') ?? {};
+      props.onUpdateUserData((prev) => ({ ...prev, ...preset, goal: 'postmenopause', finalPeriodISO }));
+      dismissMoment(props.moment.id);
+      props.onDismiss?.();
+      props.onNavigate(copy.screen);
+      return;
+    }
     if (props.moment.type === 'experiment_suggestion') {
       const inferred = inferPendingExperimentLaunchFromText(
         typeof data.title === 'string' ? data.title : copy.title,
@@ -139,6 +186,13 @@ export function CompanionMomentCard(props: { moment: CompanionMoment; onNavigate
           <div className="text-xs uppercase tracking-[0.08em] text-[rgba(0,0,0,0.52)] font-semibold">{copy.eyebrow ?? 'For you'}</div>
           <h3 className="mt-1 mb-1">{copy.title}</h3>
           <p className="text-sm text-[rgba(0,0,0,0.68)]">{copy.body}</p>
+          {props.moment.type === 'cycle_diagnostic' && Array.isArray(props.moment.data?.evidence) ? (
+            <ul className="mt-2 space-y-0.5 text-xs text-[rgba(0,0,0,0.58)] list-disc pl-4">
+              {(props.moment.data?.evidence as unknown[]).slice(0, 4).map((line, i) => (
+                <li key={i}>{String(line)}</li>
+              ))}
+            </ul>
+          ) : null}
           <div className="mt-4 flex flex-wrap gap-3">
             <button type="button" className="eb-btn-primary" onClick={handlePrimaryAction}>{copy.button}</button>
             <button
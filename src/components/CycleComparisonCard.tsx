@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Layers } from 'lucide-react';
+
+import type { CheckInEntry, ExperimentHistoryItem, ExperimentPlan, SymptomKey, UserData } from '../types';
+import type { PhaseKey } from '../lib/analytics';
+import { cycleAverage, getCycleDayRows, getCycleSummaries } from '../lib/cycleSummary';
+import { SYMPTOM_META } from '../lib/symptomMeta';
+import { getMixedChartColors } from '../lib/chartPalette';
+
+type Props = {
+  entries: CheckInEntry[];
+  userData: UserData;
+  experiments: Array<ExperimentHistoryItem | ExperimentPlan>;
+};
+
+const PHASES: Array<{ key: PhaseKey; label: string }> = [
+  { key: 'reset', label: 'Reset' },
+  { key: 'rebuilding', label: 'Rebuilding' },
+  { key: 'expressive', label: 'Expressive' },
+  { key: 'protective', label: 'Protective' },
+];
+
+const COUNTS = [3, 6];
+
+function shortDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+function metricName(key: SymptomKey | 'mood'): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key]?.label ?? key;
+}
+
+export function CycleComparisonCard({ entries, userData, experiments }: Props) {
+  const [count, setCount] = useState(3);
+
+  const summaries = useMemo(
+    () => getCycleSummaries(entries, userData, { count, experiments }),
+    [entries, userData, count, experiments]
+  );
+
+  const metricOptions = useMemo(() => {
+    const keys = (userData.enabledModules ?? []).filter((k) => k !== 'flow' && SYMPTOM_META[k]);
+    return [...keys, 'mood'] as Array<SymptomKey | 'mood'>;
+  }, [userData.enabledModules]);
+  const [metric, setMetric] = useState<SymptomKey | 'mood'>(() =>
+    (userData.enabledModules ?? []).includes('cramps') ? 'cramps' : metricOptions[0] ?? 'mood'
+  );
+  const activeMetric = metricOptions.includes(metric) ? metric : metricOptions[0] ?? 'mood';
+
+  const rows = useMemo(() => getCycleDayRows(entries, summaries, activeMetric), [entries, summaries, activeMetric]);
+  const colours = getMixedChartColors(summaries.length);
+
+  // First vs last cycle in view, plus anything that changed in between
+  const change = useMemo(() => {
+    // Completed cycles only, a cycle that's just started would skew it
+    const done = summaries.filter((s) => s.lengthDays != null);
+    if (done.length < 2) return null;
+    const first = done[0];
+    const last = done[done.length - 1];
+    const a = cycleAverage(rows, first.startISO);
+    const b = cycleAverage(rows, last.startISO);
+    if (a == null || b == null) return null;
+    const tried = Array.from(new Set(done.slice(1).flatMap((s) => s.experiments).filter((t) => !first.experiments.includes(t))));
+    return { first, last, a, b, diff: Math.round((b - a) * 10) / 10, tried };
+  }, [summaries, rows]);
+
+  if (summaries.length < 2) return null;
+
+  return (
+    <div className="eb-card mb-6">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 rounded-2xl bg-[rgb(var(--color-primary)/0.12)] flex items-center justify-center shrink-0">
+          <Layers className="w-5 h-5 text-[rgb(var(--color-primary-dark))]" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <h2 className="mb-0.5">Compare cycles</h2>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">Your last {summaries.length} cycles side by side, lined up by cycle day.</p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <select className="eb-input !w-auto !py-2 text-sm" value={activeMetric} onChange={(e) => setMetric(e.target.value as SymptomKey | 'mood')}>
+          {metricOptions.map((k) => (
+            <option key={k} value={k}>
+              {metricName(k)}
+            </option>
+          ))}
+        </select>
+        {COUNTS.map((n) => (
+          <button
+            key={n}
+            type="button"
+            onClick={() => setCount(n)}
+            className={`text-sm px-3 py-2 rounded-xl transition-colors ${
+              count === n ? 'bg-[rgb(var(--color-primary))] text-white' : 'bg-neutral-100 hover:bg-neutral-200'
+            }`}
+          >
+            Last {n}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.06)" />
+            <XAxis dataKey="cycleDay" tick={{ fontSize: 11 }} />
+            <YAxis domain={[0, 10]} tick={{ fontSize: 11 }} />
+            <Tooltip labelFormatter={(d) => `Cycle day ${d}`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {summaries.map((s, i) => (
+              <Line
+                key={s.startISO}
+                type="monotone"
+                dataKey={s.startISO}
+                name={`From ${shortDate(s.startISO)}`}
+                stroke={colours[i]}
+                strokeWidth={i === summaries.length - 1 ? 3 : 2}
+                dot={false}
+                connectNulls={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {change ? (
+        <div className="mt-3 eb-callout text-sm">
+          {metricName(activeMetric)} averaged {change.a}/10 in the cycle from {shortDate(change.first.startISO)} and {change.b}/10 in the
+          one from {shortDate(change.last.startISO)}
+          {Math.abs(change.diff) < 0.5 ? ', about the same.' : change.diff < 0 ? `, ${Math.abs(change.diff)} lower.` : `, ${change.diff} higher.`}
+          {change.tried.length ? ` In between you tried: ${change.tried.join(', ')}.` : ''}
+        </div>
+      ) : null}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-[rgb(var(--color-text-secondary))]">
+              <th className="py-2 pr-3 font-medium">Cycle</th>
+              <th className="py-2 pr-3 font-medium">Length</th>
+              <th className="py-2 pr-3 font-medium">Period</th>
+              <th className="py-2 pr-3 font-medium">Peak flow</th>
+              {PHASES.map((p) => (
+                <th key={p.key} className="py-2 pr-3 font-medium">
+                  {p.label}
+                </th>
+              ))}
+              <th className="py-2 pr-3 font-medium">Influences</th>
+              <th className="py-2 font-medium">Experiments</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries
+              .slice()
+              .reverse()
+              .map((s) => (
+                <tr key={s.startISO} className="border-t border-neutral-100 align-top">
+                  <td className="py-2 pr-3 whitespace-nowrap">{shortDate(s.startISO)}</td>
+                  <td className="py-2 pr-3 whitespace-nowrap">{s.lengthDays != null ? `${s.lengthDays} days` : 'Ongoing'}</td>
+                  <td className="py-2 pr-3 whitespace-nowrap">{s.periodDays != null ? `${s.periodDays} days` : '–'}</td>
+                  <td className="py-2 pr-3">{s.peakFlow != null ? `${s.peakFlow}/10` : '–'}</td>
+                  {PHASES.map((p) => (
+                    <td key={p.key} className="py-2 pr-3 text-xs">
+                      {(s.topSymptomsByPhase[p.key] ?? []).map((x) => `${SYMPTOM_META[x.key]?.label ?? x.key} ${x.avg}`).join(', ') || '–'}
+                    </td>
+                  ))}
+                  <td className="py-2 pr-3 text-xs">
+                    {s.influences.length ? s.influences.slice(0, 3).map((x) => `${x.label} ×${x.days}`).join(', ') : '–'}
+                  </td>
+                  <td className="py-2 text-xs">{s.experiments.length ? s.experiments.join(', ') : '–'}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
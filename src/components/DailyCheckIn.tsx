@@ -21,7 +21,7 @@ import {
   Plus,
 } from 'lucide-react';
 
-import type { CheckInEntry, SymptomKey, UserData, ExperimentPlan, InsightMetricKey } from '../types';
+import type { CheckInEntry, CheckInSlot, CheckInTimeOfDay, DrspItemKey, DrspRecord, FeedingMethod, FertilitySignals, HeadacheEpisode, MeasurementKey, SymptomKey, UserData, ExperimentPlan, InsightMetricKey } from '../types';
 
 import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
 import { EBDialogContent } from "./EBDialog";
@@ -30,6 +30,28 @@ import { isoFromDateLocal } from '../lib/date';
 import { useEntries, useExperiment } from '../lib/appStore';
 import { applyPhaseChangeForEntries, phaseLabelFromKey } from '../lib/phaseChange';
 import { hasResizeObserver } from '../lib/browserSafe';
+import { getEnabledCustomInfluences } from '../lib/customInfluences';
+import { MEDICATION_SCHEDULE_LABELS, formatMedicationDose, getActiveMedications, getMedicationAdherence } from '../lib/medications';
+import { TIME_OF_DAY_OPTIONS, getEntrySlots, otherSlots, rollUpSlots, slotValuesFor, timeOfDayFromDate, upsertSlot } from '../lib/checkInSlots';
+import { HeadacheEpisodesCard } from './HeadacheEpisodesCard';
+import { FEEDING_METHOD_LABELS } from '../lib/pregnancy';
+import { DRSP_ITEMS, DRSP_SCALE_LABELS } from '../lib/pmdd';
+import { classifyBleed } from '../lib/hormonalRegimen';
+import {
+  MEASUREMENT_DEFS,
+  displayUnitFor,
+  fromDisplayUnit,
+  getEnabledMeasurements,
+  getMeasurementUnits,
+  toDisplayUnit,
+} from '../lib/measurements';
+import {
+  CERVICAL_MUCUS_LABELS,
+  LH_TEST_LABELS,
+  PREGNANCY_TEST_LABELS,
+  normaliseBbtToC,
+  syncDetectedOvulations,
+} from '../lib/fertilitySignals';
 
 const INFLUENCE_DEFS: Array<{ key: string; label: string; hint: string }> = [
   {
@@ -104,6 +126,13 @@ const sliderMeta: Record<SymptomKey, { label: string; icon: React.ElementType; h
   breastTenderness: { label: 'Breast tenderness', icon: Heart, hint: 'Sore or tender breasts', leftLabel: 'None', rightLabel: 'Severe' },
   hotFlushes: { label: 'Hot flushes', icon: Sparkles, hint: 'Sudden heat and flushing', leftLabel: 'None', rightLabel: 'Severe' },
   nightSweats: { label: 'Night sweats', icon: Moon, hint: 'Waking sweaty at night', leftLabel: 'None', rightLabel: 'Severe' },
+  restlessLegs: { label: 'Restless legs', icon: Moon, hint: 'Urge to move your legs at night', leftLabel: 'None', rightLabel: 'Severe' },
+  swelling: { label: 'Swelling', icon: Droplet, hint: 'Puffy feet, ankles or hands', leftLabel: 'None', rightLabel: 'Severe' },
+  pelvicGirdlePain: { label: 'Pelvic girdle pain', icon: Heart, hint: 'Pain at the front or back of the pelvis', leftLabel: 'None', rightLabel: 'Severe' },
+  lochia: { label: 'Postpartum bleeding', icon: Droplet, hint: 'Bleeding after birth (lochia)', leftLabel: 'None', rightLabel: 'Heavy' },
+  afterPains: { label: 'After-pains', icon: Heart, hint: 'Cramping as the womb shrinks back', leftLabel: 'None', rightLabel: 'Severe' },
+  perinealPain: { label: 'Perineal / scar pain', icon: Heart, hint: 'Stitches, tears or caesarean scar', leftLabel: 'None', rightLabel: 'Severe' },
+  nipplePain: { label: 'Nipple / breast pain', icon: Heart, hint: 'Sore nipples or engorgement', leftLabel: 'None', rightLabel: 'Severe' },
 };
 
 function clamp(n: number, min: number, max: number) {
@@ -200,7 +229,7 @@ type SymptomCandidate = {
 const CORE_SYMPTOMS: SymptomKey[] = ['sleep', 'energy'];
 
 function symptomDefaultValue(key: SymptomKey): number {
-  if (key === 'flow' || key === 'nightSweats') return 0;
+  if (key === 'flow' || key === 'nightSweats' || key === 'lochia') return 0;
   return 5;
 }
 
@@ -496,6 +525,21 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
     return sliderMeta[k as SymptomKey]?.label ?? String(k);
   };
 
+  // Which part of the day this check-in is for (a day can have morning/afternoon/evening logs)
+  const [timeOfDay, setTimeOfDay] = useState<CheckInTimeOfDay>(() => timeOfDayFromDate(new Date()));
+
+  const loggedTimes = useMemo(() => new Set(getEntrySlots(existingEntry).map((s) => s.timeOfDay)), [existingEntry]);
+  const latestLoggedTime = useMemo(() => getEntrySlots(existingEntry).pop()?.timeOfDay ?? null, [existingEntry]);
+
+  useEffect(() => {
+    if (activeDateISO === todayISO) {
+      setTimeOfDay(timeOfDayFromDate(new Date()));
+      return;
+    }
+    // Editing a past day: open the latest check-in from that day
+    if (latestLoggedTime) setTimeOfDay(latestLoggedTime);
+  }, [activeDateISO, todayISO, latestLoggedTime]);
+
   const prevMoodLabel = useMemo(() => {
     const m = (prevEntry as any)?.mood as 1 | 2 | 3 | undefined;
     if (!m) return null;
@@ -508,6 +552,11 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
 
   const [values, setValues] = useState<Partial<Record<SymptomKey, number>>>({});
   const [customValues, setCustomValues] = useState<Record<string, number>>({});
+  // On a new check-in for a day that already has one, the sliders start at the day so far.
+  // Only the ones moved here belong to this check-in (null = everything on screen does).
+  const [touchedSliders, setTouchedSliders] = useState<Set<string> | null>(null);
+  const touchSlider = (key: string) =>
+    setTouchedSliders((prev) => (!prev || prev.has(key) ? prev : new Set(prev).add(key)));
   const [customiseOpen, setCustomiseOpen] = useState(false);
   const [symptomSearch, setSymptomSearch] = useState('');
 
@@ -525,6 +574,40 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
   const [influencesOpen, setInfluencesOpen] = useState(false);
   const [eventsState, setEventsState] = useState<Record<string, boolean>>({});
   const [exerciseIntensity, setExerciseIntensity] = useState<'light' | 'moderate' | 'hard' | null>(null);
+  // Custom influences, keyed by CustomInfluence.id
+  const [customEventsState, setCustomEventsState] = useState<Record<string, boolean>>({});
+  const enabledCustomInfluences = useMemo(() => getEnabledCustomInfluences(userData), [userData.customInfluences]);
+  // Doses taken today, keyed by medication id
+  const [medicationDoses, setMedicationDoses] = useState<Record<string, number>>({});
+  // Fertility awareness (only shown when fertilityMode is on). BBT is typed as text so "36." doesn't get eaten.
+  const [fertility, setFertility] = useState<FertilitySignals>({});
+  const [bbtInput, setBbtInput] = useState('');
+  const showFertility = Boolean(userData.fertilityMode);
+  // DRSP daily record (only shown when PMDD screening is on)
+  const [drsp, setDrsp] = useState<DrspRecord>({});
+  const showDrsp = Boolean(userData.pmddMode);
+  // Body measurements, typed in the user's units (kg/lb, °C/°F)
+  const [measurementInputs, setMeasurementInputs] = useState<Partial<Record<MeasurementKey, string>>>({});
+  const enabledMeasurements = useMemo(() => getEnabledMeasurements(userData), [userData.enabledMeasurements]);
+  const measurementUnits = getMeasurementUnits(userData);
+  // Feeding log (postpartum mode only). Feeds typed as text so the field can be cleared.
+  const [feedingMethod, setFeedingMethod] = useState<FeedingMethod | null>(null);
+  const [feedsInput, setFeedsInput] = useState('');
+  const showFeeding = userData.cycleTrackingMode === 'postpartum';
+  // Headache / migraine attacks that started on this day
+  const [headacheEpisodes, setHeadacheEpisodes] = useState<HeadacheEpisode[]>([]);
+  const showHeadacheDiary =
+    userData.enabledModules.includes('headache') || userData.enabledModules.includes('migraine') || headacheEpisodes.length > 0;
+
+  const activeMedications = useMemo(() => getActiveMedications(userData, activeDateISO), [userData.medications, activeDateISO]);
+
+  const medicationAdherence = useMemo(() => {
+    const out: Record<string, number | null> = {};
+    for (const med of activeMedications) {
+      out[med.id] = getMedicationAdherence(entries, med, { days: 30, todayISO: activeDateISO }).percent;
+    }
+    return out;
+  }, [activeMedications, entries, activeDateISO]);
 
   const visibleInfluences = useMemo(() => {
     const enabledKeys = Array.isArray(userData.enabledInfluences)
@@ -539,13 +622,19 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
   // Initialise when date changes or entry loaded
   useEffect(() => {
     if (existingEntry) {
-      setSelectedMood((existingEntry.mood as any) ?? null);
+      // Load this time-of-day's check-in if there is one, otherwise start from the day so far
+      const slots = getEntrySlots(existingEntry);
+      const slot = slots.find((s) => s.timeOfDay === timeOfDay) ?? null;
+      const source: CheckInSlot | CheckInEntry = slot ?? existingEntry;
+      setTouchedSliders(!slot && otherSlots(existingEntry, timeOfDay).length ? new Set() : null);
+
+      setSelectedMood(((slot ? slot.mood : slots.length ? null : existingEntry.mood) as any) ?? null);
       setNotes(existingEntry.notes ?? '');
 
       const nextVals: any = {};
       for (const k of userData.enabledModules) {
         if (!sliderMeta[k]) continue;
-        nextVals[k] = normalise10((existingEntry as any)?.values?.[k]);
+        nextVals[k] = normalise10(source.values?.[k]);
       }
       // Keep any other stored values too (even if module got turned off later)
       setValues({ ...((existingEntry.values as any) ?? {}), ...nextVals });
@@ -554,7 +643,7 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
       const nextCustom: Record<string, number> = {};
       for (const s of (userData.customSymptoms ?? [])) {
         if (!s?.enabled) continue;
-        const raw = (existingEntry as any)?.customValues?.[s.id];
+        const raw = source.customValues?.[s.id];
         nextCustom[s.id] = normalise10(raw) ?? 5;
       }
       setCustomValues({ ...((existingEntry as any)?.customValues ?? {}), ...nextCustom });
@@ -574,11 +663,28 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
       const ev = { ...((existingEntry as any)?.events ?? {}) } as Record<string, boolean>;
       setEventsState(ev);
       setExerciseIntensity(((existingEntry as any)?.eventsDetails?.exerciseIntensity as any) ?? null);
+      setCustomEventsState({ ...(existingEntry.customEvents ?? {}) });
+      setMedicationDoses({ ...(existingEntry.medicationDoses ?? {}) });
+      const f: FertilitySignals = existingEntry.fertility ?? {};
+      setFertility({ ...f });
+      setBbtInput(typeof f.bbt === 'number' ? String(f.bbt) : '');
+      setDrsp({ ...(existingEntry.drsp ?? {}) });
+      const storedMeasurements = existingEntry.measurements ?? {};
+      const nextInputs: Partial<Record<MeasurementKey, string>> = {};
+      for (const [k, v] of Object.entries(storedMeasurements) as Array<[MeasurementKey, number]>) {
+        if (typeof v === 'number' && MEASUREMENT_DEFS[k]) nextInputs[k] = String(toDisplayUnit(k, v, measurementUnits));
+      }
+      setMeasurementInputs(nextInputs);
+      setHeadacheEpisodes([...(existingEntry.headacheEpisodes ?? [])]);
+      const fd = existingEntry.feeding;
+      setFeedingMethod(fd?.method ?? null);
+      setFeedsInput(typeof fd?.feeds === 'number' ? String(fd.feeds) : '');
       setInfluencesOpen(false);
       return;
     }
 
     // Defaults for a fresh day
+    setTouchedSliders(null);
     setSelectedMood(null);
     setNotes('');
     const defaults: Partial<Record<SymptomKey, number>> = {};
@@ -613,8 +719,18 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
 
     setEventsState({});
     setExerciseIntensity(null);
+    setCustomEventsState({});
+    setMedicationDoses({});
+    setFertility({});
+    setBbtInput('');
+    setDrsp({});
+    setMeasurementInputs({});
+    setHeadacheEpisodes([]);
+    // Feeding method rarely changes day to day, so carry it over
+    setFeedingMethod(prevEntry?.feeding?.method ?? null);
+    setFeedsInput('');
     setInfluencesOpen(false);
-  }, [existingEntry, prevEntry, userData.enabledModules, userData.customSymptoms, activeDateISO]);
+  }, [existingEntry, prevEntry, userData.enabledModules, userData.customSymptoms, activeDateISO, timeOfDay]);
 
   // If someone turns Sleep details on/off mid-check-in, update just the sleep panel
   // without wiping anything else (like your ticked influences).
@@ -728,6 +844,12 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
 
     upsertEntry(entry as any);
 
+    // New BBT/LH data may confirm an ovulation - add it to the calendar
+    if (userData.fertilityMode && entry.fertility) {
+      const synced = syncDetectedOvulations(nextEntries, userData);
+      if (synced) onUpdateUserData((prev) => ({ ...prev, ...synced }));
+    }
+
     try {
       const today = isoToday();
       if (activeDateISO === today) {
@@ -751,7 +873,7 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
     }
 
     onDone();
-  }, [entries, upsertEntry, activeDateISO, userData, onDone]);
+  }, [entries, upsertEntry, activeDateISO, userData, onUpdateUserData, onDone]);
 
   const handleSubmit = () => {
     const now = new Date().toISOString();
@@ -760,6 +882,13 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
 
     // Normalise all tracked sliders to 0–10
     for (const k of enabledSliders) {
+      if (touchedSliders && !touchedSliders.has(k)) {
+        // Untouched on a new check-in: keep the day as it was
+        const prev = existingEntry?.values?.[k];
+        if (typeof prev === 'number') nextValues[k] = prev;
+        else delete nextValues[k];
+        continue;
+      }
       const v = normalise10((values as any)?.[k]);
       nextValues[k] = v;
     }
@@ -771,6 +900,67 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
       if (v) nextEvents[k] = true;
     }
 
+    // Custom influences: store enabled ones explicitly (false = "no"), so Insights can tell "no" from "not logged"
+    const nextCustomEvents: Record<string, boolean> = { ...(existingEntry?.customEvents ?? {}) };
+    for (const inf of enabledCustomInfluences) {
+      nextCustomEvents[inf.id] = Boolean(customEventsState[inf.id]);
+    }
+
+    // Medication doses (only for medications active on this day, and only the ones actually answered,
+    // so an untouched medication stays "not logged" rather than counting as a missed dose)
+    const nextMedicationDoses: Record<string, number> = {};
+    for (const med of activeMedications) {
+      const n = medicationDoses[med.id];
+      if (typeof n === 'number' && Number.isFinite(n)) nextMedicationDoses[med.id] = Math.max(0, Math.round(n));
+    }
+    // Keep the simple yes/no influence in sync so older insights still see it
+    if (Object.values(nextMedicationDoses).some((n) => n > 0)) nextEvents.medication = true;
+
+    // Fertility signals (BBT is always stored in °C)
+    let nextFertility: FertilitySignals | undefined = existingEntry?.fertility;
+    if (showFertility) {
+      const f: FertilitySignals = { ...fertility };
+      const bbtNum = bbtInput.trim() ? normaliseBbtToC(Number(bbtInput.replace(',', '.'))) : null;
+      if (bbtNum != null) f.bbt = bbtNum;
+      else {
+        delete f.bbt;
+        delete f.bbtTime;
+        delete f.bbtDisturbed;
+      }
+      for (const k of Object.keys(f) as Array<keyof FertilitySignals>) {
+        if (f[k] == null || f[k] === '' || f[k] === false) delete f[k];
+      }
+      nextFertility = Object.keys(f).length ? f : undefined;
+    }
+
+    let nextDrsp: DrspRecord | undefined = existingEntry?.drsp;
+    if (showDrsp) {
+      const r: DrspRecord = {};
+      for (const item of DRSP_ITEMS) {
+        const v = drsp[item.key];
+        if (typeof v === 'number' && v >= 1 && v <= 6) r[item.key] = v;
+      }
+      nextDrsp = Object.keys(r).length ? r : undefined;
+    }
+
+    // Measurements: convert back to storage units, drop anything blank or implausible
+    const nextMeasurements: Partial<Record<MeasurementKey, number>> = { ...(existingEntry?.measurements ?? {}) };
+    for (const k of enabledMeasurements) {
+      const raw = (measurementInputs[k] ?? '').trim().replace(',', '.');
+      const v = raw ? fromDisplayUnit(k, Number(raw), measurementUnits) : null;
+      if (v == null) delete nextMeasurements[k];
+      else nextMeasurements[k] = v;
+    }
+
+    let nextFeeding: CheckInEntry['feeding'] = existingEntry?.feeding;
+    if (showFeeding) {
+      const feeds = feedsInput.trim() ? Math.round(Number(feedsInput)) : null;
+      const fd: NonNullable<CheckInEntry['feeding']> = {};
+      if (feedingMethod) fd.method = feedingMethod;
+      if (feeds != null && feeds >= 0 && feeds <= 30) fd.feeds = feeds;
+      nextFeeding = Object.keys(fd).length ? fd : undefined;
+    }
+
     const nextEventsDetails: any = { ...((existingEntry as any)?.eventsDetails ?? {}) };
     if (eventsState.exercise) {
       if (exerciseIntensity) nextEventsDetails.exerciseIntensity = exerciseIntensity;
@@ -781,20 +971,41 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
 
     // Custom symptom values (0–10)
     const nextCustomValues: Record<string, number> = { ...((existingEntry as any)?.customValues ?? {}), ...(customValues ?? {}) };
+    const slotCustomValues: Record<string, number> = {};
     for (const s of enabledCustom) {
+      if (touchedSliders && !touchedSliders.has(`custom:${s.id}`)) {
+        const prev = existingEntry?.customValues?.[s.id];
+        if (typeof prev === 'number') nextCustomValues[s.id] = prev;
+        else delete nextCustomValues[s.id];
+        continue;
+      }
       const v = normalise10((customValues as any)?.[s.id]);
       if (v == null) continue;
       nextCustomValues[s.id] = v;
+      slotCustomValues[s.id] = v;
     }
 
+    // Save this as the morning/afternoon/evening check-in, then roll the day back up.
+    const slots = upsertSlot(existingEntry, {
+      timeOfDay,
+      loggedAt: now,
+      mood: selectedMood ?? undefined,
+      values: slotValuesFor(nextValues, enabledSliders, touchedSliders),
+      customValues: Object.keys(slotCustomValues).length ? slotCustomValues : undefined,
+    });
+    const dayView = rollUpSlots(slots);
+    Object.assign(nextValues, dayView.values);
+    Object.assign(nextCustomValues, dayView.customValues ?? {});
+
 
     const next: CheckInEntry = {
       id: existingEntry?.id ?? `${Date.now()}`,
       dateISO: activeDateISO,
-      mood: selectedMood ?? undefined,
+      mood: dayView.mood ?? selectedMood ?? undefined,
       notes: notes.trim() ? notes.trim() : undefined,
       values: nextValues,
       customValues: Object.keys(nextCustomValues).length ? nextCustomValues : undefined,
+      slots,
       sleepDetails: userData.sleepDetailsEnabled
         ? {
             timesWoke: sleepDetails.timesWoke,
@@ -803,6 +1014,17 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
           }
         : (existingEntry as any)?.sleepDetails,
       events: Object.keys(nextEvents).length ? nextEvents : undefined,
+      customEvents: Object.keys(nextCustomEvents).length ? nextCustomEvents : undefined,
+      medicationDoses: activeMedications.length
+        ? Object.keys(nextMedicationDoses).length
+          ? nextMedicationDoses
+          : undefined
+        : existingEntry?.medicationDoses,
+      fertility: nextFertility,
+      drsp: nextDrsp,
+      measurements: Object.keys(nextMeasurements).length ? nextMeasurements : undefined,
+      headacheEpisodes: headacheEpisodes.length ? headacheEpisodes : undefined,
+      feeding: nextFeeding,
       eventsDetails: Object.keys(nextEventsDetails).length ? nextEventsDetails : undefined,
       cycleStartOverride: (existingEntry as any)?.cycleStartOverride ?? undefined,
       createdAt: existingEntry?.createdAt ?? now,
@@ -817,21 +1039,28 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
         const scaled = v > 10 ? Math.round(v / 10) : v;
         return Math.max(0, Math.min(10, scaled));
       };
-      const todayFlow = to10((next as any)?.values?.flow);
+      const todayFlow = to10(next.values?.flow);
 
       const prev = entries.find((e) => e.dateISO === addDaysISO(activeDateISO, -1));
-      const prevFlowRaw = to10((prev as any)?.values?.flow);
-      const prevFlow = (prev as any)?.breakthroughBleed ? 0 : prevFlowRaw;
+      const prevFlowRaw = to10(prev?.values?.flow);
+      const prevFlow = prev?.breakthroughBleed ? 0 : prevFlowRaw;
 
       const startedBleeding = todayFlow > 0 && prevFlow === 0;
 
       // If we already marked this day as breakthrough previously, do not re-prompt.
-      const alreadyBreakthrough = Boolean((existingEntry as any)?.breakthroughBleed);
+      const alreadyBreakthrough = Boolean(existingEntry?.breakthroughBleed);
+
+      // On pill/patch/ring etc the regimen tells us what kind of bleed this is, so no need to ask.
+      const bleedKind = classifyBleed(userData, activeDateISO);
+      if (startedBleeding && !alreadyBreakthrough && bleedKind !== 'natural') {
+        saveEntryWithPhaseCheck(bleedKind === 'breakthrough' ? { ...next, breakthroughBleed: true } : next);
+        return;
+      }
 
       if (startedBleeding && !alreadyBreakthrough) {
         // If the user prefers not to be asked each time, auto-start the period.
         if (userData.autoStartPeriodFromBleeding) {
-          saveEntryWithPhaseCheck({ ...(next as any), cycleStartOverride: true, breakthroughBleed: undefined } as any);
+          saveEntryWithPhaseCheck({ ...next, cycleStartOverride: true, breakthroughBleed: undefined });
           return;
         }
 
@@ -841,7 +1070,7 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
       }
     }
 
-    saveEntryWithPhaseCheck(next as any);
+    saveEntryWithPhaseCheck(next);
   };
 
   return (
@@ -885,7 +1114,7 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
               className="eb-btn-secondary"
               onClick={() => {
                 if (!pendingEntry) return;
-                saveEntryWithPhaseCheck({ ...(pendingEntry as any), cycleStartOverride: undefined, breakthroughBleed: true } as any);
+                saveEntryWithPhaseCheck({ ...pendingEntry, cycleStartOverride: undefined, breakthroughBleed: true });
                 setPeriodPromptOpen(false);
                 setPendingEntry(null);
               }}
@@ -897,7 +1126,7 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
               className="eb-btn-primary"
               onClick={() => {
                 if (!pendingEntry) return;
-                saveEntryWithPhaseCheck({ ...(pendingEntry as any), cycleStartOverride: true, breakthroughBleed: undefined } as any);
+                saveEntryWithPhaseCheck({ ...pendingEntry, cycleStartOverride: true, breakthroughBleed: undefined });
                 setPeriodPromptOpen(false);
                 setPendingEntry(null);
               }}
@@ -977,6 +1206,31 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
           )}
         </div>
 
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <span className="text-sm text-[rgb(var(--color-text-secondary))]">Checking in for</span>
+          {TIME_OF_DAY_OPTIONS.map((opt) => {
+            const active = timeOfDay === opt.key;
+            const logged = loggedTimes.has(opt.key);
+            return (
+              <button
+                key={opt.key}
+                type="button"
+                onClick={() => setTimeOfDay(opt.key)}
+                aria-pressed={active}
+                className={
+                  active
+                    ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm'
+                    : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm'
+                }
+                title={logged ? `${opt.label} check-in saved` : undefined}
+              >
+                {opt.label}
+                {logged ? ' ✓' : ''}
+              </button>
+            );
+          })}
+        </div>
+
         {userData.cycleTrackingMode === 'no-cycle' && (
           <div className="eb-card p-5 mb-6">
             <p className="text-sm text-[rgb(var(--color-text-secondary))]">
@@ -1205,7 +1459,10 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
                   <Slider10
                     value={current}
                     onPreviewChange={(n) => setValues((prev) => (prev[key] === n ? prev : { ...prev, [key]: n }))}
-                    onCommit={(n) => setValues((prev) => ({ ...prev, [key]: n }))}
+                    onCommit={(n) => {
+                      touchSlider(key);
+                      setValues((prev) => ({ ...prev, [key]: n }));
+                    }}
                     leftLabel={meta.leftLabel}
                     rightLabel={meta.rightLabel}
                   />
@@ -1291,7 +1548,10 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
                                       <Slider10
                                         value={nsVal}
                                         onPreviewChange={(n) => setValues((prev) => (prev.nightSweats === n ? prev : { ...prev, nightSweats: n }))}
-                                        onCommit={(n) => setValues((prev) => ({ ...prev, nightSweats: n }))}
+                                        onCommit={(n) => {
+                                          touchSlider('nightSweats');
+                                          setValues((prev) => ({ ...prev, nightSweats: n }));
+                                        }}
                                         leftLabel={sliderMeta.nightSweats.leftLabel}
                                         rightLabel={sliderMeta.nightSweats.rightLabel}
                                       />
@@ -1346,7 +1606,10 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
                       <Slider10
                         value={current}
                         onPreviewChange={(n) => setCustomValues((prev) => (prev[s.id] === n ? prev : { ...prev, [s.id]: n }))}
-                        onCommit={(n) => setCustomValues((prev) => ({ ...prev, [s.id]: n }))}
+                        onCommit={(n) => {
+                          touchSlider(`custom:${s.id}`);
+                          setCustomValues((prev) => ({ ...prev, [s.id]: n }));
+                        }}
                         leftLabel={directionLabelsForCustom(s.label).leftLabel}
                         rightLabel={directionLabelsForCustom(s.label).rightLabel}
                       />
@@ -1428,11 +1691,264 @@ export function DailyCheckIn({ userData, onUpdateUserData, onDone, initialDateIS
                   ) : null}
                 </div>
               ))}
+
+              {enabledCustomInfluences.map((item) => (
+                <div key={item.id}>
+                  <SwitchRow
+                    checked={Boolean(customEventsState[item.id])}
+                    onChange={(checked) => setCustomEventsState((prev) => ({ ...prev, [item.id]: checked }))}
+                    label={item.label}
+                    hint="Your own influence."
+                  />
+                </div>
+              ))}
             </div>
           )}
         </div>
 
 
+        {/* Medications */}
+        {activeMedications.length > 0 && (
+          <div className="eb-card p-5 mb-6">
+            <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Medications and supplements</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+              Log what you took today. You can manage this list in Profile.
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 mt-4">
+              {activeMedications.map((med) => {
+                const taken = medicationDoses[med.id];
+                const max = med.schedule === 'twice_daily' ? 2 : med.schedule === 'as_needed' ? 6 : 1;
+                const dose = formatMedicationDose(med);
+                const adherence = medicationAdherence[med.id];
+                return (
+                  <div key={med.id} className="rounded-2xl border border-neutral-200 bg-white p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{med.name}</div>
+                        <div className="text-xs text-[rgb(var(--color-text-secondary))]">
+                          {[dose, MEDICATION_SCHEDULE_LABELS[med.schedule]].filter(Boolean).join(' · ')}
+                          {typeof adherence === 'number' ? ` · ${adherence}% taken (last 30 days)` : ''}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {Array.from({ length: max + 1 }, (_, n) => n).map((n) => (
+                        <button
+                          key={n}
+                          type="button"
+                          onClick={() => setMedicationDoses((prev) => ({ ...prev, [med.id]: n }))}
+                          aria-pressed={taken === n}
+                          className={
+                            taken === n
+                              ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm'
+                              : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm'
+                          }
+                        >
+                          {n === 0 ? 'Not taken' : max === 1 ? 'Taken' : `${n} ${n === 1 ? 'dose' : 'doses'}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Headache diary */}
+        {showHeadacheDiary && (
+          <HeadacheEpisodesCard
+            dateISO={activeDateISO}
+            episodes={headacheEpisodes}
+            onChange={setHeadacheEpisodes}
+            medications={activeMedications}
+            triggerOptions={[
+              ...visibleInfluences.map((x) => ({ key: x.key, label: x.label })),
+              ...enabledCustomInfluences.map((x) => ({ key: `influence:${x.id}`, label: x.label })),
+            ]}
+          />
+        )}
+
+        {/* Feeding (postpartum) */}
+        {showFeeding && (
+          <div className="eb-card p-5 mb-6">
+            <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Feeding</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+              Optional. Feeding can affect sleep, mood and when your period comes back.
+            </div>
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {(Object.keys(FEEDING_METHOD_LABELS) as FeedingMethod[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setFeedingMethod((prev) => (prev === m ? null : m))}
+                  className={
+                    feedingMethod === m ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm' : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm'
+                  }
+                >
+                  {FEEDING_METHOD_LABELS[m]}
+                </button>
+              ))}
+            </div>
+
+            <label className="block mt-4 text-xs text-[rgb(var(--color-text-secondary))]">
+              Feeds in the last 24 hours
+              <input
+                value={feedsInput}
+                onChange={(e) => setFeedsInput(e.target.value)}
+                inputMode="numeric"
+                className="mt-1 w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]"
+              />
+            </label>
+          </div>
+        )}
+
+        {/* Body measurements */}
+        {enabledMeasurements.length > 0 && (
+          <div className="eb-card p-5 mb-6">
+            <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Body measurements</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+              Optional. Leave blank if you didn't measure today. Units can be changed in Profile.
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mt-4">
+              {enabledMeasurements.map((k) => {
+                const raw = (measurementInputs[k] ?? '').trim().replace(',', '.');
+                const invalid = raw !== '' && fromDisplayUnit(k, Number(raw), measurementUnits) == null;
+                return (
+                  <label key={k} className="text-xs text-[rgb(var(--color-text-secondary))]">
+                    {MEASUREMENT_DEFS[k].label} ({displayUnitFor(k, measurementUnits)})
+                    <input
+                      value={measurementInputs[k] ?? ''}
+                      onChange={(e) => setMeasurementInputs((prev) => ({ ...prev, [k]: e.target.value }))}
+                      inputMode="decimal"
+                      className={`mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)] ${
+                        invalid ? 'border-[rgb(170,60,60)]' : 'border-neutral-200'
+                      }`}
+                    />
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Fertility signals */}
+        {showFertility && (
+          <div className="eb-card p-5 mb-6">
+            <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Fertility signs</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+              All optional. Take your temperature at the same time each morning, before getting up.
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mt-4">
+              <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                Basal body temp (°C or °F)
+                <input
+                  value={bbtInput}
+                  onChange={(e) => setBbtInput(e.target.value)}
+                  inputMode="decimal"
+                  placeholder="eg 36.45"
+                  className="mt-1 w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]"
+                />
+              </label>
+              <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                Taken at
+                <input
+                  type="time"
+                  value={fertility.bbtTime ?? ''}
+                  onChange={(e) => setFertility((prev) => ({ ...prev, bbtTime: e.target.value || undefined }))}
+                  className="mt-1 w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]"
+                />
+              </label>
+            </div>
+            {bbtInput.trim() && normaliseBbtToC(Number(bbtInput.replace(',', '.'))) == null && (
+              <div className="mt-2 text-xs text-[rgb(170,60,60)]">That doesn't look like a body temperature, so it won't be saved.</div>
+            )}
+            <div className="mt-2">
+              <SwitchRow
+                label="Reading might be off"
+                hint="Late night, alcohol, illness or broken sleep. We'll leave it out of ovulation detection."
+                checked={Boolean(fertility.bbtDisturbed)}
+                onChange={(v) => setFertility((prev) => ({ ...prev, bbtDisturbed: v }))}
+              />
+            </div>
+
+            {([
+              { key: 'cervicalMucus', title: 'Cervical mucus', labels: CERVICAL_MUCUS_LABELS },
+              { key: 'lhTest', title: 'Ovulation (LH) test', labels: LH_TEST_LABELS },
+              { key: 'pregnancyTest', title: 'Pregnancy test', labels: PREGNANCY_TEST_LABELS },
+            ] as const).map((group) => (
+              <div key={group.key} className="mt-4">
+                <div className="text-xs text-[rgb(var(--color-text-secondary))] mb-2">{group.title}</div>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(group.labels).map(([value, label]) => {
+                    const selected = fertility[group.key] === value;
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() =>
+                          setFertility((prev) => ({ ...prev, [group.key]: selected ? undefined : value }))
+                        }
+                        className={
+                          selected
+                            ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm'
+                            : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm'
+                        }
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* DRSP daily record */}
+        {showDrsp && (
+          <div className="eb-card p-5 mb-6">
+            <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Daily record of severity of problems</div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+              For PMDD screening. Rate today from 1 (not at all) to 6 (extreme). Anything you skip counts as 1.
+            </div>
+
+            <div className="mt-4 space-y-3">
+              {DRSP_ITEMS.map((item, idx) => (
+                <div key={item.key} className={item.impairment && !DRSP_ITEMS[idx - 1]?.impairment ? 'pt-3 border-t border-neutral-100' : ''}>
+                  <div className="text-sm mb-1.5">{item.label}</div>
+                  <div className="grid grid-cols-6 gap-1">
+                    {[1, 2, 3, 4, 5, 6].map((n) => {
+                      const selected = drsp[item.key as DrspItemKey] === n;
+                      return (
+                        <button
+                          key={n}
+                          type="button"
+                          aria-pressed={selected}
+                          title={DRSP_SCALE_LABELS[n]}
+                          onClick={() => setDrsp((prev) => ({ ...prev, [item.key]: selected ? undefined : n }))}
+                          className={
+                            selected
+                              ? 'eb-btn eb-btn-primary !py-1.5 !px-0 text-sm'
+                              : 'eb-btn eb-btn-secondary !py-1.5 !px-0 text-sm'
+                          }
+                        >
+                          {n}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Notes */}
         <div className="bg-gradient-to-br from-[rgb(var(--color-accent))] from-opacity-20 to-transparent rounded-2xl p-6 border border-[rgb(var(--color-accent))] border-opacity-30 mb-6">
           <div className="flex items-start gap-3">
@@ -1,10 +1,11 @@
 import React, { useMemo, useRef, useState } from 'react';
-import { Calendar, TrendingUp, Sparkles, ArrowRight, ChevronRight, Lightbulb, Upload } from 'lucide-react';
+import { Calendar, TrendingUp, Sparkles, ArrowRight, ChevronRight, Lightbulb, Upload, X } from 'lucide-react';
 import {
+  Area,
   CartesianGrid,
+  ComposedChart,
   Legend,
   Line,
-  LineChart,
   ResponsiveContainer,
   Tooltip,
   XAxis,
@@ -13,12 +14,28 @@ import {
 
 import type { DashboardMetric, SymptomKey, UserData, UserGoal } from '../types';
 import { useEntries, useExperiment } from '../lib/appStore';
-import { buildHomepageHeroModel, computeCycleStats, estimatePhaseByFlow, filterByDays, isoToday, sortByDateAsc } from '../lib/analytics';
+import { buildHomepageHeroModel, filterByDays, isoToday, sortByDateAsc } from '../lib/analytics';
+import { buildCycleEngine } from '../lib/cycleEngine';
+import { getRhythmModel } from '../lib/rhythmModel';
 import { isoFromDateLocal } from '../lib/date';
 import { getDailyTip } from '../lib/tips';
 import { importBackupFile, parseBackupJson, looksLikeInsightsExport } from '../lib/backup';
 import { getHighestPriorityMoment } from '../lib/companionMoments';
 import { generateMoments } from '../lib/generateMoments';
+import { useRankedInsights } from '../lib/insightClient';
+import { eventEffectsFromSignals } from '../lib/insightEngine';
+import { getPregnancyNote } from '../lib/pregnancy';
+import { customInfluenceMetricKey } from '../lib/customInfluences';
+import { EVENT_KEYS, eventEffectLabel } from '../lib/eventEffects';
+import { addPlannedInfluence, getPlannedInfluences, removePlannedInfluence } from '../lib/plannedInfluences';
+import {
+  describeForecastInfluence,
+  describeForecastScore,
+  forecastSymptoms,
+  recordForecasts,
+  scoreForecasts,
+  type SymptomForecast,
+} from '../lib/symptomForecast';
 import { CompanionMomentCard } from './CompanionMomentCard';
 
 interface DashboardProps {
@@ -93,13 +110,40 @@ function metricValue(entry: any | undefined, metric: DashboardMetric): number |
   return typeof v === 'number' ? v : undefined;
 }
 
-function buildWeekSeries(dateISOs: string[], entriesByDate: Map<string, any>, metrics: DashboardMetric[]) {
-  return dateISOs.map((iso) => {
+// Forecasts use the 2/5/8 mood scale the analysis modules share; the chart's is 3/6/9
+function chartForecastValue(metric: DashboardMetric, value: number): number {
+  return metric === 'mood' ? Math.min(10, value + 1) : value;
+}
+
+function buildWeekSeries(dateISOs: string[], entriesByDate: Map<string, any>, metrics: DashboardMetric[], forecasts: SymptomForecast[] = []) {
+  const rows = dateISOs.map((iso) => {
     const e = entriesByDate.get(iso);
     const row: any = { day: labelDayShort(iso), dateISO: iso };
     for (const m of metrics) row[m] = metricValue(e, m);
     return row;
   });
+  if (!forecasts.length) return rows;
+
+  // Start the dashed line and band from today's dot so they read as a continuation
+  const today = rows[rows.length - 1];
+  for (const m of metrics) {
+    if (typeof today?.[m] === 'number' && forecasts.some((f) => f.metric === m)) {
+      today[`${m}__fc`] = today[m];
+      today[`${m}__band`] = [today[m], today[m]];
+    }
+  }
+  const ahead = Array.from(new Set(forecasts.map((f) => f.dateISO))).sort();
+  for (const iso of ahead) {
+    const row: any = { day: labelDayShort(iso), dateISO: iso, forecast: true };
+    for (const f of forecasts) {
+      if (f.dateISO !== iso || !metrics.includes(f.metric as DashboardMetric)) continue;
+      const m = f.metric as DashboardMetric;
+      row[`${m}__fc`] = chartForecastValue(m, f.value);
+      row[`${m}__band`] = [chartForecastValue(m, f.low), chartForecastValue(m, f.high)];
+    }
+    rows.push(row);
+  }
+  return rows;
 }
 
 
@@ -169,7 +213,12 @@ export function Dashboard({
   const insightsRemaining = Math.max(0, insightsMinDays - daysTracked);
   const insightsReady = daysTracked >= insightsMinDays;
 
-  const cycleStats = useMemo(() => computeCycleStats(entriesSorted), [entriesSorted]);
+  const pregnancyNote = useMemo(() => getPregnancyNote(userData, todayISO), [userData.pregnancies, userData.cycleTrackingMode, todayISO]);
+  const cycleEngine = useMemo(
+    () => buildCycleEngine(entriesSorted, userData, todayISO),
+    [entriesSorted, todayISO, userData.hormonalRegimens, userData.pregnancies, userData.cycleTrackingMode, userData.goal, userData.ovulationOverrideISOs, userData.ovulationDetectedISOs]
+  );
+  const cycleStats = cycleEngine.stats;
 
   const heroModel = useMemo(() => {
     // IMPORTANT: Version the cache key.
@@ -213,7 +262,7 @@ export function Dashboard({
       // ignore cache issues
     }
 
-    const model: any = buildHomepageHeroModel(entriesSorted, userData);
+    const model: any = buildHomepageHeroModel(entriesSorted, userData, getRhythmModel(entriesSorted, userData));
     model._fp = fingerprint;
     try {
       localStorage.setItem(key, JSON.stringify(model));
@@ -225,17 +274,12 @@ export function Dashboard({
 
   const todayPhase = useMemo(() => {
     if (userData.cycleTrackingMode !== 'cycle') return null;
-    return estimatePhaseByFlow(todayISO, entriesSorted);
-  }, [userData.cycleTrackingMode, todayISO, entriesSorted]);
+    return cycleEngine.phaseOn(todayISO);
+  }, [userData.cycleTrackingMode, todayISO, cycleEngine]);
 
   const [momentRefresh, setMomentRefresh] = useState(0);
   const highestMoment = useMemo(() => getHighestPriorityMoment(todayISO), [todayISO, entriesSorted.length, momentRefresh]);
 
-  React.useEffect(() => {
-    generateMoments(entriesSorted as any, userData, todayISO);
-    setMomentRefresh((value) => value + 1);
-  }, [entriesSorted, userData, todayISO]);
-
   function dayPhaseKey(p: any) {
     if (p === 'Ovulatory') return 'Ovulation';
     return p;
@@ -319,6 +363,60 @@ export function Dashboard({
     return [picked[0], picked[1], picked[2]] as [DashboardMetric, DashboardMetric, DashboardMetric];
   }, [userData.dashboardChartMetrics, availableMetrics]);
 
+  // Pattern moments read the ranked insights, so wait for the worker before picking one
+  // (with the charted metrics, so the forecast gets their influence effects from the same run)
+  const rankedSignals = useRankedInsights(entriesSorted, userData, chartMetrics);
+  React.useEffect(() => {
+    if (!rankedSignals) return;
+    generateMoments(entriesSorted, userData, rankedSignals, todayISO);
+    setMomentRefresh((value) => value + 1);
+  }, [entriesSorted, userData, todayISO, rankedSignals]);
+
+  // Forecast for the week ahead, with anything the user has planned
+  const [planned, setPlanned] = useState(() => getPlannedInfluences());
+  const [planEvent, setPlanEvent] = useState<string>('alcohol');
+  const [planDateISO, setPlanDateISO] = useState<string>(() => addDaysISO(todayISO, 1));
+  const planEventOptions = useMemo(
+    () => [
+      ...EVENT_KEYS.map((key) => ({ key: String(key), label: eventEffectLabel(key, userData) })),
+      ...(userData.customInfluences ?? []).filter((x) => x?.id).map((x) => ({ key: customInfluenceMetricKey(x.id), label: eventEffectLabel(customInfluenceMetricKey(x.id), userData) })),
+    ],
+    [userData]
+  );
+  const upcomingPlans = useMemo(() => planned.filter((p) => p.dateISO > todayISO), [planned, todayISO]);
+
+  const eventEffects = useMemo(() => (rankedSignals ? eventEffectsFromSignals(rankedSignals, 100) : null), [rankedSignals]);
+
+  // Waits for the worker's influence effects rather than testing them all again here
+  const forecasts = useMemo(
+    () => (eventEffects ? forecastSymptoms(entriesSorted, userData, chartMetrics, { fromISO: todayISO, planned, effects: eventEffects }) : []),
+    [entriesSorted, eventEffects, chartMetrics, todayISO, planned, userData.insightsFromISO, userData.metricRetiredFromISO, userData.hormonalRegimens, userData.pregnancies, userData.cycleTrackingMode, userData.goal, userData.ovulationOverrideISOs, userData.ovulationDetectedISOs]
+  );
+
+  React.useEffect(() => {
+    recordForecasts(forecasts, todayISO, entriesSorted, userData);
+  }, [forecasts, todayISO, entriesSorted, userData]);
+
+  const forecastScores = useMemo(
+    () => scoreForecasts(entriesSorted, userData, { metrics: chartMetrics, todayISO }).filter((s) => s.n >= 3),
+    [entriesSorted, chartMetrics, todayISO, userData.insightsFromISO, userData.metricRetiredFromISO]
+  );
+
+  const plannedNotes = useMemo(() => {
+    const seen = new Set<string>();
+    const notes: string[] = [];
+    for (const f of forecasts) {
+      for (const influence of f.parts.influences) {
+        if (!influence.planned) continue;
+        const key = `${f.metric}|${influence.event}|${influence.onISO}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        notes.push(describeForecastInfluence(f, influence, userData));
+      }
+    }
+    return notes.slice(0, 3);
+  }, [forecasts, userData]);
+
   // Week chart
   const weekSeries = useMemo(() => {
     const today = new Date();
@@ -329,8 +427,8 @@ export function Dashboard({
       dateISOs.push(isoFromDateLocal(d));
     }
     const map = new Map(entriesSorted.map((e: any) => [e.dateISO, e]));
-    return buildWeekSeries(dateISOs, map, chartMetrics);
-  }, [entriesSorted, chartMetrics]);
+    return buildWeekSeries(dateISOs, map, chartMetrics, forecasts);
+  }, [entriesSorted, chartMetrics, forecasts]);
 
   const quickHookLines = useMemo(() => {
     // Generate 2-3 lines that feel useful even from day 1.
@@ -475,6 +573,8 @@ export function Dashboard({
           <p>{todayLabel}</p>
         </div>
 
+        {pregnancyNote ? <div className="eb-callout text-sm">{pregnancyNote}</div> : null}
+
 
         {/* HERO: Symptom tracking */}
 
@@ -532,6 +632,7 @@ export function Dashboard({
             moment={highestMoment}
             onNavigate={onNavigate}
             onDismiss={() => setMomentRefresh((value) => value + 1)}
+            onUpdateUserData={onUpdateUserData}
           />
         ) : entriesSorted.length < 3 ? (
           <div className="eb-card mb-6">
@@ -685,17 +786,52 @@ export function Dashboard({
           <div className="flex items-start justify-between gap-3 mb-3">
             <div>
               <h3 className="mb-1">Your week at a glance</h3>
-              <p className="text-xs text-[rgb(var(--color-text-secondary))]">A small trend snapshot. Pick 3 metrics to show.</p>
+              <p className="text-xs text-[rgb(var(--color-text-secondary))]">
+                A small trend snapshot. Pick 3 metrics to show.{forecasts.length ? ' Dashed lines look ahead, with the shaded band as the likely range.' : ''}
+              </p>
             </div>
           </div>
           <div style={{ width: '100%', height: 220 }}>
             <ResponsiveContainer>
-              <LineChart data={weekSeries} margin={{ top: 10, right: 10, left: -12, bottom: 0 }}>
+              <ComposedChart data={weekSeries} margin={{ top: 10, right: 10, left: -12, bottom: 0 }}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="day" />
                 <YAxis domain={[0, 10]} width={32} tickMargin={6} />
-                <Tooltip />
+                <Tooltip formatter={(value: any) => (Array.isArray(value) ? `${value[0]}–${value[1]}` : value)} />
                 <Legend />
+                {forecasts.length
+                  ? chartMetrics.map((m, idx) => (
+                      <Area
+                        key={`${m}-band`}
+                        type="monotone"
+                        dataKey={`${m}__band`}
+                        name={`${METRIC_LABELS[m]} range`}
+                        stroke="none"
+                        fill={MIXED_CHART_PALETTE[idx % MIXED_CHART_PALETTE.length]}
+                        fillOpacity={0.12}
+                        legendType="none"
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))
+                  : null}
+                {forecasts.length
+                  ? chartMetrics.map((m, idx) => (
+                      <Line
+                        key={`${m}-forecast`}
+                        type="monotone"
+                        dataKey={`${m}__fc`}
+                        name={`${METRIC_LABELS[m]} forecast`}
+                        stroke={MIXED_CHART_PALETTE[idx % MIXED_CHART_PALETTE.length]}
+                        strokeWidth={2}
+                        strokeDasharray="5 4"
+                        dot={false}
+                        legendType="none"
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))
+                  : null}
                 {chartMetrics.map((m, idx) => (
                   <Line
                     key={m}
@@ -709,7 +845,7 @@ export function Dashboard({
                     isAnimationActive={false}
                   />
                 ))}
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
@@ -732,6 +868,74 @@ export function Dashboard({
           <p className="text-sm mt-3">
             You will see dots from day 1. Lines connect across missed days so you can still spot the overall trend.
           </p>
+
+          {forecasts.length ? (
+            <div className="mt-4 eb-inset rounded-2xl p-4">
+              <div className="text-sm font-semibold">Anything planned this week?</div>
+              <p className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+                Add it and the forecast will allow for how it has tended to affect you.
+              </p>
+              <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                <select className="eb-input !py-2 !px-3 !text-sm flex-1" value={planEvent} onChange={(e) => setPlanEvent(e.target.value)}>
+                  {planEventOptions.map((o) => (
+                    <option key={o.key} value={o.key}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <select className="eb-input !py-2 !px-3 !text-sm flex-1" value={planDateISO} onChange={(e) => setPlanDateISO(e.target.value)}>
+                  {[1, 2, 3, 4, 5, 6, 7].map((n) => {
+                    const iso = addDaysISO(todayISO, n);
+                    return (
+                      <option key={iso} value={iso}>
+                        {n === 1 ? 'Tomorrow' : new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'long' })}
+                      </option>
+                    );
+                  })}
+                </select>
+                <button type="button" className="eb-btn-secondary !py-2 !px-4 !text-sm" onClick={() => setPlanned(addPlannedInfluence(planEvent, planDateISO))}>
+                  Add
+                </button>
+              </div>
+
+              {upcomingPlans.length ? (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {upcomingPlans.map((p) => (
+                    <span key={p.id} className="inline-flex items-center gap-1 text-xs px-2.5 py-1 rounded-full bg-neutral-100">
+                      {eventEffectLabel(p.event, userData)} · {new Date(p.dateISO + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short' })}
+                      <button type="button" aria-label="Remove plan" onClick={() => setPlanned(removePlannedInfluence(p.id))}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+
+              {plannedNotes.length ? (
+                <div className="mt-3 space-y-1">
+                  {plannedNotes.map((note) => (
+                    <p key={note} className="text-sm">
+                      {note}
+                    </p>
+                  ))}
+                </div>
+              ) : null}
+
+              {forecastScores.length ? (
+                <div className="mt-3 space-y-1">
+                  {forecastScores.map((score) => (
+                    <p key={score.metric} className="text-xs text-[rgb(var(--color-text-secondary))]">
+                      {describeForecastScore(score)}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="mt-3 text-xs text-[rgb(var(--color-text-secondary))]">
+                  Forecasts are checked against what you log, so you'll see how close they get after a few days.
+                </p>
+              )}
+            </div>
+          ) : null}
         </div>
         {/* Tip for today */}
         <div className="bg-gradient-to-br from-[rgb(var(--color-accent))] from-opacity-20 to-transparent rounded-2xl p-6 border border-[rgb(var(--color-accent))] border-opacity-30">
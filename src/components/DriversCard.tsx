@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import type { InsightMetricKey } from '../types';
+import { describeSymptomDriver, type SymptomDriverModel } from '../lib/symptomDrivers';
+import { SYMPTOM_META } from '../lib/symptomMeta';
+
+function metricName(key: string): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as keyof typeof SYMPTOM_META]?.label ?? key;
+}
+
+function stabilityWord(stability: number): string {
+  return stability >= 0.9 ? 'Very steady' : stability >= 0.75 ? 'Steady' : 'Fairly steady';
+}
+
+/** `drivers` are the insight report's models by target metric; null (or a missing target) while they're worked out. */
+export function DriversCard(props: { drivers: Record<string, SymptomDriverModel | null> | null; metrics: InsightMetricKey[] }) {
+  const targets = useMemo(
+    () => props.metrics.map(String).filter((k) => k === 'mood' || (SYMPTOM_META[k as keyof typeof SYMPTOM_META] && k !== 'flow')),
+    [props.metrics]
+  );
+  const [picked, setPicked] = useState<string | null>(null);
+  const target = picked && targets.includes(picked) ? picked : targets.includes('fatigue') ? 'fatigue' : targets[0];
+  const loading = !props.drivers || !(target in props.drivers);
+  const model = target && props.drivers ? props.drivers[target] ?? null : null;
+
+  if (!targets.length) return null;
+
+  return (
+    <div className="eb-card">
+      <div className="eb-card-header">
+        <div>
+          <div className="eb-card-title">What drives your symptoms</div>
+          <div className="eb-card-sub">Sleep, stress, influences and cycle timing weighed together, so the credit goes to the right thing.</div>
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {targets.map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setPicked(key)}
+            className={`text-sm px-3 py-1.5 rounded-xl transition-colors ${
+              key === target ? 'bg-[rgb(var(--color-primary))] text-white' : 'bg-neutral-100 hover:bg-neutral-200'
+            }`}
+          >
+            {metricName(key)}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-3 eb-inset rounded-2xl p-5">
+        {loading ? (
+          <div className="text-sm eb-muted">Reading your recent check-ins…</div>
+        ) : !model ? (
+          <div className="text-sm eb-muted">Not enough days logged for {metricName(target).toLowerCase()} yet. About three weeks of check-ins is enough to start.</div>
+        ) : !model.drivers.length ? (
+          <div className="text-sm eb-muted">
+            Nothing you track stands out as driving {metricName(target).toLowerCase()} so far, across {model.sampleSize} days.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {model.drivers.slice(0, 5).map((driver) => (
+                <div key={driver.feature}>
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="font-semibold">{driver.label}</span>
+                    <span className="eb-muted whitespace-nowrap">
+                      {Math.round(driver.share * 100)}% · {stabilityWord(driver.stability)}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-neutral-100">
+                    <div className="h-1.5 rounded-full bg-[rgb(var(--color-primary))]" style={{ width: `${Math.max(4, Math.round(driver.share * 100))}%` }} />
+                  </div>
+                  <div className="mt-1 text-xs eb-muted">{describeSymptomDriver(driver, model.target)}</div>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 text-xs eb-muted">
+              Together these explain about {Math.round(model.r2 * 100)}% of the ups and downs in {metricName(model.target).toLowerCase()}, across {model.sampleSize} days.
+              Steadiness is how often each one held up when we re-checked with different days left out. Patterns are a hint, not proof.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { InsightMetricKey, UserData } from '../types';
+import { describeEventEffect, eventEffectLabel, type EventEffect } from '../lib/eventEffects';
+import { SYMPTOM_META } from '../lib/symptomMeta';
+
+function metricName(key: InsightMetricKey): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as keyof typeof SYMPTOM_META]?.label ?? String(key);
+}
+
+function sizeWord(effectSize: number): string {
+  const s = Math.abs(effectSize);
+  return s >= 1.2 ? 'a big difference' : s >= 0.8 ? 'a clear difference' : 'a small but steady difference';
+}
+
+/** `effects` come from the ranked insight signals (eventEffectsFromSignals), already FDR-checked. */
+export function EventEffectsCard(props: { effects: EventEffect[]; userData: UserData }) {
+  const { effects } = props;
+  if (!effects.length) return null;
+
+  return (
+    <div className="eb-card">
+      <div className="eb-card-header">
+        <div>
+          <div className="eb-card-title">What your influences do next</div>
+          <div className="eb-card-sub">How the next few days have gone after an influence, compared with similar days without it.</div>
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+        {effects.map((effect) => (
+          <div key={`${effect.event}-${String(effect.metric)}`} className="eb-inset rounded-2xl p-5">
+            <div className="text-sm font-semibold">
+              {eventEffectLabel(effect.event, props.userData)} → {metricName(effect.metric)}
+            </div>
+            <div className="mt-2 text-sm eb-muted">{describeEventEffect(effect, props.userData)}</div>
+            <div className="mt-2 text-xs eb-muted">
+              {sizeWord(effect.effectSize)} (effect size {Math.abs(effect.effectSize)}), matched by time of cycle and weekday. Patterns are a hint, not proof.
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
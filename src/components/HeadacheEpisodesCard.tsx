@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+
+import type { HeadacheEpisode, HeadacheSide, Medication, RescueEffect } from '../types';
+import { HEADACHE_SIDE_LABELS, RESCUE_EFFECT_LABELS, episodeDurationHours, newEpisodeId } from '../lib/headacheDiary';
+
+type Props = {
+  dateISO: string;
+  episodes: HeadacheEpisode[];
+  onChange: (next: HeadacheEpisode[]) => void;
+  medications: Medication[];
+  /** Influences that can be picked as triggers (built-in keys or `influence:<id>`) */
+  triggerOptions: Array<{ key: string; label: string }>;
+};
+
+const inputClass =
+  'mt-1 w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]';
+
+const chipClass = (selected: boolean) =>
+  selected ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm' : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm';
+
+function defaultStart(dateISO: string): string {
+  const now = new Date();
+  const hhmm = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  return `${dateISO}T${hhmm}`;
+}
+
+export function HeadacheEpisodesCard({ dateISO, episodes, onChange, medications, triggerOptions }: Props) {
+  const [draft, setDraft] = useState<HeadacheEpisode | null>(null);
+  const [otherMed, setOtherMed] = useState(false);
+
+  const triggerLabel = (key: string) => triggerOptions.find((t) => t.key === key)?.label ?? key;
+  const medName = (ep: HeadacheEpisode) =>
+    medications.find((m) => m.id === ep.rescueMedicationId)?.name ?? ep.rescueMedicationName ?? '';
+
+  const startNew = () => {
+    setOtherMed(false);
+    setDraft({ id: newEpisodeId(), kind: 'migraine', start: defaultStart(dateISO), intensity: 5, triggers: [] });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const clean: HeadacheEpisode = { ...draft };
+    if (!clean.end || clean.end <= clean.start) delete clean.end;
+    if (!clean.rescueMedicationId && !(clean.rescueMedicationName ?? '').trim()) {
+      delete clean.rescueMedicationId;
+      delete clean.rescueMedicationName;
+      delete clean.rescueEffect;
+    }
+    if (!clean.notes?.trim()) delete clean.notes;
+    const exists = episodes.some((ep) => ep.id === clean.id);
+    onChange(exists ? episodes.map((ep) => (ep.id === clean.id ? clean : ep)) : [...episodes, clean]);
+    setDraft(null);
+  };
+
+  const patch = (p: Partial<HeadacheEpisode>) => setDraft((prev) => (prev ? { ...prev, ...p } : prev));
+
+  return (
+    <div className="eb-card p-5 mb-6">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-semibold text-[rgb(var(--color-text))]">Headache diary</div>
+          <div className="text-xs text-[rgb(var(--color-text-secondary))] mt-1">
+            Log each attack separately. Helps count headache days and spot period-linked migraine.
+          </div>
+        </div>
+        {!draft && (
+          <button type="button" className="eb-btn eb-btn-secondary !py-2 !px-3 text-sm shrink-0" onClick={startNew}>
+            Add episode
+          </button>
+        )}
+      </div>
+
+      {episodes.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {episodes.map((ep) => {
+            const hours = episodeDurationHours(ep);
+            const details = [
+              ep.start.slice(11, 16),
+              hours != null ? `${hours}h` : '',
+              typeof ep.intensity === 'number' ? `${ep.intensity}/10` : '',
+              ep.aura ? 'aura' : '',
+              medName(ep) ? `${medName(ep)}${ep.rescueEffect ? ` (${RESCUE_EFFECT_LABELS[ep.rescueEffect].toLowerCase()})` : ''}` : '',
+              ...(ep.triggers ?? []).map(triggerLabel),
+            ].filter(Boolean);
+            return (
+              <div
+                key={ep.id}
+                className="flex items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium">{ep.kind === 'migraine' ? 'Migraine' : 'Headache'}</div>
+                  <div className="text-xs text-[rgb(var(--color-text-secondary))]">{details.join(' · ')}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOtherMed(Boolean(ep.rescueMedicationName));
+                      setDraft({ ...ep });
+                    }}
+                    className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(episodes.filter((x) => x.id !== ep.id))}
+                    className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {draft && (
+        <div className="mt-4 rounded-2xl border border-neutral-200 bg-white p-3 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(['migraine', 'headache'] as const).map((k) => (
+              <button key={k} type="button" className={chipClass(draft.kind === k)} onClick={() => patch({ kind: k })}>
+                {k === 'migraine' ? 'Migraine' : 'Headache'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+              Started
+              <input
+                type="datetime-local"
+                value={draft.start}
+                onChange={(e) => e.target.value && patch({ start: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+              Ended (optional)
+              <input
+                type="datetime-local"
+                value={draft.end ?? ''}
+                onChange={(e) => patch({ end: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="block text-xs text-[rgb(var(--color-text-secondary))]">
+            At its worst: {draft.intensity ?? 5}/10
+            <input
+              type="range"
+              min={0}
+              max={10}
+              step={1}
+              value={draft.intensity ?? 5}
+              onChange={(e) => patch({ intensity: Number(e.target.value) })}
+              className="mt-1 w-full"
+            />
+          </label>
+
+          <div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mb-2">Aura and side</div>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" className={chipClass(Boolean(draft.aura))} onClick={() => patch({ aura: !draft.aura })}>
+                Aura
+              </button>
+              {(Object.keys(HEADACHE_SIDE_LABELS) as HeadacheSide[]).map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  className={chipClass(draft.side === k)}
+                  onClick={() => patch({ side: draft.side === k ? undefined : k })}
+                >
+                  {HEADACHE_SIDE_LABELS[k]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-[rgb(var(--color-text-secondary))] mb-2">Rescue medication</div>
+            <select
+              className={inputClass}
+              value={otherMed ? '__other' : draft.rescueMedicationId ?? ''}
+              onChange={(e) => {
+                const v = e.target.value;
+                setOtherMed(v === '__other');
+                patch({
+                  rescueMedicationId: v && v !== '__other' ? v : undefined,
+                  rescueMedicationName: v === '__other' ? draft.rescueMedicationName ?? '' : undefined,
+                });
+              }}
+            >
+              <option value="">None taken</option>
+              {medications.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+              <option value="__other">Something else…</option>
+            </select>
+            {otherMed && (
+              <input
+                value={draft.rescueMedicationName ?? ''}
+                onChange={(e) => patch({ rescueMedicationName: e.target.value })}
+                placeholder="What did you take?"
+                className={inputClass}
+              />
+            )}
+            {(draft.rescueMedicationId || otherMed) && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {(Object.keys(RESCUE_EFFECT_LABELS) as RescueEffect[]).map((k) => (
+                  <button
+                    key={k}
+                    type="button"
+                    className={chipClass(draft.rescueEffect === k)}
+                    onClick={() => patch({ rescueEffect: draft.rescueEffect === k ? undefined : k })}
+                  >
+                    {RESCUE_EFFECT_LABELS[k]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {triggerOptions.length > 0 && (
+            <div>
+              <div className="text-xs text-[rgb(var(--color-text-secondary))] mb-2">Possible triggers</div>
+              <div className="flex flex-wrap gap-2">
+                {triggerOptions.map((t) => {
+                  const on = (draft.triggers ?? []).includes(t.key);
+                  return (
+                    <button
+                      key={t.key}
+                      type="button"
+                      className={chipClass(on)}
+                      onClick={() =>
+                        patch({
+                          triggers: on ? (draft.triggers ?? []).filter((x) => x !== t.key) : [...(draft.triggers ?? []), t.key],
+                        })
+                      }
+                    >
+                      {t.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <input
+            value={draft.notes ?? ''}
+            onChange={(e) => patch({ notes: e.target.value })}
+            placeholder="Notes (optional)"
+            className={inputClass}
+          />
+
+          <div className="flex justify-end gap-2">
+            <button type="button" className="eb-btn eb-btn-secondary !py-2 !px-3 text-sm" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            <button type="button" className="eb-btn eb-btn-primary !py-2 !px-3 text-sm" onClick={saveDraft}>
+              Save episode
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { Brain } from 'lucide-react';
+
+import type { CheckInEntry, UserData } from '../types';
+import {
+  MENSTRUAL_MIGRAINE_LABELS,
+  classifyMenstrualMigraine,
+  getMedicationOveruseCheck,
+  getMonthlyHeadacheSummaries,
+  getTopTriggers,
+  triggerLabel,
+} from '../lib/headacheDiary';
+
+type Props = {
+  entries: CheckInEntry[];
+  userData: UserData;
+};
+
+function monthShort(monthISO: string): string {
+  const d = new Date(`${monthISO}-01T00:00:00`);
+  return d.toLocaleDateString(undefined, { month: 'short' });
+}
+
+export function HeadacheSummaryCard({ entries, userData }: Props) {
+  const months = useMemo(() => getMonthlyHeadacheSummaries(entries, { months: 6 }), [entries]);
+  const overuse = useMemo(() => getMedicationOveruseCheck(entries), [entries]);
+  const menstrual = useMemo(() => classifyMenstrualMigraine(entries, userData), [entries, userData]);
+  const triggers = useMemo(() => getTopTriggers(entries, 3), [entries]);
+
+  const thisMonth = months[months.length - 1];
+  const maxDays = Math.max(1, ...months.map((m) => m.headacheDays));
+  const cycleOn = userData.cycleTrackingMode === 'cycle';
+
+  return (
+    <div className="eb-card mb-6">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 rounded-2xl bg-[rgb(var(--color-primary)/0.12)] flex items-center justify-center shrink-0">
+          <Brain className="w-5 h-5 text-[rgb(var(--color-primary-dark))]" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <h2 className="mb-0.5">Headache diary</h2>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+            {thisMonth.headacheDays} headache {thisMonth.headacheDays === 1 ? 'day' : 'days'} this month
+            {thisMonth.migraineDays ? ` (${thisMonth.migraineDays} with migraine)` : ''}.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-end gap-2 h-24">
+        {months.map((m) => (
+          <div key={m.monthISO} className="flex-1 flex flex-col items-center gap-1">
+            <div className="text-xs text-[rgb(var(--color-text-secondary))]">{m.headacheDays || ''}</div>
+            <div
+              className="w-full rounded-lg bg-[rgb(var(--color-primary)/0.45)]"
+              style={{ height: `${Math.max(4, Math.round((m.headacheDays / maxDays) * 56))}px` }}
+            />
+            <div className="text-xs text-[rgb(var(--color-text-secondary))]">{monthShort(m.monthISO)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2 text-sm">
+        <div>
+          Rescue medication on <span className="font-medium">{overuse.acuteMedDays}</span> of the last {overuse.days} days.
+        </div>
+        {overuse.level !== 'ok' && (
+          <div className="eb-callout">
+            {overuse.level === 'warning'
+              ? 'That is in the range where painkillers can start causing more headaches (medication overuse headache). Worth talking to your GP or pharmacist.'
+              : 'Getting close to the range where painkillers can start causing more headaches. Keep an eye on it.'}
+          </div>
+        )}
+        {cycleOn && (
+          <div>
+            <span className="font-medium">{MENSTRUAL_MIGRAINE_LABELS[menstrual.classification]}</span>
+            {menstrual.cyclesChecked > 0 ? (
+              <span className="text-[rgb(var(--color-text-secondary))]">
+                {' '}
+                · migraine around your period in {menstrual.cyclesWithAttack} of the last {menstrual.cyclesChecked}{' '}
+                {menstrual.cyclesChecked === 1 ? 'cycle' : 'cycles'}
+              </span>
+            ) : null}
+          </div>
+        )}
+        {triggers.length > 0 && (
+          <div className="text-[rgb(var(--color-text-secondary))]">
+            Most picked triggers: {triggers.map((t) => `${triggerLabel(t.key, userData)} (${t.count})`).join(', ')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
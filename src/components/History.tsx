@@ -1,10 +1,13 @@
 import React, { useMemo, useState } from 'react';
+import type { UserData } from '../types';
 import { Activity, CheckCircle2, Clock3, FlaskConical, Heart, RefreshCw, Sparkles } from 'lucide-react';
 import { buildTimelineEvents, filterTimelineEvents, getTimelineSummary, groupEventsByMonth, type TimelineEvent, type TimelineFilter } from '../lib/timelineBuilder';
 import { restorePattern } from '../lib/patternFeedback';
+import { useEntries } from '../lib/appStore';
 import { safeFormatISODate } from '../lib/browserSafe';
 
 interface HistoryProps {
+  userData: UserData;
   onNavigate: (screen: string) => void;
 }
 
@@ -74,11 +77,12 @@ function navigateToTarget(target: string | undefined, onNavigate: (screen: strin
   onNavigate(screen);
 }
 
-export function History({ onNavigate }: HistoryProps) {
+export function History({ userData, onNavigate }: HistoryProps) {
+  const { entries } = useEntries();
   const [filter, setFilter] = useState<TimelineFilter>('all');
   const [historyTick, setHistoryTick] = useState(0);
 
-  const events = useMemo(() => buildTimelineEvents(40), [historyTick]);
+  const events = useMemo(() => buildTimelineEvents(40, { entries, userData }), [historyTick, entries, userData]);
   const visible = useMemo(() => filterTimelineEvents(events, filter), [events, filter]);
   const summary = useMemo(() => getTimelineSummary(events), [events]);
   const grouped = useMemo(() => groupEventsByMonth(visible), [visible]);
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+import type { HormonalRegimen, HormonalRegimenKind, UserData } from '../types';
+import { isoTodayLocal } from '../lib/date';
+import { REGIMEN_KIND_LABELS, isHrtKind, isRegimenActiveOn, regimenDefaults, regimenLabel } from '../lib/hormonalRegimen';
+
+type Props = {
+  userData: UserData;
+  onUpdateUserData: (updater: ((prev: UserData) => UserData) | UserData) => void;
+};
+
+const inputClass =
+  'w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]';
+
+export function HormonalRegimensCard({ userData, onUpdateUserData }: Props) {
+  const todayISO = isoTodayLocal();
+
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<HormonalRegimenKind>('combined_pill');
+  const [label, setLabel] = useState('');
+  const [dose, setDose] = useState('');
+  const [startISO, setStartISO] = useState(todayISO);
+  const [activeDays, setActiveDays] = useState('21');
+  const [breakDays, setBreakDays] = useState('7');
+  const [changeEveryDays, setChangeEveryDays] = useState('');
+  const [error, setError] = useState('');
+
+  const regimens = userData.hormonalRegimens ?? [];
+  const hasPack = kind === 'combined_pill' || kind === 'patch' || kind === 'ring';
+  const hasPatchChange = kind === 'patch' || kind === 'hrt_patch';
+
+  const pickKind = (k: HormonalRegimenKind) => {
+    setKind(k);
+    const d = regimenDefaults(k);
+    setActiveDays(d.activeDays != null ? String(d.activeDays) : '');
+    setBreakDays(d.breakDays != null ? String(d.breakDays) : '');
+    setChangeEveryDays(d.changeEveryDays != null ? String(d.changeEveryDays) : '');
+  };
+
+  const addRegimen = () => {
+    if (!startISO) {
+      setError('Pick a start date (the first day of your first pack if you are not sure).');
+      return;
+    }
+    const toInt = (v: string) => (v.trim() ? Math.round(Number(v)) : undefined);
+    const a = hasPack ? toInt(activeDays) : undefined;
+    const b = hasPack ? toInt(breakDays) : undefined;
+    const c = hasPatchChange ? toInt(changeEveryDays) : undefined;
+    if ((a != null && !(a >= 1 && a <= 365)) || (b != null && !(b >= 0 && b <= 14)) || (c != null && !(c >= 1 && c <= 31))) {
+      setError('Those day counts look off. Active days 1–365, break 0–14, change every 1–31 days.');
+      return;
+    }
+
+    const id = `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+    const next: HormonalRegimen = {
+      id,
+      kind,
+      label: label.trim() || undefined,
+      dose: dose.trim() || undefined,
+      startISO,
+      stopISO: null,
+      activeDays: a,
+      breakDays: b,
+      changeEveryDays: c,
+    };
+
+    onUpdateUserData((prev) => {
+      // Starting a new contraceptive usually means the previous one stopped the day before.
+      const prevList = (prev.hormonalRegimens ?? []).map((r) => {
+        const sameFamily = isHrtKind(r.kind) === isHrtKind(kind);
+        if (!sameFamily || r.stopISO || r.startISO >= startISO) return r;
+        const stop = new Date(startISO + 'T00:00:00');
+        stop.setDate(stop.getDate() - 1);
+        const stopISO = `${stop.getFullYear()}-${String(stop.getMonth() + 1).padStart(2, '0')}-${String(stop.getDate()).padStart(2, '0')}`;
+        return { ...r, stopISO };
+      });
+      return { ...prev, hormonalRegimens: [...prevList, next] };
+    });
+    setLabel('');
+    setDose('');
+    setError('');
+  };
+
+  const updateRegimen = (id: string, patch: Partial<HormonalRegimen>) => {
+    onUpdateUserData((prev) => ({
+      ...prev,
+      hormonalRegimens: (prev.hormonalRegimens ?? []).map((r) => (r.id === id ? { ...r, ...patch } : r)),
+    }));
+  };
+
+  return (
+    <div className="eb-card mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+      >
+        <div className="min-w-0">
+          <h3 className="mb-1">Contraception and HRT</h3>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+            Tell us what you're on so pill bleeds and breakthrough bleeding aren't mistaken for periods.
+          </p>
+        </div>
+        <ChevronRight
+          className={`w-5 h-5 shrink-0 text-[rgb(var(--color-text-secondary))] transition-transform ${open ? 'rotate-90' : ''}`}
+        />
+      </button>
+
+      {open ? (
+        <div className="mt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <select
+              value={kind}
+              onChange={(e) => pickKind(e.target.value as HormonalRegimenKind)}
+              className={`${inputClass} sm:col-span-2`}
+              aria-label="Type"
+            >
+              {(Object.keys(REGIMEN_KIND_LABELS) as HormonalRegimenKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {REGIMEN_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Brand (optional)" className={inputClass} />
+            <input value={dose} onChange={(e) => setDose(e.target.value)} placeholder="Dose (optional)" className={inputClass} />
+            <label className="flex items-center gap-2 text-sm text-[rgb(var(--color-text-secondary))] sm:col-span-2">
+              <span className="whitespace-nowrap">{hasPack ? 'First pack started' : 'Started'}</span>
+              <input type="date" value={startISO} onChange={(e) => setStartISO(e.target.value)} className={inputClass} />
+            </label>
+            {hasPack && (
+              <>
+                <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                  Active days per pack
+                  <input value={activeDays} onChange={(e) => setActiveDays(e.target.value)} inputMode="numeric" className={inputClass} />
+                </label>
+                <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                  Break / placebo days (0 if back to back)
+                  <input value={breakDays} onChange={(e) => setBreakDays(e.target.value)} inputMode="numeric" className={inputClass} />
+                </label>
+              </>
+            )}
+            {hasPatchChange && (
+              <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                Change patch every (days)
+                <input
+                  value={changeEveryDays}
+                  onChange={(e) => setChangeEveryDays(e.target.value)}
+                  inputMode="numeric"
+                  className={inputClass}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="mt-2 flex justify-end">
+            <button
+              type="button"
+              onClick={addRegimen}
+              className="text-sm px-4 py-2 rounded-xl bg-[rgb(var(--color-primary))] text-white hover:opacity-95 transition-colors whitespace-nowrap"
+            >
+              Add
+            </button>
+          </div>
+
+          {error && <div className="mt-2 text-sm text-[rgb(170,60,60)]">{error}</div>}
+
+          {regimens.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {regimens
+                .slice()
+                .sort((a, b) => b.startISO.localeCompare(a.startISO))
+                .map((r) => {
+                  const active = isRegimenActiveOn(r, todayISO);
+                  const details = [
+                    r.dose ?? '',
+                    r.activeDays != null ? `${r.activeDays}/${r.breakDays ?? 0} days` : '',
+                    r.changeEveryDays ? `change every ${r.changeEveryDays} days` : '',
+                    r.stopISO ? `${r.startISO} to ${r.stopISO}` : `since ${r.startISO}`,
+                  ].filter(Boolean);
+                  return (
+                    <div
+                      key={r.id}
+                      className="flex items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <div className={`font-medium truncate ${active ? '' : 'opacity-60'}`}>{regimenLabel(r)}</div>
+                        <div className="text-xs text-[rgb(var(--color-text-secondary))]">{details.join(' · ')}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => updateRegimen(r.id, { stopISO: r.stopISO ? null : todayISO })}
+                          className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                        >
+                          {r.stopISO ? 'Resume' : 'Stop'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onUpdateUserData((prev) => ({
+                              ...prev,
+                              hormonalRegimens: (prev.hormonalRegimens ?? []).filter((x) => x.id !== r.id),
+                            }))
+                          }
+                          className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -21,15 +21,22 @@ import {
 import { ArrowRight, FlaskConical, Sparkles, Moon, CheckCircle2, XCircle, HelpCircle } from 'lucide-react';
 import { TryNextCard, type TryNextItem } from './TryNextCard';
 import { WhatsHelpingCard } from './WhatsHelpingCard';
+import { HeadacheSummaryCard } from './HeadacheSummaryCard';
+import { CycleComparisonCard } from './CycleComparisonCard';
+import { EventEffectsCard } from './EventEffectsCard';
+import { DriversCard } from './DriversCard';
 import { getMomentHistory } from '../lib/companionMoments';
-import type { CheckInEntry, CyclePhase, SymptomKey, SymptomKind, UserData, ExperimentPlan, InsightMetricKey } from '../types';
+import type { CheckInEntry, CyclePhase, SymptomKey, SymptomKind, UserData, ExperimentPlan, ExperimentHistoryItem, InsightMetricKey } from '../types';
 import { useEntries, useExperiment, useExperimentHistory } from '../lib/appStore';
-import { calculateStreak, computeCycleStats, estimatePhaseByFlow, filterByDays, pearsonCorrelation, sortByDateAsc } from '../lib/analytics';
+import { calculateStreak, filterByDays, pearsonCorrelation, sortByDateAsc } from '../lib/analytics';
+import { buildCycleEngine } from '../lib/cycleEngine';
 import { isoFromDateLocal, isoTodayLocal } from '../lib/date';
 import { SYMPTOM_META, kindLabel } from '../lib/symptomMeta';
 import { getMixedChartColors } from '../lib/chartPalette';
 import { isMetricInScope } from '../lib/insightsScope';
-import { type InsightSignal, getTopInsights, markPatternsDiscovered, metricLabelsForSignal, selectStableHeroInsights } from '../lib/insightEngine';
+import { type InsightSignal, eventEffectsFromSignals, markPatternsDiscovered, metricLabelsForSignal, selectStableHeroInsights } from '../lib/insightEngine';
+import { useInsightReport } from '../lib/insightClient';
+import { lagKey } from '../lib/insightDetails';
 import { computeExperimentComparison } from '../lib/experimentAnalysis';
 import { getSupportSuggestion } from '../lib/patternSupport';
 import { getExperimentForSignal } from '../lib/experimentSuggestions';
@@ -42,11 +49,25 @@ import { EBDialogContent } from './EBDialog';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from './ui/carousel';
 import { pushRuntimeDebug } from '../lib/runtimeDebug';
 import { safeFormatDate, safeScrollIntoView } from '../lib/browserSafe';
-import { getConfidencePhrase } from '../lib/confidenceCopy';
+import { describeSignalCertainty, getConfidencePhrase } from '../lib/confidenceCopy';
+import { confidenceFromStats, correlationStats, type SignalStats } from '../lib/insightStats';
 import { getBodyWeatherLines } from '../lib/companionLogic';
 import { confirmPattern, filterSignalsByPatternFeedback, getFeedbackForMetrics, getPatternFeedbackIdFromMetrics, isSuppressedPair, markPatternUnsure, shouldPromptPatternFeedback, suppressPattern } from '../lib/patternFeedback';
 import { getSuggestedDriverOptionsForMetrics, type PatternDriverHint } from '../lib/patternDrivers';
-import { buildPatternMemory, getLagPatternForPair, getPatternContextForSignal, getPatternRecordForLag, getPatternRecordForSignal, getRepeatPatternLine } from '../lib/patternIntelligence';
+import { medicationLabelForKey } from '../lib/medications';
+import { customInfluenceLabelForKey } from '../lib/customInfluences';
+import { eventEffectLabel, eventEffectWhen, isWorseChange } from '../lib/eventEffects';
+import { getEpisodes } from '../lib/headacheDiary';
+import { getRegimenNote } from '../lib/hormonalRegimen';
+import {
+  MEASUREMENT_OPTIONS,
+  displayUnitFor,
+  getMeasurementSeries,
+  getMeasurementUnits,
+  hasAnyMeasurements,
+  measurementLabelForKey,
+} from '../lib/measurements';
+import { buildPatternMemory, getPatternContextForSignal, getPatternRecordForLag, getPatternRecordForSignal, getRepeatPatternLine, visibleLagPattern } from '../lib/patternIntelligence';
 
 interface InsightsProps {
   userData: UserData;
@@ -255,6 +276,11 @@ function labelFor(key: MetricKey, user?: UserData): string {
     const found = (user?.customSymptoms ?? []).find((s) => s.id === id);
     return found?.label ?? 'Custom symptom';
   }
+  const medLabel =
+    medicationLabelForKey(String(key), user) ??
+    customInfluenceLabelForKey(String(key), user) ??
+    measurementLabelForKey(String(key));
+  if (medLabel) return medLabel;
   const metaLabel = SYMPTOM_META[key as SymptomKey]?.label;
   return metaLabel ?? map[key as any] ?? (key as any);
 }
@@ -285,10 +311,12 @@ function variance(nums: number[]): number {
 
 type ConfidenceLevel = 'low' | 'medium' | 'high';
 
-function confidenceFrom(rAbs: number, n: number): ConfidenceLevel {
-  if (rAbs >= 0.65 && n >= 12) return 'high';
-  if (rAbs >= 0.5 && n >= 8) return 'medium';
-  return 'low';
+function confidenceFrom(stats: SignalStats): ConfidenceLevel {
+  return confidenceFromStats(stats, 0.3);
+}
+
+function maturityFrom(confidence: ConfidenceLevel): string {
+  return confidence === 'high' ? 'more consistent pattern' : confidence === 'medium' ? 'repeating pattern' : 'emerging pattern';
 }
 
 function qualityScore(rAbs: number, n: number): number {
@@ -882,6 +910,30 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     if (!selected.includes(distributionMetric)) setDistributionMetric((selected[0] ?? 'mood') as MetricKey);
   }, [selected, weekdayMetric, distributionMetric]);
 
+  // --- Body measurements (real units, own chart so they aren't squashed onto 0-10) ---
+  const [measurementOption, setMeasurementOption] = useState<(typeof MEASUREMENT_OPTIONS)[number]['key']>('weight');
+  const measurementUnits = getMeasurementUnits(userData);
+  const measurementOptionsWithData = useMemo(
+    () =>
+      MEASUREMENT_OPTIONS.filter((opt) => opt.keys.some((k) => getMeasurementSeries(entriesSorted, k).length > 0)),
+    [entriesSorted]
+  );
+  const activeMeasurementOption =
+    measurementOptionsWithData.find((opt) => opt.key === measurementOption) ?? measurementOptionsWithData[0] ?? null;
+
+  const measurementChartData = useMemo(() => {
+    if (!activeMeasurementOption) return [];
+    const byDate = new Map<string, Record<string, any>>();
+    for (const k of activeMeasurementOption.keys) {
+      for (const p of getMeasurementSeries(entriesSorted, k, measurementUnits)) {
+        const row = byDate.get(p.dateISO) ?? { dateISO: p.dateISO, dateLabel: fmtDateShort(p.dateISO) };
+        row[k] = p.value;
+        byDate.set(p.dateISO, row);
+      }
+    }
+    return Array.from(byDate.values()).sort((a, b) => String(a.dateISO).localeCompare(String(b.dateISO)));
+  }, [entriesSorted, activeMeasurementOption, measurementUnits.weight, measurementUnits.temperature]);
+
   // --- Series for trends chart ---
     const seriesForChart = useMemo(() => {
     const out: Array<Record<string, any>> = [];
@@ -944,6 +996,24 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     return items.filter((x) => x.count > 0).slice(0, 4);
   }, [entriesSorted, selected]);
 
+  // Ranked signals (with lag patterns and drivers) from the insight worker; null until the first run lands
+  const insightReport = useInsightReport(entriesAllSorted, userData, selected);
+  const rankedSignals = insightReport?.signals ?? null;
+  const insightDetails = insightReport?.details ?? null;
+  const lagPatternFor = (aKey: InsightMetricKey, bKey: InsightMetricKey) => visibleLagPattern(insightDetails?.lagPatterns[lagKey(aKey, bKey)] ?? null);
+  const insightsLoading = rankedSignals === null;
+  const topSignals = (limit: number) => (rankedSignals ?? []).slice(0, limit);
+  const eventEffects = useMemo(() => eventEffectsFromSignals(rankedSignals ?? [], 4), [rankedSignals]);
+  // Pairs as the engine tested them: their q-values come from its one FDR pass over everything
+  const rankedPairs = useMemo(
+    () =>
+      (rankedSignals ?? []).flatMap((signal) => {
+        if (signal.type !== 'metric_pair' || signal.metrics.length < 2 || !signal.stats || typeof signal.summary.correlation !== 'number') return [];
+        return [{ aKey: signal.metrics[0], bKey: signal.metrics[1], r: signal.summary.correlation, n: signal.sampleSize, stats: signal.stats }];
+      }),
+    [rankedSignals]
+  );
+
   // --- Highlights / findings ---
   const minDaysForDeep = 7;
   const deepReady = entriesSorted.length >= minDaysForDeep;
@@ -999,50 +1069,28 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     }
 
     // Strongest correlation among selected (conservative + safe)
-    const metrics = selected.slice(0, 6);
-    let best: { a: any; b: any; r: number; n: number; quality: number; confidence: ConfidenceLevel; hormonal: boolean } | null = null;
-    for (let i = 0; i < metrics.length; i++) {
-      for (let j = i + 1; j < metrics.length; j++) {
-        const a = metrics[i];
-        const b = metrics[j];
-        const xs: number[] = [];
-        const ys: number[] = [];
-        entriesSorted.forEach((e) => {
-          const x = getMetricValue(e, a, userData);
-          const y = getMetricValue(e, b, userData);
-          if (x != null && y != null) {
-            xs.push(x);
-            ys.push(y);
-          }
-        });
-        const n = xs.length;
-        if (n < 6) continue;
-        if (variance(xs) < 0.15 || variance(ys) < 0.15) continue;
-        const r = pearsonCorrelation(xs, ys);
-        if (!Number.isFinite(r)) continue;
-        const rAbs = Math.abs(r);
-        if (rAbs < 0.4) continue;
-
-        const kindA = getKindForMetric(a as any, userData);
-        const kindB = getKindForMetric(b as any, userData);
-
-        const isBehaviourState =
-          (kindA === 'behaviour' && kindB === 'state') || (kindA === 'state' && kindB === 'behaviour');
-        if (!deepReady && !isBehaviourState) continue;
-        const hormonal = isHormonalMetric(a as any, userData) || isHormonalMetric(b as any, userData);
-        if (hormonal && (entriesSorted.length < 14 || n < 10)) continue;
-        const bothBodyish =
-          (kindA === 'physio' || kindA === 'hormonal') && (kindB === 'physio' || kindB === 'hormonal');
-        if (bothBodyish) continue;
-
-        const confidence = confidenceFrom(rAbs, n);
-        const quality = qualityScore(rAbs, n);
-        if (quality < 35) continue;
-
-        const cand = { a, b, r, n, quality, confidence, hormonal };
-        if (!best || cand.quality > best.quality) best = cand;
-      }
+    const metrics = selected.slice(0, 6).map(String);
+    const cands: Array<{ a: any; b: any; r: number; n: number; quality: number; stats: SignalStats; hormonal: boolean }> = [];
+    for (const { aKey: a, bKey: b, r, n, stats } of rankedPairs) {
+      if (!metrics.includes(String(a)) || !metrics.includes(String(b))) continue;
+      if (n < 6 || Math.abs(r) < 0.4) continue;
+
+      const kindA = getKindForMetric(a, userData);
+      const kindB = getKindForMetric(b, userData);
+
+      const isBehaviourState =
+        (kindA === 'behaviour' && kindB === 'state') || (kindA === 'state' && kindB === 'behaviour');
+      if (!deepReady && !isBehaviourState) continue;
+      const hormonal = isHormonalMetric(a, userData) || isHormonalMetric(b, userData);
+      if (hormonal && (entriesSorted.length < 14 || n < 10)) continue;
+
+      const quality = qualityScore(Math.abs(r), stats.effectiveN);
+      if (quality < 35) continue;
+
+      cands.push({ a, b, r, n, quality, stats, hormonal });
     }
+    const top = cands.slice().sort((p, q) => q.quality - p.quality)[0];
+    const best = top ? { ...top, confidence: confidenceFrom(top.stats) } : null;
 
     if (best) {
       out.push({
@@ -1064,7 +1112,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       });
     }
 
-    const strongestSignals = filterSignalsByPatternFeedback(getTopInsights(entriesAllSorted, userData, 8, selected))
+    const strongestSignals = filterSignalsByPatternFeedback(topSignals(8))
       .filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low')
       .slice(0, 6);
 
@@ -1077,29 +1125,34 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         supportSuggestion: support?.body ?? null,
       };
     });
-  }, [selected, entriesSorted, entriesAllSorted, days, userData, userData.enabledModules]);
+  }, [selected, entriesSorted, entriesAllSorted, days, userData, userData.enabledModules, rankedSignals, rankedPairs, deepReady]);
 
   const [patternFeedbackTick, setPatternFeedbackTick] = useState(0);
   const [pendingContradiction, setPendingContradiction] = useState<PendingContradiction | null>(null);
   const [optimisticallySuppressedIds, setOptimisticallySuppressedIds] = useState<string[]>([]);
 
+  const cycleEngine = useMemo(
+    () => buildCycleEngine(entriesAllSorted, userData),
+    [entriesAllSorted, userData.hormonalRegimens, userData.pregnancies, userData.cycleTrackingMode, userData.goal, userData.ovulationOverrideISOs, userData.ovulationDetectedISOs]
+  );
+
   const currentInsightsPhase = useMemo(() => {
     if (userData.cycleTrackingMode !== 'cycle' || !entriesAllSorted.length) return null;
     try {
-      return estimatePhaseByFlow(isoTodayLocal(), entriesAllSorted) as CyclePhase | null;
+      return cycleEngine.phaseOn(isoTodayLocal()) as CyclePhase | null;
     } catch {
       return null;
     }
-  }, [entriesAllSorted, userData.cycleTrackingMode]);
+  }, [entriesAllSorted, userData.cycleTrackingMode, cycleEngine]);
 
   const metricPairSignals = useMemo(
-    () => filterSignalsByPatternFeedback(getTopInsights(entriesAllSorted, userData, 12, selected)).filter((signal) => signal.type === 'metric_pair'),
-    [entriesAllSorted, selected, userData, patternFeedbackTick],
+    () => filterSignalsByPatternFeedback(topSignals(12)).filter((signal) => signal.type === 'metric_pair'),
+    [rankedSignals, patternFeedbackTick],
   );
 
   const heroSignals = useMemo(
-    () => selectStableHeroInsights(filterSignalsByPatternFeedback(getTopInsights(entriesAllSorted, userData, 6, selected)), 3),
-    [entriesAllSorted, selected, userData, patternFeedbackTick],
+    () => selectStableHeroInsights(filterSignalsByPatternFeedback(topSignals(6)), 3),
+    [rankedSignals, patternFeedbackTick],
   );
 
   // --- Correlations list (for soft display + report) ---
@@ -1117,6 +1170,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         quality: number;
         kindA: SymptomKind;
         kindB: SymptomKind;
+        stats: SignalStats;
       }>;
     }
 
@@ -1132,7 +1186,8 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       return 6;
     };
 
-    const computePairs = (keys: InsightMetricKey[]) => {
+    // Pairs the engine already tested, narrowed to `keys` and to what's fair to show this early
+    const pairsAmong = (keys: InsightMetricKey[]) => {
       const out: Array<{
         a: string;
         b: string;
@@ -1143,114 +1198,64 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         quality: number;
         kindA: SymptomKind;
         kindB: SymptomKind;
+        stats: SignalStats;
       }> = [];
 
-      for (let i = 0; i < keys.length; i++) {
-        for (let j = i + 1; j < keys.length; j++) {
-          const aKey = keys[i];
-          const bKey = keys[j];
+      for (const { aKey, bKey, r, n, stats } of rankedPairs) {
+        if (!keys.includes(aKey) || !keys.includes(bKey)) continue;
 
-          // Ignore self / identical keys
-          if (aKey === bKey) continue;
+        const kindA = getKindForMetric(aKey, userData);
+        const kindB = getKindForMetric(bKey, userData);
 
-          // Align series on overlapping days
-          const xs: number[] = [];
-          const ys: number[] = [];
-          for (const e of entriesSorted) {
-            const av = valueForMetric(e, aKey);
-            const bv = valueForMetric(e, bKey);
-            if (typeof av === 'number' && typeof bv === 'number') {
-              xs.push(av);
-              ys.push(bv);
-            }
-          }
-
-          const n = xs.length;
+        // Hormonal correlations stay strict (needs more days and overlap).
+        const hormonalPair = isHormonalMetric(aKey, userData) || isHormonalMetric(bKey, userData);
+        if (hormonalPair && (entriesSorted.length < 14 || n < 10)) continue;
 
-          const kindA = getKindForMetric(aKey, userData);
-          const kindB = getKindForMetric(bKey, userData);
+        const minOverlap = minOverlapForPair(aKey, bKey, kindA, kindB);
+        if (n < minOverlap) continue;
+        if (Math.abs(r) < minAbsR) continue;
 
-          // Hormonal correlations stay strict (needs more days and overlap).
-          const hormonalPair = isHormonalMetric(aKey, userData) || isHormonalMetric(bKey, userData);
-          if (hormonalPair && (entriesSorted.length < 14 || n < 10)) continue;
+        // Early phase (4-6 days): allow a few more useful relationships so the page doesn't feel empty.
+        // We still keep it conservative: no body<->body, and we prioritise behaviour/state links.
+        if (!deepReady) {
+          const isBehaviourState =
+            (kindA === 'behaviour' && kindB === 'state') || (kindA === 'state' && kindB === 'behaviour');
 
-          const minOverlap = minOverlapForPair(aKey, bKey, kindA, kindB);
-          if (n < minOverlap) continue;
+          const involvesBehaviour = kindA === 'behaviour' || kindB === 'behaviour';
+          const involvesState = kindA === 'state' || kindB === 'state';
 
-          // Ignore flat-line variables (very low variance)
-          const vA = variance(xs);
-          const vB = variance(ys);
-          if (vA < 0.15 || vB < 0.15) continue;
-
-          const r = pearsonCorrelation(xs, ys);
-          if (!Number.isFinite(r)) continue;
-          if (Math.abs(r) < minAbsR) continue;
+          // Allow behaviour<->state, and behaviour<->body (e.g. sleep <-> stress, alcohol <-> hot flushes),
+          // but avoid state<->body in early phase as it tends to overfit.
+          const allowedEarly = isBehaviourState || (involvesBehaviour && !isBehaviourState) || (involvesBehaviour && involvesState);
 
-          // Block physio <-> physio (including hormonal) suggestions entirely.
-          const bothBodyish = (kindA === 'physio' || kindA === 'hormonal') && (kindB === 'physio' || kindB === 'hormonal');
-          if (bothBodyish) continue;
-
-          // Early phase (4-6 days): allow a few more useful relationships so the page doesn't feel empty.
-          // We still keep it conservative: no body<->body, and we prioritise behaviour/state links.
-          if (!deepReady) {
-            const isBehaviourState =
-              (kindA === 'behaviour' && kindB === 'state') || (kindA === 'state' && kindB === 'behaviour');
-
-            const involvesBehaviour = kindA === 'behaviour' || kindB === 'behaviour';
-            const involvesState = kindA === 'state' || kindB === 'state';
-
-            // Allow behaviour<->state, and behaviour<->body (e.g. sleep <-> stress, alcohol <-> hot flushes),
-            // but avoid state<->body in early phase as it tends to overfit.
-            const allowedEarly = isBehaviourState || (involvesBehaviour && !isBehaviourState) || (involvesBehaviour && involvesState);
+          if (!allowedEarly) continue;
+        }
 
-            if (!allowedEarly) continue;
-          }
+        const quality = insightQualityScore({ r, n: stats.effectiveN, kindA, kindB, aKey, bKey, userData });
 
-          const quality = insightQualityScore({ r, n, kindA, kindB, aKey, bKey, userData });
-
-          out.push({
-            a: labelFor(aKey, userData),
-            b: labelFor(bKey, userData),
-            r,
-            n,
-            aKey,
-            bKey,
-            quality,
-            kindA,
-            kindB,
-          });
-        }
+        out.push({
+          a: labelFor(aKey, userData),
+          b: labelFor(bKey, userData),
+          r,
+          n,
+          aKey,
+          bKey,
+          quality,
+          kindA,
+          kindB,
+          stats,
+        });
       }
 
       return out.sort((p, q) => q.quality - p.quality);
     };
 
     // First: try the user's selected metrics (keeps the feature feeling personal).
-    let out = computePairs(selected);
+    let out = pairsAmong(selected);
 
     // If nothing qualifies, fall back to "anything you have actually logged".
     // This avoids the empty state when the user changes their selected list or hasn't logged some of those yet.
-    if (out.length === 0) {
-      const candidate = (allMetricKeys as InsightMetricKey[]).filter((k) => {
-        // Must have enough data points on its own
-        let count = 0;
-        const vals: number[] = [];
-        for (const e of entriesSorted) {
-          const v = valueForMetric(e, k);
-          if (typeof v === 'number') {
-            count++;
-            vals.push(v);
-          }
-        }
-        if (count < (deepReady ? 6 : 4)) return false;
-        if (variance(vals) < 0.15) return false;
-        return true;
-      });
-
-      // Keep it bounded for performance
-      const limited = candidate.slice(0, 14);
-      out = computePairs(limited);
-    }
+    if (out.length === 0) out = pairsAmong(allMetricKeys as InsightMetricKey[]);
 
     const filtered = out.filter((pair) => !isSuppressedPair(pair.aKey, pair.bKey, pair.quality));
 
@@ -1259,12 +1264,8 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     // Enrich for UI copy (keeps render simple + avoids undefined refs when logic changes).
     return base.map((p) => {
       const hormonalInvolved = isHormonalMetric(p.aKey, userData) || isHormonalMetric(p.bKey, userData);
-      const confidence = confidenceFrom(Math.abs(p.r), p.n);
-      const maturity = p.n >= 12 && Math.abs(p.r) >= 0.65
-        ? 'more consistent pattern'
-        : p.n >= 8 && Math.abs(p.r) >= 0.5
-          ? 'repeating pattern'
-          : 'emerging pattern';
+      const confidence = confidenceFrom(p.stats);
+      const maturity = maturityFrom(confidence);
       const allowSuggestedExperiment =
         (p.kindA === 'behaviour' || p.kindB === 'behaviour') &&
         // avoid suggesting experiments when the relationship is based on very few points
@@ -1272,7 +1273,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         // still avoid anything "body <-> body"
         !((p.kindA === 'physio' || p.kindA === 'hormonal') && (p.kindB === 'physio' || p.kindB === 'hormonal'));
 
-      const lagPattern = getLagPatternForPair(entriesSorted, p.aKey, p.bKey, userData);
+      const lagPattern = lagPatternFor(p.aKey, p.bKey);
       const lagLine = lagPattern && lagPattern.score >= Math.abs(p.r) + 0.05
         ? (lagPattern.direction === 'inverse'
             ? `When ${lagPattern.leadLabel.toLowerCase()} rises, ${lagPattern.followLabel.toLowerCase()} often dips ${lagPattern.lagDays === 1 ? 'the next day' : `about ${lagPattern.lagDays} days later`}.`
@@ -1283,6 +1284,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       const why = [
         `You logged both metrics on ${p.n} day${p.n === 1 ? '' : 's'}.`,
         `This currently looks like a ${maturity}.`,
+        describeSignalCertainty({ type: 'metric_pair', stats: p.stats }),
         deepReady
           ? `This is calculated from your recent logs and will update as you add more days.`
           : `This is an early signal. With only a few days logged, it may change as you add more data.`,
@@ -1296,7 +1298,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       const feedback = getFeedbackForMetrics(p.aKey, p.bKey);
       return { ...p, hormonalInvolved, confidence, maturity, allowSuggestedExperiment, why, lagPattern, contextLine, feedback };
     });
-  }, [deepReady, entriesSorted, selected, userData, allMetricKeys, patternFeedbackTick]);
+  }, [deepReady, entriesSorted, selected, userData, allMetricKeys, rankedPairs, insightDetails, patternFeedbackTick]);
 
 
 
@@ -1314,6 +1316,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       direction: pair.r >= 0 ? 'together' : 'inverse',
       sampleSize: pair.n,
       summary: { metric: pair.aKey, otherMetric: pair.bKey, correlation: pair.r },
+      stats: pair.stats,
     });
 
     const makeCardFromSignal = (signal: InsightSignal): ConnectionCard | null => {
@@ -1330,16 +1333,14 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       const kindA = getKindForMetric(aKey, userData);
       const kindB = getKindForMetric(bKey, userData);
       const hormonalInvolved = isHormonalMetric(aKey, userData) || isHormonalMetric(bKey, userData);
-      const maturity = n >= 12 && Math.abs(correlation) >= 0.65
-        ? 'more consistent pattern'
-        : n >= 8 && Math.abs(correlation) >= 0.5
-          ? 'repeating pattern'
-          : 'emerging pattern';
+      // Engine signals always carry stats; fall back to an unadjusted interval just in case
+      const stats: SignalStats = signal.stats ?? { ...correlationStats(correlation, n), qValue: 1, effectiveN: n };
+      const maturity = maturityFrom(confidence);
       const allowSuggestedExperiment =
         (kindA === 'behaviour' || kindB === 'behaviour') &&
         n >= 4 &&
         !((kindA === 'physio' || kindA === 'hormonal') && (kindB === 'physio' || kindB === 'hormonal'));
-      const lagPattern = getLagPatternForPair(entriesSorted, aKey, bKey, userData);
+      const lagPattern = lagPatternFor(aKey, bKey);
       const lagLine = lagPattern && lagPattern.score >= Math.abs(correlation) + 0.05
         ? (lagPattern.direction === 'inverse'
             ? `When ${lagPattern.leadLabel.toLowerCase()} rises, ${lagPattern.followLabel.toLowerCase()} often dips ${lagPattern.lagDays === 1 ? 'the next day' : `about ${lagPattern.lagDays} days later`}.`
@@ -1349,6 +1350,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       const why = [
         `You logged both metrics on ${n} day${n === 1 ? '' : 's'}.`,
         `This currently looks like a ${maturity}.`,
+        describeSignalCertainty({ type: 'metric_pair', stats }),
         deepReady
           ? `This is calculated from your recent logs and will update as you add more days.`
           : `This is an early signal. With only a few days logged, it may change as you add more data.`,
@@ -1369,6 +1371,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         quality: typeof signal.score === 'number' ? signal.score : qualityScore(Math.abs(correlation), n),
         kindA,
         kindB,
+        stats,
         hormonalInvolved,
         confidence,
         maturity,
@@ -1434,7 +1437,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     });
 
     return prioritized;
-  }, [corrPairs, metricPairSignals, heroSignals, entriesSorted, userData, currentInsightsPhase, deepReady, optimisticallySuppressedIds]);
+  }, [corrPairs, metricPairSignals, heroSignals, insightDetails, userData, currentInsightsPhase, deepReady, optimisticallySuppressedIds]);
 
   useEffect(() => {
     const seenSignals = connectionCards.slice(0, 3).map((card) => card.sourceSignal).filter(Boolean);
@@ -1469,10 +1472,16 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
   };
 
   const openContradictionPrompt = (pair: { aKey: InsightMetricKey; bKey: InsightMetricKey; quality: number; confidence?: 'low' | 'medium' | 'high'; }, metrics: InsightMetricKey[]) => {
+    // If the pattern isn't the real story, offer what the drivers model says is behind these metrics first
+    const learned = metrics
+      .flatMap((metric) => insightDetails?.drivers[String(metric)]?.drivers ?? [])
+      .filter((driver) => driver.driver && !metrics.map(String).includes(driver.feature))
+      .sort((a, b) => b.share - a.share)
+      .map((driver) => driver.driver as PatternDriverHint);
     setPendingContradiction({
       id: getPatternFeedbackIdFromMetrics(pair.aKey, pair.bKey),
       metrics,
-      driverOptions: getSuggestedDriverOptionsForMetrics(metrics),
+      driverOptions: getSuggestedDriverOptionsForMetrics(metrics, userData, Array.from(new Set(learned))),
       pair,
     });
   };
@@ -1577,6 +1586,9 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
   const hasCycleOverride = useMemo(() => entriesAllSorted.some((e) => (e as any)?.cycleStartOverride === true), [entriesAllSorted]);
   const hasCycleSignal = cycleEnabled && (hasFlow || hasCycleOverride);
 
+  // Pill / patch / ring users: phases below come from natural cycles only
+  const regimenNote = useMemo(() => getRegimenNote(userData, isoTodayLocal()), [userData.hormonalRegimens]);
+
   const phaseBuckets = useMemo(() => {
     if (!cycleEnabled || !hasCycleSignal) return null;
 
@@ -1589,18 +1601,15 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
       Unknown: [],
     };
 
-    // Estimate phase day-by-day based on bleeding and cycle overrides
-    const cycleStats = computeCycleStats(sorted);
-    sorted.forEach((e, idx) => {
-      const flow = normalise10((e.values as any)?.flow) ?? 0;
-      const phase = estimatePhaseByFlow(sorted, idx, flow, cycleStats);
-      // Safety: older/newer phase estimators may return strings outside our bucket keys.
-      const safePhase: CyclePhase = (phase && (phase as any) in buckets ? (phase as CyclePhase) : 'Unknown');
+    // Same cycle days / phases as Home, Calendar and Rhythm
+    sorted.forEach((e) => {
+      const phase = cycleEngine.phaseOn(e.dateISO);
+      const safePhase: CyclePhase = phase === 'Ovulation' ? 'Ovulatory' : phase ?? 'Unknown';
       buckets[safePhase].push(e);
     });
 
     return buckets;
-  }, [entriesAllSorted, cycleEnabled, hasCycleSignal]);
+  }, [entriesAllSorted, cycleEnabled, hasCycleSignal, cycleEngine]);
 
   const avgForMetric = (list: CheckInEntry[], k: PhaseMetric): number | null => {
     const vals = list
@@ -1652,6 +1661,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     id: string;
     text: string;
     contextLine?: string | null;
+    certaintyLine?: string | null;
     repeatLine?: string | null;
     isNewPattern: boolean;
   };
@@ -1715,6 +1725,16 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
           ? `${primary} and ${b} ${getConfidencePhrase(signal.confidence)} move together.`
           : (signal.confidence === 'high' ? `When ${a} has been higher, ${b} has often been lower.` : signal.confidence === 'medium' ? `When ${a} has been higher, ${b} has sometimes looked lower.` : `When ${a} has been higher, ${b} might sometimes have been lower.`);
       }
+      case 'event_effect': {
+        const influence = eventEffectLabel(String(signal.summary.event ?? ''), userData);
+        const when = eventEffectWhen({ lag: signal.summary.lag ?? 1, lagDays: signal.summary.lagDays ?? 1 });
+        const change = `${isWorseChange(String(signal.summary.metric ?? ''), signal.summary.delta ?? 0) ? 'worse' : 'better'} ${primary.toLowerCase()}`;
+        return signal.confidence === 'high'
+          ? `${influence} has often been followed by ${change} ${when}.`
+          : signal.confidence === 'medium'
+            ? `${influence} has seemed to be followed by ${change} ${when}.`
+            : `${influence} might sometimes be followed by ${change} ${when}.`;
+      }
       case 'weekday_pattern': {
         const when = dayMap[String(signal.summary.day ?? '')] ?? `on ${String(signal.summary.day ?? 'that day')}`;
         if (primary === 'Brain fog' || primary === 'Fatigue' || primary === 'Stress') {
@@ -1734,13 +1754,25 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     markPatternsDiscovered(unseen);
   }, [heroSignals]);
 
-  const patternMemory = useMemo(() => buildPatternMemory(entriesAllSorted, userData), [entriesAllSorted, userData]);
+  const patternMemory = useMemo(() => buildPatternMemory(entriesAllSorted, userData, rankedSignals ?? []), [entriesAllSorted, userData, rankedSignals]);
 
   const heroInsightState = useMemo(() => {
+    if (insightsLoading) {
+      const loadingItem: HeroInsightItem = {
+        id: 'hero-loading',
+        text: 'Looking for patterns in your recent check-ins…',
+        contextLine: null,
+        repeatLine: null,
+        isNewPattern: false,
+      };
+      return { heading: 'Your body lately', subtitle: 'Reading through your check-ins…', items: [loadingItem] };
+    }
+
     const items: HeroInsightItem[] = heroSignals.map((signal) => ({
       id: signal.id,
       text: copyForInsightSignal(signal),
       contextLine: getPatternContextForSignal(signal),
+      certaintyLine: describeSignalCertainty(signal),
       repeatLine: getRepeatPatternLine(getPatternRecordForSignal(signal, patternMemory)),
       isNewPattern: signal.isNewPattern,
     }));
@@ -1785,11 +1817,11 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
             },
           ],
     };
-  }, [currentInsightsPhase, heroSignals, patternMemory, connectionCards]);
+  }, [insightsLoading, currentInsightsPhase, heroSignals, patternMemory, connectionCards]);
 
   const strongPatternSignals = useMemo(
-    () => filterSignalsByPatternFeedback(getTopInsights(entriesAllSorted, userData, 8, selected)).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low' && signal.strength !== 'weak'),
-    [entriesAllSorted, userData, selected, patternFeedbackTick],
+    () => filterSignalsByPatternFeedback(topSignals(8)).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low' && signal.strength !== 'weak'),
+    [rankedSignals, patternFeedbackTick],
   );
 
   const [savedActionsVersion, setSavedActionsVersion] = useState(0);
@@ -1799,7 +1831,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
     const saved = getSavedActions();
     const items: Array<TryNextItem & { signal?: InsightSignal; experiment: any }> = [];
     for (const signal of strongPatternSignals) {
-      const experiment = getExperimentForSignal(signal);
+      const experiment = getExperimentForSignal(signal, userData);
       if (!experiment) continue;
       if (isDismissedAction(experiment.experimentId)) continue;
       const historyContext = getExperimentHistoryContext(experiment.experimentId);
@@ -1824,8 +1856,8 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
         description: item.description || 'A saved experiment from an earlier insight.',
         label: 'Saved',
         saved: true,
-        signal: strongPatternSignals.find((signal) => getExperimentForSignal(signal)?.experimentId === item.experimentId) || strongPatternSignals[0],
-        experiment: strongPatternSignals.map((signal) => getExperimentForSignal(signal)).find((exp) => exp?.experimentId === item.experimentId) || {
+        signal: strongPatternSignals.find((signal) => getExperimentForSignal(signal, userData)?.experimentId === item.experimentId) || strongPatternSignals[0],
+        experiment: strongPatternSignals.map((signal) => getExperimentForSignal(signal, userData)).find((exp) => exp?.experimentId === item.experimentId) || {
           experimentId: item.experimentId,
           experimentName: item.title || 'Saved experiment',
           experimentDescription: item.description || 'A saved experiment from an earlier insight.',
@@ -1837,7 +1869,7 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
 
     const merged = [...savedItems, ...items].filter((item, idx, arr) => arr.findIndex((other) => other.id === item.id) === idx);
     return merged.slice(0, 2);
-  }, [strongPatternSignals, savedActionsVersion]);
+  }, [strongPatternSignals, savedActionsVersion, userData]);
 
   const companionMomentHistory = useMemo(() => getMomentHistory(6), [entriesAllSorted.length]);
 
@@ -1946,6 +1978,10 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
 
   const { experiment, setExperiment, clearExperiment } = useExperiment();
   const { history: experimentHistory, upsertHistoryItem } = useExperimentHistory();
+  const comparisonExperiments = useMemo(
+    () => [...(experimentHistory as ExperimentHistoryItem[]), ...(experiment ? [experiment] : [])],
+    [experimentHistory, experiment]
+  );
 
   const helpfulPatterns = useMemo(
     () => getHelpfulPatternsFromExperiments().filter((item) => item.confidence !== 'low').slice(0, 3),
@@ -1953,13 +1989,14 @@ const days = TIMEFRAMES.find((t) => t.key === timeframe)?.days ?? 30;
   );
   const helpfulHeroLine = helpfulPatterns[0]?.text ?? null;
 
-  const bodyWeatherLines = useMemo(() => getBodyWeatherLines({
+  const bodyWeatherLines = useMemo(() => insightsLoading ? ['Reading your recent check-ins…'] : getBodyWeatherLines({
     entries: entriesAllSorted as any,
     userData,
     currentPhase: currentInsightsPhase as any,
     heroSignals,
     strongPatternSignals,
-  }), [currentInsightsPhase, entriesAllSorted, heroSignals, strongPatternSignals, userData]);
+    rankedSignals: rankedSignals ?? [],
+  }), [insightsLoading, currentInsightsPhase, entriesAllSorted, heroSignals, strongPatternSignals, rankedSignals, userData]);
 
   const CUSTOM_EXPERIMENT_MAX_METRICS = 5;
   const [preOpenExperimentConfirm, setPreOpenExperimentConfirm] = useState<
@@ -2565,8 +2602,10 @@ const uniq = new Map<string, (typeof items)[number]>();
         return 'tiny stress buffer';
       case 'lowHydration':
         return 'hydration support';
-      default:
-        return 'one small change';
+      default: {
+        const customLabel = customInfluenceLabelForKey(changeKey, userData);
+        return customLabel ? `a break from ${customLabel.toLowerCase()}` : 'one small change';
+      }
     }
   };
 
@@ -2574,7 +2613,7 @@ const tryNextPrompts = useMemo(() => {
     const today = isoTodayLocal();
     const recent = filterByDays(entriesAllSorted, 21);
     const inScopeNow = (key: MetricKey) => isMetricInScope(userData, String(key), today);
-    const currentPhase = userData.cycleTrackingMode === 'cycle' ? estimatePhaseByFlow(today, entriesAllSorted) : null;
+    const currentPhase = userData.cycleTrackingMode === 'cycle' ? cycleEngine.phaseOn(today) : null;
 
     const makeStarter = (): TryNextPrompt => ({
       id: 'starter-simple-experiment',
@@ -2921,7 +2960,7 @@ const tryNextPrompts = useMemo(() => {
     }
 
     return selected.slice(0, 6);
-  }, [entriesAllSorted, userData, dismissedPrompts]);
+  }, [entriesAllSorted, userData, dismissedPrompts, cycleEngine]);
 
   const visibleTryNextPrompts = useMemo(() => tryNextPrompts, [tryNextPrompts]);
 
@@ -3578,6 +3617,7 @@ const tryNextPrompts = useMemo(() => {
                     ) : null}
                     <div className="text-[rgba(0,0,0,0.65)]">{item.text}</div>
                     {item.contextLine ? <div className="mt-1 text-xs text-[rgba(0,0,0,0.58)]">{item.contextLine}</div> : null}
+                    {item.certaintyLine ? <div className="mt-1 text-xs text-[rgba(0,0,0,0.58)]">{item.certaintyLine}</div> : null}
                     {item.repeatLine ? <div className="mt-1 text-xs font-medium text-[rgba(0,0,0,0.60)]">{item.repeatLine}</div> : null}
                   </div>
                 ))
@@ -3764,6 +3804,10 @@ const tryNextPrompts = useMemo(() => {
         )}
       </div>
 
+      <EventEffectsCard effects={eventEffects} userData={userData} />
+
+      <DriversCard drivers={insightDetails?.drivers ?? null} metrics={selected} />
+
       <TryNextCard
         items={(experimentStatus && !experimentStatus.done ? [] : tryNextActions).map((item) => ({ id: item.id, title: item.title, description: item.description, label: item.label, saved: item.saved }))}
         onStart={startSignalExperiment}
@@ -4745,6 +4789,73 @@ const tryNextPrompts = useMemo(() => {
 
       
 
+      {/* Cycle by cycle */}
+      {cycleEnabled ? <CycleComparisonCard entries={entriesAllSorted} userData={userData} experiments={comparisonExperiments} /> : null}
+
+      {/* Headache diary */}
+      {getEpisodes(entriesAllSorted).length > 0 ? <HeadacheSummaryCard entries={entriesAllSorted} userData={userData} /> : null}
+
+      {/* Body measurements */}
+      {hasAnyMeasurements(entriesSorted) && activeMeasurementOption ? (
+        <div className="eb-card mb-6">
+          <div className="eb-card-header">
+            <div className="flex items-start justify-between gap-4 w-full">
+              <div>
+                <div className="eb-card-title">Body measurements</div>
+                <div className="eb-card-sub">
+                  In {displayUnitFor(activeMeasurementOption.keys[0], measurementUnits)}, on days you measured.
+                </div>
+              </div>
+              {measurementOptionsWithData.length > 1 ? (
+                <select
+                  className="eb-input !w-auto !py-2 text-sm"
+                  value={activeMeasurementOption.key}
+                  onChange={(e) => setMeasurementOption(e.target.value as any)}
+                  aria-label="Measurement"
+                >
+                  {measurementOptionsWithData.map((opt) => (
+                    <option key={opt.key} value={opt.key}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="mt-3 eb-chart">
+            <div style={{ width: '100%', height: 220 }}>
+              <ResponsiveContainer>
+                <LineChart data={measurementChartData} margin={{ left: 0, right: 8, top: 10, bottom: 6 }}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                  <XAxis dataKey="dateLabel" tick={{ fontSize: 12 }} />
+                  <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} width={40} />
+                  <Tooltip
+                    contentStyle={{ borderRadius: 12, border: '1px solid rgba(0,0,0,0.08)' }}
+                    formatter={(value: any, name: any) => [
+                      value == null ? '-' : `${value} ${displayUnitFor(name as any, measurementUnits)}`,
+                      labelFor(`measure:${name}` as any, userData),
+                    ]}
+                  />
+                  {activeMeasurementOption.keys.map((k, i) => (
+                    <Line
+                      key={k}
+                      type="monotone"
+                      dataKey={k}
+                      dot={{ r: 2 }}
+                      connectNulls
+                      strokeWidth={2}
+                      stroke={linePalette[i % linePalette.length]}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       {/* Trends */}
       <div className="eb-card">
         <div className="eb-card-header">
@@ -4905,6 +5016,8 @@ const tryNextPrompts = useMemo(() => {
           </div>
         </div>
 
+        {cycleEnabled && regimenNote ? <div className="mt-2 eb-callout text-sm">{regimenNote}</div> : null}
+
         {!cycleEnabled && !hasCycleSignal ? (
           <div className="mt-2 text-sm eb-muted">Cycle tracking is off. You can still use trends and correlations.</div>
         ) : !hasCycleSignal ? (
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+import type { MeasurementKey, TemperatureUnit, UserData, WeightUnit } from '../types';
+import { MEASUREMENT_OPTIONS, getEnabledMeasurements, getMeasurementUnits } from '../lib/measurements';
+
+type Props = {
+  userData: UserData;
+  onUpdateUserData: (updater: ((prev: UserData) => UserData) | UserData) => void;
+};
+
+export function MeasurementsCard({ userData, onUpdateUserData }: Props) {
+  const [open, setOpen] = useState(false);
+
+  const enabled = new Set(getEnabledMeasurements(userData));
+  const units = getMeasurementUnits(userData);
+
+  const toggleOption = (keys: MeasurementKey[]) => {
+    onUpdateUserData((prev) => {
+      const current = new Set(getEnabledMeasurements(prev));
+      const on = keys.every((k) => current.has(k));
+      keys.forEach((k) => (on ? current.delete(k) : current.add(k)));
+      return { ...prev, enabledMeasurements: Array.from(current) };
+    });
+  };
+
+  const setUnit = (patch: { weight?: WeightUnit; temperature?: TemperatureUnit }) => {
+    onUpdateUserData((prev) => ({ ...prev, measurementUnits: { ...(prev.measurementUnits ?? {}), ...patch } }));
+  };
+
+  const unitButton = (selected: boolean) =>
+    selected ? 'eb-btn eb-btn-primary !py-2 !px-3 text-sm' : 'eb-btn eb-btn-secondary !py-2 !px-3 text-sm';
+
+  return (
+    <div className="eb-card mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+      >
+        <div className="min-w-0">
+          <h3 className="mb-1">Body measurements</h3>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+            Log things like weight or blood pressure in real units, alongside your check-in.
+          </p>
+        </div>
+        <ChevronRight
+          className={`w-5 h-5 shrink-0 text-[rgb(var(--color-text-secondary))] transition-transform ${open ? 'rotate-90' : ''}`}
+        />
+      </button>
+
+      {open ? (
+        <div className="mt-4 space-y-2">
+          {MEASUREMENT_OPTIONS.map((opt) => {
+            const on = opt.keys.every((k) => enabled.has(k));
+            return (
+              <div
+                key={opt.key}
+                className="flex items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-3 py-2"
+              >
+                <div className="font-medium">{opt.label}</div>
+                <button
+                  type="button"
+                  onClick={() => toggleOption(opt.keys)}
+                  className={`shrink-0 w-12 h-6 rounded-full transition-all ${
+                    on ? 'bg-[rgb(var(--color-primary))]' : 'bg-neutral-300'
+                  }`}
+                  aria-pressed={on}
+                  aria-label={`Track ${opt.label.toLowerCase()}`}
+                >
+                  <div className={`w-5 h-5 bg-white rounded-full transition-transform ${on ? 'translate-x-6' : 'translate-x-0.5'}`} />
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="pt-2 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-[rgb(var(--color-text-secondary))] mr-1">Weight in</span>
+            <button type="button" className={unitButton(units.weight === 'kg')} onClick={() => setUnit({ weight: 'kg' })}>
+              kg
+            </button>
+            <button type="button" className={unitButton(units.weight === 'lb')} onClick={() => setUnit({ weight: 'lb' })}>
+              lb
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-[rgb(var(--color-text-secondary))] mr-1">Temperature in</span>
+            <button type="button" className={unitButton(units.temperature === 'C')} onClick={() => setUnit({ temperature: 'C' })}>
+              °C
+            </button>
+            <button type="button" className={unitButton(units.temperature === 'F')} onClick={() => setUnit({ temperature: 'F' })}>
+              °F
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
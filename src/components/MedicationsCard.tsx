@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+import type { Medication, MedicationSchedule, UserData } from '../types';
+import { useEntries } from '../lib/appStore';
+import { isoTodayLocal } from '../lib/date';
+import {
+  MEDICATION_SCHEDULE_LABELS,
+  formatMedicationDose,
+  getMedicationAdherence,
+  isMedicationActiveOn,
+} from '../lib/medications';
+
+type Props = {
+  userData: UserData;
+  onUpdateUserData: (updater: ((prev: UserData) => UserData) | UserData) => void;
+};
+
+const inputClass =
+  'w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]';
+
+export function MedicationsCard({ userData, onUpdateUserData }: Props) {
+  const { entries } = useEntries();
+  const todayISO = isoTodayLocal();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [dose, setDose] = useState('');
+  const [unit, setUnit] = useState('mg');
+  const [schedule, setSchedule] = useState<MedicationSchedule>('daily');
+  const [kind, setKind] = useState<'medication' | 'supplement'>('medication');
+  const [startISO, setStartISO] = useState(todayISO);
+  const [error, setError] = useState('');
+
+  const medications = userData.medications ?? [];
+
+  const adherence = useMemo(() => {
+    const out: Record<string, number | null> = {};
+    for (const med of medications) out[med.id] = getMedicationAdherence(entries, med, { days: 30 }).percent;
+    return out;
+  }, [entries, medications]);
+
+  const updateMedication = (id: string, patch: Partial<Medication>) => {
+    onUpdateUserData((prev) => ({
+      ...prev,
+      medications: (prev.medications ?? []).map((m) => (m.id === id ? { ...m, ...patch } : m)),
+    }));
+  };
+
+  const addMedication = () => {
+    const label = name.trim();
+    if (!label) {
+      setError('Type a name first.');
+      return;
+    }
+    if (label.length > 40) {
+      setError('Keep it short (40 characters max).');
+      return;
+    }
+    const doseNum = dose.trim() ? Number(dose) : undefined;
+    if (doseNum != null && (!Number.isFinite(doseNum) || doseNum <= 0)) {
+      setError('Dose should be a number (or leave it blank).');
+      return;
+    }
+
+    const id = `m_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+    onUpdateUserData((prev) => ({
+      ...prev,
+      medications: [
+        ...(prev.medications ?? []),
+        {
+          id,
+          name: label,
+          dose: doseNum,
+          unit: doseNum != null ? unit.trim() || undefined : undefined,
+          schedule,
+          kind,
+          startISO: startISO || undefined,
+          stopISO: null,
+        },
+      ],
+    }));
+    setName('');
+    setDose('');
+    setError('');
+  };
+
+  return (
+    <div className="eb-card mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+      >
+        <div className="min-w-0">
+          <h3 className="mb-1">Medications and supplements</h3>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+            Add what you take so you can log doses in your check-in and see whether they line up with how you feel.
+          </p>
+        </div>
+        <ChevronRight
+          className={`w-5 h-5 shrink-0 text-[rgb(var(--color-text-secondary))] transition-transform ${open ? 'rotate-90' : ''}`}
+        />
+      </button>
+
+      {open ? (
+        <div className="mt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              placeholder="Name (eg Ibuprofen, Magnesium)"
+              className={`${inputClass} sm:col-span-2`}
+            />
+            <div className="flex gap-2">
+              <input
+                value={dose}
+                onChange={(e) => setDose(e.target.value)}
+                inputMode="decimal"
+                placeholder="Dose"
+                className={inputClass}
+              />
+              <input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="Unit" className={`${inputClass} w-24`} />
+            </div>
+            <select
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value as MedicationSchedule)}
+              className={inputClass}
+              aria-label="How often"
+            >
+              {(Object.keys(MEDICATION_SCHEDULE_LABELS) as MedicationSchedule[]).map((k) => (
+                <option key={k} value={k}>
+                  {MEDICATION_SCHEDULE_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as 'medication' | 'supplement')}
+              className={inputClass}
+              aria-label="Medication or supplement"
+            >
+              <option value="medication">Medication</option>
+              <option value="supplement">Supplement</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-[rgb(var(--color-text-secondary))]">
+              <span className="whitespace-nowrap">Started</span>
+              <input type="date" value={startISO} onChange={(e) => setStartISO(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="mt-2 flex justify-end">
+            <button
+              type="button"
+              onClick={addMedication}
+              className="text-sm px-4 py-2 rounded-xl bg-[rgb(var(--color-primary))] text-white hover:opacity-95 transition-colors whitespace-nowrap"
+            >
+              Add
+            </button>
+          </div>
+
+          {error && <div className="mt-2 text-sm text-[rgb(170,60,60)]">{error}</div>}
+
+          {medications.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {medications.map((med) => {
+                const active = isMedicationActiveOn(med, todayISO);
+                const pct = adherence[med.id];
+                const details = [
+                  med.kind === 'supplement' ? 'Supplement' : 'Medication',
+                  formatMedicationDose(med),
+                  MEDICATION_SCHEDULE_LABELS[med.schedule],
+                  med.stopISO ? `stopped ${med.stopISO}` : med.startISO ? `since ${med.startISO}` : '',
+                  typeof pct === 'number' ? `${pct}% taken (last 30 days)` : '',
+                ].filter(Boolean);
+
+                return (
+                  <div
+                    key={med.id}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className={`font-medium truncate ${active ? '' : 'opacity-60'}`}>{med.name}</div>
+                      <div className="text-xs text-[rgb(var(--color-text-secondary))]">{details.join(' · ')}</div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => updateMedication(med.id, { stopISO: med.stopISO ? null : todayISO })}
+                        className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                      >
+                        {med.stopISO ? 'Resume' : 'Stop'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onUpdateUserData((prev) => ({
+                            ...prev,
+                            medications: (prev.medications ?? []).filter((m) => m.id !== med.id),
+                          }))
+                        }
+                        className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { Sun } from 'lucide-react';
+
+import type { CheckInEntry, UserData } from '../types';
+import { MENOPAUSE_STAGE_LABELS, type MenopauseStage, getMenopauseTransition } from '../lib/menopause';
+
+type Props = {
+  entries: CheckInEntry[];
+  userData: UserData;
+};
+
+const STEPS: MenopauseStage[] = ['reproductive', 'early_perimenopause', 'late_perimenopause', 'postmenopause'];
+
+export function MenopauseTransitionCard({ entries, userData }: Props) {
+  const t = useMemo(() => getMenopauseTransition(entries, userData), [entries, userData.hormonalRegimens, userData.pregnancies]);
+  const stepIndex = STEPS.indexOf(t.stage);
+
+  return (
+    <div className="eb-card p-5">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 rounded-2xl bg-[rgb(var(--color-primary)/0.12)] flex items-center justify-center shrink-0">
+          <Sun className="w-5 h-5 text-[rgb(var(--color-primary-dark))]" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <h3 className="mb-0.5 font-semibold tracking-tight">Menopause transition</h3>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">{MENOPAUSE_STAGE_LABELS[t.stage]}</p>
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-4 gap-1">
+        {STEPS.map((s, i) => (
+          <div key={s} className="min-w-0">
+            <div
+              className={`h-2 rounded-full ${
+                stepIndex >= 0 && i <= stepIndex ? 'bg-[rgb(var(--color-primary))]' : 'bg-[rgb(var(--color-primary)/0.15)]'
+              }`}
+            />
+            <div className="mt-1 text-[11px] leading-tight text-[rgb(var(--color-text-secondary))]">{MENOPAUSE_STAGE_LABELS[s]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-1 text-sm">
+        {t.daysSinceLastBleed != null ? (
+          <div>
+            <span className="font-medium">{t.daysSinceLastBleed}</span> days since your last bleed
+            {t.longestGapDays != null && t.longestGapDays > t.daysSinceLastBleed ? (
+              <span className="text-[rgb(var(--color-text-secondary))]"> · longest gap {t.longestGapDays} days</span>
+            ) : null}
+          </div>
+        ) : null}
+        {t.note ? <div className="text-[rgb(var(--color-text-secondary))]">{t.note}</div> : null}
+        <div className="text-xs text-[rgb(var(--color-text-secondary))]">
+          Based on bleeding patterns only (STRAW+10). It can't diagnose menopause, and bleeding after 12 months without a period is
+          worth mentioning to your GP.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { PhaseHistoryEntry } from '../lib/phaseHistory';
+import { PhaseHistoryEditor } from './PhaseHistoryEditor';
 
 function phaseLabel(phase: string) {
   switch (phase) {
@@ -17,36 +18,52 @@ function phaseLabel(phase: string) {
   }
 }
 
-export function PhaseHistoryCard(props: { history: PhaseHistoryEntry[] }) {
+export function PhaseHistoryCard(props: { history: PhaseHistoryEntry[]; onEdited?: () => void }) {
+  const [editing, setEditing] = useState(false);
   const items = props.history.slice(-8).reverse();
   const maxDuration = Math.max(1, ...items.map((item) => Math.max(1, item.duration ?? 1)));
 
   return (
     <div className="eb-card p-6">
-      <div className="mb-4">
-        <h3 className="font-semibold tracking-tight">Recent rhythm</h3>
-        <p className="mt-1 text-sm text-[rgba(0,0,0,0.65)]">A quick look at how your recent phases have been moving.</p>
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold tracking-tight">Recent rhythm</h3>
+          <p className="mt-1 text-sm text-[rgba(0,0,0,0.65)]">A quick look at how your recent phases have been moving.</p>
+        </div>
+        {props.onEdited && props.history.length ? (
+          <button
+            type="button"
+            onClick={() => setEditing((v) => !v)}
+            className="text-sm px-3 py-1.5 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors whitespace-nowrap"
+          >
+            {editing ? 'Done' : 'Edit'}
+          </button>
+        ) : null}
       </div>
 
-      <div className="space-y-3">
-        {items.length ? (
-          items.map((item) => {
-            const duration = item.duration ?? 1;
-            const width = Math.max(12, Math.round((duration / maxDuration) * 100));
-            return (
-              <div key={`${item.phase}-${item.startDate}`} className="grid grid-cols-[auto,1fr,auto] items-center gap-3">
-                <div className="text-sm font-medium text-neutral-800 min-w-[6.5rem]">{phaseLabel(item.phase)}</div>
-                <div className="h-2 rounded-full bg-[rgb(var(--color-accent)/0.16)] overflow-hidden">
-                  <div className="h-full rounded-full bg-[rgb(var(--color-primary))]" style={{ width: `${width}%` }} />
+      {editing && props.onEdited ? (
+        <PhaseHistoryEditor onChanged={props.onEdited} />
+      ) : (
+        <div className="space-y-3">
+          {items.length ? (
+            items.map((item) => {
+              const duration = item.duration ?? 1;
+              const width = Math.max(12, Math.round((duration / maxDuration) * 100));
+              return (
+                <div key={`${item.phase}-${item.startDate}`} className="grid grid-cols-[auto,1fr,auto] items-center gap-3">
+                  <div className="text-sm font-medium text-neutral-800 min-w-[6.5rem]">{phaseLabel(item.phase)}</div>
+                  <div className="h-2 rounded-full bg-[rgb(var(--color-accent)/0.16)] overflow-hidden">
+                    <div className="h-full rounded-full bg-[rgb(var(--color-primary))]" style={{ width: `${width}%` }} />
+                  </div>
+                  <div className="text-sm text-[rgba(0,0,0,0.7)] whitespace-nowrap">{duration} {duration === 1 ? 'day' : 'days'}</div>
                 </div>
-                <div className="text-sm text-[rgba(0,0,0,0.7)] whitespace-nowrap">{duration} {duration === 1 ? 'day' : 'days'}</div>
-              </div>
-            );
-          })
-        ) : (
-          <div className="text-sm text-[rgba(0,0,0,0.65)]">As you move through a few more phase shifts, your recent rhythm will start to appear here.</div>
-        )}
-      </div>
+              );
+            })
+          ) : (
+            <div className="text-sm text-[rgba(0,0,0,0.65)]">As you move through a few more phase shifts, your recent rhythm will start to appear here.</div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { isoToday } from '../lib/analytics';
+import {
+  editPhaseHistory,
+  getPhaseHistory,
+  getPhaseHistoryAudit,
+  type PhaseHistoryEdit,
+  type PhaseHistoryPhase,
+  undoLastPhaseHistoryEdit,
+} from '../lib/phaseHistory';
+
+const PHASES: Array<{ key: PhaseHistoryPhase; label: string }> = [
+  { key: 'reset', label: 'Bleed' },
+  { key: 'rebuilding', label: 'Rebuilding' },
+  { key: 'expressive', label: 'Expressive' },
+  { key: 'protective', label: 'Protective' },
+];
+
+const inputClass =
+  'rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]';
+
+const buttonClass = 'text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors whitespace-nowrap';
+
+function phaseLabel(phase: string) {
+  return PHASES.find((p) => p.key === phase)?.label ?? (phase === 'bleed' ? 'Bleed' : phase);
+}
+
+function shortDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function PhaseHistoryEditor(props: { onChanged: () => void }) {
+  const [tick, setTick] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<PhaseHistoryPhase>('reset');
+  const [startDate, setStartDate] = useState('');
+  const [splitDate, setSplitDate] = useState('');
+  const [splitPhase, setSplitPhase] = useState<PhaseHistoryPhase>('rebuilding');
+
+  const history = useMemo(() => getPhaseHistory(), [tick]);
+  const audit = useMemo(() => getPhaseHistoryAudit().slice().reverse(), [tick]);
+  const canUndo = audit.some((item) => item.action !== 'undo' && !item.undone);
+  const todayISO = isoToday();
+
+  const select = (index: number) => {
+    if (selected === index) {
+      setSelected(null);
+      return;
+    }
+    const entry = history[index];
+    setSelected(index);
+    setError(null);
+    setPhase(entry.phase);
+    setStartDate(entry.startDate);
+    setSplitDate('');
+    setSplitPhase(PHASES.find((p) => p.key !== entry.phase)?.key ?? 'rebuilding');
+  };
+
+  const run = (edit: PhaseHistoryEdit) => {
+    const result = editPhaseHistory(edit);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setSelected(null);
+    setTick((v) => v + 1);
+    props.onChanged();
+  };
+
+  const undo = () => {
+    const result = undoLastPhaseHistoryEdit();
+    setError(result.ok ? null : result.error);
+    setSelected(null);
+    setTick((v) => v + 1);
+    if (result.ok) props.onChanged();
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[rgba(0,0,0,0.65)]">
+        If a phase was picked up on the wrong day, you can fix it here. Timing, averages and your History timeline will use your corrections.
+      </p>
+
+      <div className="space-y-2">
+        {history.length ? (
+          history
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => {
+              const open = selected === index;
+              return (
+                <div key={`${entry.phase}-${entry.startDate}`} className="rounded-2xl border border-neutral-200 p-3">
+                  <button type="button" onClick={() => select(index)} className="w-full flex items-center justify-between gap-3 text-left">
+                    <span className="text-sm font-medium text-neutral-800">
+                      {phaseLabel(entry.phase)}
+                      {entry.edited ? <span className="ml-2 text-xs font-normal text-[rgba(0,0,0,0.55)]">edited</span> : null}
+                    </span>
+                    <span className="text-sm text-[rgba(0,0,0,0.65)] whitespace-nowrap">
+                      {shortDate(entry.startDate)} – {entry.endDate ? shortDate(entry.endDate) : 'now'}
+                    </span>
+                  </button>
+
+                  {open ? (
+                    <div className="mt-3 space-y-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select className={inputClass} value={phase} onChange={(e) => setPhase(e.target.value)}>
+                          {PHASES.map((p) => (
+                            <option key={p.key} value={p.key}>
+                              {p.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button type="button" className={buttonClass} onClick={() => run({ action: 'relabel', index, phase })}>
+                          Change phase
+                        </button>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input type="date" className={inputClass} value={startDate} max={todayISO} onChange={(e) => setStartDate(e.target.value)} />
+                        <button type="button" className={buttonClass} onClick={() => run({ action: 'move', index, startDate })}>
+                          Move start
+                        </button>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input type="date" className={inputClass} value={splitDate} min={entry.startDate} max={entry.endDate ?? todayISO} onChange={(e) => setSplitDate(e.target.value)} />
+                        <select className={inputClass} value={splitPhase} onChange={(e) => setSplitPhase(e.target.value)}>
+                          {PHASES.map((p) => (
+                            <option key={p.key} value={p.key}>
+                              {p.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button type="button" className={buttonClass} onClick={() => run({ action: 'split', index, atDate: splitDate, phase: splitPhase })}>
+                          Split here
+                        </button>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {index < history.length - 1 ? (
+                          <button type="button" className={buttonClass} onClick={() => run({ action: 'merge', index })}>
+                            Merge with the next phase
+                          </button>
+                        ) : null}
+                        <button type="button" className={buttonClass} onClick={() => run({ action: 'delete', index })}>
+                          Delete
+                        </button>
+                      </div>
+
+                      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })
+        ) : (
+          <div className="text-sm text-[rgba(0,0,0,0.65)]">No saved phases yet.</div>
+        )}
+      </div>
+
+      {selected == null && error ? <div className="text-sm text-red-700">{error}</div> : null}
+
+      {audit.length ? (
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <div className="text-sm font-medium text-neutral-800">Your changes</div>
+            {canUndo ? (
+              <button type="button" className={buttonClass} onClick={undo}>
+                Undo last change
+              </button>
+            ) : null}
+          </div>
+          <ul className="space-y-1">
+            {audit.slice(0, 6).map((item) => (
+              <li key={item.id} className={`text-xs ${item.undone ? 'line-through text-[rgba(0,0,0,0.4)]' : 'text-[rgba(0,0,0,0.65)]'}`}>
+                {new Date(item.at).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}: {item.summary}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
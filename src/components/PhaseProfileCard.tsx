@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from 'react';
+import type { CheckInEntry, ExperimentHistoryItem, UserData } from '../types';
+import type { PhaseKey } from '../lib/analytics';
+import { getPhaseProfiles } from '../lib/phaseProfiles';
+
+const PHASES: Array<{ key: PhaseKey; label: string }> = [
+  { key: 'reset', label: 'Reset' },
+  { key: 'rebuilding', label: 'Rebuilding' },
+  { key: 'expressive', label: 'Expressive' },
+  { key: 'protective', label: 'Protective' },
+];
+
+export function PhaseProfileCard(props: {
+  entries: CheckInEntry[];
+  userData: UserData;
+  experiments: ExperimentHistoryItem[];
+  currentPhase: PhaseKey;
+}) {
+  const { entries, userData, experiments, currentPhase } = props;
+  const [selected, setSelected] = useState<PhaseKey>(currentPhase);
+  const profiles = useMemo(() => getPhaseProfiles(entries, userData, experiments), [entries, userData, experiments]);
+  const profile = profiles[selected];
+
+  return (
+    <div className="eb-card p-6">
+      <div className="mb-4">
+        <h3 className="font-semibold tracking-tight">Your phases, from your own logs</h3>
+        <p className="mt-1 text-sm text-[rgba(0,0,0,0.65)]">What each phase has usually looked like for you so far.</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {PHASES.map((p) => (
+          <button
+            key={p.key}
+            type="button"
+            onClick={() => setSelected(p.key)}
+            className={`text-sm px-3 py-1.5 rounded-xl transition-colors ${
+              selected === p.key ? 'bg-[rgb(var(--color-primary))] text-white' : 'bg-neutral-100 hover:bg-neutral-200'
+            }`}
+          >
+            {p.label}
+            {p.key === currentPhase ? ' (now)' : ''}
+          </button>
+        ))}
+      </div>
+
+      {profile?.lines.length ? (
+        <ul className="space-y-2">
+          {profile.lines.map((line) => (
+            <li key={line} className="text-sm text-[rgba(0,0,0,0.75)] flex gap-2">
+              <span className="mt-2 w-1.5 h-1.5 rounded-full bg-[rgb(var(--color-primary))] shrink-0" />
+              <span>{line}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-sm text-[rgba(0,0,0,0.65)]">
+          {profile && profile.cycles >= 2
+            ? 'Nothing clear stands out in this phase yet.'
+            : profile?.cycles
+            ? `Only ${profile.cycles} ${profile.cycles === 1 ? 'cycle' : 'cycles'} logged in this phase so far. Another one or two and your own pattern will start to show here.`
+            : 'Not enough logged in this phase yet. Keep checking in and your own pattern will start to show here.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+import type { PregnancyOutcome, PregnancyRecord, SymptomKey, UserData } from '../types';
+import { useEntries } from '../lib/appStore';
+import { isoTodayLocal } from '../lib/date';
+import {
+  POSTPARTUM_SYMPTOM_PACK,
+  PREGNANCY_ONLY_KEYS,
+  PREGNANCY_SYMPTOM_PACK,
+  dueDateFromLmp,
+  formatGestation,
+  getCurrentPregnancy,
+  getGestation,
+  getPostpartumWeek,
+  newPregnancyId,
+} from '../lib/pregnancy';
+
+type Props = {
+  userData: UserData;
+  onUpdateUserData: (updater: ((prev: UserData) => UserData) | UserData) => void;
+};
+
+const inputClass =
+  'w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]';
+
+const buttonClass =
+  'text-sm px-4 py-2 rounded-xl bg-[rgb(var(--color-primary))] text-white hover:opacity-95 transition-colors whitespace-nowrap';
+
+const secondaryButtonClass = 'text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors';
+
+function withModules(current: SymptomKey[] | undefined, add: SymptomKey[], remove: SymptomKey[] = []): SymptomKey[] {
+  const next = (current ?? []).filter((k) => !remove.includes(k));
+  for (const k of add) if (!next.includes(k)) next.push(k);
+  return next;
+}
+
+function prettyDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function PregnancyCard({ userData, onUpdateUserData }: Props) {
+  const todayISO = isoTodayLocal();
+  const { entries, upsertEntry } = useEntries();
+
+  const [open, setOpen] = useState(false);
+  const [lmpISO, setLmpISO] = useState('');
+  const [dueISO, setDueISO] = useState('');
+  const [endISO, setEndISO] = useState(todayISO);
+  const [returnISO, setReturnISO] = useState(todayISO);
+  const [error, setError] = useState('');
+
+  const mode = userData.cycleTrackingMode;
+  const current = getCurrentPregnancy(userData);
+  const gestation = mode === 'pregnancy' && current ? getGestation(current, todayISO) : null;
+  const postpartumWeek = mode === 'postpartum' && current ? getPostpartumWeek(current, todayISO) : null;
+
+  const updateCurrent = (patch: Partial<PregnancyRecord>, extra: (prev: UserData) => Partial<UserData>) => {
+    if (!current) return;
+    onUpdateUserData((prev) => ({
+      ...prev,
+      ...extra(prev),
+      pregnancies: (prev.pregnancies ?? []).map((p) => (p.id === current.id ? { ...p, ...patch } : p)),
+    }));
+  };
+
+  const startPregnancy = () => {
+    if (!lmpISO && !dueISO) {
+      setError('Add the first day of your last period or your due date.');
+      return;
+    }
+    if (lmpISO && lmpISO > todayISO) {
+      setError('The last period date is in the future.');
+      return;
+    }
+    const record: PregnancyRecord = {
+      id: newPregnancyId(),
+      lmpISO: lmpISO || undefined,
+      dueDateISO: dueISO || dueDateFromLmp(lmpISO),
+      startedISO: todayISO,
+      endISO: null,
+      cycleReturnISO: null,
+    };
+    onUpdateUserData((prev) => ({
+      ...prev,
+      cycleTrackingMode: 'pregnancy',
+      pregnancies: [...(prev.pregnancies ?? []), record],
+      enabledModules: withModules(prev.enabledModules, PREGNANCY_SYMPTOM_PACK),
+    }));
+    setLmpISO('');
+    setDueISO('');
+    setError('');
+  };
+
+  const endPregnancy = (outcome: PregnancyOutcome) => {
+    if (!endISO || endISO > todayISO) {
+      setError('Pick a date on or before today.');
+      return;
+    }
+    if (outcome === 'birth') {
+      updateCurrent({ endISO, outcome }, (prev) => ({
+        cycleTrackingMode: 'postpartum',
+        enabledModules: withModules(prev.enabledModules, POSTPARTUM_SYMPTOM_PACK, ['swelling', 'pelvicGirdlePain']),
+      }));
+    } else {
+      // Bleeds in the couple of weeks after a loss are skipped (see pregnancy.ts), then cycle tracking carries on.
+      updateCurrent({ endISO, outcome }, (prev) => ({
+        cycleTrackingMode: 'cycle',
+        enabledModules: withModules(prev.enabledModules, [], PREGNANCY_ONLY_KEYS),
+      }));
+    }
+    setError('');
+  };
+
+  const periodIsBack = () => {
+    if (!returnISO || returnISO > todayISO) {
+      setError('Pick a date on or before today.');
+      return;
+    }
+    // Mark day 1 so cycle lengths start from here rather than from before the pregnancy
+    const now = new Date().toISOString();
+    const existing = entries.find((e: any) => e?.dateISO === returnISO);
+    upsertEntry(
+      existing
+        ? { ...existing, cycleStartOverride: true, updatedAt: now }
+        : {
+            id:
+              globalThis.crypto && 'randomUUID' in globalThis.crypto
+                ? (globalThis.crypto as any).randomUUID()
+                : String(Math.random()),
+            dateISO: returnISO,
+            values: {},
+            cycleStartOverride: true,
+            createdAt: now,
+            updatedAt: now,
+          }
+    );
+    updateCurrent({ cycleReturnISO: returnISO }, (prev) => ({
+      cycleTrackingMode: 'cycle',
+      enabledModules: withModules(prev.enabledModules, ['flow'], PREGNANCY_ONLY_KEYS),
+    }));
+    setError('');
+  };
+
+  const undoPregnancy = () => {
+    if (!current) return;
+    onUpdateUserData((prev) => ({
+      ...prev,
+      cycleTrackingMode: 'cycle',
+      pregnancies: (prev.pregnancies ?? []).filter((p) => p.id !== current.id),
+      enabledModules: withModules(prev.enabledModules, [], PREGNANCY_ONLY_KEYS),
+    }));
+  };
+
+  const summary =
+    mode === 'pregnancy'
+      ? gestation
+        ? `${formatGestation(gestation)} · due ${prettyDate(gestation.dueDateISO)}`
+        : 'Pregnancy mode is on.'
+      : mode === 'postpartum'
+        ? postpartumWeek
+          ? `Week ${postpartumWeek} after birth`
+          : 'Postpartum mode is on.'
+        : 'Pause period predictions while pregnant, then ease back into cycle tracking.';
+
+  return (
+    <div className="eb-card mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+      >
+        <div className="min-w-0">
+          <h3 className="mb-1">Pregnancy and postpartum</h3>
+          <p className="text-sm text-[rgb(var(--color-text-secondary))]">{summary}</p>
+        </div>
+        <ChevronRight
+          className={`w-5 h-5 shrink-0 text-[rgb(var(--color-text-secondary))] transition-transform ${open ? 'rotate-90' : ''}`}
+        />
+      </button>
+
+      {open ? (
+        <div className="mt-4 space-y-3">
+          {mode !== 'pregnancy' && mode !== 'postpartum' && (
+            <>
+              <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+                We'll count weeks for you, pause period predictions and switch on a pregnancy symptom pack. Nothing you've logged is
+                lost.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                  First day of last period
+                  <input type="date" value={lmpISO} max={todayISO} onChange={(e) => setLmpISO(e.target.value)} className={inputClass} />
+                </label>
+                <label className="text-xs text-[rgb(var(--color-text-secondary))]">
+                  Due date (if you know it)
+                  <input
+                    type="date"
+                    value={dueISO}
+                    onChange={(e) => setDueISO(e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              {lmpISO && !dueISO ? (
+                <div className="text-xs text-[rgb(var(--color-text-secondary))]">Estimated due date: {prettyDate(dueDateFromLmp(lmpISO))}</div>
+              ) : null}
+              <div className="flex justify-end">
+                <button type="button" onClick={startPregnancy} className={buttonClass}>
+                  Start pregnancy mode
+                </button>
+              </div>
+            </>
+          )}
+
+          {mode === 'pregnancy' && (
+            <>
+              {gestation ? (
+                <div className="eb-callout text-sm">
+                  Week {gestation.weeks + 1} (trimester {gestation.trimester}).{' '}
+                  {gestation.daysToDue > 0
+                    ? `${gestation.daysToDue} ${gestation.daysToDue === 1 ? 'day' : 'days'} to go.`
+                    : gestation.daysToDue === 0
+                      ? 'Due today.'
+                      : `${-gestation.daysToDue} ${gestation.daysToDue === -1 ? 'day' : 'days'} past your due date.`}
+                </div>
+              ) : null}
+              <label className="flex items-center gap-2 text-sm text-[rgb(var(--color-text-secondary))]">
+                <span className="whitespace-nowrap">Date</span>
+                <input type="date" value={endISO} max={todayISO} onChange={(e) => setEndISO(e.target.value)} className={inputClass} />
+              </label>
+              <div className="flex flex-wrap justify-end gap-2">
+                <button type="button" onClick={undoPregnancy} className={secondaryButtonClass}>
+                  Turned on by mistake
+                </button>
+                <button type="button" onClick={() => endPregnancy('loss')} className={secondaryButtonClass}>
+                  Pregnancy ended
+                </button>
+                <button type="button" onClick={() => endPregnancy('birth')} className={buttonClass}>
+                  Baby has arrived
+                </button>
+              </div>
+            </>
+          )}
+
+          {mode === 'postpartum' && (
+            <>
+              <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+                When your first proper period comes back, tell us the first day. We'll switch cycle tracking back on and leave the
+                pregnancy out of your cycle lengths.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-[rgb(var(--color-text-secondary))]">
+                <span className="whitespace-nowrap">First day of period</span>
+                <input type="date" value={returnISO} max={todayISO} onChange={(e) => setReturnISO(e.target.value)} className={inputClass} />
+              </label>
+              <div className="flex justify-end">
+                <button type="button" onClick={periodIsBack} className={buttonClass}>
+                  My period is back
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && <div className="text-sm text-[rgb(170,60,60)]">{error}</div>}
+        </div>
+      ) : null}
+    </div>
+  );
+}
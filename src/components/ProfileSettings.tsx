@@ -33,8 +33,16 @@ import {
   cloudStatus,
 } from '../lib/cloudSync';
 import { useEntries, useChat, useExperiment } from '../lib/appStore';
+import { useRankedInsights } from '../lib/insightClient';
 import { calculateStreak, isoToday } from '../lib/analytics';
 import { buildAIExportContext, buildChatGPTPrompt, getPresetMeta, type AIExportPreset } from '../lib/aiExportBuilder';
+import { DRIVER_LABELS } from '../lib/patternDrivers';
+import { MedicationsCard } from './MedicationsCard';
+import { MeasurementsCard } from './MeasurementsCard';
+import { HormonalRegimensCard } from './HormonalRegimensCard';
+import { PregnancyCard } from './PregnancyCard';
+import { isPregnancyMode } from '../lib/pregnancy';
+import { MEASUREMENT_DEFS, MEASUREMENT_KEYS, getMeasurement } from '../lib/measurements';
 
 import appLogo from '../assets/everybody-logo-256.png';
 
@@ -198,6 +206,14 @@ const moduleMeta: Array<{ key: SymptomKey; label: string; description: string }>
   // Cycle (optional)
   { key: 'flow', label: 'Bleeding / spotting', description: 'Optional, only if it’s relevant to you' },
 
+  // Pregnancy & postpartum
+  { key: 'swelling', label: 'Swelling', description: 'Puffy feet, ankles or hands' },
+  { key: 'pelvicGirdlePain', label: 'Pelvic girdle pain', description: 'Pain at the front or back of the pelvis' },
+  { key: 'lochia', label: 'Postpartum bleeding', description: 'Bleeding after birth (lochia)' },
+  { key: 'afterPains', label: 'After-pains', description: 'Cramping as the womb shrinks back' },
+  { key: 'perinealPain', label: 'Perineal / scar pain', description: 'Stitches, tears or caesarean scar' },
+  { key: 'nipplePain', label: 'Nipple / breast pain', description: 'Sore nipples, engorgement or blocked ducts' },
+
   // Optional extras
 ];
 
@@ -209,7 +225,8 @@ const moduleGroups: Array<{ id: string; title: string; keys: SymptomKey[] }> = [
   { id: 'bodyPain', title: 'Body & pain', keys: ['headache', 'migraine', 'cramps', 'jointPain', 'backPain', 'breastTenderness', 'dizziness', 'restlessLegs', 'pain'] },
   { id: 'digestion', title: 'Digestion', keys: ['bloating', 'digestion', 'acidReflux', 'nausea', 'constipation', 'diarrhoea', 'appetite'] },
   { id: 'skinHair', title: 'Skin & hair', keys: ['hairShedding', 'facialSpots', 'cysts', 'skinDryness'] },
-  { id: 'hormones', title: 'Hormones', keys: ['hotFlushes', 'nightSweats', 'libido', 'flow'] },];
+  { id: 'hormones', title: 'Hormones', keys: ['hotFlushes', 'nightSweats', 'libido', 'flow'] },
+  { id: 'pregnancy', title: 'Pregnancy & postpartum', keys: ['swelling', 'pelvicGirdlePain', 'lochia', 'afterPains', 'perinealPain', 'nipplePain'] },];
 
 
 
@@ -344,6 +361,9 @@ export function ProfileSettings({ userData, onUpdateTheme, onUpdateUserData, onN
   const [customSymptomError, setCustomSymptomError] = useState<string>('');
 
   const [lifestyleOpen, setLifestyleOpen] = useState(false);
+  const [customInfluenceText, setCustomInfluenceText] = useState<string>('');
+  const [customInfluenceDriver, setCustomInfluenceDriver] = useState<string>('');
+  const [customInfluenceError, setCustomInfluenceError] = useState<string>('');
 
   const setEnabledModules = (next: SymptomKey[]) => {
     onUpdateUserData((prev) => ({ ...prev, enabledModules: next }));
@@ -493,13 +513,22 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
   };
 
   const exportCsv = () => {
-    const header = ['date', 'mood', 'energy', 'sleep', 'stress', 'focus', 'pain', 'bloating', 'flow', 'notes'];
+    const esc = (s: string) => `"${(s ?? '').replace(/"/g, '""')}"`;
+    const customInfluences = userData.customInfluences ?? [];
+    const header = [
+      'date', 'mood', 'energy', 'sleep', 'stress', 'focus', 'pain', 'bloating', 'flow',
+      // Custom influences: one yes/no column each
+      ...customInfluences.map((x) => esc(`influence: ${x.label}`)),
+      // Measurements in storage units (kg, mmHg, bpm, °C)
+      ...MEASUREMENT_KEYS.map((k) => esc(`${MEASUREMENT_DEFS[k].label} (${MEASUREMENT_DEFS[k].unit})`)),
+      'notes',
+    ];
+    const yesNo = (v: unknown) => (v === true ? 'yes' : v === false ? 'no' : '');
     const rows = entries
       .slice()
       .sort((a, b) => a.dateISO.localeCompare(b.dateISO))
       .map((e) => {
         const v = e.values;
-        const esc = (s: string) => `"${(s ?? '').replace(/"/g, '""')}"`;
         return [
           e.dateISO,
           e.mood ?? '',
@@ -510,6 +539,8 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
           v.pain ?? '',
           v.bloating ?? '',
           v.flow ?? '',
+          ...customInfluences.map((x) => yesNo(e.customEvents?.[x.id])),
+          ...MEASUREMENT_KEYS.map((k) => getMeasurement(e, k) ?? ''),
           esc(e.notes ?? ''),
         ].join(',');
       });
@@ -553,16 +584,19 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
     }
   };
 
+  // The export's insight lines come from the worker; hold the buttons until they're in
+  const rankedSignals = useRankedInsights(entries, userData);
   const aiExportPreview = useMemo(() => {
-    const context = buildAIExportContext(entries, userData, aiExportPreset);
-    const prompt = buildChatGPTPrompt(entries, userData, aiExportPreset);
+    const context = buildAIExportContext(entries, userData, rankedSignals ?? [], aiExportPreset);
+    const prompt = buildChatGPTPrompt(entries, userData, rankedSignals ?? [], aiExportPreset);
     return {
       context,
       prompt,
+      ready: rankedSignals !== null,
       meta: getPresetMeta(aiExportPreset),
-      previewLines: prompt.split('\n').filter((line) => line.trim()).slice(0, 6),
+      previewLines: rankedSignals ? prompt.split('\n').filter((line) => line.trim()).slice(0, 6) : ['Reading your recent check-ins…'],
     };
-  }, [entries, userData, aiExportPreset]);
+  }, [entries, userData, rankedSignals, aiExportPreset]);
 
   const handleContinueInChatGPT = async () => {
     setShowAIExportPanel(false);
@@ -827,6 +861,7 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                 <p className="text-sm text-white/80">
                   {userData.goal === 'cycle-health' && 'Tracking cycle health'}
                   {userData.goal === 'perimenopause' && 'Perimenopause support'}
+                  {userData.goal === 'postmenopause' && 'Post-menopause'}
                   {userData.goal === 'post-contraception' && 'Post-contraception journey'}
                   {userData.goal === 'wellbeing' && 'Wellbeing support'}
                   {!userData.goal && 'Just exploring'}
@@ -870,19 +905,22 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
               <p className="text-sm text-[rgb(var(--color-text-secondary))]">
                 {userData.cycleTrackingMode === 'cycle'
                   ? 'On (phase insights available when you log bleeding/spotting)'
-                  : 'Off (symptom-only mode)'}
+                  : isPregnancyMode(userData)
+                    ? 'Paused while pregnancy or postpartum mode is on (see below)'
+                    : 'Off (symptom-only mode)'}
               </p>
             </div>
 
             <button
               type="button"
+              disabled={isPregnancyMode(userData)}
               onClick={() =>
                 onUpdateUserData((prev) => ({
                   ...prev,
                   cycleTrackingMode: prev.cycleTrackingMode === 'cycle' ? 'no-cycle' : 'cycle',
                 }))
               }
-              className={`shrink-0 w-12 h-6 rounded-full transition-all ${
+              className={`shrink-0 w-12 h-6 rounded-full transition-all disabled:opacity-50 ${
                 userData.cycleTrackingMode === 'cycle' ? 'bg-[rgb(var(--color-primary))]' : 'bg-neutral-300'
               }`}
             >
@@ -898,7 +936,7 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
             <div>
               <p className="font-medium mb-1">Fertility mode</p>
               <p className="text-sm text-[rgb(var(--color-text-secondary))]">
-                {userData.fertilityMode ? 'On (shows fertile window shading and a discreet sex log)' : 'Off'}
+                {userData.fertilityMode ? 'On (shows fertile window shading, a discreet sex log and fertility signs like BBT and LH tests)' : 'Off'}
               </p>
             </div>
 
@@ -922,6 +960,36 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
             </button>
           </div>
 
+          <div className="mt-4 flex items-center justify-between">
+            <div>
+              <p className="font-medium mb-1">PMDD screening</p>
+              <p className="text-sm text-[rgb(var(--color-text-secondary))]">
+                {userData.pmddMode
+                  ? 'On (adds the DRSP daily record to your check-in, scored across cycles for your doctor export)'
+                  : 'Off'}
+              </p>
+            </div>
+
+            <button
+              type="button"
+              onClick={() =>
+                onUpdateUserData((prev) => ({
+                  ...prev,
+                  pmddMode: !prev.pmddMode,
+                }))
+              }
+              className={`shrink-0 w-12 h-6 rounded-full transition-all ${
+                userData.pmddMode ? 'bg-[rgb(var(--color-primary))]' : 'bg-neutral-300'
+              }`}
+            >
+              <div
+                className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                  userData.pmddMode ? 'translate-x-6' : 'translate-x-0.5'
+                }`}
+              />
+            </button>
+          </div>
+
           <div className="mt-4 flex items-center justify-between">
             <div>
               <p className="font-medium mb-1">Auto-start periods from bleeding</p>
@@ -1378,6 +1446,133 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                           );
                         })}
                       </div>
+
+                      {/* Custom influences */}
+                      <div className="mt-4 rounded-2xl border border-neutral-200 bg-white p-3 sm:p-4">
+                        <p className="font-medium mb-1">Add your own influence</p>
+                        <p className="text-sm text-[rgb(var(--color-text-secondary))] mb-3">
+                          Things like “Sauna”, “Gluten”, “Night shift” or “Fasting”. They show up as yes/no toggles in your check-in.
+                        </p>
+
+                        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                          <input
+                            value={customInfluenceText}
+                            onChange={(e) => {
+                              setCustomInfluenceText(e.target.value);
+                              setCustomInfluenceError('');
+                            }}
+                            placeholder="Type an influence..."
+                            className="w-full sm:flex-1 rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]"
+                          />
+
+                          <select
+                            value={customInfluenceDriver}
+                            onChange={(e) => setCustomInfluenceDriver(e.target.value)}
+                            className="w-full sm:w-44 rounded-xl border border-neutral-200 px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-primary)/0.35)]"
+                            aria-label="What does this relate to"
+                            title="What does this relate to"
+                          >
+                            <option value="">Relates to…</option>
+                            {(Object.keys(DRIVER_LABELS) as Array<keyof typeof DRIVER_LABELS>)
+                              .filter((k) => k !== 'not_sure' && k !== 'hormones' && k !== 'cycle_timing')
+                              .map((k) => (
+                                <option key={k} value={k}>
+                                  {DRIVER_LABELS[k]}
+                                </option>
+                              ))}
+                          </select>
+
+                          <button
+                            type="button"
+                            onClick={() => {
+                              const label = customInfluenceText.trim();
+                              if (!label) {
+                                setCustomInfluenceError('Type an influence name first.');
+                                return;
+                              }
+                              if (label.length > 28) {
+                                setCustomInfluenceError('Keep it short (28 characters max).');
+                                return;
+                              }
+                              onUpdateUserData((prev) => {
+                                const existing = prev.customInfluences ?? [];
+                                const exists = existing.some((x) => x.label.toLowerCase() === label.toLowerCase());
+                                if (exists) return prev;
+                                const id = `i_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+                                return {
+                                  ...prev,
+                                  customInfluences: [...existing, { id, label, enabled: true, driver: customInfluenceDriver || undefined }],
+                                };
+                              });
+                              setCustomInfluenceText('');
+                              setCustomInfluenceDriver('');
+                              setCustomInfluenceError('');
+                            }}
+                            className="text-sm px-4 py-2 rounded-xl bg-[rgb(var(--color-primary))] text-white hover:opacity-95 transition-colors whitespace-nowrap"
+                          >
+                            Add influence
+                          </button>
+                        </div>
+
+                        {customInfluenceError && (
+                          <div className="mt-2 text-sm text-[rgb(170,60,60)]">{customInfluenceError}</div>
+                        )}
+
+                        {!!(userData.customInfluences?.length) && (
+                          <div className="mt-4 space-y-2">
+                            {(userData.customInfluences ?? []).map((item) => (
+                              <div key={item.id} className="flex items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-3 py-2">
+                                <div className="min-w-0">
+                                  <div className="font-medium truncate">{item.label}</div>
+                                  {item.driver && item.driver in DRIVER_LABELS ? (
+                                    <div className="text-xs text-[rgb(var(--color-text-secondary))]">
+                                      {DRIVER_LABELS[item.driver as keyof typeof DRIVER_LABELS]}
+                                    </div>
+                                  ) : null}
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      // If turning OFF, ask whether to retire past data from Insights.
+                                      if (item.enabled) {
+                                        setRetirePrompt({ kind: 'influence', metricId: `influence:${item.id}`, label: item.label, customId: item.id });
+                                        return;
+                                      }
+                                      onUpdateUserData((prev) => ({
+                                        ...prev,
+                                        customInfluences: (prev.customInfluences ?? []).map((x) => (x.id === item.id ? { ...x, enabled: true } : x)),
+                                      }));
+                                    }}
+                                    className={`shrink-0 w-12 h-6 rounded-full transition-all ${item.enabled ? 'bg-[rgb(var(--color-primary))]' : 'bg-neutral-300'}`}
+                                    aria-label={item.enabled ? `Disable ${item.label}` : `Enable ${item.label}`}
+                                  >
+                                    <div
+                                      className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                                        item.enabled ? 'translate-x-6' : 'translate-x-0.5'
+                                      }`}
+                                    />
+                                  </button>
+
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      onUpdateUserData((prev) => ({
+                                        ...prev,
+                                        customInfluences: (prev.customInfluences ?? []).filter((x) => x.id !== item.id),
+                                      }))
+                                    }
+                                    className="text-sm px-3 py-2 rounded-xl bg-neutral-100 hover:bg-neutral-200 transition-colors"
+                                  >
+                                    Remove
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   ) : null}
                 </div>
@@ -1401,6 +1596,14 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
 	        </div>
 
 
+        <MedicationsCard userData={userData} onUpdateUserData={onUpdateUserData} />
+
+        <HormonalRegimensCard userData={userData} onUpdateUserData={onUpdateUserData} />
+
+        <PregnancyCard userData={userData} onUpdateUserData={onUpdateUserData} />
+
+        <MeasurementsCard userData={userData} onUpdateUserData={onUpdateUserData} />
+
         {/* Settings list */}
         {settingsSections.map((section) => (
           <div key={section.title} className="mb-6">
@@ -1456,7 +1659,7 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                   </div>
 
                   <div className="mt-4 flex flex-col sm:flex-row gap-2">
-                    <button type="button" className="eb-btn eb-btn-primary" onClick={handleContinueInChatGPT}>
+                    <button type="button" className="eb-btn eb-btn-primary" onClick={handleContinueInChatGPT} disabled={!aiExportPreview.ready}>
                       Continue in ChatGPT
                     </button>
                     <button
@@ -1480,10 +1683,10 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                         Use the current preset with Claude, Gemini, Perplexity, Copilot or ChatGPT, or download a structured JSON export.
                       </p>
                       <div className="mt-4 flex flex-col sm:flex-row gap-2">
-                        <button type="button" className="eb-btn eb-btn-secondary" onClick={handleCopyAIPrompt}>
+                        <button type="button" className="eb-btn eb-btn-secondary" onClick={handleCopyAIPrompt} disabled={!aiExportPreview.ready}>
                           Copy AI prompt
                         </button>
-                        <button type="button" className="eb-btn eb-btn-secondary" onClick={handleDownloadAIJson}>
+                        <button type="button" className="eb-btn eb-btn-secondary" onClick={handleDownloadAIJson} disabled={!aiExportPreview.ready}>
                           Download JSON
                         </button>
                       </div>
@@ -1572,6 +1775,7 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                   const options: Array<{ id: UserGoal; label: string; desc: string }> = [
                     { id: 'cycle-health', label: 'Cycle Health', desc: 'General cycle tracking and rhythm insights.' },
                     { id: 'perimenopause', label: 'Perimenopause', desc: 'Trend-led insights for changing rhythms.' },
+                    { id: 'postmenopause', label: 'Post-menopause', desc: 'No period predictions, just how you feel over time.' },
                     { id: 'post-contraception', label: 'Post contraception', desc: 'Support while your body rebalances.' },
                     { id: 'wellbeing', label: 'Wellbeing', desc: 'A lighter, symptom-first approach.' },
                   ];
@@ -2333,6 +2537,13 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                     const metricId = retirePrompt.metricId;
                     onUpdateUserData((prev) => {
                       if (retirePrompt.kind === 'influence') {
+                        if (retirePrompt.customId) {
+                          const id = retirePrompt.customId;
+                          return {
+                            ...prev,
+                            customInfluences: (prev.customInfluences ?? []).map((x) => (x.id === id ? { ...x, enabled: false } : x)),
+                          };
+                        }
                         const key = String(retirePrompt.metricId).replace('influence:', '') as InfluenceKey;
                         return {
                           ...prev,
@@ -2371,6 +2582,14 @@ To restore, choose a file named everybody-backup-YYYY-MM-DD.json.`
                       nextMap[metricId] = todayISO;
 
                       if (retirePrompt.kind === 'influence') {
+                        if (retirePrompt.customId) {
+                          const id = retirePrompt.customId;
+                          return {
+                            ...prev,
+                            customInfluences: (prev.customInfluences ?? []).map((x) => (x.id === id ? { ...x, enabled: false } : x)),
+                            metricRetiredFromISO: nextMap,
+                          };
+                        }
                         const key = String(retirePrompt.metricId).replace('influence:', '') as InfluenceKey;
                         return {
                           ...prev,
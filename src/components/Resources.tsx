@@ -19,14 +19,14 @@ const articles = [
     category: 'Health',
     duration: '8 min read',
     type: 'article',
-    relevance: ['perimenopause', 'wellbeing'],
+    relevance: ['perimenopause', 'postmenopause', 'wellbeing'],
   },
   {
     title: 'Nutrition for Hormonal Balance',
     category: 'Nutrition',
     duration: '6 min read',
     type: 'article',
-    relevance: ['cycle-health', 'perimenopause', 'post-contraception', 'wellbeing'],
+    relevance: ['cycle-health', 'perimenopause', 'postmenopause', 'post-contraception', 'wellbeing'],
   },
   {
     title: 'Meditation for Cycle Awareness',
@@ -47,7 +47,7 @@ const articles = [
     category: 'Health',
     duration: '7 min read',
     type: 'article',
-    relevance: ['perimenopause', 'wellbeing'],
+    relevance: ['perimenopause', 'postmenopause', 'wellbeing'],
   },
 ];
 
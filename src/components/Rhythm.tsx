@@ -2,13 +2,19 @@ import React, { useMemo, useState } from 'react';
 import { Moon, Sprout, Sparkles, Shield, Eye, Leaf, Compass, Info } from 'lucide-react';
 import { RhythmHero } from './RhythmHero';
 import { PhaseHistoryCard } from './PhaseHistoryCard';
+import { PhaseProfileCard } from './PhaseProfileCard';
+import { MenopauseTransitionCard } from './MenopauseTransitionCard';
 import { useEntries, useExperimentHistory } from '../lib/appStore';
-import { computeCycleStats, getRhythmModel, isoToday, sortByDateAsc } from '../lib/analytics';
+import { type PhaseWindows, getPhaseWindows, isoToday, sortByDateAsc } from '../lib/analytics';
+import { buildCycleEngine } from '../lib/cycleEngine';
+import { getRhythmModel } from '../lib/rhythmModel';
 import { getExperimentLearnings, getWhatsComingPredictions } from '../lib/rhythmPredictions';
 import { getPhaseHistory } from '../lib/phaseHistory';
 import { getRhythmPhaseState } from '../lib/phaseChange';
+import { getPregnancyNote } from '../lib/pregnancy';
+import { DEFAULT_USER } from '../lib/defaultUser';
 import type { CheckInEntry, SymptomKey } from '../types';
-import type { UserData } from '../types';
+import type { UserData, UserGoal } from '../types';
 
 type ConfidenceLevel = 'Learning' | 'Emerging' | 'Established';
 
@@ -224,90 +230,16 @@ function pickDailyReminder(phase: PhaseKey, dateKey: string): string {
   const idx = list.length ? hash % list.length : 0;
   return list[idx] || 'This shift is part of your rhythm.';
 }
-function parseISODate(iso: string): Date {
-  const [y, m, d] = iso.split('-').map((n) => parseInt(n, 10));
-  return new Date(y, (m || 1) - 1, d || 1);
-}
-
-function daysBetween(aISO: string, bISO: string): number {
-  const a = parseISODate(aISO);
-  const b = parseISODate(bISO);
-  const ms = 24 * 60 * 60 * 1000;
-  return Math.round((b.getTime() - a.getTime()) / ms);
-}
-
-function flowTo10(v: unknown): number | null {
-  if (typeof v !== 'number' || !isFinite(v)) return null;
-  // stored values already 0–10
-  return Math.max(0, Math.min(10, v));
-}
-
 function getSymptom(entry: CheckInEntry, key: SymptomKey): number | null {
   const v = (entry as any)?.values?.[key];
   return typeof v === 'number' && isFinite(v) ? Math.max(0, Math.min(10, v)) : null;
 }
 
-function detectCycleStarts(sorted: CheckInEntry[]): string[] {
-  const starts: string[] = [];
-  for (let i = 0; i < sorted.length; i++) {
-    const e = sorted[i];
-    const iso = (e as any).dateISO;
-    if (!iso) continue;
-
-    if ((e as any).cycleStartOverride) {
-      starts.push(iso);
-      continue;
-    }
-
-    const flow = flowTo10(getSymptom(e, 'flow'));
-    if (!flow || flow <= 0) continue;
-
-    const prev = sorted[i - 1];
-    const prevFlow = prev ? flowTo10(getSymptom(prev, 'flow')) : 0;
-    if (!prevFlow || prevFlow <= 0) starts.push(iso);
-  }
-  // de-dupe and sort
-  return Array.from(new Set(starts)).sort();
-}
-
 function average(nums: number[]): number | null {
   if (!nums.length) return null;
   return nums.reduce((a, b) => a + b, 0) / nums.length;
 }
 
-function clamp(n: number, lo: number, hi: number) {
-  return Math.max(lo, Math.min(hi, n));
-}
-
-function computeCycleLength(starts: string[]): { avg: number | null; last: number | null } {
-  if (starts.length < 2) return { avg: null, last: null };
-  const diffs: number[] = [];
-  for (let i = 1; i < starts.length; i++) {
-    const d = daysBetween(starts[i - 1], starts[i]);
-    if (d >= 15 && d <= 60) diffs.push(d);
-  }
-  const last = diffs.length ? diffs[diffs.length - 1] : null;
-  const avg = average(diffs);
-  return { avg: avg ? Math.round(avg) : null, last };
-}
-
-function phaseFromDay(day: number, cycleLen: number, flowToday: number | null) {
-  // If bleeding/spotting today, treat as Menstrual (Reset)
-  if (flowToday != null && flowToday > 0) {
-    return { key: 'reset' as PhaseKey, soft: 'Reset Phase', sci: 'Menstrual phase' };
-  }
-
-  // Default 28-ish boundaries, stretched to cycle length
-  const ovulationCenter = Math.round(clamp(cycleLen - 14, 10, cycleLen - 10));
-  const ovStart = clamp(ovulationCenter - 1, 8, cycleLen - 8);
-  const ovEnd = clamp(ovulationCenter + 1, ovStart + 1, cycleLen - 6);
-
-  if (day <= 5) return { key: 'reset' as PhaseKey, soft: 'Reset Phase', sci: 'Menstrual phase' };
-  if (day < ovStart) return { key: 'rebuilding' as PhaseKey, soft: 'Rebuilding Phase', sci: 'Follicular phase' };
-  if (day <= ovEnd) return { key: 'expressive' as PhaseKey, soft: 'Expressive Phase', sci: 'Ovulatory phase' };
-  return { key: 'protective' as PhaseKey, soft: 'Protective Phase', sci: 'Luteal phase' };
-}
-
 type PhaseProfile = Partial<Record<SymptomKey, number>>;
 
 const genericProfiles: Record<PhaseKey, PhaseProfile> = {
@@ -379,6 +311,10 @@ function inferPhaseKeyFromSignals(sorted: CheckInEntry[]): PhaseKey | null {
   return best;
 }
 
+function shortDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
 function softPhaseMeta(key: PhaseKey) {
   switch (key) {
     case 'reset':
@@ -393,19 +329,16 @@ function softPhaseMeta(key: PhaseKey) {
   }
 }
 
-function estimateDaysToNext(key: PhaseKey, dayInCycle: number | null, cycleLen: number | null): number | null {
-  if (dayInCycle != null && cycleLen != null) {
-    const flowPhase = phaseFromDay(dayInCycle, cycleLen, null);
-    const bounds = () => {
-      const ovulationCenter = Math.round(clamp(cycleLen - 14, 10, cycleLen - 10));
-      const ovStart = clamp(ovulationCenter - 1, 8, cycleLen - 8);
-      const ovEnd = clamp(ovulationCenter + 1, ovStart + 1, cycleLen - 6);
-      if (key === 'reset') return 6; // to rebuilding start
-      if (key === 'rebuilding') return ovStart;
-      if (key === 'expressive') return ovEnd + 1;
-      return cycleLen + 1; // next cycle start (approx)
-    };
-    const nextStart = bounds();
+function estimateDaysToNext(key: PhaseKey, dayInCycle: number | null, w: PhaseWindows | null): number | null {
+  if (dayInCycle != null && w) {
+    const nextStart =
+      key === 'reset'
+        ? w.resetEnd + 1 // to rebuilding start
+        : key === 'rebuilding'
+          ? w.expressiveStart
+          : key === 'expressive'
+            ? w.expressiveEnd + 1
+            : w.cycleLen + 1; // next cycle start (approx)
     const remaining = nextStart - dayInCycle;
     return remaining > 0 ? remaining : null;
   }
@@ -417,6 +350,7 @@ function estimateDaysToNext(key: PhaseKey, dayInCycle: number | null, cycleLen:
 function formatSourceLine(source: any): string {
   if (source === 'override') return 'Based on your cycle start.';
   if (source === 'bleed') return 'Based on your logged bleeding.';
+  if (source === 'symptom_rhythm') return 'Based on how your symptoms repeat.';
   return 'Based on your recent check-ins.';
 }
 
@@ -456,7 +390,9 @@ export function Rhythm({ userData }: { userData?: UserData }) {
   const { history: experimentHistory } = useExperimentHistory();
   // Back-compat: some older wiring passed entries via userData. Prefer store entries.
   const entries: CheckInEntry[] = (Array.isArray((userData as any)?.entries) ? ((userData as any).entries as any[]) : storeEntries) as any;
-  const phaseHistory = useMemo(() => getPhaseHistory(), [entries]);
+  // Bumped when the user corrects their phase history, so everything below re-reads it
+  const [historyTick, setHistoryTick] = useState(0);
+  const phaseHistory = useMemo(() => getPhaseHistory(), [entries, historyTick]);
 
   const daysLogged = useMemo(() => {
     try {
@@ -472,7 +408,7 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
     const sorted = sortByDateAsc(entries);
     const todayISO = isoToday();
 
-    const ud = (userData ?? ({} as any)) as UserData;
+    const ud = userData ?? DEFAULT_USER;
     const rm = getRhythmModel(sorted, ud, todayISO);
 
     const phaseKey: PhaseKey = (rm.phaseKey ?? 'protective') as PhaseKey;
@@ -489,9 +425,14 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
     const source = rm.source;
     const reasons = rm.reasons ?? [];
 
-    const cycleStats = computeCycleStats(sorted);
+    const engine = buildCycleEngine(sorted, ud, todayISO);
+    const cycleStats = engine.stats;
 
-    const daysToNext = estimateDaysToNext(phaseKey, dayInCycle, cycleLen);
+    const daysToNext = estimateDaysToNext(
+      phaseKey,
+      dayInCycle,
+      source === 'symptom_rhythm' ? getPhaseWindows(cycleLen) : engine.currentWindows
+    );
     const nextPhaseKey = (() => {
       if (phaseKey === 'reset') return 'rebuilding' as PhaseKey;
       if (phaseKey === 'rebuilding') return 'expressive' as PhaseKey;
@@ -513,6 +454,12 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
       todayISO,
       starts,
       cycleLen,
+      cycleStats,
+      phaseWindows: engine.currentWindows,
+      nextPeriod: engine.nextPeriod,
+      fertileWindow: engine.fertileWindow,
+      backtest: engine.backtest,
+      boundaries: engine.boundaries,
       avgCycleLen: cycleStats.avgLength,
       lastCycleLen: cycleStats.lastLength,
       dayInCycle,
@@ -523,12 +470,13 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
       source,
       phaseState,
       reasons,
+      symptomRhythm: rm.symptomRhythm,
       daysToNext,
       nextPhaseKey,
       nextSci,
       nextPhase,
     };
-  }, [entries, daysLogged, userData]);
+  }, [entries, daysLogged, userData, historyTick]);
 
   
   const experimentLearnings = useMemo(() => {
@@ -552,7 +500,8 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
   const avgCycleLen = computed.avgCycleLen;
   const lastCycleLen = computed.lastCycleLen;
 
-  const cycleStats = useMemo(() => computeCycleStats(sorted), [sorted]);
+  const cycleStats = computed.cycleStats;
+  const pregnancyNote = useMemo(() => getPregnancyNote(userData), [userData?.pregnancies, userData?.cycleTrackingMode]);
 
   const [cycleModalOpen, setCycleModalOpen] = useState(false);
   const avgCycleText = avgCycleLen ? `${avgCycleLen} days avg` : 'Not enough data yet';
@@ -601,16 +550,20 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
         {/* Where you are */}
         <RhythmHero
           entries={computed.sorted}
-          userData={(userData ?? ({} as any)) as UserData}
+          userData={userData ?? DEFAULT_USER}
           phaseKey={phaseKey}
           phaseTitle={computed.soft}
           phaseSubtitle={/phase$/i.test(String(computed.sci).trim()) ? String(computed.sci).trim() : `${computed.sci} phase`}
-          phaseDescription={phaseOneLiner(phaseKey, (((userData ?? {}) as any).goal ?? null) as any)}
+          phaseDescription={phaseOneLiner(phaseKey, userData?.goal ?? null)}
           confidenceLabel={computed.confidence}
           phaseStatusLabel={computed.phaseState?.historyLockLevel === 'confirmed' ? 'Confirmed phase' : 'Estimated phase'}
           phaseIcon={phaseIcon}
         />
 
+        {userData?.goal === 'perimenopause' || userData?.goal === 'postmenopause' ? (
+          <MenopauseTransitionCard entries={computed.sorted} userData={userData as UserData} />
+        ) : null}
+
         {/* It grows with you (reassurance) */}
         <div className="eb-card p-6 sm:p-8">
           <div className="flex items-start gap-3">
@@ -647,6 +600,11 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
             ) : null}
           </div>
 
+          {cycleStats?.regimenNote ? (
+            <div className="mb-3 eb-callout text-sm">{cycleStats.regimenNote}</div>
+          ) : null}
+          {pregnancyNote ? <div className="mb-3 eb-callout text-sm">{pregnancyNote}</div> : null}
+
           {(() => {
             const steps: Array<{ key: PhaseKey; label: string; sci: string }> = [
               { key: 'reset', label: 'Reset', sci: 'Menstrual' },
@@ -756,7 +714,14 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
           </div>
         </div>
 
-        <PhaseHistoryCard history={phaseHistory} />
+        <PhaseHistoryCard history={phaseHistory} onEdited={() => setHistoryTick((v) => v + 1)} />
+
+        <PhaseProfileCard
+          entries={entries}
+          userData={userData ?? DEFAULT_USER}
+          experiments={experimentHistory}
+          currentPhase={phaseKey}
+        />
 
         {/* What usually comes next */}
         <div className="eb-card p-6">
@@ -773,6 +738,14 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
             If this rhythm follows your usual pattern, you’ll likely shift into your <span className="font-medium opacity-90">{computed.nextPhase}</span> ({computed.nextSci}) in around <span className="font-medium opacity-90">{computed.daysToNext ?? 5} days</span>.
           </p>
 
+              {computed.symptomRhythm ? (
+                <p className="text-sm text-neutral-700">
+                  Without periods to go on, we’re using your symptoms: they’ve been repeating about every{' '}
+                  {computed.symptomRhythm.periodDays} days ({computed.symptomRhythm.confidence} confidence). The next build-up
+                  looks likely around {shortDate(computed.symptomRhythm.buildUpFromISO)}–{shortDate(computed.symptomRhythm.buildUpToISO)}.
+                </p>
+              ) : null}
+
               <div className="eb-inset rounded-xl p-4 bg-[rgb(var(--color-accent)/0.10)] border border-[rgb(var(--color-accent)/0.18)]">
                 <div className="text-base font-medium text-neutral-800">{nextPhasePlanning.title}</div>
                 <div className="mt-1 text-base text-neutral-800 font-normal">{nextPhasePlanning.body}</div>
@@ -838,16 +811,57 @@ const level = useMemo(() => confidenceLabel(daysLogged), [daysLogged]);
                 </div>
                 <div className="eb-inset rounded-xl p-4">
                   <div className="text-xs text-[rgba(0,0,0,0.60)]">Prediction</div>
-                  <div className="text-lg font-semibold">{cycleStats?.predictedNextStartISO ? 'Next start' : '—'}</div>
-                  {cycleStats?.predictedNextStartISO ? (
-                    <div className="mt-1 text-sm text-[rgba(0,0,0,0.65)]">{cycleStats.predictedNextStartISO}</div>
+                  <div className="text-lg font-semibold">
+                    {computed.nextPeriod ? `${shortDate(computed.nextPeriod.earliestISO)}–${shortDate(computed.nextPeriod.latestISO)}` : '—'}
+                  </div>
+                  {computed.nextPeriod ? (
+                    <div className="mt-1 text-sm text-[rgba(0,0,0,0.65)]">
+                      Most likely {shortDate(computed.nextPeriod.likelyISO)} · {computed.nextPeriod.confidence} confidence
+                    </div>
                   ) : null}
                 </div>
               </div>
 
+              {computed.fertileWindow && userData?.fertilityMode ? (
+                <div className="mt-3 text-sm text-[rgba(0,0,0,0.70)]">
+                  Fertile window {shortDate(computed.fertileWindow.earliestISO)}–{shortDate(computed.fertileWindow.latestISO)} (
+                  {computed.fertileWindow.confidence} confidence)
+                </div>
+              ) : null}
+
+              {computed.backtest.checks.length ? (
+                <div className="mt-3 text-sm text-[rgba(0,0,0,0.70)]">
+                  Looking back, {computed.backtest.withinRange} of {computed.backtest.checks.length} past predictions landed in
+                  range, off by {computed.backtest.meanAbsErrorDays} {computed.backtest.meanAbsErrorDays === 1 ? 'day' : 'days'} on
+                  average.
+                </div>
+              ) : null}
+
               {cycleStats?.predictionNote ? (
                 <div className="mt-4 text-sm text-[rgba(0,0,0,0.70)]">{cycleStats.predictionNote}</div>
               ) : null}
+
+              {computed.phaseWindows && userData?.cycleTrackingMode === 'cycle' ? (
+                <div className="mt-4 eb-inset rounded-xl p-4 text-sm">
+                  <div className="text-xs text-[rgba(0,0,0,0.60)] mb-1">Your phases this cycle</div>
+                  <div>
+                    Reset days 1–{computed.phaseWindows.resetEnd} · Rebuilding to day {computed.phaseWindows.expressiveStart - 1} ·
+                    Expressive days {computed.phaseWindows.expressiveStart}–{computed.phaseWindows.expressiveEnd} · Protective
+                    from day {computed.phaseWindows.expressiveEnd + 1}
+                  </div>
+                  <div className="mt-1 text-xs text-[rgba(0,0,0,0.60)]">
+                    {[
+                      computed.boundaries.periodPersonalised
+                        ? `Your periods last about ${computed.boundaries.periodLen} days`
+                        : 'Using a typical 5-day period',
+                      computed.boundaries.lutealPersonalised
+                        ? `ovulation placed from your confirmed ovulations (luteal phase ~${computed.boundaries.lutealLen} days)`
+                        : 'ovulation placed about 14 days before your next period',
+                    ].join(', ')}
+                    .
+                  </div>
+                </div>
+              ) : null}
             </div>
           </div>
         )}
@@ -3,8 +3,8 @@ import type { CheckInEntry, UserData } from '../types';
 import { getRhythmLowDataPatternLines, getRhythmPatternLines, type RhythmPhaseKey } from '../lib/rhythmCopy';
 import { getRhythmTimingModel } from '../lib/rhythmTiming';
 import { getBodyWeatherLines } from '../lib/companionLogic';
-import { getTopInsights } from '../lib/insightEngine';
-import { estimatePhaseByFlow } from '../lib/analytics';
+import { useRankedInsights } from '../lib/insightClient';
+import { buildCycleEngine } from '../lib/cycleEngine';
 import { isoTodayLocal } from '../lib/date';
 import { RhythmPatternBubble } from './RhythmPatternBubble';
 import { RhythmPhaseHeader } from './RhythmPhaseHeader';
@@ -27,26 +27,30 @@ export function RhythmHero(props: {
   );
 
   const lowData = distinctDays < 5;
+  const rankedSignals = useRankedInsights(props.entries, props.userData);
   const patternState = useMemo(() => {
     if (lowData) return { lines: getRhythmLowDataPatternLines(), strongestSignal: null };
-    return getRhythmPatternLines(props.entries, props.userData, props.phaseKey, 2);
-  }, [lowData, props.entries, props.userData, props.phaseKey]);
+    if (!rankedSignals) return { lines: ['Reading your recent check-ins…'], strongestSignal: null };
+    return getRhythmPatternLines(rankedSignals, props.userData, props.phaseKey, 2);
+  }, [lowData, rankedSignals, props.userData, props.phaseKey]);
 
   const timingModel = useMemo(() => getRhythmTimingModel(props.entries, props.userData), [props.entries, props.userData]);
 
   const predictionBody = useMemo(() => {
     if (lowData) return 'A few more check-ins will help this turn into a more personal prediction window.';
-    const currentPhase = estimatePhaseByFlow(isoTodayLocal(), props.entries);
-    const strongSignals = getTopInsights(props.entries, props.userData, 8).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low');
+    if (!rankedSignals) return 'Reading your recent check-ins…';
+    const currentPhase = buildCycleEngine(props.entries, props.userData).phaseOn(isoTodayLocal());
+    const strongSignals = rankedSignals.slice(0, 8).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low');
     const lines = getBodyWeatherLines({
       entries: props.entries,
       userData: props.userData,
       currentPhase,
       heroSignals: strongSignals.slice(0, 3),
       strongPatternSignals: strongSignals,
+      rankedSignals,
     }).slice(0, 3);
     return lines.map((line) => `• ${line}`).join('\n');
-  }, [lowData, props.entries, props.userData]);
+  }, [lowData, rankedSignals, props.entries, props.userData]);
 
   return (
     <div className="eb-hero-surface eb-hero-on-dark rounded-3xl p-6 sm:p-8 overflow-hidden shadow-sm space-y-4">
@@ -0,0 +1,144 @@
+import type { CheckInEntry, UserData } from '../../types';
+import { DEFAULT_USER } from '../defaultUser';
+
+/**
+ * Golden cycle fixtures: a handful of users with known cycles and what every screen
+ * should say about "today" for them. cycleEngine.test.ts checks the engine against
+ * these and then checks each screen's own model against the engine.
+ */
+
+export type CycleGolden = {
+  /** Cycle starts the engine should find */
+  starts: string[];
+  /** Today on the engine, null when there is no cycle day to show */
+  today: { cycleDay: number; phaseKey: string; phase: string } | null;
+  nextPeriodLikelyISO: string | null;
+};
+
+export type CycleFixture = {
+  name: string;
+  todayISO: string;
+  entries: CheckInEntry[];
+  userData: UserData;
+  golden: CycleGolden;
+};
+
+const TODAY = '2025-06-20';
+const FIRST_START = '2025-01-06';
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / 86400000);
+}
+
+/**
+ * Daily check-ins from the first start to `lastLoggedISO`, bleeding for 5 days at each
+ * start. Energy dips before a period and fatigue mirrors it, so insights have a pattern.
+ */
+function dailyEntries(starts: string[], lastLoggedISO: string, extra: (iso: string) => Partial<CheckInEntry> = () => ({})): CheckInEntry[] {
+  const out: CheckInEntry[] = [];
+  for (let iso = FIRST_START; iso <= lastLoggedISO; iso = addDaysISO(iso, 1)) {
+    const start = starts.filter((s) => s <= iso).pop() ?? FIRST_START;
+    const day = daysBetweenISO(start, iso) + 1;
+    const energy = day <= 5 ? 3 : day >= 22 ? 4 : 7;
+    out.push({
+      id: iso,
+      dateISO: iso,
+      values: { flow: day <= 5 ? (day <= 2 ? 7 : 4) : 0, energy, fatigue: 10 - energy, sleep: 6 + (day % 3) },
+      mood: energy >= 6 ? 3 : 2,
+      createdAt: `${iso}T20:00:00.000Z`,
+      updatedAt: `${iso}T20:00:00.000Z`,
+      ...extra(iso),
+    } as CheckInEntry);
+  }
+  return out;
+}
+
+const REGULAR_STARTS = ['2025-01-06', '2025-02-03', '2025-03-03', '2025-03-31', '2025-04-28', '2025-05-26'];
+
+const baseUser: UserData = {
+  ...DEFAULT_USER,
+  onboardingComplete: true,
+  cycleTrackingMode: 'cycle',
+  enabledModules: ['energy', 'fatigue', 'sleep', 'flow'],
+};
+
+export const CYCLE_FIXTURES: CycleFixture[] = [
+  {
+    name: 'regular 28-day cycles, logged every day',
+    todayISO: TODAY,
+    entries: dailyEntries(REGULAR_STARTS, TODAY),
+    userData: baseUser,
+    golden: {
+      starts: REGULAR_STARTS,
+      today: { cycleDay: 26, phaseKey: 'protective', phase: 'Luteal' },
+      nextPeriodLikelyISO: '2025-06-23',
+    },
+  },
+  {
+    name: 'regular cycles, last six days not logged',
+    todayISO: TODAY,
+    entries: dailyEntries(REGULAR_STARTS, '2025-06-14'),
+    userData: baseUser,
+    golden: {
+      starts: REGULAR_STARTS,
+      // Still counted to today, not to the last logged day
+      today: { cycleDay: 26, phaseKey: 'protective', phase: 'Luteal' },
+      nextPeriodLikelyISO: '2025-06-23',
+    },
+  },
+  {
+    name: 'cycle start marked by hand with no bleeding logged',
+    todayISO: TODAY,
+    entries: dailyEntries(REGULAR_STARTS.slice(0, 5), TODAY, (iso) =>
+      iso === '2025-06-08' ? { cycleStartOverride: true } : {}
+    ),
+    userData: baseUser,
+    golden: {
+      starts: [...REGULAR_STARTS.slice(0, 5), '2025-06-08'],
+      // Last cycle ran 41 days, so the average (and ovulation) moves out
+      today: { cycleDay: 13, phaseKey: 'rebuilding', phase: 'Follicular' },
+      nextPeriodLikelyISO: '2025-07-09',
+    },
+  },
+  {
+    name: 'started the combined pill in April',
+    todayISO: TODAY,
+    entries: dailyEntries(REGULAR_STARTS, TODAY),
+    userData: {
+      ...baseUser,
+      hormonalRegimens: [{ id: 'pill', kind: 'combined_pill', startISO: '2025-04-01', activeDays: 21, breakDays: 7 }],
+    },
+    golden: {
+      // Bleeds on the pill are withdrawal bleeds, not cycle starts
+      starts: REGULAR_STARTS.slice(0, 4),
+      today: null,
+      nextPeriodLikelyISO: null,
+    },
+  },
+  {
+    name: 'pregnant since May',
+    todayISO: TODAY,
+    entries: dailyEntries(REGULAR_STARTS.slice(0, 5), TODAY),
+    userData: {
+      ...baseUser,
+      cycleTrackingMode: 'pregnancy',
+      pregnancies: [{ id: 'p1', lmpISO: '2025-04-28', dueDateISO: '2026-02-02', startedISO: '2025-05-30' }],
+    },
+    golden: {
+      starts: REGULAR_STARTS.slice(0, 5),
+      today: null,
+      nextPeriodLikelyISO: null,
+    },
+  },
+];
@@ -1,12 +1,14 @@
 import type { CheckInEntry, ExperimentHistoryItem, UserData } from '../types';
-import { getRhythmModel } from './analytics';
-import { getTopInsights, type InsightSignal } from './insightEngine';
+import { getRhythmModel } from './rhythmModel';
+import type { InsightSignal } from './insightEngine';
 import { getHelpfulPatternsFromExperiments } from './experimentLearning';
-import { buildTimelineEvents } from './timelineBuilder';
+import { buildTimelineEvents, type TimelineData } from './timelineBuilder';
 import { getRhythmTimingModel } from './rhythmTiming';
 import { phaseLabelFromKey } from './phaseChange';
-import { getAverageCycleLength } from './phaseHistory';
 import { getConfidencePhrase, getHelpfulPhrase } from './confidenceCopy';
+import { describeDiagnostic, getCycleDiagnostics } from './cycleDiagnostics';
+import { describePmddScreen, getPmddScreen, hasDrspRecord } from './pmdd';
+import { eventEffectLabel, eventEffectWhen, isWorseChange } from './eventEffects';
 
 export type AIExportPreset = 'patterns' | 'doctor' | 'helpful' | 'next_tests';
 
@@ -119,6 +121,13 @@ function describeSignal(signal: InsightSignal): string {
   const metricB = metricLabel(String(signal.metrics?.[1] || ''));
   const phrase = getConfidencePhrase(signal.confidence);
 
+  if (signal.type === 'event_effect' && signal.summary.event) {
+    const delta = signal.summary.delta ?? 0;
+    return `${eventEffectLabel(signal.summary.event)} has been followed by ${isWorseChange(String(signal.metrics?.[0] ?? ''), delta) ? 'worse' : 'better'} ${metricA} ${eventEffectWhen({
+      lag: signal.summary.lag ?? 1,
+      lagDays: signal.summary.lagDays ?? 1,
+    })} (${Math.abs(Math.round(delta * 10) / 10)} points on a 0–10 scale, ${signal.sampleSize} occasions, effect size ${Math.abs(signal.summary.effectSize ?? 0)}).`;
+  }
   if (id.includes('sleep_before_bleed')) return `Sleep ${phrase} dip before bleeding starts.`;
   if (id.includes('stress') && id.includes('sleep')) {
     if (signal.confidence === 'high') return 'Stressful days are often followed by worse sleep.';
@@ -152,7 +161,7 @@ export function buildRhythmSummary(entries: CheckInEntry[], userData: UserData)
   const currentPhase = phaseLabelFromKey(rhythm.phaseKey || rhythm.phase || 'protective');
   const dayInPhase = timing.currentDay ?? null;
   const daysRemaining = timing.daysRemaining ?? null;
-  const typicalCycleLength = getAverageCycleLength(rhythm.cycleLen || 28) ?? rhythm.cycleLen ?? null;
+  const typicalCycleLength = rhythm.cycleLen ?? null;
 
   const summaryLines = [
     `Current phase: ${currentPhase}`,
@@ -164,8 +173,9 @@ export function buildRhythmSummary(entries: CheckInEntry[], userData: UserData)
   return { currentPhase, dayInPhase, daysRemaining, typicalCycleLength, summaryLines };
 }
 
-export function buildInsightsSummary(entries: CheckInEntry[], userData: UserData): string[] {
-  return getTopInsights(entries, userData, 5)
+export function buildInsightsSummary(rankedSignals: InsightSignal[]): string[] {
+  return rankedSignals
+    .slice(0, 5)
     .filter((signal) => signal.type !== 'low_data')
     .map(describeSignal)
     .slice(0, 5);
@@ -192,8 +202,8 @@ export function buildExperimentSummary(): AIExportContext['experiments'] {
     }));
 }
 
-export function buildTimelineHighlights(limit = 8) {
-  return buildTimelineEvents(12)
+export function buildTimelineHighlights(limit = 8, data?: TimelineData) {
+  return buildTimelineEvents(12, data)
     .slice(0, limit)
     .map((event) => ({
       date: event.date,
@@ -202,38 +212,43 @@ export function buildTimelineHighlights(limit = 8) {
     }));
 }
 
-export function buildPatternsSummary(entries: CheckInEntry[], userData: UserData): string[] {
-  const insights = buildInsightsSummary(entries, userData);
+export function buildPatternsSummary(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[]): string[] {
+  const insights = buildInsightsSummary(rankedSignals);
   const helpful = buildHelpfulPatternsSummary();
-  const timeline = buildTimelineHighlights(5).map((item) => `${item.title}: ${item.description}`);
+  const timeline = buildTimelineHighlights(5, { entries, userData }).map((item) => `${item.title}: ${item.description}`);
   return uniq([...insights, ...helpful.slice(0, 1), ...timeline]).slice(0, 6);
 }
 
-export function buildDoctorSummary(entries: CheckInEntry[], userData: UserData): string[] {
+export function buildDoctorSummary(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[]): string[] {
   const rhythm = buildRhythmSummary(entries, userData);
-  const insights = buildInsightsSummary(entries, userData);
+  const insights = buildInsightsSummary(rankedSignals);
   const helpful = buildHelpfulPatternsSummary();
   const experiments = buildExperimentSummary();
+  // Flagged bleeding patterns go in whole (with their evidence), on top of the usual summary
+  const diagnostics = getCycleDiagnostics(entries, userData).map(describeDiagnostic);
+  const pmdd = userData.pmddMode || entries.some(hasDrspRecord) ? describePmddScreen(getPmddScreen(entries, userData)) : [];
   const lines = [
     `Current rhythm context: ${rhythm.currentPhase}, day ${rhythm.dayInPhase ?? 'unknown'} of this phase.`,
+    ...diagnostics,
+    ...pmdd,
     ...insights.slice(0, 3),
     ...helpful.slice(0, 2),
     ...experiments.slice(0, 2).map((item) => `${item.title}: ${item.result}.`),
     'Questions worth discussing: do the timing patterns look clinically relevant, are there common explanations worth ruling out, and which changes are most worth tracking next?',
   ];
-  return uniq(lines).slice(0, 7);
+  return uniq(lines).slice(0, 7 + diagnostics.length + pmdd.length);
 }
 
-export function buildHelpfulSummary(entries: CheckInEntry[], userData: UserData): string[] {
+export function buildHelpfulSummary(rankedSignals: InsightSignal[]): string[] {
   const helpful = buildHelpfulPatternsSummary();
   const experiments = buildExperimentSummary();
-  const fallback = buildInsightsSummary(entries, userData).slice(0, 1);
+  const fallback = buildInsightsSummary(rankedSignals).slice(0, 1);
   const experimentLines = experiments.slice(0, 3).map((item) => `${item.title}: ${item.result}.`);
   return uniq([...helpful, ...experimentLines, ...fallback]).slice(0, 6);
 }
 
-export function buildExperimentPlanningSummary(entries: CheckInEntry[], userData: UserData): string[] {
-  const insights = buildInsightsSummary(entries, userData);
+export function buildExperimentPlanningSummary(rankedSignals: InsightSignal[]): string[] {
+  const insights = buildInsightsSummary(rankedSignals);
   const helpful = buildHelpfulPatternsSummary();
   const experiments = buildExperimentSummary();
   const unresolved = insights.slice(0, 3);
@@ -284,7 +299,7 @@ export function buildPresetPrompt(preset: AIExportPreset): { intro: string; asks
   };
 }
 
-export function buildAIExportContext(entries: CheckInEntry[], userData: UserData, preset: AIExportPreset = 'patterns'): AIExportContext {
+export function buildAIExportContext(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[], preset: AIExportPreset = 'patterns'): AIExportContext {
   const meta = getPresetMeta(preset);
   const presetPrompt = buildPresetPrompt(preset);
   return {
@@ -295,21 +310,21 @@ export function buildAIExportContext(entries: CheckInEntry[], userData: UserData
     intro: presetPrompt.intro,
     asks: presetPrompt.asks,
     rhythm: buildRhythmSummary(entries, userData),
-    insights: buildInsightsSummary(entries, userData),
+    insights: buildInsightsSummary(rankedSignals),
     helpfulPatterns: buildHelpfulPatternsSummary(),
     experiments: buildExperimentSummary(),
-    timelineHighlights: buildTimelineHighlights(preset === 'doctor' ? 10 : 6),
+    timelineHighlights: buildTimelineHighlights(preset === 'doctor' ? 10 : 6, { entries, userData }),
     sections: {
-      patterns: buildPatternsSummary(entries, userData),
-      doctor: buildDoctorSummary(entries, userData),
-      helpful: buildHelpfulSummary(entries, userData),
-      nextTests: buildExperimentPlanningSummary(entries, userData),
+      patterns: buildPatternsSummary(entries, userData, rankedSignals),
+      doctor: buildDoctorSummary(entries, userData, rankedSignals),
+      helpful: buildHelpfulSummary(rankedSignals),
+      nextTests: buildExperimentPlanningSummary(rankedSignals),
     },
   };
 }
 
-export function buildChatGPTPrompt(entries: CheckInEntry[], userData: UserData, preset: AIExportPreset = 'patterns'): string {
-  const context = buildAIExportContext(entries, userData, preset);
+export function buildChatGPTPrompt(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[], preset: AIExportPreset = 'patterns'): string {
+  const context = buildAIExportContext(entries, userData, rankedSignals, preset);
   const presetSection =
     preset === 'doctor' ? context.sections.doctor :
     preset === 'helpful' ? context.sections.helpful :
@@ -1,5 +1,13 @@
 import type { CheckInEntry, SymptomKey, InfluenceKey, UserData } from "../types";
 import { isoFromDateLocal, isoTodayLocal } from "./date";
+import { getDayValue } from "./checkInSlots";
+import { type BleedKind, type RegimenSources, classifyBleed, getRegimenNote, isCycleSuppressedOn } from "./hormonalRegimen";
+import { type PregnancySources, getPregnancyNote, isInPregnancyGap, isPregnancyMode, spansPregnancyGap } from "./pregnancy";
+import type { ConfidenceLevel, RhythmModel, RhythmSource } from "./rhythmModel";
+import { type SymptomRhythm, detectSymptomRhythm } from "./symptomRhythm";
+
+/** Everything in UserData that changes how bleeds are read (regimens + pregnancies) or whether we predict at all. */
+export type CycleSources = RegimenSources & PregnancySources & Partial<Pick<UserData, "goal" | "ovulationOverrideISOs" | "ovulationDetectedISOs">>;
 
 function asArray<T>(value: unknown): T[] {
   return Array.isArray(value) ? (value as T[]) : [];
@@ -92,7 +100,8 @@ export function getSeries(
   return sorted
     .map((e) => ({
       dateISO: entryISO(e),
-      value: (e as any)?.values?.[key],
+      // Days with several check-ins are rolled up using the metric's rule (mean/max/last)
+      value: getDayValue(e as CheckInEntry, key),
     }))
     .filter(
       (p): p is { dateISO: string; value: number } =>
@@ -169,56 +178,6 @@ export function labelCorrelation(r: number): string {
 
 export type CyclePhase = "Menstrual" | "Follicular" | "Ovulation" | "Luteal";
 
-/**
- * Lightweight heuristic cycle-phase estimator.
- * - Uses logged flow (> 0) as period day marker.
- *   (Flow is treated as 0–10; older builds sometimes stored 0–100.)
- * - Estimates phase by counting days since last bleeding.
- * - This is only used when the user explicitly enables cycle tracking.
- */
-export function estimatePhaseByFlow(
-  dateISO: string,
-  entries: CheckInEntry[] | unknown
-): CyclePhase | null {
-  const sorted = sortByDateAsc(entries);
-  const idx = sorted.findIndex((e: any) => entryISO(e) === dateISO);
-  if (idx < 0) return null;
-
-  const flowTo10 = (v: any): number | null => {
-    if (typeof v !== "number") return null;
-    // Support older 0–100 values
-    const scaled = v > 10 ? Math.round(v / 10) : v;
-    return Math.max(0, Math.min(10, scaled));
-  };
-
-  // If you are bleeding/spotting *today*, that's Menstrual regardless of day count.
-  const todayFlow = flowTo10((sorted[idx] as any)?.values?.flow);
-  if (todayFlow != null && todayFlow > 0) return "Menstrual";
-
-  // (Duplicate block removed) bleeding/spotting today already handled above.
-
-  // Find most recent day with flow > 0 up to idx.
-  // NOTE: flow is now treated as a 0–10 scale (older builds stored 0–100).
-  let lastBleedIndex = -1;
-  for (let i = idx; i >= 0; i--) {
-    const flow = flowTo10((sorted[i] as any)?.values?.flow);
-    if (flow != null && flow > 0) {
-      lastBleedIndex = i;
-      break;
-    }
-  }
-
-  if (lastBleedIndex === -1) return null;
-
-  const daySince = idx - lastBleedIndex; // 0 = bleeding day
-
-  if (daySince <= 4) return "Menstrual";
-  if (daySince <= 12) return "Follicular";
-  if (daySince <= 15) return "Ovulation";
-  return "Luteal";
-}
-
-
 export interface CycleStats {
   cycleStarts: string[]; // YYYY-MM-DD sorted asc
   lengths: number[]; // days between consecutive starts
@@ -226,6 +185,37 @@ export interface CycleStats {
   avgLength: number | null;
   predictedNextStartISO: string | null;
   predictionNote: string | null;
+  /** Set when a contraception / HRT regimen affects how bleeds are read */
+  regimenNote?: string | null;
+}
+
+/**
+ * Every bleed start (first bleeding day after a non-bleeding day), labelled as
+ * natural / withdrawal / breakthrough using the user's regimens. Without regimens
+ * everything is "natural" except bleeds the user flagged as breakthrough.
+ */
+export function getBleedStarts(
+  entries: CheckInEntry[] | unknown,
+  sources?: CycleSources
+): Array<{ dateISO: string; kind: BleedKind }> {
+  const sorted = sortByDateAsc(entries);
+  const out: Array<{ dateISO: string; kind: BleedKind }> = [];
+  let wasBleeding = false;
+
+  for (const e of sorted as any[]) {
+    const dateISO = entryISO(e);
+    if (!dateISO) continue;
+    const v = e?.values?.flow;
+    const flow = typeof v === 'number' ? (v > 10 ? Math.round(v / 10) : v) : 0;
+    const isBleeding = flow > 0 || e?.cycleStartOverride === true;
+    if (isBleeding && !wasBleeding) {
+      const kind: BleedKind =
+        e?.cycleStartOverride === true ? 'natural' : e?.breakthroughBleed ? 'breakthrough' : classifyBleed(sources, dateISO);
+      out.push({ dateISO, kind });
+    }
+    wasBleeding = isBleeding;
+  }
+  return out;
 }
 
 /**
@@ -233,8 +223,10 @@ export interface CycleStats {
  * Rules:
  * - Manual override always counts as a start
  * - Otherwise flow > 0 counts as bleeding, and the first bleeding day after a non-bleeding day is a start
+ * - With regimens passed in, withdrawal and breakthrough bleeds on hormonal contraception don't count
+ * - Bleeding during a pregnancy (or postpartum, before periods are back) doesn't count either
  */
-export function getCycleStarts(entries: CheckInEntry[] | unknown): string[] {
+export function getCycleStarts(entries: CheckInEntry[] | unknown, sources?: CycleSources): string[] {
   const sorted = sortByDateAsc(entries);
   const starts: string[] = [];
 
@@ -264,7 +256,10 @@ export function getCycleStarts(entries: CheckInEntry[] | unknown): string[] {
     const effectiveFlow = isBreakthrough ? 0 : (typeof rawFlow === 'number' ? rawFlow : 0);
 
     const isBleeding = effectiveFlow > 0;
-    if (isBleeding && !wasBleeding) starts.push(dateISO);
+    // Pill/patch/ring bleeds aren't a natural cycle, so they don't start one
+    if (isBleeding && !wasBleeding && classifyBleed(sources, dateISO) === 'natural' && !isInPregnancyGap(sources, dateISO)) {
+      starts.push(dateISO);
+    }
 
     wasBleeding = isBleeding;
   }
@@ -288,17 +283,130 @@ function addDaysISO(dateISO: string, days: number): string {
   return `${y}-${m}-${day}`;
 }
 
+export type LutealStats = {
+  /** Luteal lengths (ovulation day +1 → day before next period) for completed cycles */
+  lengths: number[];
+  avgLength: number | null;
+  lastLength: number | null;
+};
+
+/**
+ * Ovulation days the user marked, plus the ones we detected from BBT/LH.
+ * A day marked by hand wins over any detection in the same cycle, and a day the user
+ * unmarked on the calendar stays unmarked.
+ */
+export function getMarkedOvulationISOs(entries: CheckInEntry[] | unknown, sources?: CycleSources): string[] {
+  const sorted = sortByDateAsc(entries);
+  const fromEntries = sorted
+    .filter((e: any) => Boolean(e?.ovulationOverride))
+    .map((e) => entryISO(e));
+  const marked = Array.from(new Set([...(sources?.ovulationOverrideISOs ?? []), ...fromEntries])).filter(Boolean);
+
+  const detectedISOs = sources?.ovulationDetectedISOs ?? [];
+  if (!detectedISOs.length) return marked.sort();
+
+  // One ovulation per cycle: skip detections in a cycle the user already marked
+  const starts = getCycleStarts(sorted, sources);
+  const cycleOf = (iso: string) => starts.filter((s) => s <= iso).pop() ?? "";
+  const markedCycles = new Set(marked.map(cycleOf));
+  const unmarked = new Set(sorted.filter((e: any) => e?.ovulationOverride === false).map((e) => entryISO(e)));
+  const detected = detectedISOs.filter((iso) => !unmarked.has(iso) && !markedCycles.has(cycleOf(iso)));
+
+  return Array.from(new Set([...marked, ...detected])).sort();
+}
+
+export function getLutealStats(entries: CheckInEntry[] | unknown, ovulationISOs: string[], sources?: CycleSources): LutealStats {
+  const starts = getCycleStarts(entries, sources);
+  const lengths: number[] = [];
+
+  for (const ov of Array.from(new Set(ovulationISOs ?? [])).sort()) {
+    const nextStart = starts.find((s) => s > ov);
+    if (!nextStart) continue;
+    const len = daysBetweenISO(ov, nextStart) - 1;
+    // Outside this range it's more likely a missed period start or a mis-detection.
+    if (len >= 5 && len <= 20) lengths.push(len);
+  }
+
+  const recent = lengths.slice(-6);
+  const avgLength = recent.length ? Math.round(recent.reduce((a, b) => a + b, 0) / recent.length) : null;
+  return { lengths, avgLength, lastLength: lengths.length ? lengths[lengths.length - 1] : null };
+}
+
+/** Bleeding days from each cycle start (a gap in logging ends the run). */
+export function getPeriodLengths(entries: CheckInEntry[] | unknown, sources?: CycleSources): number[] {
+  const sorted = sortByDateAsc(entries);
+  const bleeding = new Set<string>();
+  for (const e of sorted as any[]) {
+    const v = e?.values?.flow;
+    const flow = typeof v === "number" ? (v > 10 ? Math.round(v / 10) : v) : 0;
+    if (flow > 0 && !e?.breakthroughBleed) bleeding.add(entryISO(e));
+  }
+
+  const out: number[] = [];
+  for (const start of getCycleStarts(sorted, sources)) {
+    let n = 0;
+    while (n < 12 && bleeding.has(addDaysISO(start, n))) n++;
+    // 1-day "periods" are usually a start marked by hand without flow logged
+    if (n >= 2 && n <= 10) out.push(n);
+  }
+  return out;
+}
+
+export type PhaseBoundaries = {
+  /** Ovulation → day before the next period */
+  lutealLen: number;
+  /** How long Reset lasts */
+  periodLen: number;
+  lutealPersonalised: boolean;
+  periodPersonalised: boolean;
+  /** Confirmed / marked ovulation days */
+  ovulationISOs: string[];
+};
+
+/**
+ * The user's own numbers for placing phases. Falls back to the textbook 14-day luteal
+ * phase and 5-day period until there are at least two cycles to go on.
+ */
+export function getPhaseBoundaries(entries: CheckInEntry[] | unknown, sources?: CycleSources): PhaseBoundaries {
+  const ovulationISOs = getMarkedOvulationISOs(entries, sources);
+  const luteal = getLutealStats(entries, ovulationISOs, sources);
+  const lutealPersonalised = luteal.lengths.length >= 2 && luteal.avgLength != null;
+
+  const periods = getPeriodLengths(entries, sources).slice(-6);
+  const periodPersonalised = periods.length >= 2;
+
+  return {
+    lutealLen: lutealPersonalised ? (luteal.avgLength as number) : 14,
+    periodLen: periodPersonalised ? Math.round(periods.reduce((a, b) => a + b, 0) / periods.length) : 5,
+    lutealPersonalised,
+    periodPersonalised,
+    ovulationISOs,
+  };
+}
+
+/** Cycle day of a confirmed ovulation inside this cycle, if there is one. */
+export function markedOvulationDay(
+  boundaries: Pick<PhaseBoundaries, "ovulationISOs"> | undefined,
+  startISO: string,
+  nextStartISO: string | null
+): number | undefined {
+  const ov = (boundaries?.ovulationISOs ?? []).find((iso) => iso >= startISO && (!nextStartISO || iso < nextStartISO));
+  return ov ? daysBetweenISO(startISO, ov) + 1 : undefined;
+}
+
 /**
  * Compute cycle length stats. This is intentionally "explainable":
  * - starts come from override or flow
  * - prediction defaults to lastStart + avgLength
  * - optional symptom-based hint (fatigue/brain fog/night sweats/skin/hair) nudges the note, not the date
  */
-export function computeCycleStats(entries: CheckInEntry[] | unknown): CycleStats {
-  const starts = getCycleStarts(entries);
+export function computeCycleStats(entries: CheckInEntry[] | unknown, sources?: CycleSources): CycleStats {
+  const starts = getCycleStarts(entries, sources);
   const lengths: number[] = [];
 
   for (let i = 0; i < starts.length - 1; i++) {
+    // LMP -> first period back isn't a cycle
+    if (spansPregnancyGap(sources, starts[i], starts[i + 1])) continue;
     const len = daysBetweenISO(starts[i], starts[i + 1]);
     if (Number.isFinite(len) && len >= 10 && len <= 60) {
       lengths.push(len);
@@ -312,8 +420,14 @@ export function computeCycleStats(entries: CheckInEntry[] | unknown): CycleStats
     recent.length > 0 ? Math.round(recent.reduce((a, b) => a + b, 0) / recent.length) : null;
 
   const lastStart = starts.length ? starts[starts.length - 1] : null;
+  const todayISO = isoTodayLocal();
+  const pregnancyNote = getPregnancyNote(sources, todayISO);
+  const postMenopause = sources?.goal === "postmenopause";
+  const suppressed = isCycleSuppressedOn(sources, todayISO) || isPregnancyMode(sources) || postMenopause;
+  const regimenNote = getRegimenNote(sources, todayISO);
+  // No natural cycle to predict while on hormonal contraception or pregnant / postpartum
   const predictedNextStartISO =
-    lastStart && avgLength ? addDaysISO(lastStart, avgLength) : null;
+    lastStart && avgLength && !suppressed ? addDaysISO(lastStart, avgLength) : null;
 
   // Symptom-based hint (lightweight "AI-ish" signal)
   // We look at last 5 days average for selected symptoms, and if high, we mention it.
@@ -339,8 +453,13 @@ export function computeCycleStats(entries: CheckInEntry[] | unknown): CycleStats
     if (avg >= 7) signalCount++;
   }
 
-  const predictionNote =
-    predictedNextStartISO && signalCount >= 2
+  const predictionNote = postMenopause
+    ? "You're post-menopause, so there are no period predictions. If you bleed again, it's worth checking in with your GP."
+    : pregnancyNote
+    ? pregnancyNote
+    : suppressed
+    ? regimenNote
+    : predictedNextStartISO && signalCount >= 2
       ? "Some recent symptoms often seen pre-period are running higher than usual. Consider using the 'New cycle started today' switch if bleeding is unclear."
       : predictedNextStartISO
       ? "Prediction is based on your recent average cycle length. You can override it anytime."
@@ -353,6 +472,7 @@ export function computeCycleStats(entries: CheckInEntry[] | unknown): CycleStats
     avgLength,
     predictedNextStartISO,
     predictionNote,
+    regimenNote,
   };
 }
 
@@ -406,6 +526,12 @@ const HOMEPAGE_SYMPTOM_LABELS: Partial<Record<SymptomKey, string>> = {
   hotFlushes: "Hot flushes",
   nightSweats: "Night sweats",
   restlessLegs: "Restless legs",
+  swelling: "Swelling",
+  pelvicGirdlePain: "Pelvic girdle pain",
+  lochia: "Postpartum bleeding",
+  afterPains: "After-pains",
+  perinealPain: "Perineal pain",
+  nipplePain: "Nipple pain",
 };
 
 const HOMEPAGE_INFLUENCE_LABELS: Record<InfluenceKey, string> = {
@@ -511,7 +637,7 @@ function buildRelationshipLine(c: RelationshipCandidate): string {
  * - Produces at most 1 relationship insight line (rotates daily if multiple qualify).
  * - Locks outputs per day is handled by the caller (Dashboard) via localStorage cache.
  */
-type PhaseKey = "reset" | "rebuilding" | "expressive" | "protective";
+export type PhaseKey = "reset" | "rebuilding" | "expressive" | "protective";
 
 function softPhaseMetaFromKey(key: PhaseKey) {
   switch (key) {
@@ -538,7 +664,7 @@ function meanNums(vals: number[]): number | null {
   return vals.reduce((a, b) => a + b, 0) / vals.length;
 }
 
-function inferPhaseKeyFromSignals(sorted: CheckInEntry[]): PhaseKey | null {
+export function inferPhaseKeyFromSignals(sorted: CheckInEntry[]): PhaseKey | null {
   const recent = sorted.slice(-10);
   if (!recent.length) return null;
 
@@ -597,66 +723,54 @@ function inferPhaseKeyFromSignals(sorted: CheckInEntry[]): PhaseKey | null {
   return best;
 }
 
-type RhythmSource = "override" | "bleed" | "inferred" | "none";
-
-// Confidence for Rhythm messaging.
-// Reflects how much consistent logging we have, not whether the user is tracking a formal cycle.
-type ConfidenceLevel = "Learning" | "Emerging" | "Established";
-
-function confidenceFromDays(daysLogged: number): ConfidenceLevel {
-  // 0–29 days: Learning
-  // 30–59 days: Emerging
-  // 60+ days: Established
-  if (daysLogged >= 60) return "Established";
-  if (daysLogged >= 30) return "Emerging";
-  return "Learning";
-}
-
-export interface RhythmModel {
-  refISO: string;
-  phaseKey: PhaseKey | null;
-  source: RhythmSource;
-  dayInCycle: number | null;
-  cycleLen: number;
-  starts: string[];
-  confidence: ConfidenceLevel;
-  reasons: string[];
-}
+export type PhaseWindowOptions = Partial<Pick<PhaseBoundaries, "lutealLen" | "periodLen">> & {
+  /** A confirmed ovulation in this cycle wins over the luteal-length estimate */
+  ovulationDay?: number;
+};
 
-function isIsoDate(s: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+/**
+ * Phase boundaries for a cycle of this length (cycle days, 1-based).
+ * Reset lasts your usual period length; ovulation sits one luteal phase before the
+ * next period (or on the confirmed day), with Expressive a day either side of it.
+ */
+export type PhaseWindows = { cycleLen: number; resetEnd: number; ovulationDay: number; expressiveStart: number; expressiveEnd: number };
+
+export function getPhaseWindows(cycleLen: number, opts?: PhaseWindowOptions): PhaseWindows {
+  const len = Number.isFinite(cycleLen) && cycleLen >= 18 && cycleLen <= 60 ? Math.round(cycleLen) : 28;
+  const lutealLen = opts?.lutealLen;
+  const luteal = lutealLen != null && Number.isFinite(lutealLen) && lutealLen >= 8 && lutealLen <= 18 ? Math.round(lutealLen) : 14;
+  const marked = opts?.ovulationDay;
+  const ovulationDay =
+    marked != null && Number.isFinite(marked) && marked >= 6 && marked <= len - 3
+      ? Math.round(marked)
+      : Math.max(10, Math.min(len - 10, len - luteal));
+  const periodLen = opts?.periodLen != null && Number.isFinite(opts.periodLen) ? Math.round(opts.periodLen) : 5;
+  // Keep at least one Rebuilding day before Expressive
+  const resetEnd = Math.max(2, Math.min(8, periodLen, ovulationDay - 3));
+  return { cycleLen: len, resetEnd, ovulationDay, expressiveStart: ovulationDay - 1, expressiveEnd: ovulationDay + 1 };
 }
 
-
-function phaseFromDayInCycle(
+export function phaseForCycleDay(
   dayInCycle: number,
   cycleLen: number,
-  flowToday10: number | null
+  flowToday10: number | null,
+  opts?: PhaseWindowOptions
 ): { key: PhaseKey; sci: CyclePhase; soft: string } {
   // If bleeding today, always Reset.
   if (flowToday10 != null && flowToday10 > 0) {
     return { key: "reset", sci: "Menstrual", soft: "Reset Phase" };
   }
 
-  const len = Number.isFinite(cycleLen) && cycleLen >= 18 && cycleLen <= 60 ? cycleLen : 28;
+  const w = getPhaseWindows(cycleLen, opts);
   const d = Math.max(1, Math.min(60, Math.floor(dayInCycle)));
 
-  // Simple windows. We can tune later:
-  // - Reset: days 1–5
-  // - Rebuilding: day 6 up to ovulation window
-  // - Expressive: ovulation window (~3 days)
-  // - Protective: remainder
-  const ovStart = Math.max(12, Math.min(len - 12, Math.round(len * 0.5))); // rough midpoint clamp
-  const ovEnd = ovStart + 2;
-
-  if (d <= 5) return { key: "reset", sci: "Menstrual", soft: "Reset Phase" };
-  if (d >= ovStart && d <= ovEnd)
-    return { key: "expressive", sci: "Ovulation", soft: "Expressive Phase" };
-  if (d < ovStart) return { key: "rebuilding", sci: "Follicular", soft: "Rebuilding Phase" };
+  if (d <= w.resetEnd) return { key: "reset", sci: "Menstrual", soft: "Reset Phase" };
+  if (d < w.expressiveStart) return { key: "rebuilding", sci: "Follicular", soft: "Rebuilding Phase" };
+  if (d <= w.expressiveEnd) return { key: "expressive", sci: "Ovulation", soft: "Expressive Phase" };
   return { key: "protective", sci: "Luteal", soft: "Protective Phase" };
 }
 
-function pickInferredReasons(sorted: CheckInEntry[], phase: PhaseKey): string[] {
+export function pickInferredReasons(sorted: CheckInEntry[], phase: PhaseKey): string[] {
   const recent = sorted.slice(-10);
   if (!recent.length) return [];
 
@@ -712,90 +826,19 @@ function pickInferredReasons(sorted: CheckInEntry[], phase: PhaseKey): string[]
   });
 }
 
-export function getRhythmModel(
-  entriesRaw: CheckInEntry[] | unknown,
-  userData: UserData,
-  todayISO: string = isoTodayLocal()
-): RhythmModel {
-  const sorted = sortByDateAsc(entriesRaw);
-
-  // Use today if logged, otherwise most recent logged day.
-  const refISO = (() => {
-    const t = todayISO;
-    const hasToday = sorted.some((e: any) => entryISO(e) === t);
-    if (hasToday) return t;
-    const last = [...sorted].reverse().find((e: any) => entryISO(e));
-    return last ? entryISO(last) : t;
-  })();
-
-  const flowTo10 = (v: any): number | null => {
-    if (typeof v !== "number") return null;
-    const scaled = v > 10 ? Math.round(v / 10) : v;
-    return Math.max(0, Math.min(10, scaled));
-  };
-
-  const flowToday = (() => {
-    const e = sorted.find((x: any) => entryISO(x) === refISO);
-    return e ? flowTo10((e as any)?.values?.flow) : null;
-  })();
-
-  // Anchors: cycle starts (override or first bleed day after non-bleed)
-  const starts = getCycleStarts(sorted);
-
-  const stats = computeCycleStats(sorted);
-  const cycleLen = stats.avgLength ?? stats.lastLength ?? 28;
-
-  const lastStart = starts.length ? starts[starts.length - 1] : null;
-  const dayInCycle =
-    lastStart && isIsoDate(lastStart) && isIsoDate(refISO) ? daysBetweenISO(lastStart, refISO) + 1 : null;
-
-  let phaseKey: PhaseKey | null = null;
-  let source: RhythmSource = "none";
-  let reasons: string[] = [];
-
-  // If we have an explicit cycle anchor, use it (persistent). This is true regardless of cycle tracking mode.
-  if (dayInCycle != null && dayInCycle >= 1 && dayInCycle <= 60) {
-    const p = phaseFromDayInCycle(dayInCycle, cycleLen, flowToday);
-    phaseKey = p.key;
-    // Determine whether this anchor came from override or bleeding.
-    const isOverrideDay = sorted.some(
-      (e: any) => entryISO(e) === lastStart && Boolean((e as any)?.cycleStartOverride)
-    );
-    source = isOverrideDay ? "override" : "bleed";
-    reasons = isOverrideDay
-      ? ["Cycle start logged"]
-      : flowToday != null && flowToday > 0
-      ? ["Bleeding logged"]
-      : ["Recent cycle pattern"];
-  } else {
-    // Otherwise infer gently from symptom signals (no influences).
-    const inferred = inferPhaseKeyFromSignals(sorted);
-    if (inferred) {
-      phaseKey = inferred;
-      source = "inferred";
-      reasons = pickInferredReasons(sorted, inferred);
-    }
+/** Periodicity across every symptom series that's being logged (see symptomRhythm.ts). */
+export function getSymptomRhythm(entries: CheckInEntry[] | unknown, todayISO: string = isoTodayLocal()): SymptomRhythm | null {
+  const sorted = sortByDateAsc(entries);
+  const keys = new Set<SymptomKey>();
+  for (const e of sorted as any[]) {
+    for (const k of Object.keys(e?.values ?? {})) keys.add(k as SymptomKey);
   }
-
-  // Confidence: based on number of distinct logged days.
-  const distinctDays = new Set(sorted.map((e: any) => entryISO(e)).filter(Boolean)).size;
-  const confidence: ConfidenceLevel = confidenceFromDays(distinctDays);
-
-  void userData; // reserved (kept for future per-goal tuning)
-
-  return {
-    refISO,
-    phaseKey,
-    source,
-    dayInCycle,
-    cycleLen: Number.isFinite(cycleLen) ? cycleLen : 28,
-    starts,
-    confidence,
-    reasons,
-  };
+  keys.delete("flow");
+  const seriesByKey: Partial<Record<SymptomKey, Array<{ dateISO: string; value: number }>>> = {};
+  for (const k of keys) seriesByKey[k] = getSeries(sorted, k);
+  return detectSymptomRhythm(seriesByKey, todayISO);
 }
 
-
 function phaseOneLiner(key: PhaseKey, goal: UserGoal | null): string {
   // Keep these short. Home uses one line, Rhythm page has the longer content.
   const peri = goal === "perimenopause";
@@ -831,6 +874,7 @@ function confidenceOneLiner(conf: ConfidenceLevel, days: number): string {
 function formatSourceLine(source: RhythmSource): string {
   if (source === "override") return "Based on your cycle start.";
   if (source === "bleed") return "Based on your logged bleeding.";
+  if (source === "symptom_rhythm") return "Based on how your symptoms repeat.";
   return "Based on your recent check-ins.";
 }
 
@@ -880,7 +924,8 @@ function countAvailableSignals(sorted: CheckInEntry[]): number {
 
 export function buildHomepageHeroModel(
   entriesRaw: CheckInEntry[] | unknown,
-  userData: UserData
+  userData: UserData,
+  rm: RhythmModel
 ): HomepageHeroModel {
   const todayISO = isoTodayLocal();
   const sorted = sortByDateAsc(entriesRaw);
@@ -890,12 +935,11 @@ export function buildHomepageHeroModel(
 
 
   // Rhythm block (phase estimate). This should work regardless of whether the user tracks a cycle.
-  const isPeri = userData.goal === "perimenopause";
+  const isPeri = userData.goal === "perimenopause" || userData.goal === "postmenopause";
   let rhythmTitle = isPeri ? "Your rhythm lately" : "Today in your rhythm";
   let rhythmHeadline: string | undefined;
   let rhythmBody = "Log a few days and I’ll start reflecting your rhythm back to you.";
 
-  const rm = getRhythmModel(sorted, userData, todayISO);
   const key = rm.phaseKey;
 
   if (key) {
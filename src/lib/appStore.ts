@@ -31,6 +31,8 @@ export const BACKUP_KEYS = [
   "everybody:v2:saved_actions",
   "everybody:v2:experiment_outcomes",
   "everybody:v2:pattern_feedback",
+  "everybody:v2:planned_influences",
+  "everybody:v2:forecast_log",
 ] as const;
 
 export type BackupPayload = Partial<Record<(typeof BACKUP_KEYS)[number], string | null>>;
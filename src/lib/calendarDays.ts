@@ -0,0 +1,119 @@
+import type { CheckInEntry, UserData } from '../types';
+import { getMarkedOvulationISOs } from './analytics';
+import type { CycleEngine } from './cycleEngine';
+
+/**
+ * How the Calendar shades each day: logged periods, the likely next period, ovulation
+ * and the fertile window. Everything cycle-shaped comes from the cycle engine, so the
+ * Calendar agrees with Home and Rhythm about where each cycle starts.
+ */
+
+export type CalendarDays = {
+  /** Ovulation marked by hand or detected from BBT/LH */
+  ovulation: Set<string>;
+  period: Set<string>;
+  /** The whole likely range for the next period, not just the middle day */
+  predictedPeriod: Set<string>;
+  predictedOvulation: Set<string>;
+  fertile: Set<string>;
+};
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function flowOf(entry: CheckInEntry | undefined): number {
+  const v = entry?.values?.flow;
+  return typeof v === 'number' ? v : 0;
+}
+
+export function getCalendarDays(entriesSorted: CheckInEntry[], userData: UserData, engine: CycleEngine, todayISO: string): CalendarDays {
+  const cycleEnabled = userData.cycleTrackingMode === 'cycle';
+  const fertilityEnabled = Boolean(userData.fertilityMode) && cycleEnabled;
+  const byISO = new Map<string, CheckInEntry>();
+  for (const e of entriesSorted) byISO.set(e.dateISO, e);
+
+  const ovulation = new Set(getMarkedOvulationISOs(entriesSorted, userData));
+
+  const predictedOvulation = new Set<string>();
+  if (fertilityEnabled) {
+    for (const iso of Array.from(ovulation)) predictedOvulation.add(iso);
+    // Cycles with a confirmed ovulation don't need a prediction
+    for (const c of engine.cycles) {
+      if (!c.ovulationConfirmed) predictedOvulation.add(c.ovulationISO);
+    }
+  }
+
+  const period = new Set<string>();
+  if (cycleEnabled) {
+    // 1) Always shade days where the user actually logged bleeding/spotting.
+    for (const e of entriesSorted) {
+      if (flowOf(e) > 0) period.add(e.dateISO);
+    }
+
+    // 2) Provisional 7-day window after a cycle start.
+    //    This is a *starting point* and gets trimmed if the user logs bleeding down to zero early.
+    for (const startISO of engine.starts) {
+      let seenPositive = false;
+      let stopAfterISO: string | null = null;
+
+      for (let i = 0; i < 7; i++) {
+        const dayISO = addDaysISO(startISO, i);
+        const e = byISO.get(dayISO);
+        const effectiveFlow = e?.breakthroughBleed ? 0 : flowOf(e);
+
+        if (effectiveFlow > 0) seenPositive = true;
+
+        // If the user has been bleeding and then explicitly logs 0, treat that as the end.
+        if (seenPositive && effectiveFlow === 0) {
+          stopAfterISO = dayISO;
+          break;
+        }
+
+        period.add(dayISO);
+      }
+
+      if (stopAfterISO) {
+        // remove stop day and anything after it in the provisional window
+        for (let i = 0; i < 7; i++) {
+          const dayISO = addDaysISO(startISO, i);
+          if (dayISO >= stopAfterISO) period.delete(dayISO);
+        }
+      }
+    }
+  }
+
+  const predictedPeriod = new Set<string>();
+  const next = engine.nextPeriod;
+  if (cycleEnabled && next) {
+    for (let iso = next.earliestISO; iso <= next.latestISO; iso = addDaysISO(iso, 1)) {
+      if (iso > todayISO && !period.has(iso)) predictedPeriod.add(iso);
+    }
+  }
+
+  const fertile = new Set<string>();
+  if (fertilityEnabled) {
+    for (const ovISO of Array.from(predictedOvulation)) {
+      for (let d = -5; d <= 1; d++) {
+        const dayISO = addDaysISO(ovISO, d);
+        if (period.has(dayISO)) continue;
+        fertile.add(dayISO);
+      }
+    }
+
+    // Upcoming fertile window, widened by how much your cycles vary
+    const range = engine.fertileWindow;
+    if (range) {
+      for (let iso = range.earliestISO; iso <= range.latestISO; iso = addDaysISO(iso, 1)) {
+        if (!period.has(iso) && !predictedPeriod.has(iso)) fertile.add(iso);
+      }
+    }
+  }
+
+  return { ovulation, period, predictedPeriod, predictedOvulation, fertile };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { changePointsInSeries, type ChangePointPoint } from './changePoints';
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function series(values: number[]): ChangePointPoint[] {
+  return values.map((value, i) => ({ iso: addDaysISO('2025-01-01', i), value }));
+}
+
+// Seeded so the fixtures don't move
+function noisy(n: number, level: (i: number) => number, seed = 3): number[] {
+  let s = seed;
+  const rnd = () => ((s = (s * 16807) % 2147483647) / 2147483647);
+  return Array.from({ length: n }, (_, i) => Math.max(0, Math.min(10, Math.round(level(i) + (rnd() - 0.5) * 4))));
+}
+
+describe('changePointsInSeries', () => {
+  it('finds a real drop in level, with a p-value that allows for picking the cut', () => {
+    const found = changePointsInSeries(series(noisy(90, (i) => (i < 60 ? 7 : 4))), 'sleep');
+    expect(found).toHaveLength(1);
+    expect(found[0].dateISO).toBe('2025-03-02');
+    expect(found[0].delta).toBeLessThan(-2);
+    expect(found[0].pValue).toBeLessThanOrEqual(0.01);
+  });
+
+  it('gives the same p-value for the same logs', () => {
+    const points = series(noisy(90, (i) => (i < 60 ? 7 : 4)));
+    expect(changePointsInSeries(points, 'sleep')[0].pValue).toBe(changePointsInSeries(points, 'sleep')[0].pValue);
+  });
+
+  it('does not call steady noise a change', () => {
+    for (const seed of [5, 17, 29, 101]) {
+      expect(changePointsInSeries(series(noisy(120, () => 5, seed)), 'energy')).toEqual([]);
+    }
+  });
+});
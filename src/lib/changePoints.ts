@@ -0,0 +1,420 @@
+import type { CheckInEntry, SymptomKey, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getDayMood, getDayValue } from './checkInSlots';
+import { isWorseChange } from './eventEffects';
+import { lag1Autocorrelation } from './insightStats';
+import { isMetricInScope } from './insightsScope';
+import { getPhaseHistory } from './phaseHistory';
+import { SYMPTOM_META } from './symptomMeta';
+
+/**
+ * Dates where a metric's level genuinely moved and stayed moved ("your sleep baseline
+ * dropped around 3 March"), rather than a straight-line slope over everything.
+ *
+ * Binary segmentation on the logged days: keep splitting a stretch where one cut
+ * explains enough of the spread to beat a BIC-style penalty. The noise level comes from
+ * residuals around a rolling median, and the penalty is scaled up for day-to-day
+ * carry-over so a slow bad fortnight doesn't look like a new baseline. When cycles are
+ * tracked each phase's own average is taken out first, so the usual luteal dip isn't
+ * a "change". Segments need a week of logs either side and a 1-point difference.
+ *
+ * Because the cut is picked to fit, a plain before/after test would be far too sure of
+ * it. The p-value instead asks how often the best cut in pure noise (with the same
+ * carry-over) explains as much of the spread as the one we found.
+ *
+ * Kept free of insightEngine imports so the engine can build trend signals from it.
+ */
+
+export type ChangePointPoint = {
+  iso: string;
+  value: number;
+  /** Any phase label; values are compared with their phase's own average when set */
+  phase?: string | null;
+};
+
+export type ChangePoint = {
+  metric: string;
+  /** First day of the new level */
+  dateISO: string;
+  /** Level before and after (segment means, on the 0–10 scale) */
+  before: number;
+  after: number;
+  delta: number;
+  direction: 'up' | 'down';
+  worse: boolean;
+  /** Logged days in the segment before / after */
+  beforeDays: number;
+  afterDays: number;
+  /** How often the best cut in noise with the same carry-over fits as well (allows for having picked the cut) */
+  pValue: number;
+};
+
+export type ChangePointMatchKind = 'experiment_started' | 'experiment_ended' | 'regimen_started' | 'regimen_stopped' | 'phase_change';
+
+export type ChangePointMatch = {
+  kind: ChangePointMatchKind;
+  dateISO: string;
+  label: string;
+  /** Days from the change point (negative = before it) */
+  offsetDays: number;
+};
+
+const MIN_SEGMENT = 7;
+const MIN_DELTA = 1;
+const MAX_CHANGES = 4;
+const MAX_P = 0.01;
+const SMOOTH_WINDOW = 15;
+const MATCH_WINDOW_DAYS = 10;
+const NULL_SIMULATIONS = 1999;
+const NULL_HITS_TO_STOP = 20;
+const DEFAULT_METRICS = ['mood', 'sleep', 'energy', 'stress', 'pain', 'fatigue', 'headache', 'anxiety', 'brainFog', 'bloating'];
+// Expected to swing by design
+const SKIP = new Set(['flow', 'lochia']);
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function median(xs: number[]): number {
+  const s = xs.slice().sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function metricValue(entry: CheckInEntry, key: string, userData: UserData): number | null {
+  if (!isMetricInScope(userData, key, entry.dateISO)) return null;
+  if (key === 'mood') {
+    const m = getDayMood(entry);
+    return m ? (m === 1 ? 2 : m === 2 ? 5 : 8) : null;
+  }
+  const v = getDayValue(entry, key as SymptomKey);
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+export function changePointMetricLabel(key: string): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as SymptomKey]?.label ?? key;
+}
+
+/** Take out each phase's average (keeping the overall level) so cycle swings don't read as shifts. */
+function removePhaseMeans(points: ChangePointPoint[]): number[] {
+  const values = points.map((p) => p.value);
+  if (!points.some((p) => p.phase)) return values;
+  const overall = mean(values);
+  const byPhase = new Map<string, number[]>();
+  for (const p of points) {
+    if (!p.phase) continue;
+    const list = byPhase.get(p.phase) ?? [];
+    list.push(p.value);
+    byPhase.set(p.phase, list);
+  }
+  return points.map((p) => {
+    const list = p.phase ? byPhase.get(p.phase) : undefined;
+    // A phase with only a couple of logs says more about those days than the phase
+    return list && list.length >= 5 ? p.value - mean(list) + overall : p.value;
+  });
+}
+
+/** Noise level and carry-over, from what's left after a rolling median takes out the level. */
+function noiseOf(values: number[]): { sigma: number; rho: number } {
+  const half = Math.floor(SMOOTH_WINDOW / 2);
+  const resid = values.map((v, i) => v - median(values.slice(Math.max(0, i - half), i + half + 1)));
+  const mad = median(resid.map((r) => Math.abs(r)));
+  const sd = Math.sqrt(resid.reduce((a, r) => a + r * r, 0) / Math.max(1, resid.length - 1));
+  // MAD is 0 on flat-ish logs (lots of identical scores); fall back to the plain spread
+  const sigma = Math.max(0.5, mad > 0 ? 1.4826 * mad : sd);
+  return { sigma, rho: Math.max(0, Math.min(0.8, lag1Autocorrelation(resid))) };
+}
+
+/** Share of the spread in values[a, b) that the best single cut explains. */
+function bestCutShare(values: ArrayLike<number>, a: number, b: number): number {
+  const n = b - a;
+  let total = 0;
+  let totalSq = 0;
+  for (let i = a; i < b; i++) {
+    total += values[i];
+    totalSq += values[i] * values[i];
+  }
+  const whole = totalSq - (total * total) / n;
+  if (!(whole > 0)) return 0;
+  // What a cut at k explains: nL·nR/n · (left mean − right mean)²
+  let left = 0;
+  for (let i = a; i < a + MIN_SEGMENT - 1; i++) left += values[i];
+  let best = 0;
+  for (let k = a + MIN_SEGMENT; k <= b - MIN_SEGMENT; k++) {
+    left += values[k - 1];
+    const nL = k - a;
+    const nR = b - k;
+    const d = left / nL - (total - left) / nR;
+    best = Math.max(best, ((nL * nR) / n) * d * d);
+  }
+  return best / whole;
+}
+
+/**
+ * Selection-aware p for the cut in [a, b): the share of simulated AR(1) noise runs of the
+ * same length and carry-over whose best cut explains at least as much. Seeded, so the
+ * same logs always give the same answer, and stopped early once it's clearly not
+ * significant (Besag–Clifford).
+ */
+function cutPValue(values: number[], a: number, b: number, rho: number): number {
+  const observed = bestCutShare(values, a, b);
+  const n = b - a;
+  let seed = 20240601 + n;
+  const uniform = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  const gaussian = () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+  const innovation = Math.sqrt(1 - rho * rho);
+  const noise = new Float64Array(n);
+  let hits = 0;
+  for (let s = 1; s <= NULL_SIMULATIONS; s++) {
+    noise[0] = gaussian();
+    for (let i = 1; i < n; i++) noise[i] = rho * noise[i - 1] + innovation * gaussian();
+    if (bestCutShare(noise, 0, n) >= observed && ++hits >= NULL_HITS_TO_STOP) return hits / s;
+  }
+  return (hits + 1) / (NULL_SIMULATIONS + 1);
+}
+
+/** Indexes where a new segment starts, in order. */
+function segment(values: number[], penalty: number): number[] {
+  const n = values.length;
+  const sum = [0];
+  const sumSq = [0];
+  for (const v of values) {
+    sum.push(sum[sum.length - 1] + v);
+    sumSq.push(sumSq[sumSq.length - 1] + v * v);
+  }
+  // Sum of squared deviations from the mean over [a, b)
+  const cost = (a: number, b: number) => {
+    const s = sum[b] - sum[a];
+    return sumSq[b] - sumSq[a] - (s * s) / (b - a);
+  };
+
+  const cuts: number[] = [];
+  const queue: Array<[number, number]> = [[0, n]];
+  while (queue.length && cuts.length < MAX_CHANGES) {
+    const [a, b] = queue.shift()!;
+    if (b - a < MIN_SEGMENT * 2) continue;
+    const whole = cost(a, b);
+    let best = -1;
+    let bestGain = 0;
+    for (let k = a + MIN_SEGMENT; k <= b - MIN_SEGMENT; k++) {
+      const gain = whole - cost(a, k) - cost(k, b);
+      if (gain > bestGain) {
+        bestGain = gain;
+        best = k;
+      }
+    }
+    if (best < 0 || bestGain <= penalty) continue;
+    const left = (sum[best] - sum[a]) / (best - a);
+    const right = (sum[b] - sum[best]) / (b - best);
+    if (Math.abs(right - left) < MIN_DELTA) continue;
+    cuts.push(best);
+    queue.push([a, best], [best, b]);
+  }
+  return cuts.sort((x, y) => x - y);
+}
+
+/**
+ * Change points in one metric's logged days (any order; sorted here). Before/after are
+ * measured on the raw values between neighbouring change points.
+ */
+export function changePointsInSeries(pointsInput: ChangePointPoint[], metric: string): ChangePoint[] {
+  const points = pointsInput.filter((p) => Number.isFinite(p.value)).sort((a, b) => a.iso.localeCompare(b.iso));
+  if (points.length < MIN_SEGMENT * 2) return [];
+  const values = removePhaseMeans(points);
+  const { sigma, rho } = noiseOf(values);
+  // BIC: a change point adds a mean and a location, so 2·log(n) in units of the noise variance; more with carry-over
+  const penalty = 2 * sigma * sigma * Math.log(values.length) * ((1 + rho) / (1 - rho));
+  const cuts = segment(values, penalty);
+
+  const bounds = [0, ...cuts, points.length];
+  const out: ChangePoint[] = [];
+  for (let i = 1; i < bounds.length - 1; i++) {
+    const beforeVals = points.slice(bounds[i - 1], bounds[i]).map((p) => p.value);
+    const afterVals = points.slice(bounds[i], bounds[i + 1]).map((p) => p.value);
+    const delta = mean(afterVals) - mean(beforeVals);
+    // Phase-adjusted values found it; the raw levels still need to say the same thing
+    if (Math.abs(delta) < MIN_DELTA) continue;
+    // ...and the cut has to beat what noise with the same carry-over manages on this stretch
+    const pValue = cutPValue(values, bounds[i - 1], bounds[i + 1], rho);
+    if (pValue > MAX_P) continue;
+    out.push({
+      metric,
+      dateISO: points[bounds[i]].iso,
+      before: round1(mean(beforeVals)),
+      after: round1(mean(afterVals)),
+      delta: round1(delta),
+      direction: delta > 0 ? 'up' : 'down',
+      worse: isWorseChange(metric, delta),
+      beforeDays: beforeVals.length,
+      afterDays: afterVals.length,
+      pValue,
+    });
+  }
+  return out;
+}
+
+function metricsFor(userData: UserData, requested?: string[]): string[] {
+  const enabled = (userData.enabledModules ?? []).map(String);
+  const keys = requested?.length ? requested : Array.from(new Set([...DEFAULT_METRICS.filter((k) => k === 'mood' || enabled.includes(k)), ...enabled]));
+  return keys.filter((k) => !SKIP.has(k) && (k === 'mood' || SYMPTOM_META[k as SymptomKey]));
+}
+
+/** Change points for each tracked metric, oldest first. */
+export function detectChangePoints(entriesInput: CheckInEntry[], userData: UserData, opts: { metrics?: string[] } = {}): ChangePoint[] {
+  const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  if (entries.length < MIN_SEGMENT * 2) return [];
+
+  let phaseOn: (iso: string) => string | null = () => null;
+  if (userData.cycleTrackingMode === 'cycle') {
+    try {
+      const engine = buildCycleEngine(entriesInput, userData);
+      phaseOn = (iso) => {
+        const info = engine.dayInfo(iso);
+        return info && !info.projected ? String(info.phaseKey) : null;
+      };
+    } catch {
+      // no phase adjustment then
+    }
+  }
+  const phaseByISO = new Map(entries.map((e) => [e.dateISO, phaseOn(e.dateISO)]));
+
+  const out: ChangePoint[] = [];
+  for (const metric of metricsFor(userData, opts.metrics)) {
+    const points = entries
+      .map((e) => ({ iso: e.dateISO, value: metricValue(e, metric, userData), phase: phaseByISO.get(e.dateISO) ?? null }))
+      .filter((p): p is ChangePointPoint & { value: number } => p.value != null);
+    out.push(...changePointsInSeries(points, metric));
+  }
+  return out.sort((a, b) => a.dateISO.localeCompare(b.dateISO) || Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+function readExperimentHistory(): any[] {
+  try {
+    const raw = localStorage.getItem('everybody:v2:experiment_history');
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Same wording as phaseChange's labels; not imported from there as it pulls in companion moments
+function phaseLabel(phase: string): string {
+  const labels: Record<string, string> = {
+    reset: 'your Reset Phase',
+    rebuilding: 'your Rebuilding Phase',
+    expressive: 'your Expressive Phase',
+    protective: 'your Protective Phase',
+    bleed: 'a bleed',
+  };
+  return labels[phase] ?? 'a new phase';
+}
+
+function regimenLabel(kind: string, label?: string): string {
+  if (label && label.trim()) return label.trim();
+  return kind.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+/** Experiments, contraception/HRT changes and phase history within ~10 days of the change, closest first. */
+export function matchChangePointContext(cp: Pick<ChangePoint, 'dateISO'>, userData: UserData): ChangePointMatch[] {
+  const out: ChangePointMatch[] = [];
+  const push = (kind: ChangePointMatchKind, dateISO: unknown, label: string) => {
+    if (typeof dateISO !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dateISO)) return;
+    const offsetDays = daysBetweenISO(cp.dateISO, dateISO);
+    if (Math.abs(offsetDays) <= MATCH_WINDOW_DAYS) out.push({ kind, dateISO, label, offsetDays });
+  };
+
+  for (const item of readExperimentHistory()) {
+    const title = String(item?.title || 'An experiment').trim() || 'An experiment';
+    const start = String(item?.startDateISO || '').slice(0, 10);
+    push('experiment_started', start, title);
+    const completed = String(item?.outcome?.completedAtISO || '').slice(0, 10);
+    const planned = /^\d{4}-\d{2}-\d{2}$/.test(start) && typeof item?.durationDays === 'number' ? addDaysISO(start, item.durationDays) : '';
+    push('experiment_ended', completed || planned, title);
+  }
+
+  for (const regimen of userData.hormonalRegimens ?? []) {
+    const label = regimenLabel(String(regimen.kind), regimen.label);
+    push('regimen_started', regimen.startISO, label);
+    if (regimen.stopISO) push('regimen_stopped', regimen.stopISO, label);
+  }
+
+  for (const entry of getPhaseHistory()) {
+    push('phase_change', entry.startDate, phaseLabel(String(entry.phase)));
+  }
+
+  return out.sort((a, b) => Math.abs(a.offsetDays) - Math.abs(b.offsetDays));
+}
+
+function formatDay(iso: string): string {
+  const d = new Date(iso + 'T00:00:00');
+  const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+  return `${d.getDate()} ${months[d.getMonth()]}`;
+}
+
+function pointsText(delta: number): string {
+  const size = Math.abs(Math.round(delta * 10) / 10);
+  return `${size} ${size === 1 ? 'point' : 'points'}`;
+}
+
+/** e.g. "Your sleep baseline dropped around 3 March (from 7 to 5.5)." */
+export function describeChangePoint(cp: ChangePoint): string {
+  const label = changePointMetricLabel(cp.metric).toLowerCase();
+  return `Your ${label} baseline ${cp.direction === 'up' ? 'rose' : 'dropped'} around ${formatDay(cp.dateISO)} (from ${cp.before} to ${cp.after}).`;
+}
+
+function whenText(offsetDays: number): string {
+  if (offsetDays === 0) return 'the same day';
+  const n = Math.abs(offsetDays);
+  return `${n} ${n === 1 ? 'day' : 'days'} ${offsetDays < 0 ? 'before' : 'after'}`;
+}
+
+/** e.g. "Magnesium at night started 2 days before." */
+export function describeChangePointMatch(match: ChangePointMatch): string {
+  const when = whenText(match.offsetDays);
+  switch (match.kind) {
+    case 'experiment_started':
+      return `${match.label} started ${when}.`;
+    case 'experiment_ended':
+      return `${match.label} ended ${when}.`;
+    case 'regimen_started':
+      return `You started ${match.label} ${when}.`;
+    case 'regimen_stopped':
+      return `You stopped ${match.label} ${when}.`;
+    case 'phase_change':
+      return `You moved into ${match.label} ${when}.`;
+    default:
+      return '';
+  }
+}
+
+/** Evidence line for the history timeline. */
+export function describeChangePointEvidence(cp: ChangePoint, matches: ChangePointMatch[]): string {
+  const base = `Based on ${cp.beforeDays} logged days before and ${cp.afterDays} after: a shift of ${pointsText(cp.delta)} that held.`;
+  if (!matches.length) return `${base} Nothing you logged lines up with it closely.`;
+  return `${base} Around then: ${matches.slice(0, 3).map(describeChangePointMatch).join(' ')}`;
+}
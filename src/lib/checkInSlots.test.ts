@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { CheckInEntry, CheckInSlot } from '../types';
+import { rollUpSlots, slotValuesFor, upsertSlot } from './checkInSlots';
+
+function entryFrom(slots: CheckInSlot[]): CheckInEntry {
+  return {
+    id: '2025-06-20',
+    dateISO: '2025-06-20',
+    ...rollUpSlots(slots),
+    slots,
+    createdAt: '2025-06-20T08:00:00.000Z',
+    updatedAt: '2025-06-20T08:00:00.000Z',
+  };
+}
+
+describe('a second check-in for the day', () => {
+  const morning: CheckInSlot = { timeOfDay: 'morning', loggedAt: '2025-06-20T08:00:00.000Z', values: { pain: 7, energy: 4 } };
+  const day = entryFrom([morning]);
+
+  // The evening form opens on the day's values; only energy is moved
+  const formValues = { ...day.values, energy: 6 };
+  const evening: CheckInSlot = {
+    timeOfDay: 'evening',
+    loggedAt: '2025-06-20T20:00:00.000Z',
+    values: slotValuesFor(formValues, ['pain', 'energy'], new Set(['energy'])),
+  };
+
+  it('leaves untouched sliders out of the new slot', () => {
+    expect(evening.values).toEqual({ energy: 6 });
+    const slots = upsertSlot(day, evening);
+    expect(slots.map((s) => s.timeOfDay)).toEqual(['morning', 'evening']);
+    expect(rollUpSlots(slots).values).toEqual({ pain: 7, energy: 5 });
+  });
+
+  it('lets pain come back down when the first check-in is edited', () => {
+    const bothLogged = entryFrom(upsertSlot(day, evening));
+    const editedMorning: CheckInSlot = { ...morning, values: slotValuesFor({ pain: 2, energy: 4 }, ['pain', 'energy'], null) };
+    expect(rollUpSlots(upsertSlot(bothLogged, editedMorning)).values?.pain).toBe(2);
+  });
+
+  it('keeps every slider when editing an existing slot', () => {
+    expect(slotValuesFor({ pain: 3, energy: 5 }, ['pain', 'energy'], null)).toEqual({ pain: 3, energy: 5 });
+  });
+});
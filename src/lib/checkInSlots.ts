@@ -0,0 +1,199 @@
+import type { CheckInEntry, CheckInSlot, CheckInTimeOfDay, SymptomKey } from '../types';
+
+/**
+ * Multiple check-ins per day.
+ *
+ * A day can hold morning/afternoon/evening slots. The parent entry still keeps a
+ * rolled-up `values`/`customValues`/`mood` so older screens keep working, but
+ * anything that reads a "day value" should go through the helpers below so the
+ * per-metric rule is applied consistently.
+ */
+
+export type SlotAggregation = 'mean' | 'max' | 'last';
+
+export const TIME_OF_DAY_OPTIONS: Array<{ key: CheckInTimeOfDay; label: string }> = [
+  { key: 'morning', label: 'Morning' },
+  { key: 'afternoon', label: 'Afternoon' },
+  { key: 'evening', label: 'Evening' },
+];
+
+const TIME_OF_DAY_ORDER: Record<CheckInTimeOfDay, number> = { morning: 0, afternoon: 1, evening: 2 };
+
+// Peaks matter more than averages for pain-type symptoms and bleeding.
+// Sleep is usually rated once (after waking), so the latest rating wins.
+const METRIC_AGGREGATION: Partial<Record<SymptomKey | 'mood', SlotAggregation>> = {
+  flow: 'max',
+  pain: 'max',
+  headache: 'max',
+  migraine: 'max',
+  backPain: 'max',
+  cramps: 'max',
+  jointPain: 'max',
+  nausea: 'max',
+  dizziness: 'max',
+  hotFlushes: 'max',
+  nightSweats: 'max',
+  breastTenderness: 'max',
+  lochia: 'max',
+  afterPains: 'max',
+  perinealPain: 'max',
+  nipplePain: 'max',
+  pelvicGirdlePain: 'max',
+  sleep: 'last',
+  insomnia: 'last',
+  mood: 'last',
+};
+
+export function aggregationForMetric(key: SymptomKey | 'mood' | string): SlotAggregation {
+  return METRIC_AGGREGATION[key as SymptomKey | 'mood'] ?? 'mean';
+}
+
+export function timeOfDayFromDate(d: Date): CheckInTimeOfDay {
+  const h = d.getHours();
+  if (h < 12) return 'morning';
+  if (h < 17) return 'afternoon';
+  return 'evening';
+}
+
+export function timeOfDayLabel(key: CheckInTimeOfDay): string {
+  return TIME_OF_DAY_OPTIONS.find((x) => x.key === key)?.label ?? key;
+}
+
+export function getEntrySlots(entry: CheckInEntry | null | undefined): CheckInSlot[] {
+  const slots = (entry as any)?.slots;
+  if (!Array.isArray(slots)) return [];
+  return slots
+    .filter((s: any) => s && typeof s === 'object' && TIME_OF_DAY_ORDER[s.timeOfDay as CheckInTimeOfDay] != null)
+    .slice()
+    .sort((a: CheckInSlot, b: CheckInSlot) => TIME_OF_DAY_ORDER[a.timeOfDay] - TIME_OF_DAY_ORDER[b.timeOfDay]);
+}
+
+function aggregate(nums: number[], rule: SlotAggregation): number | undefined {
+  if (!nums.length) return undefined;
+  if (rule === 'max') return Math.max(...nums);
+  if (rule === 'last') return nums[nums.length - 1];
+  const avg = nums.reduce((a, b) => a + b, 0) / nums.length;
+  return Math.round(avg * 10) / 10;
+}
+
+function finite(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+/** Day value for a built-in symptom (raw storage scale, same as entry.values). */
+export function getDayValue(entry: CheckInEntry | null | undefined, key: SymptomKey): number | undefined {
+  if (!entry) return undefined;
+  const slots = getEntrySlots(entry);
+  if (slots.length) {
+    const nums = slots.map((s) => (s.values as any)?.[key]).filter(finite);
+    const v = aggregate(nums, aggregationForMetric(key));
+    if (v != null) return v;
+  }
+  const v = (entry as any)?.values?.[key];
+  return finite(v) ? v : undefined;
+}
+
+export function getDayCustomValue(entry: CheckInEntry | null | undefined, id: string): number | undefined {
+  if (!entry) return undefined;
+  const slots = getEntrySlots(entry);
+  if (slots.length) {
+    const nums = slots.map((s) => s.customValues?.[id]).filter(finite);
+    const v = aggregate(nums, 'mean');
+    if (v != null) return v;
+  }
+  const v = (entry as any)?.customValues?.[id];
+  return finite(v) ? v : undefined;
+}
+
+export function getDayMood(entry: CheckInEntry | null | undefined): 1 | 2 | 3 | undefined {
+  if (!entry) return undefined;
+  const slots = getEntrySlots(entry);
+  if (slots.length) {
+    const nums = slots.map((s) => s.mood).filter(finite);
+    const v = aggregate(nums, aggregationForMetric('mood'));
+    if (v != null) return Math.max(1, Math.min(3, Math.round(v))) as 1 | 2 | 3;
+  }
+  const m = entry.mood;
+  return m === 1 || m === 2 || m === 3 ? m : undefined;
+}
+
+/** Roll all slots up into the day-level fields stored on the entry. */
+export function rollUpSlots(slots: CheckInSlot[]): Pick<CheckInEntry, 'values' | 'customValues' | 'mood'> {
+  const probe = { values: {}, slots } as unknown as CheckInEntry;
+
+  const valueKeys = new Set<string>();
+  const customKeys = new Set<string>();
+  for (const s of slots) {
+    Object.keys(s.values ?? {}).forEach((k) => valueKeys.add(k));
+    Object.keys(s.customValues ?? {}).forEach((k) => customKeys.add(k));
+  }
+
+  const values: Partial<Record<SymptomKey, number>> = {};
+  for (const k of valueKeys) {
+    const v = getDayValue(probe, k as SymptomKey);
+    if (v != null) values[k as SymptomKey] = v;
+  }
+
+  const customValues: Record<string, number> = {};
+  for (const id of customKeys) {
+    const v = getDayCustomValue(probe, id);
+    if (v != null) customValues[id] = v;
+  }
+
+  return {
+    values,
+    customValues: Object.keys(customValues).length ? customValues : undefined,
+    mood: getDayMood(probe),
+  };
+}
+
+/**
+ * The day's check-ins other than `timeOfDay`.
+ * Entries saved before slots existed are treated as a single slot at the time they were last updated.
+ */
+export function otherSlots(existing: CheckInEntry | null | undefined, timeOfDay: CheckInTimeOfDay): CheckInSlot[] {
+  const slots = getEntrySlots(existing);
+
+  if (!slots.length && existing && Object.keys(existing.values ?? {}).length) {
+    const at = new Date(existing.updatedAt || existing.createdAt || Date.now());
+    const legacyTime = Number.isNaN(at.getTime()) ? timeOfDay : timeOfDayFromDate(at);
+    if (legacyTime === timeOfDay) return [];
+    return [
+      {
+        timeOfDay: legacyTime,
+        loggedAt: existing.updatedAt ?? existing.createdAt,
+        mood: existing.mood,
+        values: { ...(existing.values ?? {}) },
+        customValues: existing.customValues ? { ...existing.customValues } : undefined,
+      },
+    ];
+  }
+
+  return slots.filter((s) => s.timeOfDay !== timeOfDay);
+}
+
+/**
+ * The values a check-in saves into its own slot. `touched` is set on a new check-in for a day
+ * that already has one: then only the sliders the user moved belong to this slot, not the
+ * day's rolled-up values the form opened with.
+ */
+export function slotValuesFor(
+  dayValues: Partial<Record<SymptomKey, number>>,
+  keys: SymptomKey[],
+  touched: Set<string> | null
+): Partial<Record<SymptomKey, number>> {
+  const out: Partial<Record<SymptomKey, number>> = {};
+  for (const k of keys) {
+    if (touched && !touched.has(k)) continue;
+    const v = dayValues[k];
+    if (finite(v)) out[k] = v;
+  }
+  return out;
+}
+
+/** Put a slot into an entry's slot list (replacing any slot for the same time of day). */
+export function upsertSlot(existing: CheckInEntry | null | undefined, slot: CheckInSlot): CheckInSlot[] {
+  return [...otherSlots(existing, slot.timeOfDay), slot].sort(
+    (a, b) => TIME_OF_DAY_ORDER[a.timeOfDay] - TIME_OF_DAY_ORDER[b.timeOfDay]
+  );
+}
@@ -4,6 +4,9 @@ import { getCompanionMoments, type CompanionMoment, type CompanionMomentType } f
 import { getHelpfulPatternsFromExperiments } from './experimentLearning';
 import { getExperimentLearnings, getWhatsComingPredictions } from './rhythmPredictions';
 import { getCycleAwarePredictionLines, getPatternContextForSignal, getWeeklyPatternReflection } from './patternIntelligence';
+import { medicationLabelForKey } from './medications';
+import { customInfluenceLabelForKey } from './customInfluences';
+import { measurementLabelForKey } from './measurements';
 import { filterSignalsByPatternFeedback } from './patternFeedback';
 
 export type CompanionDataStage = 'very_new' | 'building' | 'settling' | 'established';
@@ -145,6 +148,9 @@ function metricLabel(key: string, userData: UserData): string {
     const id = key.slice('custom:'.length);
     return userData.customSymptoms?.find((item) => item.id === id)?.label ?? 'that symptom';
   }
+  const medLabel =
+    medicationLabelForKey(key, userData) ?? customInfluenceLabelForKey(key, userData) ?? measurementLabelForKey(key);
+  if (medLabel) return medLabel;
   const labels: Record<string, string> = {
     mood: 'Mood', energy: 'Energy', sleep: 'Sleep', pain: 'Pain', headache: 'Headaches', cramps: 'Cramps',
     jointPain: 'Joint pain', flow: 'Bleeding', stress: 'Stress', anxiety: 'Anxiety', irritability: 'Irritability',
@@ -200,8 +206,9 @@ export function getBodyWeatherLines(args: {
   currentPhase: CyclePhase | null;
   heroSignals: InsightSignal[];
   strongPatternSignals: InsightSignal[];
+  rankedSignals: InsightSignal[];
 }): string[] {
-  const { entries, userData, currentPhase, heroSignals, strongPatternSignals } = args;
+  const { entries, userData, currentPhase, heroSignals, strongPatternSignals, rankedSignals } = args;
   const filteredHeroSignals = filterSignalsByPatternFeedback(heroSignals);
   const filteredStrongSignals = filterSignalsByPatternFeedback(strongPatternSignals);
   const daysLogged = getDistinctLoggedDays(entries);
@@ -235,6 +242,7 @@ export function getBodyWeatherLines(args: {
     phase: currentPhase,
     heroSignals: filteredHeroSignals,
     strongSignals: filteredStrongSignals,
+    rankedSignals,
     existingLines: lines,
   });
 
@@ -248,7 +256,7 @@ export function getBodyWeatherLines(args: {
   return enriched.slice(0, 5);
 }
 
-export function getWeeklyReflectionMoment(entries: CheckInEntry[], refISO: string, userData?: UserData): { id: string; title: string; body: string; type: CompanionMomentType } | null {
+export function getWeeklyReflectionMoment(entries: CheckInEntry[], refISO: string, userData?: UserData, rankedSignals: InsightSignal[] = []): { id: string; title: string; body: string; type: CompanionMomentType } | null {
   const distinctDays = getDistinctLoggedDays(entries);
   const milestones = [7, 14, 21, 30];
   const milestone = milestones.find((value) => distinctDays === value);
@@ -261,7 +269,7 @@ export function getWeeklyReflectionMoment(entries: CheckInEntry[], refISO: strin
     milestone === 21 ? 'Your rhythm is getting easier to read' :
     'You have built a stronger baseline';
 
-  const reflection = userData ? getWeeklyPatternReflection(entries, userData) : { lines: [], repeatLine: null };
+  const reflection = userData ? getWeeklyPatternReflection(entries, userData, rankedSignals) : { lines: [], repeatLine: null };
   const base =
     stage === 'building' ? 'You have enough check-ins now for early patterns to feel a little more trustworthy.' :
     stage === 'settling' ? 'Patterns are repeating a bit more now, so the app can be calmer and more specific.' :
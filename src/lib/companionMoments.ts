@@ -10,6 +10,9 @@ export type CompanionMomentType =
   | 'helpful_pattern_detected'
   | 'rhythm_shift'
   | 'unlock_milestone'
+  | 'menopause_milestone'
+  | 'cycle_diagnostic'
+  | 'unusual_days'
   | 'encouragement';
 
 export type CompanionMoment = {
@@ -30,6 +33,9 @@ const MOMENT_PRIORITY: Record<CompanionMomentType, number> = {
   helpful_pattern_detected: 5,
   rhythm_shift: 6,
   unlock_milestone: 6,
+  menopause_milestone: 2,
+  cycle_diagnostic: 3,
+  unusual_days: 3,
   encouragement: 7,
 };
 
@@ -127,6 +133,9 @@ function defaultExpiry(type: CompanionMomentType, dateISO: string): string | und
     type === 'helpful_pattern_detected' ? 5 :
     type === 'rhythm_shift' ? 4 :
     type === 'unlock_milestone' ? undefined :
+    type === 'menopause_milestone' ? undefined :
+    type === 'cycle_diagnostic' ? undefined :
+    type === 'unusual_days' ? 3 :
     type === 'encouragement' ? 3 :
     undefined;
   if (days == null) return undefined;
@@ -1,4 +1,5 @@
 import type { InsightSignal } from "./insightEngine";
+import { FDR_LEVEL, type SignalStats } from "./insightStats";
 
 export type UnifiedConfidence = "very_low" | "low" | "moderate" | "high";
 
@@ -42,6 +43,55 @@ export function getHelpfulPhrase(level?: string | null): string {
   return 'is still emerging';
 }
 
-export function describeInsightConfidence(signal: Pick<InsightSignal, 'confidence'>): UnifiedConfidence {
-  return normaliseConfidence(signal.confidence);
+export function describeInsightConfidence(signal: Pick<InsightSignal, 'confidence' | 'stats'>): UnifiedConfidence {
+  const confidence = normaliseConfidence(signal.confidence);
+  // An interval that includes "no effect", or one that didn't survive the many-comparisons check, is never more than low
+  const stats = signal.stats;
+  if (stats && (stats.qValue > FDR_LEVEL || (stats.interval.low <= 0 && stats.interval.high >= 0))) {
+    return confidence === 'very_low' ? 'very_low' : 'low';
+  }
+  return confidence;
+}
+
+function linkWord(rAbs: number): string {
+  if (rAbs < 0.1) return 'no real link';
+  if (rAbs < 0.3) return 'a weak link';
+  if (rAbs < 0.5) return 'a moderate link';
+  return 'a strong link';
+}
+
+function rangeLine(type: InsightSignal['type'], stats: SignalStats): string | null {
+  const { low, high } = stats.interval;
+  const straddles = low <= 0 && high >= 0;
+  if (type === 'metric_pair') {
+    if (straddles) return `It could be anything from no real link to ${linkWord(Math.max(Math.abs(low), Math.abs(high)))}.`;
+    const near = linkWord(Math.min(Math.abs(low), Math.abs(high)));
+    const far = linkWord(Math.max(Math.abs(low), Math.abs(high)));
+    return near === far ? `It's most likely ${near}.` : `It's most likely somewhere between ${near} and ${far}.`;
+  }
+  if (type === 'phase_shift') {
+    const round1 = (n: number) => Math.round(Math.abs(n) * 10) / 10;
+    if (straddles) return `Compared with the rest of your cycle, the difference could be as little as nothing.`;
+    const a = round1(Math.min(Math.abs(low), Math.abs(high)));
+    const b = round1(Math.max(Math.abs(low), Math.abs(high)));
+    return `Compared with the rest of your cycle, it's most likely ${a === b ? a : `${a}–${b}`} points ${high > 0 ? 'higher' : 'lower'}.`;
+  }
+  return null;
+}
+
+/**
+ * Honest certainty copy from a signal's interval and multiple-testing check,
+ * e.g. "It's most likely somewhere between a weak and a strong link. Probably not chance...".
+ * null when the signal has no stats (trends, weekday patterns...).
+ */
+export function describeSignalCertainty(signal: Pick<InsightSignal, 'type' | 'stats'>): string | null {
+  const stats = signal.stats;
+  if (!stats) return null;
+  const chance =
+    stats.qValue <= FDR_LEVEL / 2
+      ? 'It holds up even after allowing for all the other patterns we checked.'
+      : stats.qValue <= FDR_LEVEL
+        ? "It's probably not chance, though with so much being compared it still could be."
+        : 'With this many things being compared, it could easily be chance, so treat it as a hunch for now.';
+  return [rangeLine(signal.type, stats), chance].filter(Boolean).join(' ');
 }
@@ -0,0 +1,38 @@
+import type { CheckInEntry, CustomInfluence, UserData } from '../types';
+
+/**
+ * User-defined influences ("Sauna", "Gluten", "Night shift"...).
+ *
+ * Logged per day in entry.customEvents (keyed by CustomInfluence.id). In Insights
+ * they use the metric key `influence:<id>`, which matches the ids Profile already
+ * uses when retiring built-in influences.
+ */
+
+export function customInfluenceMetricKey(id: string): `influence:${string}` {
+  return `influence:${id}`;
+}
+
+export function customInfluenceIdFromKey(key: string): string | null {
+  return typeof key === 'string' && key.startsWith('influence:') ? key.slice('influence:'.length) : null;
+}
+
+export function getCustomInfluence(userData: UserData | undefined, id: string): CustomInfluence | null {
+  return (userData?.customInfluences ?? []).find((x) => x.id === id) ?? null;
+}
+
+export function getEnabledCustomInfluences(userData: UserData): CustomInfluence[] {
+  return (userData.customInfluences ?? []).filter((x) => x && x.enabled && typeof x.label === 'string' && x.label.trim());
+}
+
+export function customInfluenceLabelForKey(key: string, userData?: UserData): string | null {
+  const id = customInfluenceIdFromKey(key);
+  if (!id) return null;
+  return getCustomInfluence(userData, id)?.label ?? 'Custom influence';
+}
+
+/** 10 when logged "yes", 0 when logged "no", undefined when not logged that day. */
+export function customInfluenceValue(entry: CheckInEntry, id: string): number | undefined {
+  const v = entry?.customEvents?.[id];
+  if (typeof v !== 'boolean') return undefined;
+  return v ? 10 : 0;
+}
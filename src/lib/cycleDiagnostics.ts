@@ -0,0 +1,257 @@
+import type { CheckInEntry, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+import { spansPregnancyGap } from './pregnancy';
+
+/**
+ * Rule-based checks on logged bleeding, the sort of thing a GP would want to hear about.
+ *
+ * Each finding keeps the dates/lengths that triggered it (`evidence`) so the companion
+ * card and the doctor export can show the actual numbers rather than just a conclusion.
+ * None of this is a diagnosis, it's "worth mentioning".
+ *
+ * The id changes when new evidence comes in (it ends with the latest date involved), so
+ * dismissing a finding hides it until something new happens.
+ */
+
+export type DiagnosticRule =
+  | 'cycle_variability'
+  | 'short_cycles'
+  | 'long_cycles'
+  | 'long_bleeding'
+  | 'heavy_flow_symptoms'
+  | 'postmenopausal_bleeding';
+
+export type DiagnosticSeverity = 'note' | 'see_gp';
+
+export type CycleDiagnostic = {
+  id: string;
+  rule: DiagnosticRule;
+  severity: DiagnosticSeverity;
+  title: string;
+  body: string;
+  evidence: string[];
+  /** Latest date the evidence covers */
+  lastISO: string;
+};
+
+// How far back cycle rules look
+const RECENT_CYCLES = 6;
+const VARIABILITY_DAYS = 7;
+const SHORT_CYCLE_DAYS = 21;
+const LONG_CYCLE_DAYS = 35;
+const LONG_BLEED_DAYS = 7;
+// 0–10 scales
+const HEAVY_FLOW = 8;
+const DIZZY_LEVEL = 5;
+const FATIGUE_LEVEL = 7;
+const NO_PERIOD_DAYS = 365;
+// Bleeding after a year without periods stays flagged for this long
+const PMB_LOOKBACK_DAYS = 90;
+
+const RULE_ORDER: DiagnosticRule[] = [
+  'postmenopausal_bleeding',
+  'heavy_flow_symptoms',
+  'long_bleeding',
+  'short_cycles',
+  'long_cycles',
+  'cycle_variability',
+];
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function to10(v: any): number {
+  if (typeof v !== 'number') return 0;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+function prettyDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function finding(rule: DiagnosticRule, severity: DiagnosticSeverity, lastISO: string, title: string, body: string, evidence: string[]): CycleDiagnostic {
+  return { id: `${rule}:${lastISO}`, rule, severity, title, body, evidence, lastISO };
+}
+
+export function getCycleDiagnostics(
+  entries: CheckInEntry[],
+  userData: UserData,
+  todayISO: string = isoTodayLocal()
+): CycleDiagnostic[] {
+  const sorted = sortByDateAsc(entries) as any[];
+  const byISO = new Map<string, any>();
+  for (const e of sorted) if (e?.dateISO) byISO.set(e.dateISO, e);
+  const isBleed = (iso: string) => {
+    const e = byISO.get(iso);
+    return Boolean(e) && to10(e?.values?.flow) > 0 && !e?.breakthroughBleed;
+  };
+
+  const engine = buildCycleEngine(entries, userData, todayISO);
+  const out: CycleDiagnostic[] = [];
+
+  // Completed cycles, leaving out the ones a pregnancy sits inside
+  const completed = engine.cycles
+    .filter((c) => c.endISO != null && c.lengthDays != null && !spansPregnancyGap(userData, c.startISO, addDaysISO(c.endISO, 1)))
+    .slice(-RECENT_CYCLES);
+  const lengthLine = (c: (typeof completed)[number]) => `Cycle from ${prettyDate(c.startISO)}: ${c.lengthDays} days`;
+
+  // 1) Big swings between consecutive cycles, more than once (perimenopause pattern)
+  const swings: string[] = [];
+  let lastSwingISO = '';
+  for (let i = 1; i < completed.length; i++) {
+    const a = completed[i - 1];
+    const b = completed[i];
+    const diff = Math.abs((b.lengthDays as number) - (a.lengthDays as number));
+    if (diff >= VARIABILITY_DAYS) {
+      swings.push(`${a.lengthDays} days then ${b.lengthDays} days (from ${prettyDate(b.startISO)}), a ${diff}-day difference`);
+      lastSwingISO = b.endISO as string;
+    }
+  }
+  if (swings.length >= 2) {
+    out.push(
+      finding(
+        'cycle_variability',
+        'note',
+        lastSwingISO,
+        'Your cycle length is swinging a lot',
+        `Your cycle length has changed by ${VARIABILITY_DAYS}+ days between cycles ${swings.length} times recently. Repeated swings like this are common in early perimenopause, and worth mentioning if it's new for you.`,
+        swings
+      )
+    );
+  }
+
+  // 2) Repeated short or long cycles
+  const short = completed.filter((c) => (c.lengthDays as number) < SHORT_CYCLE_DAYS);
+  if (short.length >= 2) {
+    out.push(
+      finding(
+        'short_cycles',
+        'see_gp',
+        short[short.length - 1].endISO as string,
+        'Several short cycles',
+        `${short.length} of your last ${completed.length} cycles were shorter than ${SHORT_CYCLE_DAYS} days. Frequent short cycles are worth talking through with your GP.`,
+        short.map(lengthLine)
+      )
+    );
+  }
+  const long = completed.filter((c) => (c.lengthDays as number) > LONG_CYCLE_DAYS);
+  if (long.length >= 2) {
+    out.push(
+      finding(
+        'long_cycles',
+        'see_gp',
+        long[long.length - 1].endISO as string,
+        'Several long cycles',
+        `${long.length} of your last ${completed.length} cycles were longer than ${LONG_CYCLE_DAYS} days. Repeatedly long cycles are worth talking through with your GP.`,
+        long.map(lengthLine)
+      )
+    );
+  }
+
+  // 3 + 4) Per-period checks: how long it lasted, and heavy days with dizziness / fatigue
+  const recentStarts = engine.starts.slice(-RECENT_CYCLES);
+  const longBleeds: string[] = [];
+  let lastLongBleedISO = '';
+  const heavyLines: string[] = [];
+  const heavyPeriods = new Set<string>();
+  let lastHeavyISO = '';
+  for (const start of recentStarts) {
+    let n = 0;
+    while (n < 31 && isBleed(addDaysISO(start, n))) n++;
+    if (n > LONG_BLEED_DAYS) {
+      longBleeds.push(`Bled for ${n} days from ${prettyDate(start)}`);
+      lastLongBleedISO = addDaysISO(start, n - 1);
+    }
+    for (let d = 0; d < n; d++) {
+      const iso = addDaysISO(start, d);
+      const v = byISO.get(iso)?.values ?? {};
+      if (to10(v.flow) < HEAVY_FLOW) continue;
+      const dizzy = to10(v.dizziness);
+      const tired = to10(v.fatigue);
+      if (dizzy < DIZZY_LEVEL && tired < FATIGUE_LEVEL) continue;
+      const parts = [`heavy flow (${to10(v.flow)}/10)`];
+      if (dizzy >= DIZZY_LEVEL) parts.push(`dizziness ${dizzy}/10`);
+      if (tired >= FATIGUE_LEVEL) parts.push(`fatigue ${tired}/10`);
+      heavyLines.push(`${prettyDate(iso)}: ${parts.join(', ')}`);
+      heavyPeriods.add(start);
+      lastHeavyISO = iso;
+    }
+  }
+  if (longBleeds.length) {
+    out.push(
+      finding(
+        'long_bleeding',
+        'see_gp',
+        lastLongBleedISO,
+        longBleeds.length > 1 ? 'Periods lasting longer than a week' : 'A period that lasted longer than a week',
+        `Bleeding for more than ${LONG_BLEED_DAYS} days is worth mentioning to your GP, especially if it keeps happening.`,
+        longBleeds
+      )
+    );
+  }
+  // One rough day can be anything; it needs to show up in at least two periods
+  if (heavyPeriods.size >= 2) {
+    out.push(
+      finding(
+        'heavy_flow_symptoms',
+        'see_gp',
+        lastHeavyISO,
+        'Heavy days with dizziness or tiredness',
+        `In ${heavyPeriods.size} of your last ${recentStarts.length} periods, heavy bleeding came with dizziness or strong fatigue. That combination can go with low iron, so it's worth asking your GP about.`,
+        heavyLines
+      )
+    );
+  }
+
+  // 5) Bleeding after a year without periods
+  const bleeds = sorted.filter((e) => to10(e?.values?.flow) > 0).map((e) => e.dateISO as string);
+  const since = addDaysISO(todayISO, -PMB_LOOKBACK_DAYS);
+  const finalISO = userData.goal === 'postmenopause' ? userData.finalPeriodISO ?? null : null;
+  const pmb: string[] = [];
+  let lastPmbISO = '';
+  for (let i = 0; i < bleeds.length; i++) {
+    const iso = bleeds[i];
+    if (iso < since || iso > todayISO) continue;
+    const prev = bleeds[i - 1] ?? null;
+    if (finalISO && iso > finalISO && (!prev || prev <= finalISO || daysBetweenISO(prev, iso) > 1)) {
+      pmb.push(`Bleeding on ${prettyDate(iso)}, after your final period on ${prettyDate(finalISO)}`);
+      lastPmbISO = iso;
+    } else if (prev && daysBetweenISO(prev, iso) >= NO_PERIOD_DAYS) {
+      pmb.push(`Bleeding on ${prettyDate(iso)}, ${daysBetweenISO(prev, iso)} days after the bleed before (${prettyDate(prev)})`);
+      lastPmbISO = iso;
+    }
+  }
+  if (pmb.length) {
+    out.push(
+      finding(
+        'postmenopausal_bleeding',
+        'see_gp',
+        lastPmbISO,
+        'Bleeding after a year without periods',
+        'Any bleeding after 12 months without a period should be checked by your GP. It often has a simple cause, but it always needs looking at.',
+        pmb
+      )
+    );
+  }
+
+  return out.sort((a, b) => RULE_ORDER.indexOf(a.rule) - RULE_ORDER.indexOf(b.rule));
+}
+
+/** Lines for the doctor export: the finding plus the logged evidence behind it. */
+export function describeDiagnostic(d: CycleDiagnostic): string {
+  return `${d.title}. ${d.body} Logged: ${d.evidence.slice(0, 4).join('; ')}.`;
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CYCLE_FIXTURES } from './__fixtures__/cycleFixtures';
+import { sortByDateAsc } from './analytics';
+import { buildRhythmSummary } from './aiExportBuilder';
+import { getCalendarDays } from './calendarDays';
+import { buildCycleEngine } from './cycleEngine';
+import { generateCandidateInsights } from './insightEngine';
+import { phaseLabelFromKey } from './phaseChange';
+import { getRhythmModel } from './rhythmModel';
+
+function memoryStorage() {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, String(value)),
+    removeItem: (key: string) => void store.delete(key),
+    clear: () => store.clear(),
+    key: (i: number) => Array.from(store.keys())[i] ?? null,
+    get length() {
+      return store.size;
+    },
+  };
+}
+
+describe.each(CYCLE_FIXTURES)('$name', (fixture) => {
+  const { entries, userData, todayISO, golden } = fixture;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${todayISO}T12:00:00`));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('engine matches the golden cycles', () => {
+    const engine = buildCycleEngine(entries, userData, todayISO);
+    expect(engine.starts).toEqual(golden.starts);
+    const today = engine.dayInfo(todayISO);
+    expect(today ? { cycleDay: today.cycleDay, phaseKey: today.phaseKey, phase: today.phase } : null).toEqual(golden.today);
+    expect(engine.nextPeriod?.likelyISO ?? null).toBe(golden.nextPeriodLikelyISO);
+  });
+
+  it('Home and Rhythm show the engine day and phase', () => {
+    // Dashboard + Rhythm both read the rhythm model from sorted entries
+    const rm = getRhythmModel(sortByDateAsc(entries), userData, todayISO);
+    const engine = buildCycleEngine(entries, userData, todayISO);
+    expect(rm.starts).toEqual(engine.starts);
+    if (golden.today) {
+      expect(rm.dayInCycle).toBe(golden.today.cycleDay);
+      expect(rm.phaseKey).toBe(golden.today.phaseKey);
+      expect(rm.cycleLen).toBe(engine.cycleLen);
+      expect(['override', 'bleed']).toContain(rm.source);
+    } else {
+      expect(['override', 'bleed']).not.toContain(rm.source);
+    }
+    if (userData.cycleTrackingMode === 'pregnancy' || userData.cycleTrackingMode === 'postpartum') {
+      // Cycle predictions are on hold, so no symptom-rhythm stand-in either
+      expect(rm.source).not.toBe('symptom_rhythm');
+      expect(rm.dayInCycle).toBeNull();
+    }
+  });
+
+  it('Calendar shades periods, the next period and fertile days from the engine', () => {
+    const sorted = sortByDateAsc(entries);
+    const engine = buildCycleEngine(sorted, userData, todayISO);
+    const days = getCalendarDays(sorted, userData, engine, todayISO);
+    if (userData.cycleTrackingMode !== 'cycle') {
+      expect(days.period.size + days.predictedPeriod.size).toBe(0);
+      return;
+    }
+    // Every cycle start is a period day, marked by hand or not
+    for (const startISO of golden.starts) expect(days.period.has(startISO)).toBe(true);
+    if (golden.nextPeriodLikelyISO) {
+      expect(days.predictedPeriod.has(golden.nextPeriodLikelyISO)).toBe(true);
+      expect(Array.from(days.predictedPeriod).every((iso) => iso > todayISO)).toBe(true);
+    } else {
+      expect(days.predictedPeriod.size).toBe(0);
+    }
+    expect(days.fertile.size).toBe(0);
+
+    const fertility = getCalendarDays(sorted, { ...userData, fertilityMode: true }, engine, todayISO);
+    for (const cycle of engine.cycles) expect(fertility.predictedOvulation.has(cycle.ovulationISO)).toBe(true);
+    for (const iso of Array.from(fertility.fertile)) {
+      expect(fertility.period.has(iso)).toBe(false);
+      expect(fertility.predictedPeriod.has(iso)).toBe(false);
+    }
+  });
+
+  it('Insights tags signals with the engine phase for today', () => {
+    const signals = generateCandidateInsights(entries, userData).filter((s) => s.type !== 'phase_shift' && s.type !== 'low_data');
+    expect(signals.length).toBeGreaterThan(0);
+    const expected = userData.cycleTrackingMode === 'cycle' ? (golden.today?.phase ?? null) : null;
+    for (const signal of signals) expect(signal.phase).toBe(expected);
+  });
+
+  it('the export summary uses the engine phase and cycle length', () => {
+    const summary = buildRhythmSummary(entries, userData);
+    const engine = buildCycleEngine(entries, userData, todayISO);
+    if (golden.today) expect(summary.currentPhase).toBe(phaseLabelFromKey(golden.today.phaseKey));
+    expect(summary.typicalCycleLength).toBe(getRhythmModel(entries, userData, todayISO).cycleLen);
+    if (golden.today) expect(summary.typicalCycleLength).toBe(engine.cycleLen);
+  });
+});
+
+describe('buildCycleEngine', () => {
+  it('reuses the engine for the same entries, userData and day', () => {
+    const { entries, userData, todayISO } = CYCLE_FIXTURES[0];
+    const engine = buildCycleEngine(entries, userData, todayISO);
+    expect(buildCycleEngine(entries, userData, todayISO)).toBe(engine);
+    expect(buildCycleEngine(entries.slice(), userData, todayISO)).not.toBe(engine);
+    expect(buildCycleEngine(entries, { ...userData }, todayISO)).not.toBe(engine);
+  });
+});
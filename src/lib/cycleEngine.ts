@@ -0,0 +1,331 @@
+import type { CheckInEntry } from '../types';
+import {
+  type CyclePhase,
+  type CycleSources,
+  type CycleStats,
+  type PhaseBoundaries,
+  type PhaseKey,
+  type PhaseWindows,
+  computeCycleStats,
+  getPhaseBoundaries,
+  getPhaseWindows,
+  markedOvulationDay,
+  phaseForCycleDay,
+  sortByDateAsc,
+} from './analytics';
+import { isoTodayLocal } from './date';
+import { isCycleSuppressedOn } from './hormonalRegimen';
+import { isInPregnancyGap, spansPregnancyGap } from './pregnancy';
+
+/**
+ * One place that turns check-ins into cycles.
+ *
+ * Starts come from analytics.getCycleStarts (overrides, natural bleeds, regimens and
+ * pregnancies taken into account), lengths + the next-period prediction from
+ * computeCycleStats, and phases from phaseForCycleDay. Screens should ask the engine
+ * for "what cycle day / phase is this date" rather than counting days themselves,
+ * so Home, Calendar, Rhythm and Insights always say the same thing.
+ */
+
+export type PredictionConfidence = 'low' | 'medium' | 'high';
+
+export type PredictionRange = {
+  earliestISO: string;
+  likelyISO: string;
+  latestISO: string;
+  confidence: PredictionConfidence;
+};
+
+export type PredictionCheck = {
+  predictedISO: string;
+  earliestISO: string;
+  latestISO: string;
+  actualISO: string;
+  /** Actual minus predicted (positive = came late) */
+  errorDays: number;
+  withinRange: boolean;
+};
+
+export type PredictionBacktest = {
+  checks: PredictionCheck[];
+  withinRange: number;
+  meanAbsErrorDays: number | null;
+};
+
+export type EngineCycle = {
+  startISO: string;
+  /** Day before the next start, null for the cycle you're in */
+  endISO: string | null;
+  lengthDays: number | null;
+  /** False when the length is left out of stats (pregnancy in between, or outside 10–60 days) */
+  counted: boolean;
+  /** Confirmed/marked ovulation in this cycle, otherwise an estimate from the luteal length */
+  ovulationISO: string;
+  ovulationConfirmed: boolean;
+};
+
+export type CycleDayInfo = {
+  dateISO: string;
+  cycleStartISO: string;
+  cycleDay: number;
+  phaseKey: PhaseKey;
+  phase: CyclePhase;
+  /** True for future days that fall in a predicted (not yet started) cycle */
+  projected: boolean;
+};
+
+export type CycleEngine = {
+  starts: string[];
+  cycles: EngineCycle[];
+  stats: CycleStats;
+  /** Length used for the current cycle (recent average, else last, else 28) */
+  cycleLen: number;
+  /** Your period / luteal lengths and confirmed ovulations, used for every phase below */
+  boundaries: PhaseBoundaries;
+  /** Phase day ranges for the cycle you're in */
+  currentWindows: PhaseWindows | null;
+  dayInfo: (dateISO: string) => CycleDayInfo | null;
+  phaseOn: (dateISO: string) => CyclePhase | null;
+  nextPeriod: PredictionRange | null;
+  nextOvulation: PredictionRange | null;
+  /** Ovulation range widened to the 5 days before and the day after */
+  fertileWindow: PredictionRange | null;
+  /** How the same prediction rule would have done on your past cycles */
+  backtest: PredictionBacktest;
+};
+
+// Past this we don't trust the last start to say where you are (missed logging or a long gap)
+const MAX_CYCLE_DAY = 60;
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function flowTo10(v: any): number {
+  if (typeof v !== 'number') return 0;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+function stdDev(nums: number[]): number {
+  if (nums.length < 2) return 0;
+  const m = nums.reduce((a, b) => a + b, 0) / nums.length;
+  return Math.sqrt(nums.reduce((a, b) => a + (b - m) ** 2, 0) / (nums.length - 1));
+}
+
+function confidenceFor(lengths: number[]): PredictionConfidence {
+  const recent = lengths.slice(-6);
+  const sd = stdDev(recent);
+  if (recent.length >= 6 && sd <= 2) return 'high';
+  if (recent.length >= 3 && sd <= 4) return 'medium';
+  return 'low';
+}
+
+/** +/- days around the likely date: the spread of recent cycles, wider when there's little history. */
+function spreadFor(lengths: number[]): number {
+  const recent = lengths.slice(-6);
+  if (recent.length < 3) return 3;
+  return Math.max(1, Math.min(7, Math.round(stdDev(recent))));
+}
+
+/**
+ * Replay the prediction on past cycles: for each completed cycle, predict its end from
+ * the cycles before it only (same average-of-six rule as computeCycleStats).
+ */
+function backtestPredictions(cycles: EngineCycle[]): PredictionBacktest {
+  const checks: PredictionCheck[] = [];
+  const prior: number[] = [];
+  for (const c of cycles) {
+    if (!c.counted || c.lengthDays == null) continue;
+    if (prior.length >= 2) {
+      const recent = prior.slice(-6);
+      const predictedISO = addDaysISO(c.startISO, Math.round(recent.reduce((a, b) => a + b, 0) / recent.length));
+      const spread = spreadFor(prior);
+      const actualISO = addDaysISO(c.startISO, c.lengthDays);
+      const errorDays = daysBetweenISO(predictedISO, actualISO);
+      checks.push({
+        predictedISO,
+        earliestISO: addDaysISO(predictedISO, -spread),
+        latestISO: addDaysISO(predictedISO, spread),
+        actualISO,
+        errorDays,
+        withinRange: Math.abs(errorDays) <= spread,
+      });
+    }
+    prior.push(c.lengthDays);
+  }
+  return {
+    checks,
+    withinRange: checks.filter((c) => c.withinRange).length,
+    meanAbsErrorDays: checks.length
+      ? Math.round((checks.reduce((a, c) => a + Math.abs(c.errorDays), 0) / checks.length) * 10) / 10
+      : null,
+  };
+}
+
+// Screens and lib modules ask for the engine for the same entries + userData several times
+// per render, so a built engine is kept against those objects (and the day it was built for).
+const engineMemo = new WeakMap<object, WeakMap<object, Map<string, CycleEngine>>>();
+const NO_SOURCES = {};
+
+export function buildCycleEngine(
+  entries: CheckInEntry[] | unknown,
+  sources?: CycleSources,
+  todayISO: string = isoTodayLocal()
+): CycleEngine {
+  if (!entries || typeof entries !== 'object') return createCycleEngine(entries, sources, todayISO);
+  let bySources = engineMemo.get(entries);
+  if (!bySources) {
+    bySources = new WeakMap();
+    engineMemo.set(entries, bySources);
+  }
+  let byDay = bySources.get(sources ?? NO_SOURCES);
+  if (!byDay) {
+    byDay = new Map();
+    bySources.set(sources ?? NO_SOURCES, byDay);
+  }
+  let engine = byDay.get(todayISO);
+  if (!engine) {
+    engine = createCycleEngine(entries, sources, todayISO);
+    byDay.set(todayISO, engine);
+  }
+  return engine;
+}
+
+function createCycleEngine(entries: CheckInEntry[] | unknown, sources: CycleSources | undefined, todayISO: string): CycleEngine {
+  const sorted = sortByDateAsc(entries);
+  const stats = computeCycleStats(sorted, sources);
+  const starts = stats.cycleStarts;
+  const cycleLen = stats.avgLength ?? stats.lastLength ?? 28;
+
+  const byISO = new Map<string, any>();
+  for (const e of sorted as any[]) if (e?.dateISO) byISO.set(e.dateISO, e);
+
+  const boundaries = getPhaseBoundaries(sorted, sources);
+
+  const cycles: EngineCycle[] = starts.map((startISO, i) => {
+    const next = starts[i + 1] ?? null;
+    const lengthDays = next ? daysBetweenISO(startISO, next) : null;
+    const len = lengthDays != null && lengthDays >= 10 && lengthDays <= 60 ? lengthDays : cycleLen;
+    const marked = boundaries.ovulationISOs.find((iso) => iso >= startISO && (!next || iso < next));
+    return {
+      startISO,
+      endISO: next ? addDaysISO(next, -1) : null,
+      lengthDays,
+      counted: next != null && len === lengthDays && !spansPregnancyGap(sources, startISO, next),
+      ovulationISO: marked ?? addDaysISO(startISO, getPhaseWindows(len, boundaries).ovulationDay - 1),
+      ovulationConfirmed: Boolean(marked),
+    };
+  });
+
+  const canPredict = stats.predictedNextStartISO != null;
+  // Once the period is late we stop projecting and just keep counting the current cycle
+  const canProject = canPredict && (stats.predictedNextStartISO as string) > todayISO;
+
+  const dayInfo = (dateISO: string): CycleDayInfo | null => {
+    if (!dateISO || isCycleSuppressedOn(sources, dateISO) || isInPregnancyGap(sources, dateISO)) return null;
+
+    let idx = -1;
+    for (let i = cycles.length - 1; i >= 0; i--) {
+      if (cycles[i].startISO <= dateISO) {
+        idx = i;
+        break;
+      }
+    }
+    if (idx < 0) return null;
+
+    const cycle = cycles[idx];
+    const diff = daysBetweenISO(cycle.startISO, dateISO);
+    let cycleStartISO = cycle.startISO;
+    let cycleDay = diff + 1;
+    let len = cycle.lengthDays != null && cycle.lengthDays >= 10 && cycle.lengthDays <= 60 ? cycle.lengthDays : cycleLen;
+    let projected = false;
+
+    // Future days past the predicted next period roll into predicted cycles
+    if (cycle.endISO == null && canProject && dateISO > todayISO && cycleDay > cycleLen) {
+      const k = Math.floor(diff / cycleLen);
+      cycleStartISO = addDaysISO(cycle.startISO, k * cycleLen);
+      cycleDay = diff - k * cycleLen + 1;
+      len = cycleLen;
+      projected = true;
+    }
+
+    if (cycleDay > MAX_CYCLE_DAY) return null;
+
+    const e = byISO.get(dateISO);
+    const flowToday = e && !e.breakthroughBleed ? flowTo10(e?.values?.flow) : null;
+    const ovulationDay = projected ? undefined : markedOvulationDay(boundaries, cycle.startISO, cycle.endISO ? addDaysISO(cycle.endISO, 1) : null);
+    const p = phaseForCycleDay(cycleDay, len, projected ? null : flowToday, { ...boundaries, ovulationDay });
+    return { dateISO, cycleStartISO, cycleDay, phaseKey: p.key, phase: p.sci, projected };
+  };
+
+  const backtest = backtestPredictions(cycles);
+  const lastStart = starts.length ? starts[starts.length - 1] : null;
+
+  let nextPeriod: PredictionRange | null = null;
+  let nextOvulation: PredictionRange | null = null;
+  let fertileWindow: PredictionRange | null = null;
+  if (canPredict && lastStart) {
+    const spread = spreadFor(stats.lengths);
+    let confidence = confidenceFor(stats.lengths);
+    // Knock it down a level if past predictions mostly missed
+    if (backtest.checks.length >= 3 && backtest.withinRange / backtest.checks.length < 0.5) {
+      confidence = confidence === 'high' ? 'medium' : 'low';
+    }
+    const likely = stats.predictedNextStartISO as string;
+    nextPeriod = {
+      earliestISO: addDaysISO(likely, -spread),
+      likelyISO: likely,
+      latestISO: addDaysISO(likely, spread),
+      confidence,
+    };
+
+    // This cycle's ovulation if it's still ahead, otherwise the next cycle's
+    const ovDay = getPhaseWindows(cycleLen, boundaries).ovulationDay;
+    const thisOv = addDaysISO(lastStart, ovDay - 1);
+    const ovLikely = thisOv >= todayISO ? thisOv : addDaysISO(likely, ovDay - 1);
+    // Without a personal luteal length the ovulation guess is softer than the period one
+    const ovConfidence: PredictionConfidence = !boundaries.lutealPersonalised && confidence === 'high' ? 'medium' : confidence;
+    nextOvulation = {
+      earliestISO: addDaysISO(ovLikely, -spread),
+      likelyISO: ovLikely,
+      latestISO: addDaysISO(ovLikely, spread),
+      confidence: ovConfidence,
+    };
+    fertileWindow = {
+      earliestISO: addDaysISO(nextOvulation.earliestISO, -5),
+      likelyISO: ovLikely,
+      latestISO: addDaysISO(nextOvulation.latestISO, 1),
+      confidence: ovConfidence,
+    };
+  }
+
+  const currentWindows = lastStart
+    ? getPhaseWindows(cycleLen, { ...boundaries, ovulationDay: markedOvulationDay(boundaries, lastStart, null) })
+    : null;
+
+  return {
+    starts,
+    cycles,
+    stats,
+    cycleLen,
+    boundaries,
+    currentWindows,
+    dayInfo,
+    phaseOn: (dateISO: string) => dayInfo(dateISO)?.phase ?? null,
+    nextPeriod,
+    nextOvulation,
+    fertileWindow,
+    backtest,
+  };
+}
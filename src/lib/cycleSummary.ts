@@ -0,0 +1,194 @@
+import type { CheckInEntry, ExperimentHistoryItem, ExperimentPlan, SymptomKey, UserData } from '../types';
+import { type PhaseKey, sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+import { SYMPTOM_META } from './symptomMeta';
+import { getCustomInfluence } from './customInfluences';
+
+/**
+ * One row per cycle, so cycles can be put side by side (Insights → Compare cycles).
+ *
+ * Cycles come from the cycle engine (same starts as Calendar / Rhythm), and days are
+ * bucketed into phases with engine.dayInfo so "top symptoms in Reset" means the same
+ * days the rest of the app calls Reset.
+ */
+
+export type CycleSymptomAvg = { key: SymptomKey; avg: number };
+
+export type CycleSummary = {
+  startISO: string;
+  endISO: string | null;
+  /** Null for the cycle you're in */
+  lengthDays: number | null;
+  /** Consecutive bleeding days from day 1 */
+  periodDays: number | null;
+  peakFlow: number | null;
+  loggedDays: number;
+  /** Highest average symptoms in each phase (0–10, top 3, only ones that actually showed up) */
+  topSymptomsByPhase: Partial<Record<PhaseKey, CycleSymptomAvg[]>>;
+  influences: Array<{ key: string; label: string; days: number }>;
+  /** Experiments that overlapped this cycle */
+  experiments: string[];
+};
+
+/** Values by cycle day for one metric, one column per cycle (keyed by start date). */
+export type CycleDayRow = { cycleDay: number } & Record<string, number | null>;
+
+// Higher is better for these (or they're not really "symptoms"), so they don't rank as top symptoms
+const NOT_SYMPTOMS = new Set<SymptomKey>(['energy', 'motivation', 'sleep', 'focus', 'libido', 'appetite', 'digestion', 'flow']);
+const MIN_SYMPTOM_AVG = 2;
+
+// Keep in sync with the influence labels in the check-in.
+const INFLUENCE_LABELS: Record<string, string> = {
+  sex: 'Intimacy',
+  exercise: 'Workout',
+  travel: 'Travel',
+  illness: 'Illness',
+  alcohol: 'Alcohol',
+  caffeine: 'Caffeine',
+  lateNight: 'Late night',
+  stressfulDay: 'Stressful day',
+  medication: 'Medication',
+  socialising: 'Socialising',
+  lowHydration: 'Low hydration',
+};
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function to10(v: any): number | null {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+type ExperimentSpan = Pick<ExperimentHistoryItem, 'title' | 'startDateISO' | 'durationDays'>;
+
+export function getCycleSummaries(
+  entries: CheckInEntry[],
+  userData: UserData,
+  opts: { count?: number; experiments?: Array<ExperimentSpan | ExperimentPlan>; todayISO?: string } = {}
+): CycleSummary[] {
+  const todayISO = opts.todayISO ?? isoTodayLocal();
+  const sorted = sortByDateAsc(entries) as CheckInEntry[];
+  const engine = buildCycleEngine(entries, userData, todayISO);
+  const cycles = engine.cycles.slice(-(opts.count ?? 6));
+
+  return cycles.map((c) => {
+    const lastISO = c.endISO ?? todayISO;
+    const inCycle = sorted.filter((e) => e.dateISO >= c.startISO && e.dateISO <= lastISO);
+    const byISO = new Map(inCycle.map((e) => [e.dateISO, e]));
+
+    let periodDays = 0;
+    while (periodDays < 15 && (to10(byISO.get(addDaysISO(c.startISO, periodDays))?.values?.flow) ?? 0) > 0) periodDays++;
+    const flows = inCycle.map((e) => (e.breakthroughBleed ? null : to10(e.values?.flow))).filter((v): v is number => v != null);
+
+    // phase -> symptom -> values
+    const buckets = new Map<PhaseKey, Map<SymptomKey, number[]>>();
+    const influenceDays = new Map<string, number>();
+    for (const e of inCycle) {
+      const phase = engine.dayInfo(e.dateISO)?.phaseKey;
+      if (phase) {
+        const b = buckets.get(phase) ?? new Map<SymptomKey, number[]>();
+        for (const [k, raw] of Object.entries(e.values ?? {})) {
+          const key = k as SymptomKey;
+          const v = to10(raw);
+          if (v == null || NOT_SYMPTOMS.has(key) || !SYMPTOM_META[key]) continue;
+          const arr = b.get(key) ?? [];
+          arr.push(v);
+          b.set(key, arr);
+        }
+        buckets.set(phase, b);
+      }
+      for (const [k, on] of Object.entries(e.events ?? {})) {
+        if (on === true) influenceDays.set(k, (influenceDays.get(k) ?? 0) + 1);
+      }
+      for (const [id, on] of Object.entries(e.customEvents ?? {})) {
+        if (on === true) influenceDays.set(`influence:${id}`, (influenceDays.get(`influence:${id}`) ?? 0) + 1);
+      }
+    }
+
+    const topSymptomsByPhase: CycleSummary['topSymptomsByPhase'] = {};
+    for (const [phase, b] of buckets) {
+      const top = Array.from(b.entries())
+        .map(([key, vals]) => ({ key, avg: round1(vals.reduce((a, v) => a + v, 0) / vals.length) }))
+        .filter((x) => x.avg >= MIN_SYMPTOM_AVG)
+        .sort((a, b2) => b2.avg - a.avg)
+        .slice(0, 3);
+      if (top.length) topSymptomsByPhase[phase] = top;
+    }
+
+    const influences = Array.from(influenceDays.entries())
+      .map(([key, days]) => {
+        const custom = key.startsWith('influence:') ? getCustomInfluence(userData, key.slice('influence:'.length)) : null;
+        return { key, label: custom?.label ?? INFLUENCE_LABELS[key] ?? key, days };
+      })
+      .sort((a, b) => b.days - a.days);
+
+    const experiments = (opts.experiments ?? [])
+      .filter((x) => {
+        if (!x?.startDateISO) return false;
+        const endISO = addDaysISO(x.startDateISO, Math.max(1, x.durationDays ?? 1) - 1);
+        return x.startDateISO <= lastISO && endISO >= c.startISO;
+      })
+      .map((x) => x.title);
+
+    return {
+      startISO: c.startISO,
+      endISO: c.endISO,
+      lengthDays: c.lengthDays,
+      periodDays: periodDays || null,
+      peakFlow: flows.length ? Math.max(...flows) : null,
+      loggedDays: inCycle.length,
+      topSymptomsByPhase,
+      influences,
+      experiments: Array.from(new Set(experiments)),
+    };
+  });
+}
+
+/**
+ * Line up one metric by cycle day across cycles (day 1 = first day of each period),
+ * for the overlay chart. Days with nothing logged are null so lines just break there.
+ */
+export function getCycleDayRows(entries: CheckInEntry[], summaries: CycleSummary[], metric: SymptomKey | 'mood', maxDay = 35): CycleDayRow[] {
+  const byISO = new Map((entries ?? []).map((e) => [e.dateISO, e]));
+  const longest = Math.max(0, ...summaries.map((s) => s.lengthDays ?? daysBetweenISO(s.startISO, isoTodayLocal()) + 1));
+  const days = Math.min(maxDay, Math.max(1, longest));
+
+  const rows: CycleDayRow[] = [];
+  for (let d = 1; d <= days; d++) {
+    const row = { cycleDay: d } as CycleDayRow;
+    for (const s of summaries) {
+      const iso = addDaysISO(s.startISO, d - 1);
+      const outside = s.lengthDays != null ? d > s.lengthDays : iso > isoTodayLocal();
+      const e = outside ? undefined : byISO.get(iso);
+      // Mood is 1–3, stretch it onto the same 0–10 axis as everything else
+      const v = metric === 'mood' ? (typeof e?.mood === 'number' ? (e.mood - 1) * 5 : null) : to10(e?.values?.[metric]);
+      row[s.startISO] = v;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Average of a metric over the whole cycle, for the "did it get better" line. */
+export function cycleAverage(rows: CycleDayRow[], startISO: string): number | null {
+  const vals = rows.map((r) => r[startISO]).filter((v): v is number => typeof v === 'number');
+  return vals.length ? round1(vals.reduce((a, v) => a + v, 0) / vals.length) : null;
+}
@@ -19,6 +19,7 @@ export const DEFAULT_USER: UserData = {
   // Cycle / fertility
   fertilityMode: false,
   autoStartPeriodFromBleeding: false,
+  pmddMode: false,
   ovulationOverrideISOs: [],
 
   // What you track (light by default)
@@ -0,0 +1,349 @@
+import type { CheckInEntry, InsightMetricKey, SymptomKey, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getDayMood, getDayValue } from './checkInSlots';
+import { customInfluenceIdFromKey, customInfluenceLabelForKey, customInfluenceMetricKey } from './customInfluences';
+import { FDR_LEVEL, type SignalStats, benjaminiHochberg, tTestPValue } from './insightStats';
+import { isMetricInScope } from './insightsScope';
+import { SYMPTOM_META } from './symptomMeta';
+
+/**
+ * Does an influence predict how the next few days go? ("Alcohol tonight, worse sleep
+ * tomorrow", "illness, then fatigue for three days".)
+ *
+ * For every day an influence was logged we look at each metric on days +0..+3 and compare
+ * it with matched days when it wasn't: within a few weeks either side, same cycle phase
+ * (when cycles are tracked), same weekday/weekend, and with no sign of the influence in
+ * the 3 days before so a lingering effect doesn't end up in the comparison. That gives
+ * one paired difference per influence day; back-to-back days are averaged into one
+ * occasion, and the effect is the mean over occasions.
+ *
+ * Each influence × metric gets one p-value: the best lag's t-test, Bonferroni-corrected
+ * for the lags tried. Those go through Benjamini–Hochberg together (here, or in the
+ * engine's wider pass), so trying a dozen influences against ten metrics doesn't turn up
+ * effects by luck.
+ *
+ * Kept free of insightEngine imports so the engine can turn these into signals.
+ */
+
+export type EventEffect = {
+  /** Built-in events key (alcohol, lateNight...) or `influence:<id>` for custom influences */
+  event: string;
+  metric: InsightMetricKey;
+  /** First day after the influence the effect shows (0 = same day) */
+  lag: number;
+  /** How many days in a row it lasts from there */
+  lagDays: number;
+  /** Mean paired difference on the metric's 0–10 scale (positive = higher after the influence) */
+  delta: number;
+  /** Standardised effect (mean difference / SD of differences) */
+  effectSize: number;
+  /** Occasions (runs of back-to-back influence days) with a matched comparison */
+  sampleSize: number;
+  /** Whether the change is for the worse (lower sleep/energy/mood, higher symptoms) */
+  worse: boolean;
+  /** Interval for `delta`; p corrected over lags, q across every influence × metric tested */
+  stats: SignalStats;
+};
+
+/** One influence × metric comparison; `effect` is set when it clears the size bar at some lag. */
+export type EventEffectTest = {
+  event: string;
+  metric: InsightMetricKey;
+  pValue: number;
+  effect: EventEffect | null;
+};
+
+export const EVENT_KEYS = [
+  'alcohol',
+  'caffeine',
+  'lateNight',
+  'stressfulDay',
+  'exercise',
+  'illness',
+  'travel',
+  'socialising',
+  'lowHydration',
+  'medication',
+  'sex',
+] as const;
+
+// Keep in sync with the influence labels in the check-in.
+const EVENT_LABELS: Record<string, string> = {
+  sex: 'Intimacy',
+  exercise: 'Workout',
+  travel: 'Travel',
+  illness: 'Illness',
+  alcohol: 'Alcohol',
+  caffeine: 'Caffeine',
+  lateNight: 'Late night',
+  stressfulDay: 'Stressful day',
+  medication: 'Medication',
+  socialising: 'Socialising',
+  lowHydration: 'Low hydration',
+};
+
+const DEFAULT_OUTCOMES: InsightMetricKey[] = ['sleep', 'energy', 'mood', 'fatigue', 'stress', 'pain', 'headache', 'brainFog', 'anxiety', 'irritability'];
+const HIGHER_IS_BETTER = new Set<string>(['sleep', 'energy', 'mood', 'focus', 'motivation', 'libido']);
+
+const MAX_LAG = 3;
+const MATCH_WINDOW_DAYS = 28;
+const CLEAR_DAYS_BEFORE = 3;
+const MIN_EVENTS = 4;
+const MIN_DELTA = 0.75;
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function sd(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) * (x - m), 0) / (xs.length - 1));
+}
+
+// Two-sided 95% t cut-offs by degrees of freedom; samples are small so a flat 2 lets too much through
+function tCritical(df: number): number {
+  const table: Array<[number, number]> = [[3, 3.18], [4, 2.78], [5, 2.57], [6, 2.45], [8, 2.31], [10, 2.23], [15, 2.13], [20, 2.09], [30, 2.04]];
+  for (const [d, t] of table) if (df <= d) return t;
+  return 2;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function isWeekend(iso: string): boolean {
+  const d = new Date(iso + 'T00:00:00').getDay();
+  return d === 0 || d === 6;
+}
+
+function outcomeValue(entry: CheckInEntry | undefined, key: InsightMetricKey, userData: UserData): number | null {
+  if (!entry || !isMetricInScope(userData, String(key), entry.dateISO)) return null;
+  if (key === 'mood') {
+    const m = getDayMood(entry);
+    return m ? (m === 1 ? 2 : m === 2 ? 5 : 8) : null;
+  }
+  const v = getDayValue(entry, key as SymptomKey);
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+type EventKey = keyof NonNullable<CheckInEntry['events']>;
+
+/**
+ * Whether an influence (built-in events key or `influence:<id>`) was on that day:
+ * true / false when logged, null when the day wasn't logged at all.
+ */
+export function eventOn(entry: CheckInEntry | undefined, event: string): boolean | null {
+  if (!entry) return null;
+  const id = customInfluenceIdFromKey(event);
+  if (id) return entry.customEvents?.[id] === true;
+  return entry.events?.[event as EventKey] === true;
+}
+
+/** Lower sleep/energy/mood, or higher symptoms. */
+export function isWorseChange(metric: InsightMetricKey | string, delta: number): boolean {
+  return HIGHER_IS_BETTER.has(String(metric)) ? delta < 0 : delta > 0;
+}
+
+export function eventEffectLabel(event: string, userData?: UserData): string {
+  return customInfluenceLabelForKey(event, userData) ?? EVENT_LABELS[event] ?? event;
+}
+
+function outcomeLabel(key: InsightMetricKey): string {
+  return key === 'mood' ? 'mood' : (SYMPTOM_META[key as SymptomKey]?.label ?? String(key)).toLowerCase();
+}
+
+/** "the next day", "for the next 3 days", "two days later"... */
+export function eventEffectWhen(effect: Pick<EventEffect, 'lag' | 'lagDays'>): string {
+  const { lag, lagDays } = effect;
+  if (lagDays > 1) {
+    if (lag === 0) return `that day and for ${lagDays - 1 === 1 ? 'the next day' : `the next ${lagDays - 1} days`}`;
+    return lag === 1 ? `for the next ${lagDays} days` : `for ${lagDays} days from ${lag} days later`;
+  }
+  if (lag === 0) return 'the same day';
+  if (lag === 1) return 'the next day';
+  return `${lag} days later`;
+}
+
+/** Plain sentence, e.g. "Alcohol has been followed by worse sleep the next day (1.4 points lower, 9 times)." */
+export function describeEventEffect(effect: EventEffect, userData?: UserData): string {
+  const size = Math.abs(Math.round(effect.delta * 10) / 10);
+  return `${eventEffectLabel(effect.event, userData)} has been followed by ${effect.worse ? 'worse' : 'better'} ${outcomeLabel(effect.metric)} ${eventEffectWhen(effect)} (${size} ${
+    size === 1 ? 'point' : 'points'
+  } ${effect.delta > 0 ? 'higher' : 'lower'}, across ${effect.sampleSize} times).`;
+}
+
+/** Effects that survive the false discovery rate check, biggest first. */
+export function analyseEventEffects(
+  entriesInput: CheckInEntry[],
+  userData: UserData,
+  opts: { metrics?: InsightMetricKey[]; limit?: number } = {}
+): EventEffect[] {
+  return testEventEffects(entriesInput, userData, opts)
+    .map((t) => t.effect)
+    .filter((e): e is EventEffect => Boolean(e && e.stats.qValue <= FDR_LEVEL))
+    .sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize))
+    .slice(0, opts.limit ?? 8);
+}
+
+/**
+ * Every influence × metric comparison with enough occasions to test, shown or not, so a
+ * caller can count them all in its multiple-testing correction.
+ */
+export function testEventEffects(
+  entriesInput: CheckInEntry[],
+  userData: UserData,
+  opts: { metrics?: InsightMetricKey[] } = {}
+): EventEffectTest[] {
+  const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  if (entries.length < 14) return [];
+  const byISO = new Map(entries.map((e) => [e.dateISO, e]));
+  const outcomes = Array.from(new Set([...(opts.metrics ?? []), ...DEFAULT_OUTCOMES])).filter(
+    (k) => k === 'mood' || SYMPTOM_META[k as SymptomKey]
+  );
+
+  let phaseOn: (iso: string) => string | null = () => null;
+  if (userData.cycleTrackingMode === 'cycle') {
+    try {
+      const engine = buildCycleEngine(entriesInput, userData);
+      phaseOn = (iso) => engine.phaseOn(iso);
+    } catch {
+      // no phase matching then
+    }
+  }
+  const phaseByISO = new Map(entries.map((e) => [e.dateISO, phaseOn(e.dateISO)]));
+
+  const events = [
+    ...EVENT_KEYS,
+    ...(userData.customInfluences ?? []).filter((x) => x?.id).map((x) => customInfluenceMetricKey(x.id)),
+  ];
+
+  const out: EventEffectTest[] = [];
+  for (const event of events) {
+    const eventDays = entries.filter((e) => eventOn(e, event) === true).map((e) => e.dateISO);
+    // Back-to-back days (a 3-day illness) are one occasion, not three independent ones
+    const runs: string[][] = [];
+    for (const day of eventDays) {
+      const last = runs[runs.length - 1];
+      if (last && daysBetweenISO(last[last.length - 1], day) === 1) last.push(day);
+      else runs.push([day]);
+    }
+    if (runs.length < MIN_EVENTS) continue;
+
+    // Days the influence clearly wasn't around: logged, not on, and not on in the few days before
+    const clear = entries
+      .map((e) => e.dateISO)
+      .filter((iso) => {
+        for (let k = 0; k <= CLEAR_DAYS_BEFORE; k++) if (eventOn(byISO.get(addDaysISO(iso, -k)), event) === true) return false;
+        return true;
+      });
+    if (clear.length < MIN_EVENTS) continue;
+    const matched = new Map(
+      eventDays.map((day) => {
+        const phase = phaseByISO.get(day) ?? null;
+        return [
+          day,
+          clear.filter(
+            (c) =>
+              Math.abs(daysBetweenISO(day, c)) <= MATCH_WINDOW_DAYS &&
+              isWeekend(c) === isWeekend(day) &&
+              (phase == null || phaseByISO.get(c) === phase)
+          ),
+        ];
+      })
+    );
+
+    for (const metric of outcomes) {
+      const perLag: Array<{ lag: number; delta: number; effectSize: number; n: number; se: number; pValue: number | null; ok: boolean }> = [];
+      for (let lag = 0; lag <= MAX_LAG; lag++) {
+        const diffs: number[] = [];
+        for (const run of runs) {
+          const runDiffs: number[] = [];
+          for (const day of run) {
+            const after = outcomeValue(byISO.get(addDaysISO(day, lag)), metric, userData);
+            if (after == null) continue;
+            const controls = (matched.get(day) ?? [])
+              .map((c) => outcomeValue(byISO.get(addDaysISO(c, lag)), metric, userData))
+              .filter((v): v is number => v != null);
+            if (!controls.length) continue;
+            runDiffs.push(after - mean(controls));
+          }
+          if (runDiffs.length) diffs.push(mean(runDiffs));
+        }
+        const n = diffs.length;
+        const m = mean(diffs);
+        const s = sd(diffs);
+        // All differences identical (tiny samples, flat logging) - no sensible spread, skip
+        const se = s > 0 ? s / Math.sqrt(n) : 0;
+        const t = se > 0 ? m / se : 0;
+        const pValue = n >= MIN_EVENTS && se > 0 ? tTestPValue(t, n - 1) : null;
+        perLag.push({ lag, delta: m, effectSize: s > 0 ? m / s : 0, n, se, pValue, ok: n >= MIN_EVENTS && Math.abs(m) >= MIN_DELTA && Math.abs(t) >= tCritical(n - 1) });
+      }
+
+      // Best lag, corrected for how many lags we looked at
+      const lagPs = perLag.map((p) => p.pValue).filter((p): p is number => p != null);
+      if (!lagPs.length) continue;
+      const pValue = Math.min(1, Math.min(...lagPs) * lagPs.length);
+
+      const hits = perLag.filter((p) => p.ok);
+      if (!hits.length) {
+        out.push({ event, metric, pValue, effect: null });
+        continue;
+      }
+      const best = hits.slice().sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize))[0];
+      // Stretch out to neighbouring lags that show the same thing
+      let from = best.lag;
+      let to = best.lag;
+      const same = (p?: (typeof perLag)[number]) => Boolean(p?.ok && Math.sign(p.delta) === Math.sign(best.delta));
+      while (same(perLag[from - 1])) from--;
+      while (same(perLag[to + 1])) to++;
+
+      const margin = tCritical(best.n - 1) * best.se;
+      out.push({
+        event,
+        metric,
+        pValue,
+        effect: {
+          event,
+          metric,
+          lag: from,
+          lagDays: to - from + 1,
+          delta: round2(best.delta),
+          effectSize: round2(best.effectSize),
+          sampleSize: best.n,
+          worse: isWorseChange(metric, best.delta),
+          stats: {
+            interval: { low: round2(best.delta - margin), high: round2(best.delta + margin), level: 0.95 },
+            pValue,
+            // Filled in by the Benjamini–Hochberg pass below
+            qValue: 1,
+            effectiveN: best.n,
+          },
+        },
+      });
+    }
+  }
+
+  const qValues = benjaminiHochberg(out.map((t) => t.pValue));
+  out.forEach((t, i) => {
+    if (t.effect) t.effect.stats.qValue = Math.round(qValues[i] * 1000) / 1000;
+  });
+  return out;
+}
@@ -1,4 +1,7 @@
+import type { UserData } from '../types';
 import type { InsightSignal } from './insightEngine';
+import { customInfluenceIdFromKey, getCustomInfluence } from './customInfluences';
+import { eventEffectLabel, isWorseChange } from './eventEffects';
 import { getExperimentHistoryContext } from './experimentLearning';
 import { getExperimentSuggestionSuppression } from './companionLogic';
 import { isoTodayLocal } from './date';
@@ -29,9 +32,91 @@ function hasMetric(signal: InsightSignal, key: string): boolean {
   return Array.isArray(signal.metrics) && signal.metrics.some((metric) => String(metric) === key);
 }
 
-export function getExperimentForSignal(signal: InsightSignal): ExperimentForSignal | null {
+// Custom influences get a simple "leave it out for a few days" test.
+function customInfluenceExperiment(signal: InsightSignal, userData?: UserData): ExperimentForSignal | null {
+  const influenceKey =
+    (signal.type === 'event_effect' && customInfluenceIdFromKey(String(signal.summary.event ?? '')) ? String(signal.summary.event) : null) ??
+    (signal.metrics ?? []).map(String).find((metric) => customInfluenceIdFromKey(metric));
+  if (!influenceKey) return null;
+  if (signal.type === 'event_effect' && !isWorseChange(String(signal.summary.metric ?? ''), signal.summary.delta ?? 0)) return null;
+  const id = customInfluenceIdFromKey(influenceKey) as string;
+  const influence = getCustomInfluence(userData, id);
+  if (!influence) return null;
+  const others = (signal.metrics ?? []).map(String).filter((metric) => metric !== influenceKey);
+  return {
+    experimentId: `pause_influence_${id}`,
+    experimentName: `${influence.label} pause experiment`,
+    experimentDescription: `Leaving out ${influence.label.toLowerCase()} for a few days can help test whether it shapes how you feel.`,
+    metrics: others.length ? others : ['energy', 'mood'],
+    durationDays: 5,
+    changeKey: influenceKey,
+  };
+}
+
+// Built-in influences that are fair to "try without" for a few days. Illness, travel,
+// medication and the like aren't, so those effects only get the usual metric-based ideas.
+const EVENT_EXPERIMENTS: Record<string, Omit<ExperimentForSignal, 'metrics'>> = {
+  alcohol: {
+    experimentId: 'alcohol_pause',
+    experimentName: 'Alcohol-free experiment',
+    experimentDescription: 'A few alcohol-free evenings can help test whether it shapes how you feel over the next day or two.',
+    durationDays: 5,
+    changeKey: 'alcohol',
+  },
+  caffeine: {
+    experimentId: 'caffeine_cutoff',
+    experimentName: 'Caffeine cut-off experiment',
+    experimentDescription: 'Keeping caffeine to the morning for a few days can help test whether it is behind the days after.',
+    durationDays: 5,
+    changeKey: 'caffeine',
+  },
+  lowHydration: {
+    experimentId: 'hydration_support',
+    experimentName: 'Hydration experiment',
+    experimentDescription: 'Keeping water close by for a few days can help test whether drinking more changes the days after.',
+    durationDays: 3,
+    changeKey: 'lowHydration',
+  },
+  lateNight: {
+    experimentId: 'wind_down',
+    experimentName: 'Wind-down experiment',
+    experimentDescription: 'A short evening routine can help test whether late nights are what knock the next day.',
+    durationDays: 3,
+    changeKey: 'lateNight',
+  },
+  stressfulDay: {
+    experimentId: 'evening_reset',
+    experimentName: 'Evening reset experiment',
+    experimentDescription: 'A lower-friction evening after stressful days can help test whether it softens the day after.',
+    durationDays: 3,
+    changeKey: 'stressfulDay',
+  },
+};
+
+// "X has been followed by worse Y" -> try a few days with less X
+function eventEffectExperiment(signal: InsightSignal, userData?: UserData): ExperimentForSignal | null {
+  if (signal.type !== 'event_effect') return null;
+  const event = String(signal.summary.event ?? '');
+  const metric = String(signal.summary.metric ?? signal.metrics?.[0] ?? '');
+  if (!event || !isWorseChange(metric, signal.summary.delta ?? 0)) return null;
+  const base = EVENT_EXPERIMENTS[event];
+  if (!base) return null;
+  return {
+    ...base,
+    experimentDescription: `${base.experimentDescription} ${eventEffectLabel(event, userData)} has tended to be followed by harder days for you.`,
+    metrics: Array.from(new Set([metric, 'energy', 'mood'])).slice(0, 3),
+  };
+}
+
+export function getExperimentForSignal(signal: InsightSignal, userData?: UserData): ExperimentForSignal | null {
   const metric = String(signal.metrics?.[0] ?? '');
 
+  const fromEvent = eventEffectExperiment(signal, userData);
+  if (fromEvent) return fromEvent;
+
+  const custom = customInfluenceExperiment(signal, userData);
+  if (custom) return custom;
+
   if (String(signal.id).includes('sleep_before_bleed') || (String(signal.id).includes('phase-sleep') && signal.phase === 'Luteal') || metric === 'sleep') {
     return {
       experimentId: 'wind_down',
@@ -68,8 +153,8 @@ export function getExperimentForSignal(signal: InsightSignal): ExperimentForSign
   return null;
 }
 
-function suggestionForSignal(signal: InsightSignal): ExperimentSuggestion | null {
-  const experiment = getExperimentForSignal(signal);
+function suggestionForSignal(signal: InsightSignal, userData?: UserData): ExperimentSuggestion | null {
+  const experiment = getExperimentForSignal(signal, userData);
   if (!experiment) return null;
   const historyContext = getExperimentHistoryContext(experiment.experimentId);
   const note = historyContext.text
@@ -89,13 +174,13 @@ function suggestionForSignal(signal: InsightSignal): ExperimentSuggestion | null
   };
 }
 
-export function generateExperimentSuggestions(signals: InsightSignal[]): ExperimentSuggestion[] {
+export function generateExperimentSuggestions(signals: InsightSignal[], userData?: UserData): ExperimentSuggestion[] {
   const suppression = getExperimentSuggestionSuppression(isoTodayLocal());
   if (suppression.active || suppression.recentCompletion) return [];
   const out: ExperimentSuggestion[] = [];
   const seen = new Set<string>();
   for (const signal of signals) {
-    const suggestion = suggestionForSignal(signal);
+    const suggestion = suggestionForSignal(signal, userData);
     if (!suggestion) continue;
     const dedupeKey = suggestion.experimentId || suggestion.title;
     if (seen.has(dedupeKey)) continue;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { CheckInEntry, UserData } from '../types';
+import { getMarkedOvulationISOs } from './analytics';
+import { DEFAULT_USER } from './defaultUser';
+import { detectThermalShift, syncDetectedOvulations } from './fertilitySignals';
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/** One cycle from 2025-03-03: a period, then the given temperatures from day 6. */
+function cycleWithTemps(temps: number[], extra: (iso: string) => Partial<CheckInEntry> = () => ({})): CheckInEntry[] {
+  const start = '2025-03-03';
+  const out: CheckInEntry[] = [];
+  for (let i = 0; i < 5 + temps.length; i++) {
+    const iso = addDaysISO(start, i);
+    const bbt = i >= 5 ? temps[i - 5] : undefined;
+    out.push({
+      id: iso,
+      dateISO: iso,
+      values: { flow: i < 4 ? 6 : 0 },
+      fertility: bbt != null ? { bbt } : undefined,
+      createdAt: `${iso}T08:00:00.000Z`,
+      updatedAt: `${iso}T08:00:00.000Z`,
+      ...extra(iso),
+    } as CheckInEntry);
+  }
+  return out;
+}
+
+const LOW = [36.3, 36.35, 36.3, 36.4, 36.35, 36.3];
+const user: UserData = { ...DEFAULT_USER, cycleTrackingMode: 'cycle', fertilityMode: true };
+
+describe('detectThermalShift', () => {
+  it('needs the third high temperature 0.2°C over the coverline', () => {
+    // First high reading clears the coverline by 0.2, the third only by 0.05
+    expect(detectThermalShift(cycleWithTemps([...LOW, 36.6, 36.5, 36.45]))).toBeNull();
+
+    const shift = detectThermalShift(cycleWithTemps([...LOW, 36.5, 36.5, 36.6]));
+    expect(shift?.shiftISO).toBe('2025-03-14');
+    expect(shift?.coverlineC).toBe(36.4);
+    expect(shift?.ovulationISO).toBe('2025-03-13');
+  });
+});
+
+describe('syncDetectedOvulations', () => {
+  const entries = cycleWithTemps([...LOW, 36.5, 36.5, 36.6]);
+
+  it('keeps detections apart from the days the user marked', () => {
+    const synced = syncDetectedOvulations(entries, { ...user, ovulationOverrideISOs: [] });
+    expect(synced).toEqual({ ovulationOverrideISOs: [], ovulationDetectedISOs: ['2025-03-13'] });
+    expect(syncDetectedOvulations(entries, { ...user, ...synced })).toBeNull();
+  });
+
+  it('recomputes detections when the readings change', () => {
+    const edited = cycleWithTemps([...LOW, 36.5, 36.5, 36.45]);
+    const synced = syncDetectedOvulations(edited, { ...user, ovulationDetectedISOs: ['2025-03-13'] });
+    expect(synced?.ovulationDetectedISOs).toEqual([]);
+  });
+
+  it('drops detections older versions copied into the marked days', () => {
+    const legacy = { ...user, ovulationOverrideISOs: ['2025-03-13'], ovulationDetectedISOs: ['2025-03-13'] };
+    expect(syncDetectedOvulations(entries, legacy)?.ovulationOverrideISOs).toEqual([]);
+
+    const markedByHand = entries.map((e) => (e.dateISO === '2025-03-13' ? ({ ...e, ovulationOverride: true } as CheckInEntry) : e));
+    expect(syncDetectedOvulations(markedByHand, legacy)).toBeNull();
+  });
+});
+
+describe('getMarkedOvulationISOs', () => {
+  const entries = cycleWithTemps([...LOW, 36.5, 36.5, 36.6]);
+
+  it('prefers a day the user marked over a detection in the same cycle', () => {
+    const sources = { ...user, ovulationOverrideISOs: ['2025-03-16'], ovulationDetectedISOs: ['2025-03-13'] };
+    expect(getMarkedOvulationISOs(entries, sources)).toEqual(['2025-03-16']);
+    expect(getMarkedOvulationISOs(entries, { ...sources, ovulationOverrideISOs: [] })).toEqual(['2025-03-13']);
+  });
+
+  it('leaves out a detection the user unmarked', () => {
+    const unmarked = entries.map((e) => (e.dateISO === '2025-03-13' ? ({ ...e, ovulationOverride: false } as CheckInEntry) : e));
+    expect(getMarkedOvulationISOs(unmarked, { ...user, ovulationDetectedISOs: ['2025-03-13'] })).toEqual([]);
+  });
+});
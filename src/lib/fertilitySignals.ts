@@ -0,0 +1,159 @@
+import type { CervicalMucus, CheckInEntry, LhTestResult, PregnancyTestResult, UserData } from '../types';
+import { type CycleSources, sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+
+/**
+ * Fertility awareness helpers (BBT, cervical mucus, LH tests).
+ *
+ * Ovulation is confirmed with the classic "3 over 6" thermal shift rule:
+ * three temperatures above the highest of the previous six, with the third
+ * clearly (0.2°C) above that coverline. Disturbed readings are skipped.
+ * A positive LH test in the few days before the shift narrows down the day.
+ */
+
+export const CERVICAL_MUCUS_LABELS: Record<CervicalMucus, string> = {
+  dry: 'Dry',
+  sticky: 'Sticky',
+  creamy: 'Creamy',
+  watery: 'Watery',
+  eggWhite: 'Egg white',
+};
+
+export const LH_TEST_LABELS: Record<LhTestResult, string> = {
+  negative: 'Negative',
+  positive: 'Positive',
+  peak: 'Peak',
+};
+
+export const PREGNANCY_TEST_LABELS: Record<PregnancyTestResult, string> = {
+  negative: 'Negative',
+  positive: 'Positive',
+  unclear: 'Unclear',
+};
+
+const SHIFT_MIN_RISE_C = 0.2;
+const LOW_TEMPS_NEEDED = 6;
+const HIGH_TEMPS_NEEDED = 3;
+
+/** Anything above 45 is almost certainly °F. */
+export function normaliseBbtToC(v: number): number | null {
+  if (!Number.isFinite(v)) return null;
+  const c = v > 45 ? ((v - 32) * 5) / 9 : v;
+  if (c < 34 || c > 39) return null;
+  return Math.round(c * 100) / 100;
+}
+
+export function formatBbt(c: number, unit: 'C' | 'F' = 'C'): string {
+  if (unit === 'F') return `${((c * 9) / 5 + 32).toFixed(2)}°F`;
+  return `${c.toFixed(2)}°C`;
+}
+
+export function hasFertilitySignals(entry: CheckInEntry | null | undefined): boolean {
+  const f = entry?.fertility;
+  if (!f) return false;
+  return typeof f.bbt === 'number' || Boolean(f.cervicalMucus) || Boolean(f.lhTest) || Boolean(f.pregnancyTest);
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export type ThermalShift = {
+  /** First day of the higher temperatures */
+  shiftISO: string;
+  /** Highest of the six lower temperatures before the shift */
+  coverlineC: number;
+  /** Estimated ovulation day (LH-backed when possible, otherwise the day before the shift) */
+  ovulationISO: string;
+  confirmedBy: 'bbt' | 'bbt+lh';
+};
+
+/** Find the first thermal shift in a run of entries (usually one cycle). */
+export function detectThermalShift(entries: CheckInEntry[]): ThermalShift | null {
+  const temps: Array<{ dateISO: string; c: number }> = [];
+  for (const e of sortByDateAsc(entries)) {
+    const f = e?.fertility;
+    if (!f || f.bbtDisturbed) continue;
+    if (typeof f.bbt !== 'number' || !Number.isFinite(f.bbt)) continue;
+    temps.push({ dateISO: e.dateISO, c: f.bbt });
+  }
+
+  for (let i = LOW_TEMPS_NEEDED; i + HIGH_TEMPS_NEEDED <= temps.length; i++) {
+    const low = temps.slice(i - LOW_TEMPS_NEEDED, i);
+    const high = temps.slice(i, i + HIGH_TEMPS_NEEDED);
+    const coverline = Math.max(...low.map((t) => t.c));
+
+    if (!high.every((t) => t.c > coverline)) continue;
+    if (high[HIGH_TEMPS_NEEDED - 1].c < coverline + SHIFT_MIN_RISE_C - 1e-9) continue;
+
+    const shiftISO = high[0].dateISO;
+
+    // LH surge usually comes 1–2 days before ovulation; ovulation the day before the rise.
+    const lhDays = (entries ?? [])
+      .filter((e) => {
+        const r = e?.fertility?.lhTest;
+        if (r !== 'positive' && r !== 'peak') return false;
+        return e.dateISO >= addDaysISO(shiftISO, -4) && e.dateISO <= addDaysISO(shiftISO, -1);
+      })
+      .map((e) => e.dateISO)
+      .sort();
+
+    if (lhDays.length) {
+      const lastLh = lhDays[lhDays.length - 1];
+      const ov = addDaysISO(lastLh, 1);
+      return { shiftISO, coverlineC: coverline, ovulationISO: ov < shiftISO ? ov : addDaysISO(shiftISO, -1), confirmedBy: 'bbt+lh' };
+    }
+
+    return { shiftISO, coverlineC: coverline, ovulationISO: addDaysISO(shiftISO, -1), confirmedBy: 'bbt' };
+  }
+
+  return null;
+}
+
+/** One detected ovulation per cycle (cycles are the cycle engine's). */
+export function detectOvulations(entries: CheckInEntry[], sources?: CycleSources): ThermalShift[] {
+  const sorted = sortByDateAsc(entries);
+  const { starts } = buildCycleEngine(entries, sources);
+  if (!starts.length) {
+    const one = detectThermalShift(sorted);
+    return one ? [one] : [];
+  }
+
+  const out: ThermalShift[] = [];
+  for (let i = 0; i < starts.length; i++) {
+    const from = starts[i];
+    const to = starts[i + 1];
+    const cycle = sorted.filter((e) => e.dateISO >= from && (!to || e.dateISO < to));
+    const shift = detectThermalShift(cycle);
+    if (shift) out.push(shift);
+  }
+  return out;
+}
+
+/**
+ * Recompute ovulationDetectedISOs from the BBT/LH data, so a detection follows the
+ * readings (an edited temperature can move or drop it). Detections are kept apart from
+ * ovulationOverrideISOs, which only holds days the user marked; getMarkedOvulationISOs
+ * lets those win. Returns null when nothing changed.
+ */
+export function syncDetectedOvulations(
+  entries: CheckInEntry[],
+  userData: UserData
+): Pick<UserData, 'ovulationOverrideISOs' | 'ovulationDetectedISOs'> | null {
+  const detected = Array.from(new Set(detectOvulations(entries, userData).map((s) => s.ovulationISO))).sort();
+  const previous = userData.ovulationDetectedISOs ?? [];
+
+  // Older versions copied detections into ovulationOverrideISOs. Drop those copies unless
+  // the day is also marked on its check-in (i.e. the user set it themselves).
+  const markedOnEntry = new Set(entries.filter((e: any) => Boolean(e?.ovulationOverride)).map((e) => e.dateISO));
+  const overrides = userData.ovulationOverrideISOs ?? [];
+  const manual = overrides.filter((iso) => markedOnEntry.has(iso) || !previous.includes(iso));
+
+  if (manual.length === overrides.length && detected.join() === previous.join()) return null;
+  return { ovulationOverrideISOs: manual, ovulationDetectedISOs: detected };
+}
@@ -1,7 +1,7 @@
 import type { CheckInEntry, UserData } from '../types';
 import { isoTodayLocal } from './date';
 import type { InsightSignal } from './insightEngine';
-import { getDiscoveredPatterns, getTopInsights } from './insightEngine';
+import { getDiscoveredPatterns } from './insightEngine';
 import { createMoment, getActiveMoments, getCompanionMoments, getHighestPriorityMoment } from './companionMoments';
 import { generateExperimentSuggestions, getExperimentForSignal, rankExperimentSuggestions } from './experimentSuggestions';
 import { detectLongCycle, detectShortCycle, detectUnusualPhaseLength } from './rhythmDiagnostics';
@@ -10,6 +10,9 @@ import { getExperimentSuggestionSuppression, getWeeklyReflectionMoment, shouldSu
 import { getConfidencePhrase } from './confidenceCopy';
 import { phaseLabelFromKey } from './phaseChange';
 import { getResurfacingPatternMoment } from './patternIntelligence';
+import { getMenopauseMilestoneISO } from './menopause';
+import { getCycleDiagnostics } from './cycleDiagnostics';
+import { describeAnomalyRun, getOngoingAnomalyRuns } from './personalBaselines';
 
 function hasMomentWithId(id: string): boolean {
   return getCompanionMoments().some((moment) => moment.id === id);
@@ -59,13 +62,70 @@ function logsMilestone(entries: CheckInEntry[]): { title: string; body: string;
   return null;
 }
 
-export function generateMoments(entries: CheckInEntry[], userData: UserData, refISO: string = isoTodayLocal()) {
+export function generateMoments(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[], refISO: string = isoTodayLocal()) {
   const active = getActiveMoments(refISO);
   const topActive = getHighestPriorityMoment(refISO);
 
   const currentTopPriority = topActive ? topActive.type : null;
   if (currentTopPriority === 'phase_change') return;
 
+  // 12 months without a period. Only raised once per final period date.
+  const finalPeriodISO = getMenopauseMilestoneISO(entries, userData, refISO);
+  if (finalPeriodISO && !hasMomentWithId(`menopause:${finalPeriodISO}`)) {
+    createMoment({
+      id: `menopause:${finalPeriodISO}`,
+      type: 'menopause_milestone',
+      date: refISO,
+      data: {
+        finalPeriodISO,
+        title: '12 months without a period',
+        body: `Your last logged bleed was on ${finalPeriodISO}. A full year without a period is the usual marker for menopause. You can switch to post-menopause mode, which turns period predictions off.`,
+      },
+    });
+    return;
+  }
+
+  // Things worth raising with a GP. One at a time, and a dismissed one stays gone until new evidence changes its id.
+  const finding = getCycleDiagnostics(entries, userData, refISO).find((item) => !hasMomentWithId(`cycle-diagnostic:${item.id}`));
+  if (finding && !active.some((moment) => moment.type === 'cycle_diagnostic')) {
+    createMoment({
+      id: `cycle-diagnostic:${finding.id}`,
+      type: 'cycle_diagnostic',
+      date: refISO,
+      data: {
+        rule: finding.rule,
+        severity: finding.severity,
+        title: finding.title,
+        body: finding.body,
+        evidence: finding.evidence,
+      },
+    });
+    return;
+  }
+
+  // A few days in a row well away from your own usual. Once per run, keyed on where it started.
+  const unusual = getOngoingAnomalyRuns(entries, userData, refISO).find((run) => !hasMomentWithId(`unusual:${run.metric}:${run.direction}:${run.startISO}`));
+  if (unusual && !active.some((moment) => moment.type === 'unusual_days') && !shouldSuppressCompanionMoment({ type: 'unusual_days', refISO, cooldownDays: 3, dismissalCooldownDays: 5, signalId: unusual.metric })) {
+    createMoment({
+      id: `unusual:${unusual.metric}:${unusual.direction}:${unusual.startISO}`,
+      type: 'unusual_days',
+      date: refISO,
+      data: {
+        metric: unusual.metric,
+        signalId: unusual.metric,
+        direction: unusual.direction,
+        worse: unusual.worse,
+        days: unusual.days,
+        startISO: unusual.startISO,
+        title: unusual.worse ? 'A few harder days than usual' : 'A few better days than usual',
+        body: `${describeAnomalyRun(unusual, refISO)} ${
+          unusual.worse ? 'It may pass on its own, but it could be worth noting anything that changed.' : 'Worth noticing what has been different.'
+        }`,
+      },
+    });
+    return;
+  }
+
   const experimentHistory = readExperimentHistory();
   const experimentSuggestionSuppression = getExperimentSuggestionSuppression(refISO);
   const latestCompleted = experimentHistory
@@ -99,7 +159,7 @@ export function generateMoments(entries: CheckInEntry[], userData: UserData, ref
     .sort((a, b) => b.firstDetected.localeCompare(a.firstDetected));
   const latestDiscovery = discovered[0] ?? null;
   if (latestDiscovery && latestDiscovery.firstDetected >= refISO && !hasMomentWithId(`pattern:${latestDiscovery.id}:${latestDiscovery.firstDetected}`) && !shouldSuppressCompanionMoment({ type: 'new_pattern', refISO, cooldownDays: 6, dismissalCooldownDays: 12, signalId: latestDiscovery.id })) {
-    const signal = getTopInsights(entries, userData, 8).find((item) => item.id === latestDiscovery.id);
+    const signal = rankedSignals.slice(0, 8).find((item) => item.id === latestDiscovery.id);
     if (signal) {
       const copy = patternCopy(signal);
       createMoment({
@@ -117,7 +177,7 @@ export function generateMoments(entries: CheckInEntry[], userData: UserData, ref
     }
   }
 
-  const resurfacing = getResurfacingPatternMoment(entries, userData);
+  const resurfacing = getResurfacingPatternMoment(entries, userData, rankedSignals);
   if (resurfacing && !hasMomentWithId(`resurface:${resurfacing.key}`) && !shouldSuppressCompanionMoment({ type: 'encouragement', refISO, cooldownDays: 7, dismissalCooldownDays: 12, signalId: resurfacing.key })) {
     createMoment({
       id: `resurface:${resurfacing.key}`,
@@ -151,11 +211,11 @@ export function generateMoments(entries: CheckInEntry[], userData: UserData, ref
     }
   }
 
-  const strongestSignal = getTopInsights(entries, userData, 6).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low');
-  const topSuggestion = rankExperimentSuggestions(generateExperimentSuggestions(strongestSignal))[0] ?? null;
+  const strongestSignal = rankedSignals.slice(0, 6).filter((signal) => signal.type !== 'low_data' && signal.confidence !== 'low');
+  const topSuggestion = rankExperimentSuggestions(generateExperimentSuggestions(strongestSignal, userData))[0] ?? null;
   if (topSuggestion && !experimentSuggestionSuppression.active && !experimentSuggestionSuppression.recentCompletion && !active.some((moment) => moment.type === 'experiment_suggestion') && !shouldSuppressCompanionMoment({ type: 'experiment_suggestion', refISO, cooldownDays: 7, dismissalCooldownDays: 14, experimentId: String(topSuggestion.experimentId || '') })) {
     const sourceSignal = strongestSignal.find((signal) => `experiment:${signal.id}` === topSuggestion.id) ?? null;
-    const linkedExperiment = sourceSignal ? getExperimentForSignal(sourceSignal) : null;
+    const linkedExperiment = sourceSignal ? getExperimentForSignal(sourceSignal, userData) : null;
     createMoment({
       id: `experiment:${topSuggestion.id}`,
       type: 'experiment_suggestion',
@@ -175,7 +235,7 @@ export function generateMoments(entries: CheckInEntry[], userData: UserData, ref
     return;
   }
 
-  const diagnostic = detectUnusualPhaseLength(refISO) ?? detectShortCycle() ?? detectLongCycle();
+  const diagnostic = detectUnusualPhaseLength(refISO) ?? detectShortCycle(entries, userData) ?? detectLongCycle(entries, userData);
   if (diagnostic && !active.some((moment) => moment.type === 'rhythm_shift') && !shouldSuppressCompanionMoment({ type: 'rhythm_shift', refISO, cooldownDays: 5, dismissalCooldownDays: 8 })) {
     const body = diagnostic.type === 'long_phase'
       ? `Your ${phaseLabelFromKey(diagnostic.phase)} has been lasting a little longer than usual recently.`
@@ -208,7 +268,7 @@ export function generateMoments(entries: CheckInEntry[], userData: UserData, ref
     return;
   }
 
-  const reflection = getWeeklyReflectionMoment(entries, refISO, userData);
+  const reflection = getWeeklyReflectionMoment(entries, refISO, userData, rankedSignals);
   if (reflection && !shouldSuppressCompanionMoment({ type: reflection.type, refISO, cooldownDays: 6, dismissalCooldownDays: 10 })) {
     createMoment({
       id: reflection.id,
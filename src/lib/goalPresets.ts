@@ -23,6 +23,15 @@ export const GOAL_PRESETS: Record<NonNullable<UserData['goal']>, Partial<UserDat
     enabledModules: ['energy', 'sleep', 'stress', 'brainFog', 'hotFlushes', 'nightSweats', 'hairShedding', 'facialSpots'],
     enabledInfluences: ['stressfulDay', 'lateNight', 'alcohol', 'caffeine', 'medication'],
   },
+  'postmenopause': {
+    cycleTrackingMode: 'no-cycle',
+    showCycleBubble: false,
+    fertilityMode: false,
+    sleepDetailsEnabled: true,
+    sleepInsightsEnabled: true,
+    enabledModules: ['energy', 'sleep', 'stress', 'brainFog', 'hotFlushes', 'nightSweats', 'jointPain', 'skinDryness'],
+    enabledInfluences: ['stressfulDay', 'lateNight', 'alcohol', 'caffeine', 'exercise', 'medication'],
+  },
   'post-contraception': {
     cycleTrackingMode: 'cycle',
     showCycleBubble: true,
@@ -0,0 +1,260 @@
+import type { CheckInEntry, HeadacheEpisode, HeadacheSide, RescueEffect, UserData } from '../types';
+import { type CycleSources, sortByDateAsc } from './analytics';
+import { customInfluenceIdFromKey, getCustomInfluence } from './customInfluences';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+
+/**
+ * Headache + migraine episode diary.
+ *
+ * Episodes are stored on the entry for the day they started (entry.headacheEpisodes).
+ * The daily headache/migraine sliders still work as before - episodes add the detail
+ * needed for headache-day counts, rescue-med use and menstrual migraine checks.
+ */
+
+export const HEADACHE_SIDE_LABELS: Record<HeadacheSide, string> = {
+  left: 'Left',
+  right: 'Right',
+  both: 'Both sides',
+  unsure: 'Not sure',
+};
+
+export const RESCUE_EFFECT_LABELS: Record<RescueEffect, string> = {
+  none: 'No relief',
+  some: 'Some relief',
+  good: 'Good relief',
+  full: 'Pain-free',
+};
+
+// Keep in sync with the influence labels in the check-in.
+const BUILT_IN_TRIGGER_LABELS: Record<string, string> = {
+  sex: 'Intimacy',
+  exercise: 'Workout',
+  travel: 'Travel',
+  illness: 'Illness',
+  alcohol: 'Alcohol',
+  caffeine: 'Caffeine',
+  lateNight: 'Late night',
+  stressfulDay: 'Stressful day',
+  medication: 'Medication',
+  socialising: 'Socialising',
+  lowHydration: 'Low hydration',
+};
+
+// Medication overuse headache is usually flagged at 10+ days a month for triptans /
+// combination painkillers (15+ for simple painkillers). We warn at the lower one.
+const OVERUSE_WATCH_DAYS = 8;
+const OVERUSE_WARNING_DAYS = 10;
+
+export type DatedEpisode = HeadacheEpisode & { dateISO: string };
+
+export function newEpisodeId(): string {
+  return `h_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function triggerLabel(key: string, userData?: UserData): string {
+  const customId = customInfluenceIdFromKey(key);
+  if (customId) return getCustomInfluence(userData, customId)?.label ?? 'Custom influence';
+  return BUILT_IN_TRIGGER_LABELS[key] ?? key;
+}
+
+export function getEpisodes(entries: CheckInEntry[]): DatedEpisode[] {
+  const out: DatedEpisode[] = [];
+  for (const e of sortByDateAsc(entries)) {
+    const list = e?.headacheEpisodes;
+    if (!Array.isArray(list)) continue;
+    for (const ep of list) {
+      if (!ep || typeof ep.start !== 'string') continue;
+      out.push({ ...ep, dateISO: e.dateISO });
+    }
+  }
+  return out.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function parseLocal(dt: string | undefined): Date | null {
+  if (!dt) return null;
+  const d = new Date(dt.length === 16 ? `${dt}:00` : dt);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export function episodeDurationHours(ep: HeadacheEpisode): number | null {
+  const a = parseLocal(ep.start);
+  const b = parseLocal(ep.end);
+  if (!a || !b || b <= a) return null;
+  return Math.round(((b.getTime() - a.getTime()) / 3_600_000) * 10) / 10;
+}
+
+/** Days an episode touches (an attack running past midnight counts for both days, capped at 3 days). */
+export function episodeDays(ep: DatedEpisode): string[] {
+  const startISO = ep.start.slice(0, 10) || ep.dateISO;
+  const endISO = (ep.end ?? '').slice(0, 10);
+  const days = [startISO];
+  if (!endISO || endISO <= startISO) return days;
+  for (let i = 1; i <= 2; i++) {
+    const next = addDaysISO(startISO, i);
+    if (next > endISO) break;
+    days.push(next);
+  }
+  return days;
+}
+
+export function hasRescueMedication(ep: HeadacheEpisode): boolean {
+  return Boolean(ep.rescueMedicationId || (ep.rescueMedicationName ?? '').trim());
+}
+
+/** Days with acute (rescue) medication: from episodes, plus logged doses of any medication used as a rescue. */
+function acuteMedicationDays(entries: CheckInEntry[], episodes: DatedEpisode[]): Set<string> {
+  const days = new Set<string>();
+  const rescueIds = new Set<string>();
+  for (const ep of episodes) {
+    if (!hasRescueMedication(ep)) continue;
+    days.add(ep.start.slice(0, 10) || ep.dateISO);
+    if (ep.rescueMedicationId) rescueIds.add(ep.rescueMedicationId);
+  }
+  if (rescueIds.size) {
+    for (const e of entries ?? []) {
+      const doses = e?.medicationDoses;
+      if (Array.from(rescueIds).some((id) => (doses?.[id] ?? 0) > 0)) days.add(e.dateISO);
+    }
+  }
+  return days;
+}
+
+export type HeadacheMonthSummary = {
+  /** "YYYY-MM" */
+  monthISO: string;
+  headacheDays: number;
+  migraineDays: number;
+  episodes: number;
+  acuteMedDays: number;
+};
+
+export function getHeadacheMonthSummary(entries: CheckInEntry[], monthISO: string): HeadacheMonthSummary {
+  const episodes = getEpisodes(entries);
+  const headache = new Set<string>();
+  const migraine = new Set<string>();
+  let count = 0;
+  for (const ep of episodes) {
+    const days = episodeDays(ep).filter((d) => d.startsWith(monthISO));
+    if (!days.length) continue;
+    if ((ep.start.slice(0, 7) || ep.dateISO.slice(0, 7)) === monthISO) count += 1;
+    days.forEach((d) => {
+      headache.add(d);
+      if (ep.kind === 'migraine') migraine.add(d);
+    });
+  }
+  const acute = Array.from(acuteMedicationDays(entries, episodes)).filter((d) => d.startsWith(monthISO));
+  return { monthISO, headacheDays: headache.size, migraineDays: migraine.size, episodes: count, acuteMedDays: acute.length };
+}
+
+/** Oldest first, ending with the current month. */
+export function getMonthlyHeadacheSummaries(
+  entries: CheckInEntry[],
+  opts: { months?: number; todayISO?: string } = {}
+): HeadacheMonthSummary[] {
+  const months = opts.months ?? 6;
+  const today = new Date((opts.todayISO ?? isoTodayLocal()) + 'T00:00:00');
+  const out: HeadacheMonthSummary[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const d = new Date(today.getFullYear(), today.getMonth() - i, 1);
+    const monthISO = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    out.push(getHeadacheMonthSummary(entries, monthISO));
+  }
+  return out;
+}
+
+export type MedicationOveruseCheck = {
+  /** Days with rescue medication in the last `days` days */
+  acuteMedDays: number;
+  days: number;
+  level: 'ok' | 'watch' | 'warning';
+};
+
+export function getMedicationOveruseCheck(
+  entries: CheckInEntry[],
+  opts: { days?: number; todayISO?: string } = {}
+): MedicationOveruseCheck {
+  const days = opts.days ?? 30;
+  const todayISO = opts.todayISO ?? isoTodayLocal();
+  const fromISO = addDaysISO(todayISO, -(days - 1));
+  const acute = Array.from(acuteMedicationDays(entries, getEpisodes(entries))).filter((d) => d >= fromISO && d <= todayISO);
+  const n = acute.length;
+  const level = n >= OVERUSE_WARNING_DAYS ? 'warning' : n >= OVERUSE_WATCH_DAYS ? 'watch' : 'ok';
+  return { acuteMedDays: n, days, level };
+}
+
+export type MenstrualMigraineClass = 'pure_menstrual' | 'menstrually_related' | 'non_menstrual' | 'not_enough_data';
+
+export type MenstrualMigraineResult = {
+  classification: MenstrualMigraineClass;
+  /** Completed period windows we could check (max 3, most recent) */
+  cyclesChecked: number;
+  cyclesWithAttack: number;
+  attacksInWindow: number;
+  attacksOutsideWindow: number;
+};
+
+/**
+ * ICHD-3 style check: migraine starting on day -2 to +3 of the period (day 1 = first
+ * bleeding day, there is no day 0) in at least 2 of the last 3 cycles.
+ * "Pure" when there are no migraines at other times, otherwise "menstrually related".
+ */
+export function classifyMenstrualMigraine(
+  entries: CheckInEntry[],
+  sources?: CycleSources,
+  opts: { todayISO?: string } = {}
+): MenstrualMigraineResult {
+  const todayISO = opts.todayISO ?? isoTodayLocal();
+  const migraines = getEpisodes(entries).filter((ep) => ep.kind === 'migraine');
+  // Only windows that are fully in the past
+  const starts = buildCycleEngine(entries, sources, todayISO).starts.filter((s) => addDaysISO(s, 2) <= todayISO);
+  const windows = starts.map((s) => ({ from: addDaysISO(s, -2), to: addDaysISO(s, 2) }));
+
+  const startDay = (ep: DatedEpisode) => ep.start.slice(0, 10) || ep.dateISO;
+  const inAnyWindow = (iso: string) => windows.some((w) => iso >= w.from && iso <= w.to);
+
+  const recent = windows.slice(-3);
+  const cyclesWithAttack = recent.filter((w) => migraines.some((ep) => startDay(ep) >= w.from && startDay(ep) <= w.to)).length;
+
+  // Only count "outside" attacks from the period we actually have cycle data for
+  const firstFrom = windows.length ? windows[0].from : null;
+  const considered = migraines.filter((ep) => firstFrom && startDay(ep) >= firstFrom);
+  const attacksInWindow = considered.filter((ep) => inAnyWindow(startDay(ep))).length;
+  const attacksOutsideWindow = considered.length - attacksInWindow;
+
+  let classification: MenstrualMigraineClass = 'not_enough_data';
+  if (recent.length >= 3) {
+    if (cyclesWithAttack >= 2) classification = attacksOutsideWindow === 0 ? 'pure_menstrual' : 'menstrually_related';
+    else classification = 'non_menstrual';
+  }
+
+  return { classification, cyclesChecked: recent.length, cyclesWithAttack, attacksInWindow, attacksOutsideWindow };
+}
+
+export const MENSTRUAL_MIGRAINE_LABELS: Record<MenstrualMigraineClass, string> = {
+  pure_menstrual: 'Looks like pure menstrual migraine',
+  menstrually_related: 'Looks like menstrually related migraine',
+  non_menstrual: 'No clear link to your period',
+  not_enough_data: 'Not enough cycles yet',
+};
+
+/** Most common triggers picked across episodes. */
+export function getTopTriggers(entries: CheckInEntry[], limit = 3): Array<{ key: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const ep of getEpisodes(entries)) {
+    for (const t of ep.triggers ?? []) counts.set(t, (counts.get(t) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
@@ -0,0 +1,176 @@
+import type { HormonalRegimen, HormonalRegimenKind, UserData } from '../types';
+
+/**
+ * Contraception + HRT regimens.
+ *
+ * Hormonal contraception switches off the natural cycle, so a bleed while on it is
+ * either a scheduled withdrawal bleed (pill-free / patch-free / ring-free days) or
+ * breakthrough bleeding. Neither should be used as a cycle start for predictions.
+ * HRT and the copper coil don't switch the cycle off, so they're only used for notes.
+ */
+
+export type BleedKind = 'natural' | 'withdrawal' | 'breakthrough';
+
+export type RegimenSources = Pick<UserData, 'hormonalRegimens'>;
+
+export const REGIMEN_KIND_LABELS: Record<HormonalRegimenKind, string> = {
+  combined_pill: 'Combined pill',
+  progestogen_pill: 'Progestogen-only pill',
+  patch: 'Contraceptive patch',
+  ring: 'Vaginal ring',
+  hormonal_coil: 'Hormonal coil (IUS)',
+  copper_coil: 'Copper coil (IUD)',
+  implant: 'Implant',
+  injection: 'Injection',
+  hrt_gel: 'HRT gel',
+  hrt_patch: 'HRT patch',
+  hrt_tablet: 'HRT tablets',
+};
+
+const SUPPRESSIVE: HormonalRegimenKind[] = [
+  'combined_pill',
+  'progestogen_pill',
+  'patch',
+  'ring',
+  'hormonal_coil',
+  'implant',
+  'injection',
+];
+
+/** Kinds with a pack-style schedule (active days then a break). */
+const CYCLIC: HormonalRegimenKind[] = ['combined_pill', 'patch', 'ring'];
+
+export function isHrtKind(kind: HormonalRegimenKind): boolean {
+  return kind === 'hrt_gel' || kind === 'hrt_patch' || kind === 'hrt_tablet';
+}
+
+/** Sensible starting values when someone picks a kind. */
+export function regimenDefaults(kind: HormonalRegimenKind): Partial<HormonalRegimen> {
+  if (kind === 'combined_pill' || kind === 'ring') return { activeDays: 21, breakDays: 7 };
+  if (kind === 'patch') return { activeDays: 21, breakDays: 7, changeEveryDays: 7 };
+  if (kind === 'hrt_patch') return { changeEveryDays: 4 };
+  return {};
+}
+
+export function regimenLabel(reg: HormonalRegimen): string {
+  const base = REGIMEN_KIND_LABELS[reg.kind] ?? 'Regimen';
+  return reg.label?.trim() ? `${reg.label.trim()} (${base.toLowerCase()})` : base;
+}
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export function isRegimenActiveOn(reg: HormonalRegimen, dateISO: string): boolean {
+  if (!reg?.startISO || dateISO < reg.startISO) return false;
+  if (reg.stopISO && dateISO > reg.stopISO) return false;
+  return true;
+}
+
+export function getActiveRegimens(sources: RegimenSources | undefined, dateISO: string): HormonalRegimen[] {
+  return (sources?.hormonalRegimens ?? []).filter((r) => r && isRegimenActiveOn(r, dateISO));
+}
+
+/** The regimen that decides how bleeds are read on this day (contraception wins over HRT). */
+export function getCycleSuppressingRegimen(sources: RegimenSources | undefined, dateISO: string): HormonalRegimen | null {
+  return getActiveRegimens(sources, dateISO).find((r) => SUPPRESSIVE.includes(r.kind)) ?? null;
+}
+
+export function isCycleSuppressedOn(sources: RegimenSources | undefined, dateISO: string): boolean {
+  return getCycleSuppressingRegimen(sources, dateISO) != null;
+}
+
+function packLength(reg: HormonalRegimen): number {
+  return Math.max(1, (reg.activeDays ?? 21) + (reg.breakDays ?? 0));
+}
+
+/** 0-based day within the current pack, or null for non-pack regimens. */
+export function dayInPack(reg: HormonalRegimen, dateISO: string): number | null {
+  if (!CYCLIC.includes(reg.kind) || !isRegimenActiveOn(reg, dateISO)) return null;
+  const n = daysBetweenISO(reg.startISO, dateISO);
+  return ((n % packLength(reg)) + packLength(reg)) % packLength(reg);
+}
+
+export function isBreakDay(reg: HormonalRegimen, dateISO: string): boolean {
+  const d = dayInPack(reg, dateISO);
+  return d != null && (reg.breakDays ?? 0) > 0 && d >= (reg.activeDays ?? 21);
+}
+
+/**
+ * How to read a bleed that starts on this day.
+ * Withdrawal bleeds usually start 2–4 days into the break and can run into the
+ * first couple of days of the next pack.
+ */
+export function classifyBleed(sources: RegimenSources | undefined, dateISO: string): BleedKind {
+  const reg = getCycleSuppressingRegimen(sources, dateISO);
+  if (!reg) return 'natural';
+  const d = dayInPack(reg, dateISO);
+  if (d == null || (reg.breakDays ?? 0) <= 0) return 'breakthrough';
+  const active = reg.activeDays ?? 21;
+  const isFirstPack = daysBetweenISO(reg.startISO, dateISO) < packLength(reg);
+  if (d >= active) return 'withdrawal';
+  if (d < 2 && !isFirstPack) return 'withdrawal';
+  return 'breakthrough';
+}
+
+/** Next expected withdrawal bleed window start (first break day on or after today). */
+export function nextBreakStartISO(reg: HormonalRegimen, fromISO: string): string | null {
+  const d = dayInPack(reg, fromISO);
+  if (d == null || (reg.breakDays ?? 0) <= 0) return null;
+  const active = reg.activeDays ?? 21;
+  if (d >= active) return addDaysISO(fromISO, -(d - active));
+  return addDaysISO(fromISO, active - d);
+}
+
+/** Next patch change on or after today (contraceptive or HRT patches). */
+export function nextPatchChangeISO(reg: HormonalRegimen, fromISO: string): string | null {
+  const every = reg.changeEveryDays;
+  if (!every || every <= 0 || !isRegimenActiveOn(reg, fromISO)) return null;
+  if (reg.kind === 'patch' && isBreakDay(reg, fromISO)) {
+    const next = nextBreakStartISO(reg, fromISO);
+    return next ? addDaysISO(next, reg.breakDays ?? 0) : null;
+  }
+  const n = daysBetweenISO(reg.startISO, fromISO);
+  const rem = n % every;
+  return rem === 0 ? fromISO : addDaysISO(fromISO, every - rem);
+}
+
+/**
+ * One short line for Insights / Rhythm explaining why cycle predictions are off
+ * (or what the regimen means for them). Null when there's nothing to say.
+ */
+export function getRegimenNote(sources: RegimenSources | undefined, todayISO: string): string | null {
+  const active = getActiveRegimens(sources, todayISO);
+  if (!active.length) return null;
+
+  const suppressing = active.find((r) => SUPPRESSIVE.includes(r.kind));
+  if (suppressing) {
+    const next = nextBreakStartISO(suppressing, todayISO);
+    const base = `You're on the ${regimenLabel(suppressing).toLowerCase()}, so bleeds are driven by it rather than a natural cycle. We don't use them for cycle predictions.`;
+    if (!next) return base;
+    const pretty = new Date(next + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+    return `${base} Next break starts ${next === todayISO ? 'today' : pretty}.`;
+  }
+
+  const hrt = active.find((r) => isHrtKind(r.kind));
+  if (hrt) {
+    const change = nextPatchChangeISO(hrt, todayISO);
+    const base = `On ${regimenLabel(hrt).toLowerCase()}${hrt.dose ? ` (${hrt.dose})` : ''} since ${hrt.startISO}. Changes around that date may be the HRT settling in.`;
+    if (!change) return base;
+    const pretty = new Date(change + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+    return `${base} Next patch change: ${change === todayISO ? 'today' : pretty}.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CheckInEntry, UserData } from '../types';
+import { CYCLE_FIXTURES } from './__fixtures__/cycleFixtures';
+import { createInsightCache, syncInsightCache } from './insightCache';
+import { getInsightDetailsCached, lagKey } from './insightDetails';
+import { generateCandidateInsights, getRankedInsightsCached, rankInsights, scoreInsights } from './insightEngine';
+import { detectLagPattern } from './patternIntelligence';
+import { analyseSymptomDrivers } from './symptomDrivers';
+
+function memoryStorage() {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, String(value)),
+    removeItem: (key: string) => void store.delete(key),
+    clear: () => store.clear(),
+    key: (i: number) => Array.from(store.keys())[i] ?? null,
+    get length() {
+      return store.size;
+    },
+  };
+}
+
+const { entries: baseEntries, userData: baseUser, todayISO } = CYCLE_FIXTURES[0];
+
+// Running sums pick up float noise in the last few digits; anything that shows doesn't
+function rounded<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value, (_key, v) => (typeof v === 'number' ? Math.round(v * 1e9) / 1e9 : v)));
+}
+
+// No cache at all: every series and pair walked from scratch
+function fresh(entries: CheckInEntry[], userData: UserData) {
+  return rankInsights(scoreInsights(generateCandidateInsights(entries, userData)));
+}
+
+function edited(entry: CheckInEntry, values: CheckInEntry['values'], stamp: string): CheckInEntry {
+  return { ...entry, values: { ...entry.values, ...values }, updatedAt: stamp };
+}
+
+describe('insight cache', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${todayISO}T12:00:00`));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('matches a fresh run through edits, deletes, back-fills and a settings change', () => {
+    const cache = createInsightCache();
+    let entries = baseEntries.slice();
+    let userData = baseUser;
+    const check = () => expect(rounded(getRankedInsightsCached(entries, userData, [], cache))).toEqual(rounded(fresh(entries, userData)));
+
+    check();
+
+    // Edit a few days in the middle and at the end
+    entries = entries.map((e, i) => (i % 17 === 3 || i === entries.length - 1 ? edited(e, { energy: 1, sleep: 9 }, `${e.dateISO}T21:00:00.000Z`) : e));
+    check();
+
+    // Delete a run of days (gaps change neighbouring lag sums)
+    const dropped = new Set(entries.slice(40, 47).map((e) => e.dateISO));
+    entries = entries.filter((e) => !dropped.has(e.dateISO));
+    check();
+
+    // Back-fill them with different values, and add a day that was never there
+    const backfilled = baseEntries.filter((e) => dropped.has(e.dateISO)).map((e) => edited(e, { energy: 8, fatigue: 2 }, `${todayISO}T09:00:00.000Z`));
+    entries = [...entries, ...backfilled].sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+    check();
+
+    // A setting the pipeline reads
+    userData = { ...userData, insightsFromISO: '2025-03-01' };
+    check();
+
+    // One it doesn't read leaves the cache as it was
+    const revision = cache.revision;
+    expect(syncInsightCache(cache, entries, { ...userData, name: 'Sam', colorTheme: 'ocean' })).toEqual([]);
+    expect(cache.revision).toBe(revision);
+    expect(cache.series.size).toBeGreaterThan(0);
+  });
+
+  it('redoes lag patterns and drivers after an edit', () => {
+    const cache = createInsightCache();
+    let entries = baseEntries.slice();
+    const check = () => {
+      const signals = getRankedInsightsCached(entries, baseUser, ['sleep'], cache);
+      const details = getInsightDetailsCached(entries, baseUser, signals, ['sleep'], cache);
+      const pairs = signals.filter((s) => s.type === 'metric_pair');
+      expect(pairs.length).toBeGreaterThan(0);
+      for (const { metrics: [a, b] } of pairs) expect(details.lagPatterns[lagKey(a, b)]).toEqual(detectLagPattern(entries, a, b, baseUser));
+      expect(rounded(details.drivers.sleep)).toEqual(rounded(analyseSymptomDrivers(entries, baseUser, 'sleep')));
+    };
+
+    check();
+    entries = entries.map((e, i) => (i % 5 === 0 ? edited(e, { sleep: 2, energy: 2 }, `${e.dateISO}T22:00:00.000Z`) : e));
+    check();
+  });
+
+  it('reports the days that changed', () => {
+    const cache = createInsightCache();
+    const entries = baseEntries.slice(0, 10);
+    expect(syncInsightCache(cache, entries, baseUser)).toHaveLength(10);
+    expect(syncInsightCache(cache, entries, baseUser)).toEqual([]);
+
+    const next = [...entries.slice(0, 4), edited(entries[4], { energy: 2 }, 'later'), ...entries.slice(6)];
+    expect(syncInsightCache(cache, next, baseUser).sort()).toEqual([entries[4].dateISO, entries[5].dateISO]);
+  });
+});
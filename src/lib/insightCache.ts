@@ -0,0 +1,267 @@
+import type { CheckInEntry, UserData } from '../types';
+
+/**
+ * Incremental cache for the insight pipeline, so saving one check-in doesn't mean
+ * recomputing every series and correlation from scratch.
+ *
+ * Entries are stamped by `updatedAt` (falling back to their JSON when it's missing).
+ * Each sync bumps a revision and notes which days changed. A metric's series only
+ * re-reads those days, and pair stats are kept as running sums over the days both
+ * metrics were logged, so a changed day is taken out and put back in rather than the
+ * whole pair being walked again. A change to any setting the pipeline reads (scope,
+ * cycle sources, medications, custom influences...) clears the lot; anything else
+ * (name, theme, avatar...) leaves it alone.
+ *
+ * Plain data and no storage access, so it can live inside the insight worker.
+ */
+
+type SeriesSlot = {
+  values: Map<string, number>;
+  syncedAt: number;
+};
+
+/** Running sums over the days both metrics were logged, in date order. */
+export type PairSums = {
+  n: number;
+  sx: number;
+  sy: number;
+  sxx: number;
+  syy: number;
+  sxy: number;
+  /** Sum of x·(previous x) over neighbouring overlap days, for lag-1 autocorrelation */
+  lagX: number;
+  lagY: number;
+  firstX: number;
+  firstY: number;
+  lastX: number;
+  lastY: number;
+};
+
+type PairSlot = {
+  dates: string[];
+  values: Map<string, [number, number]>;
+  sums: Omit<PairSums, 'firstX' | 'firstY' | 'lastX' | 'lastY'>;
+  syncedAt: number;
+};
+
+export type InsightCache = {
+  userKey: string;
+  revision: number;
+  entries: Map<string, CheckInEntry>;
+  stamps: Map<string, string>;
+  /** Revision each day last changed at (including being deleted) */
+  changedAt: Map<string, number>;
+  series: Map<string, SeriesSlot>;
+  pairs: Map<string, PairSlot>;
+  derived: Map<string, { key: string; value: unknown }>;
+};
+
+export function createInsightCache(): InsightCache {
+  return {
+    userKey: '',
+    revision: 0,
+    entries: new Map(),
+    stamps: new Map(),
+    changedAt: new Map(),
+    series: new Map(),
+    pairs: new Map(),
+    derived: new Map(),
+  };
+}
+
+// Every userData field the insight pipeline reads, directly or through the cycle engine
+const PIPELINE_USER_FIELDS: Array<keyof UserData> = [
+  'goal',
+  'cycleTrackingMode',
+  'enabledModules',
+  'enabledInfluences',
+  'customInfluences',
+  'customSymptoms',
+  'medications',
+  'hormonalRegimens',
+  'pregnancies',
+  'ovulationOverrideISOs',
+  'ovulationDetectedISOs',
+  'enabledMeasurements',
+  'measurementUnits',
+  'insightsFromISO',
+  'metricRetiredFromISO',
+];
+
+function pipelineUserKey(userData: UserData): string {
+  return JSON.stringify(PIPELINE_USER_FIELDS.map((field) => userData?.[field] ?? null));
+}
+
+export function entryStamp(entry: CheckInEntry): string {
+  return entry?.updatedAt || JSON.stringify(entry);
+}
+
+function resetInsightCache(cache: InsightCache, userKey: string) {
+  Object.assign(cache, createInsightCache(), { userKey });
+}
+
+/** Bring the cache in line with `entries`. Returns the days that changed (added, edited or removed). */
+export function syncInsightCache(cache: InsightCache, entries: CheckInEntry[], userData: UserData): string[] {
+  const userKey = pipelineUserKey(userData);
+  if (userKey !== cache.userKey) resetInsightCache(cache, userKey);
+
+  const changed: string[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const iso = String(entry?.dateISO || '');
+    if (!iso) continue;
+    seen.add(iso);
+    const stamp = entryStamp(entry);
+    if (cache.stamps.get(iso) !== stamp) changed.push(iso);
+    cache.stamps.set(iso, stamp);
+    cache.entries.set(iso, entry);
+  }
+  for (const iso of Array.from(cache.stamps.keys())) {
+    if (seen.has(iso)) continue;
+    cache.stamps.delete(iso);
+    cache.entries.delete(iso);
+    changed.push(iso);
+  }
+
+  if (changed.length) {
+    cache.revision += 1;
+    for (const iso of changed) cache.changedAt.set(iso, cache.revision);
+  }
+  return changed;
+}
+
+/** Per-day values for one metric, re-reading only days that changed since it was last asked for. */
+export function cachedSeries(cache: InsightCache, metric: string, read: (entry: CheckInEntry) => number | undefined | null): Map<string, number> {
+  let slot = cache.series.get(metric);
+  if (!slot) {
+    const values = new Map<string, number>();
+    cache.entries.forEach((entry, iso) => {
+      const v = read(entry);
+      if (typeof v === 'number' && Number.isFinite(v)) values.set(iso, v);
+    });
+    slot = { values, syncedAt: cache.revision };
+    cache.series.set(metric, slot);
+    return values;
+  }
+  if (slot.syncedAt < cache.revision) {
+    cache.changedAt.forEach((rev, iso) => {
+      if (rev <= slot!.syncedAt) return;
+      const entry = cache.entries.get(iso);
+      const v = entry ? read(entry) : undefined;
+      if (typeof v === 'number' && Number.isFinite(v)) slot!.values.set(iso, v);
+      else slot!.values.delete(iso);
+    });
+    slot.syncedAt = cache.revision;
+  }
+  return slot.values;
+}
+
+function lowerBound(dates: string[], iso: string): number {
+  let lo = 0;
+  let hi = dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid] < iso) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function removeDay(slot: PairSlot, iso: string) {
+  const pair = slot.values.get(iso);
+  if (!pair) return;
+  const { dates, sums } = slot;
+  const i = lowerBound(dates, iso);
+  const [x, y] = pair;
+  const prev = i > 0 ? slot.values.get(dates[i - 1]) : undefined;
+  const next = i < dates.length - 1 ? slot.values.get(dates[i + 1]) : undefined;
+  if (prev) {
+    sums.lagX -= prev[0] * x;
+    sums.lagY -= prev[1] * y;
+  }
+  if (next) {
+    sums.lagX -= x * next[0];
+    sums.lagY -= y * next[1];
+  }
+  if (prev && next) {
+    sums.lagX += prev[0] * next[0];
+    sums.lagY += prev[1] * next[1];
+  }
+  sums.n -= 1;
+  sums.sx -= x;
+  sums.sy -= y;
+  sums.sxx -= x * x;
+  sums.syy -= y * y;
+  sums.sxy -= x * y;
+  dates.splice(i, 1);
+  slot.values.delete(iso);
+}
+
+function insertDay(slot: PairSlot, iso: string, x: number, y: number) {
+  const { dates, sums } = slot;
+  const i = lowerBound(dates, iso);
+  const prev = i > 0 ? slot.values.get(dates[i - 1]) : undefined;
+  const next = i < dates.length ? slot.values.get(dates[i]) : undefined;
+  if (prev && next) {
+    sums.lagX -= prev[0] * next[0];
+    sums.lagY -= prev[1] * next[1];
+  }
+  if (prev) {
+    sums.lagX += prev[0] * x;
+    sums.lagY += prev[1] * y;
+  }
+  if (next) {
+    sums.lagX += x * next[0];
+    sums.lagY += y * next[1];
+  }
+  sums.n += 1;
+  sums.sx += x;
+  sums.sy += y;
+  sums.sxx += x * x;
+  sums.syy += y * y;
+  sums.sxy += x * y;
+  dates.splice(i, 0, iso);
+  slot.values.set(iso, [x, y]);
+}
+
+/**
+ * Running sums for a pair of metrics. Pass both series from `cachedSeries` (already
+ * current); only days changed since the pair was last asked for are re-added.
+ */
+export function cachedPairSums(cache: InsightCache, a: string, b: string, seriesA: Map<string, number>, seriesB: Map<string, number>): PairSums {
+  const key = `${a}|${b}`;
+  let slot = cache.pairs.get(key);
+  const update = (iso: string) => {
+    removeDay(slot!, iso);
+    const x = seriesA.get(iso);
+    const y = seriesB.get(iso);
+    if (x !== undefined && y !== undefined) insertDay(slot!, iso, x, y);
+  };
+  if (!slot) {
+    slot = { dates: [], values: new Map(), sums: { n: 0, sx: 0, sy: 0, sxx: 0, syy: 0, sxy: 0, lagX: 0, lagY: 0 }, syncedAt: cache.revision };
+    cache.pairs.set(key, slot);
+    Array.from(seriesA.keys())
+      .filter((iso) => seriesB.has(iso))
+      .sort()
+      .forEach(update);
+  } else if (slot.syncedAt < cache.revision) {
+    cache.changedAt.forEach((rev, iso) => {
+      if (rev > slot!.syncedAt) update(iso);
+    });
+    slot.syncedAt = cache.revision;
+  }
+  const { dates, values } = slot;
+  const first = dates.length ? values.get(dates[0])! : [0, 0];
+  const last = dates.length ? values.get(dates[dates.length - 1])! : [0, 0];
+  return { ...slot.sums, firstX: first[0], firstY: first[1], lastX: last[0], lastY: last[1] };
+}
+
+/** Something worked out from all the entries (event effects, ranked signals), kept until anything changes. */
+export function cachedForRevision<T>(cache: InsightCache, key: string, compute: () => T): T {
+  const revisionKey = `rev@${cache.revision}`;
+  const hit = cache.derived.get(key);
+  if (hit && hit.key === revisionKey) return hit.value as T;
+  const value = compute();
+  cache.derived.set(key, { key: revisionKey, value });
+  return value;
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CYCLE_FIXTURES } from './__fixtures__/cycleFixtures';
+import { requestRankedInsights } from './insightClient';
+import type { InsightWorkerRequest } from './insightWorker';
+
+const { entries, userData, todayISO } = CYCLE_FIXTURES[0];
+const FROM_WORKER = [{ id: 'from-worker' }];
+
+// Stand-in for the browser Worker: the first one crashes on its first message, later ones answer
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  crashes = FakeWorker.created.length === 0;
+
+  constructor() {
+    FakeWorker.created.push(this);
+  }
+
+  postMessage(req: InsightWorkerRequest) {
+    queueMicrotask(() => {
+      if (this.crashes) this.onerror?.();
+      else this.onmessage?.({ data: { id: req.id, ok: true, signals: FROM_WORKER, details: null } });
+    });
+  }
+
+  terminate() {}
+}
+
+describe('requestRankedInsights', () => {
+  beforeEach(() => {
+    FakeWorker.created = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${todayISO}T12:00:00`));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs locally after the worker crashes, then starts a new worker once the back-off is up', async () => {
+    const few = entries.slice(-20);
+
+    const first = await requestRankedInsights(few, userData);
+    expect(first).not.toBe(FROM_WORKER);
+    expect(FakeWorker.created).toHaveLength(1);
+
+    // Still backing off: no new worker yet
+    await requestRankedInsights(few, userData);
+    expect(FakeWorker.created).toHaveLength(1);
+
+    vi.setSystemTime(new Date(`${todayISO}T12:00:02`));
+    expect(await requestRankedInsights(few, userData)).toBe(FROM_WORKER);
+    expect(FakeWorker.created).toHaveLength(2);
+  });
+});
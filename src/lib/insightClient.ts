@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CheckInEntry, InsightMetricKey, UserData } from '../types';
+import { createInsightCache, entryStamp } from './insightCache';
+import { getInsightDetailsCached, type InsightDetails } from './insightDetails';
+import { getRankedInsightsCached, type InsightSignal } from './insightEngine';
+import type { InsightWorkerRequest, InsightWorkerResponse } from './insightWorker';
+
+/**
+ * Async front door to the insight pipeline. Work happens in insightWorker when the
+ * browser allows it; otherwise (or if the worker falls over) the same cached pipeline
+ * runs here. Either way callers get the full ranked list and slice what they need.
+ */
+
+/** Ranked signals, plus lag patterns and drivers when they were asked for. */
+export type InsightReport = {
+  signals: InsightSignal[];
+  details: InsightDetails | null;
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+// What the worker currently holds, by day, so each message only carries the changes
+let sent = new Map<string, string>();
+const pending = new Map<number, { resolve: (report: InsightReport) => void; reject: (err: Error) => void }>();
+const localCache = createInsightCache();
+// Shared default so a hook without metrics doesn't see a new array (and rerun) every render
+const NO_METRICS: InsightMetricKey[] = [];
+// After the worker falls over, run locally for a while and then start a fresh one,
+// waiting twice as long after each failure in a row (1s, 2s, 4s... up to a minute)
+let failures = 0;
+let retryAt = 0;
+
+function backOff() {
+  failures += 1;
+  retryAt = Date.now() + Math.min(60_000, 1000 * 2 ** (failures - 1));
+}
+
+function dropWorker() {
+  try {
+    worker?.terminate();
+  } catch {
+    // ignore
+  }
+  worker = null;
+  backOff();
+  sent = new Map();
+  pending.forEach((p) => p.reject(new Error('Insight worker stopped')));
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || Date.now() < retryAt) return null;
+  try {
+    worker = new Worker(new URL('./insightWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<InsightWorkerResponse>) => {
+      const res = event.data;
+      const p = pending.get(res.id);
+      if (!p) return;
+      pending.delete(res.id);
+      if (res.ok) {
+        failures = 0;
+        p.resolve({ signals: res.signals, details: res.details });
+      } else p.reject(new Error(res.error));
+    };
+    worker.onerror = () => dropWorker();
+  } catch {
+    worker = null;
+    backOff();
+  }
+  return worker;
+}
+
+function runLocally(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[], details: boolean): Promise<InsightReport> {
+  try {
+    const signals = getRankedInsightsCached(entries, userData, selectedMetrics, localCache);
+    return Promise.resolve({ signals, details: details ? getInsightDetailsCached(entries, userData, signals, selectedMetrics, localCache) : null });
+  } catch (err: any) {
+    return Promise.reject(err instanceof Error ? err : new Error(String(err)));
+  }
+}
+
+function request(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[], details: boolean): Promise<InsightReport> {
+  const w = getWorker();
+  if (!w) return runLocally(entries, userData, selectedMetrics, details);
+
+  const reset = sent.size === 0;
+  const upserts: CheckInEntry[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const iso = String(entry?.dateISO || '');
+    if (!iso) continue;
+    seen.add(iso);
+    const stamp = entryStamp(entry);
+    if (sent.get(iso) === stamp) continue;
+    upserts.push(entry);
+    sent.set(iso, stamp);
+  }
+  const removed = Array.from(sent.keys()).filter((iso) => !seen.has(iso));
+  removed.forEach((iso) => sent.delete(iso));
+
+  const id = nextId++;
+  const req: InsightWorkerRequest = { id, reset, upserts, removed, userData, selectedMetrics, details };
+  return new Promise<InsightReport>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    try {
+      w.postMessage(req);
+    } catch (err: any) {
+      pending.delete(id);
+      dropWorker();
+      reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  }).catch(() => runLocally(entries, userData, selectedMetrics, details));
+}
+
+/** Every ranked insight signal for these entries (what getTopInsights slices from). */
+export function requestRankedInsights(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[] = NO_METRICS): Promise<InsightSignal[]> {
+  return request(entries, userData, selectedMetrics, false).then((report) => report.signals);
+}
+
+/** Ranked signals with the lag patterns and drivers the Insights page shows next to them. */
+export function requestInsightReport(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[] = NO_METRICS): Promise<InsightReport> {
+  return request(entries, userData, selectedMetrics, true);
+}
+
+function useReport(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[], details: boolean): InsightReport | null {
+  const [report, setReport] = useState<InsightReport | null>(null);
+  const latest = useRef(0);
+
+  useEffect(() => {
+    const ticket = ++latest.current;
+    request(entries, userData, selectedMetrics, details)
+      .catch(() => runLocally(entries, userData, selectedMetrics, details))
+      .then(
+        (next) => {
+          if (ticket === latest.current) setReport(next);
+        },
+        () => {
+          // The pipeline itself failed on this data; show the page without signals rather than loading forever
+          if (ticket === latest.current) setReport({ signals: [], details: null });
+        }
+      );
+  }, [entries, userData, selectedMetrics, details]);
+
+  return report;
+}
+
+/**
+ * Ranked insight signals, or null while the first result is still being worked out
+ * (show a loading state, not "nothing yet"). Keeps the last result while recomputing.
+ */
+export function useRankedInsights(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[] = NO_METRICS): InsightSignal[] | null {
+  return useReport(entries, userData, selectedMetrics, false)?.signals ?? null;
+}
+
+/** useRankedInsights plus lag patterns and drivers; null while loading, like useRankedInsights. */
+export function useInsightReport(entries: CheckInEntry[], userData: UserData, selectedMetrics: InsightMetricKey[] = NO_METRICS): InsightReport | null {
+  return useReport(entries, userData, selectedMetrics, true);
+}
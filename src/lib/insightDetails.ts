@@ -0,0 +1,50 @@
+import type { CheckInEntry, InsightMetricKey, UserData } from '../types';
+import { cachedForRevision, syncInsightCache, type InsightCache } from './insightCache';
+import type { InsightSignal } from './insightEngine';
+import { detectLagPattern, type LagPattern } from './patternIntelligence';
+import { analyseSymptomDrivers, type SymptomDriverModel } from './symptomDrivers';
+
+/**
+ * The heavier reads the Insights page shows alongside the ranked signals: the lagged
+ * version of each pair, and a drivers model for each metric it might ask about. Worked
+ * out next to the signals (in insightWorker when it's running) so the page only looks
+ * them up. Pattern feedback lives in storage, so hiding pairs the user has turned down
+ * is left to the page (visibleLagPattern).
+ */
+
+export type InsightDetails = {
+  /** By lagKey(a, b), for every metric_pair signal */
+  lagPatterns: Record<string, LagPattern | null>;
+  /** By target metric: the selected metrics and every metric in a pair. Null until there's enough logged */
+  drivers: Record<string, SymptomDriverModel | null>;
+};
+
+export function lagKey(aKey: InsightMetricKey | string, bKey: InsightMetricKey | string): string {
+  return `${String(aKey)}|${String(bKey)}`;
+}
+
+/** Details for `signals` (the ranked list from the same entries), reusing `cache` per pair and per target. */
+export function getInsightDetailsCached(
+  entries: CheckInEntry[],
+  userData: UserData,
+  signals: InsightSignal[],
+  selectedMetrics: InsightMetricKey[],
+  cache: InsightCache,
+): InsightDetails {
+  syncInsightCache(cache, entries, userData);
+  const pairs = signals.filter((signal) => signal.type === 'metric_pair' && signal.metrics.length >= 2);
+
+  const lagPatterns: InsightDetails['lagPatterns'] = {};
+  for (const { metrics: [aKey, bKey] } of pairs) {
+    const key = lagKey(aKey, bKey);
+    lagPatterns[key] = cachedForRevision(cache, `lag|${key}`, () => detectLagPattern(entries, aKey, bKey, userData));
+  }
+
+  const drivers: InsightDetails['drivers'] = {};
+  const targets = new Set([...selectedMetrics, ...pairs.flatMap((signal) => signal.metrics)].map(String));
+  targets.forEach((target) => {
+    drivers[target] = cachedForRevision(cache, `drivers|${target}`, () => analyseSymptomDrivers(entries, userData, target));
+  });
+
+  return { lagPatterns, drivers };
+}
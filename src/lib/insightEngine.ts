@@ -1,12 +1,31 @@
 import type { CheckInEntry, CyclePhase, InsightMetricKey, SymptomKey, SymptomKind, UserData } from '../types';
-import { estimatePhaseByFlow, pearsonCorrelation, sortByDateAsc } from './analytics';
+import { pearsonCorrelation, sortByDateAsc } from './analytics';
+import { type CycleEngine, buildCycleEngine } from './cycleEngine';
+import { getDayCustomValue, getDayMood, getDayValue } from './checkInSlots';
 import { isoTodayLocal } from './date';
+import { changePointsInSeries, type ChangePointPoint } from './changePoints';
+import { isWorseChange, testEventEffects, type EventEffect } from './eventEffects';
+import { cachedForRevision, cachedPairSums, cachedSeries, syncInsightCache, type InsightCache, type PairSums } from './insightCache';
+import {
+  FDR_LEVEL,
+  benjaminiHochberg,
+  confidenceFromStats,
+  correlationStats,
+  effectiveSampleSizeFromRho,
+  effectiveSampleSizePair,
+  lag1AutocorrelationFromSums,
+  meanDifferenceStats,
+  type SignalStats,
+} from './insightStats';
+import { customInfluenceIdFromKey, customInfluenceLabelForKey, customInfluenceMetricKey, customInfluenceValue } from './customInfluences';
 import { isMetricInScope } from './insightsScope';
+import { MEASUREMENT_KEYS, getMeasurement, measurementKeyFromMetric, measurementLabelForKey, measurementMetricKey } from './measurements';
+import { medicationIdFromKey, medicationInfluenceValue, medicationLabelForKey, medicationMetricKey } from './medications';
 import { SYMPTOM_META } from './symptomMeta';
 
 export type InsightConfidence = 'low' | 'medium' | 'high';
 export type InsightStrength = 'weak' | 'moderate' | 'strong';
-export type InsightSignalType = 'phase_shift' | 'trend_shift' | 'metric_pair' | 'weekday_pattern' | 'low_data';
+export type InsightSignalType = 'phase_shift' | 'trend_shift' | 'metric_pair' | 'weekday_pattern' | 'event_effect' | 'low_data';
 
 export interface InsightSignal {
   id: string;
@@ -23,9 +42,17 @@ export interface InsightSignal {
     otherMetric?: InsightMetricKey;
     day?: string;
     delta?: number;
-    slope?: number;
+    /** trend_shift: first day of the new level */
+    changeDate?: string;
     correlation?: number;
+    /** event_effect: the influence (events key or `influence:<id>`), first day after it, how many days, standardised size */
+    event?: string;
+    lag?: number;
+    lagDays?: number;
+    effectSize?: number;
   };
+  /** metric_pair / phase_shift / trend_shift / event_effect: 95% interval, p and FDR-adjusted q, effective n */
+  stats?: SignalStats;
 }
 
 export interface StoredDiscoveredPattern {
@@ -44,6 +71,7 @@ export const INSIGHTS_HERO_ROTATION_KEY = 'everybody:v2:insights_hero_rotation';
 
 const DEFAULT_METRICS: InsightMetricKey[] = ['sleep', 'energy', 'stress', 'fatigue', 'brainFog', 'pain', 'nightSweats', 'mood'];
 const ROTATION_DAYS = 4;
+const TREND_RECENT_DAYS = 60;
 
 function clamp(n: number, lo: number, hi: number): number {
   return Math.max(lo, Math.min(hi, n));
@@ -64,6 +92,15 @@ function moodTo10(mood?: 1 | 2 | 3): number | undefined {
   return mood === 1 ? 2 : mood === 2 ? 5 : 8;
 }
 
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
 function mean(xs: number[]): number {
   if (!xs.length) return 0;
   return xs.reduce((a, b) => a + b, 0) / xs.length;
@@ -75,21 +112,21 @@ function variance(xs: number[]): number {
   return xs.reduce((acc, x) => acc + (x - m) * (x - m), 0) / (xs.length - 1);
 }
 
-function slope(values: Array<{ x: number; y: number }>): number {
-  if (values.length < 3) return NaN;
-  const xs = values.map((p) => p.x);
-  const ys = values.map((p) => p.y);
-  const mx = mean(xs);
-  const my = mean(ys);
-  let num = 0;
-  let den = 0;
-  for (let i = 0; i < values.length; i++) {
-    const dx = xs[i] - mx;
-    num += dx * (ys[i] - my);
-    den += dx * dx;
-  }
-  if (den === 0) return NaN;
-  return num / den;
+/** pairCore's numbers from running sums, so a cached pair only re-adds the days that changed. */
+function pairFromSums(s: PairSums) {
+  const { n } = s;
+  if (n < 4) return null;
+  const ssx = s.sxx - (s.sx * s.sx) / n;
+  const ssy = s.syy - (s.sy * s.sy) / n;
+  if (ssx / (n - 1) < 0.15 || ssy / (n - 1) < 0.15) return null;
+  const r = (s.sxy - (s.sx * s.sy) / n) / Math.sqrt(ssx * ssy);
+  if (!Number.isFinite(r)) return null;
+  const effectiveN = effectiveSampleSizeFromRho(
+    n,
+    lag1AutocorrelationFromSums(n, s.sx, s.sxx, s.lagX, s.firstX, s.lastX),
+    lag1AutocorrelationFromSums(n, s.sy, s.syy, s.lagY, s.firstY, s.lastY)
+  );
+  return { n, r, effectiveN, ...correlationStats(r, effectiveN) };
 }
 
 function labelForMetric(key: InsightMetricKey, user?: UserData): string {
@@ -127,6 +164,11 @@ function labelForMetric(key: InsightMetricKey, user?: UserData): string {
     const found = (user?.customSymptoms ?? []).find((s) => s.id === id);
     return found?.label ?? 'Custom symptom';
   }
+  const medLabel =
+    medicationLabelForKey(String(key), user) ??
+    customInfluenceLabelForKey(String(key), user) ??
+    measurementLabelForKey(String(key));
+  if (medLabel) return medLabel;
   return SYMPTOM_META[key as SymptomKey]?.label ?? fallback[key] ?? String(key);
 }
 
@@ -136,17 +178,26 @@ function getKindForMetric(key: InsightMetricKey, user: UserData): SymptomKind {
     const found = (user.customSymptoms ?? []).find((s) => s.id === id);
     return found?.kind ?? 'other';
   }
+  // Taking a medication is something you do, so treat it like other influences.
+  if (medicationIdFromKey(String(key)) || customInfluenceIdFromKey(String(key))) return 'behaviour';
   return SYMPTOM_META[key as SymptomKey]?.kind ?? 'other';
 }
 
 function getMetricValue(entry: CheckInEntry, key: InsightMetricKey, userData: UserData): number | undefined {
   if (!isMetricInScope(userData, String(key), String(entry.dateISO))) return undefined;
-  if (key === 'mood') return moodTo10(entry.mood);
+  if (key === 'mood') return moodTo10(getDayMood(entry));
   if (typeof key === 'string' && key.startsWith('custom:')) {
     const id = key.slice('custom:'.length);
-    return normalise10((entry as any)?.customValues?.[id]);
+    return normalise10(getDayCustomValue(entry, id));
   }
-  return normalise10((entry.values as any)?.[key]);
+  const medId = medicationIdFromKey(String(key));
+  if (medId) return medicationInfluenceValue(entry, medId, userData);
+  const influenceId = customInfluenceIdFromKey(String(key));
+  if (influenceId) return customInfluenceValue(entry, influenceId);
+  // Real units (kg, mmHg...) - correlation doesn't care about scale, so no squashing to 0–10
+  const measureKey = measurementKeyFromMetric(String(key));
+  if (measureKey) return getMeasurement(entry, measureKey);
+  return normalise10(getDayValue(entry, key as SymptomKey));
 }
 
 function confidenceFromStrength(value: number, sampleSize: number): InsightConfidence {
@@ -208,7 +259,7 @@ function dedupeSignals(signals: InsightSignal[]): InsightSignal[] {
   const seen = new Set<string>();
   const out: InsightSignal[] = [];
   for (const signal of signals) {
-    const key = `${signal.type}:${signal.metrics.join('|')}:${signal.phase ?? ''}:${signal.direction ?? ''}:${signal.summary.day ?? ''}`;
+    const key = `${signal.type}:${signal.metrics.join('|')}:${signal.phase ?? ''}:${signal.direction ?? ''}:${signal.summary.day ?? ''}:${signal.summary.event ?? ''}`;
     if (seen.has(key)) continue;
     seen.add(key);
     out.push(signal);
@@ -216,16 +267,16 @@ function dedupeSignals(signals: InsightSignal[]): InsightSignal[] {
   return out;
 }
 
-function getCurrentPhase(entries: CheckInEntry[], userData: UserData): string | null {
+function getCycleEngine(entries: CheckInEntry[], userData: UserData): CycleEngine | null {
   if (userData.cycleTrackingMode !== 'cycle' || !entries.length) return null;
   try {
-    return estimatePhaseByFlow(isoTodayLocal(), entries) ?? null;
+    return buildCycleEngine(entries, userData);
   } catch {
     return null;
   }
 }
 
-function getPhaseBuckets(entries: CheckInEntry[], userData: UserData): Record<string, CheckInEntry[]> {
+function getPhaseBuckets(entries: CheckInEntry[], engine: CycleEngine | null): Record<string, CheckInEntry[]> {
   const buckets: Record<string, CheckInEntry[]> = {
     Menstrual: [],
     Follicular: [],
@@ -233,9 +284,9 @@ function getPhaseBuckets(entries: CheckInEntry[], userData: UserData): Record<st
     Luteal: [],
     Unknown: [],
   };
-  if (userData.cycleTrackingMode !== 'cycle') return buckets;
+  if (!engine) return buckets;
   for (const entry of entries) {
-    const phase = estimatePhaseByFlow(String(entry.dateISO), entries) ?? 'Unknown';
+    const phase = engine.phaseOn(String(entry.dateISO)) ?? 'Unknown';
     const key = phase in buckets ? phase : 'Unknown';
     buckets[key].push(entry);
   }
@@ -253,12 +304,20 @@ function metricPrioritiesForPhase(phase: string | null): string[] {
   return phase ? (phasePriorities[phase] ?? []) : [];
 }
 
+/**
+ * Every candidate signal for these entries. Pass an InsightCache (synced to the same
+ * entries) to reuse per-metric series and pair stats from earlier runs.
+ */
 export function generateCandidateInsights(
   entriesInput: CheckInEntry[],
   userData: UserData,
   selectedMetrics: InsightMetricKey[] = [],
+  cache?: InsightCache,
 ): InsightSignal[] {
   const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  const seriesOf = (metric: InsightMetricKey) => cachedSeries(cache!, String(metric), (e) => getMetricValue(e, metric, userData));
+  const valueOf = (entry: CheckInEntry, metric: InsightMetricKey): number | undefined =>
+    cache ? seriesOf(metric).get(String(entry.dateISO)) : getMetricValue(entry, metric, userData);
   if (!entries.length) {
     return [
       {
@@ -277,14 +336,16 @@ export function generateCandidateInsights(
   }
 
   const candidateMetrics = Array.from(new Set<InsightMetricKey>([...selectedMetrics, ...DEFAULT_METRICS]));
-  const currentPhase = getCurrentPhase(entries, userData);
-  const phaseBuckets = getPhaseBuckets(entries, userData);
+  // Built once for the run: today's phase and the phase buckets both come from it
+  const engine = getCycleEngine(entriesInput, userData);
+  const currentPhase = engine?.phaseOn(isoTodayLocal()) ?? null;
+  const phaseBuckets = getPhaseBuckets(entries, engine);
   const preferred = metricPrioritiesForPhase(currentPhase);
   const metricCounts = new Map<InsightMetricKey, number>();
   candidateMetrics.forEach((metric) => {
     let count = 0;
     entries.forEach((entry) => {
-      if (getMetricValue(entry, metric, userData) != null) count += 1;
+      if (valueOf(entry, metric) != null) count += 1;
     });
     metricCounts.set(metric, count);
   });
@@ -296,95 +357,206 @@ export function generateCandidateInsights(
 
   const signals: InsightSignal[] = [];
 
+  // Every phase/trend/pair/influence comparison we run, shown or not, so the FDR correction counts
+  // them all. A signal only gets its stats once the correction has given it a q-value.
+  const tested: Array<{ pValue: number; solid: number; signal?: InsightSignal; stats?: Omit<SignalStats, 'qValue'> }> = [];
+
   if (currentPhase && (phaseBuckets[currentPhase] ?? []).length >= 3 && entries.length >= 8) {
-    const bucket = phaseBuckets[currentPhase] ?? [];
+    const bucket = new Set(phaseBuckets[currentPhase] ?? []);
     candidateMetrics.forEach((metric) => {
-      const phaseVals = bucket.map((entry) => getMetricValue(entry, metric, userData)).filter(hasNum);
-      const allVals = entries.map((entry) => getMetricValue(entry, metric, userData)).filter(hasNum);
-      if (phaseVals.length < 3 || allVals.length < 6) return;
-      const delta = mean(phaseVals) - mean(allVals);
-      if (Math.abs(delta) < 0.8) return;
-      const strength = strengthFromValue(Math.abs(delta));
-      const confidence = confidenceFromStrength(Math.min(1, Math.abs(delta) / 2), Math.min(phaseVals.length, allVals.length));
-      signals.push({
+      const phaseVals = entries.filter((entry) => bucket.has(entry)).map((entry) => valueOf(entry, metric)).filter(hasNum);
+      const restVals = entries.filter((entry) => !bucket.has(entry)).map((entry) => valueOf(entry, metric)).filter(hasNum);
+      if (phaseVals.length < 3 || restVals.length < 3 || phaseVals.length + restVals.length < 6) return;
+      // Compared with the rest of the cycle rather than all days, so the interval means something
+      const { delta, interval, pValue, effectiveN } = meanDifferenceStats(phaseVals, restVals);
+      if (Math.abs(delta) < 0.8) {
+        tested.push({ pValue, solid: 0.5 });
+        return;
+      }
+      const signal: InsightSignal = {
         id: `phase-${String(metric)}-${String(currentPhase).toLowerCase()}`,
         type: 'phase_shift',
         score: 58 + Math.round(Math.abs(delta) * 18) + phaseWeight([metric]),
-        confidence,
-        strength,
+        confidence: 'low',
+        strength: strengthFromValue(Math.abs(delta)),
         metrics: [metric],
         phase: currentPhase,
         direction: delta > 0 ? 'higher' : 'lower',
         sampleSize: phaseVals.length,
         summary: { metric, delta },
-      });
+      };
+      tested.push({ pValue, solid: 0.5, signal, stats: { interval, pValue, effectiveN } });
+      signals.push(signal);
     });
   }
 
+  // Trend = the latest real change in level, if it happened recently enough to still be "lately"
+  const phaseOfEntry = new Map<CheckInEntry, string>();
+  Object.entries(phaseBuckets).forEach(([phase, list]) => {
+    if (phase !== 'Unknown') list.forEach((entry) => phaseOfEntry.set(entry, phase));
+  });
+  const recentFrom = addDaysISO(String(entries[entries.length - 1].dateISO), -TREND_RECENT_DAYS);
   candidateMetrics.forEach((metric) => {
-    const pts: Array<{ x: number; y: number }> = [];
-    entries.forEach((entry, idx) => {
-      const value = getMetricValue(entry, metric, userData);
-      if (value != null) pts.push({ x: idx, y: value });
+    const pts: ChangePointPoint[] = [];
+    entries.forEach((entry) => {
+      const value = valueOf(entry, metric);
+      if (value != null) pts.push({ iso: String(entry.dateISO), value, phase: phaseOfEntry.get(entry) ?? null });
     });
-    if (pts.length < 4) return;
-    const metricSlope = slope(pts);
-    if (!Number.isFinite(metricSlope) || Math.abs(metricSlope) < 0.18) return;
-    const slopeAbs = Math.abs(metricSlope);
-    signals.push({
+    const latest = changePointsInSeries(pts, String(metric)).pop();
+    if (!latest || latest.dateISO < recentFrom) {
+      // Searched and found nothing recent: still one of the tests run
+      tested.push({ pValue: 1, solid: 1 });
+      return;
+    }
+    const beforeVals = pts.filter((p) => p.iso < latest.dateISO).slice(-latest.beforeDays).map((p) => p.value);
+    const afterVals = pts.filter((p) => p.iso >= latest.dateISO).map((p) => p.value);
+    // The change point's p allows for the cut having been picked to fit; the Welch test here only gives the interval
+    const { interval, effectiveN } = meanDifferenceStats(afterVals, beforeVals);
+    const signal: InsightSignal = {
       id: `trend-${String(metric)}`,
       type: 'trend_shift',
-      score: 45 + Math.round(slopeAbs * 40) + phaseWeight([metric]),
-      confidence: confidenceFromStrength(Math.min(1, slopeAbs), pts.length),
-      strength: strengthFromValue(slopeAbs * 4),
+      score: 45 + Math.round(Math.abs(latest.delta) * 12) + phaseWeight([metric]),
+      confidence: 'low',
+      strength: strengthFromValue(Math.abs(latest.delta)),
       metrics: [metric],
       phase: currentPhase,
-      direction: metricSlope > 0 ? 'higher' : 'lower',
-      sampleSize: pts.length,
-      summary: { metric, slope: metricSlope },
-    });
+      direction: latest.delta > 0 ? 'higher' : 'lower',
+      sampleSize: latest.beforeDays + latest.afterDays,
+      summary: { metric, delta: latest.delta, changeDate: latest.dateISO },
+    };
+    tested.push({ pValue: latest.pValue, solid: 1, signal, stats: { interval, pValue: latest.pValue, effectiveN } });
+    signals.push(signal);
   });
 
+  // The part of a pair that walks every day (pairFromSums is the cached equivalent)
+  const pairCore = (aKey: InsightMetricKey, bKey: InsightMetricKey) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const entry of entries) {
+      const av = valueOf(entry, aKey);
+      const bv = valueOf(entry, bKey);
+      if (hasNum(av) && hasNum(bv)) {
+        xs.push(av);
+        ys.push(bv);
+      }
+    }
+    const n = xs.length;
+    if (n < 4) return null;
+    if (variance(xs) < 0.15 || variance(ys) < 0.15) return null;
+    const r = pearsonCorrelation(xs, ys);
+    if (!Number.isFinite(r)) return null;
+    const effectiveN = effectiveSampleSizePair(xs, ys);
+    return { n, r, effectiveN, ...correlationStats(r, effectiveN) };
+  };
+
+  const pushPairSignal = (aKey: InsightMetricKey, bKey: InsightMetricKey) => {
+    if (aKey === bKey) return;
+    const kindA = getKindForMetric(aKey, userData);
+    const kindB = getKindForMetric(bKey, userData);
+    const bothBodyish = (kindA === 'physio' || kindA === 'hormonal') && (kindB === 'physio' || kindB === 'hormonal');
+    if (bothBodyish) return;
+    const core = cache ? pairFromSums(cachedPairSums(cache, String(aKey), String(bKey), seriesOf(aKey), seriesOf(bKey))) : pairCore(aKey, bKey);
+    if (!core) return;
+    const { n, r, effectiveN, interval, pValue } = core;
+    if (Math.abs(r) < 0.4) {
+      tested.push({ pValue, solid: 0.3 });
+      return;
+    }
+    const signal: InsightSignal = {
+      id: `pair-${String(aKey)}-${String(bKey)}`,
+      type: 'metric_pair',
+      score: insightQualityScore({ r, n: Math.round(effectiveN), kindA, kindB }) + phaseWeight([aKey, bKey]),
+      confidence: 'low',
+      strength: strengthFromValue(Math.abs(r) * 1.8),
+      metrics: [aKey, bKey],
+      phase: currentPhase,
+      direction: r >= 0 ? 'together' : 'inverse',
+      sampleSize: n,
+      summary: { metric: aKey, otherMetric: bKey, correlation: r },
+    };
+    tested.push({ pValue, solid: 0.3, signal, stats: { interval, pValue, effectiveN: Math.round(effectiveN * 10) / 10 } });
+    signals.push(signal);
+  };
+
   const pairKeys = candidateMetrics.slice(0, 14);
   for (let i = 0; i < pairKeys.length; i++) {
     for (let j = i + 1; j < pairKeys.length; j++) {
-      const aKey = pairKeys[i];
-      const bKey = pairKeys[j];
-      if (aKey === bKey) continue;
-      const xs: number[] = [];
-      const ys: number[] = [];
-      for (const entry of entries) {
-        const av = getMetricValue(entry, aKey, userData);
-        const bv = getMetricValue(entry, bKey, userData);
-        if (hasNum(av) && hasNum(bv)) {
-          xs.push(av);
-          ys.push(bv);
-        }
-      }
-      const n = xs.length;
-      if (n < 4) continue;
-      if (variance(xs) < 0.15 || variance(ys) < 0.15) continue;
-      const r = pearsonCorrelation(xs, ys);
-      if (!Number.isFinite(r) || Math.abs(r) < 0.4) continue;
-      const kindA = getKindForMetric(aKey, userData);
-      const kindB = getKindForMetric(bKey, userData);
-      const bothBodyish = (kindA === 'physio' || kindA === 'hormonal') && (kindB === 'physio' || kindB === 'hormonal');
-      if (bothBodyish) continue;
-      signals.push({
-        id: `pair-${String(aKey)}-${String(bKey)}`,
-        type: 'metric_pair',
-        score: insightQualityScore({ r, n, kindA, kindB }) + phaseWeight([aKey, bKey]),
-        confidence: confidenceFromStrength(Math.abs(r), n),
-        strength: strengthFromValue(Math.abs(r) * 1.8),
-        metrics: [aKey, bKey],
-        phase: currentPhase,
-        direction: r >= 0 ? 'together' : 'inverse',
-        sampleSize: n,
-        summary: { metric: aKey, otherMetric: bKey, correlation: r },
-      });
+      pushPairSignal(pairKeys[i], pairKeys[j]);
     }
   }
 
+  // Named medications and custom influences behave like yes/no influences (10 vs 0 days).
+  const influenceKeys: InsightMetricKey[] = [
+    ...(userData.medications ?? []).filter((med) => med?.id).map((med) => medicationMetricKey(med.id)),
+    ...(userData.customInfluences ?? []).filter((item) => item?.id).map((item) => customInfluenceMetricKey(item.id)),
+  ];
+  influenceKeys.forEach((influenceKey) => {
+    candidateMetrics.forEach((metric) => {
+      if (medicationIdFromKey(String(metric)) || customInfluenceIdFromKey(String(metric))) return;
+      pushPairSignal(influenceKey, metric);
+    });
+  });
+
+  // Body measurements (only ones actually logged). Measurement-vs-measurement pairs
+  // like systolic/diastolic are skipped - they always move together.
+  const measurementKeys: InsightMetricKey[] = MEASUREMENT_KEYS.filter((k) =>
+    entries.some((entry) => getMeasurement(entry, k) != null)
+  ).map((k) => measurementMetricKey(k));
+  measurementKeys.forEach((measureKey) => {
+    candidateMetrics.forEach((metric) => {
+      if (measurementKeyFromMetric(String(metric))) return;
+      pushPairSignal(measureKey, metric);
+    });
+  });
+
+  // Influences followed by a change over the next few days (vs matched days without them)
+  const effectTests = cache
+    ? cachedForRevision(cache, `effects|${candidateMetrics.join(',')}`, () => testEventEffects(entries, userData, { metrics: candidateMetrics }))
+    : testEventEffects(entries, userData, { metrics: candidateMetrics });
+  effectTests.forEach(({ pValue, effect }) => {
+    if (!effect) {
+      tested.push({ pValue, solid: 0.75 });
+      return;
+    }
+    const size = Math.abs(effect.effectSize);
+    const signal: InsightSignal = {
+      id: `event-${effect.event}-${String(effect.metric)}`,
+      type: 'event_effect',
+      score: 52 + Math.round(Math.min(size, 2) * 14) + phaseWeight([effect.metric]),
+      confidence: 'low',
+      strength: strengthFromValue(Math.abs(effect.delta)),
+      metrics: [effect.metric],
+      phase: currentPhase,
+      direction: effect.delta > 0 ? 'higher' : 'lower',
+      sampleSize: effect.sampleSize,
+      summary: {
+        metric: effect.metric,
+        delta: effect.delta,
+        event: effect.event,
+        lag: effect.lag,
+        lagDays: effect.lagDays,
+        effectSize: effect.effectSize,
+      },
+    };
+    const { interval, effectiveN } = effect.stats;
+    tested.push({ pValue, solid: 0.75, signal, stats: { interval, pValue, effectiveN } });
+    signals.push(signal);
+  });
+
+  // Multiple-testing control: confidence comes from the interval and the adjusted p, and
+  // anything that doesn't survive the correction can't be called more than weak.
+  const qValues = benjaminiHochberg(tested.map((t) => t.pValue));
+  tested.forEach((t, i) => {
+    const signal = t.signal;
+    if (!signal || !t.stats) return;
+    signal.stats = { ...t.stats, qValue: Math.round(qValues[i] * 1000) / 1000 };
+    signal.confidence = confidenceFromStats(signal.stats, t.solid);
+    if (signal.stats.qValue > FDR_LEVEL) {
+      signal.strength = 'weak';
+      signal.score -= 15;
+    }
+  });
+
   if (entries.length >= 6) {
     const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     candidateMetrics.forEach((metric) => {
@@ -394,7 +566,7 @@ export function generateCandidateInsights(
             const dt = new Date(`${entry.dateISO}T00:00:00`);
             return dt.getDay() === dayIndex;
           })
-          .map((entry) => getMetricValue(entry, metric, userData))
+          .map((entry) => valueOf(entry, metric))
           .filter(hasNum);
         return { day, vals, avg: vals.length ? mean(vals) : null };
       }).filter((row) => row.avg != null && row.vals.length >= 2);
@@ -443,9 +615,10 @@ export function scoreInsights(candidates: InsightSignal[]): InsightSignal[] {
   return candidates.map((candidate) => {
     const confidenceBoost = candidate.confidence === 'high' ? 11 : candidate.confidence === 'medium' ? 6 : 0;
     const strengthBoost = candidate.strength === 'strong' ? 10 : candidate.strength === 'moderate' ? 4 : 0;
-    const typeBoost = candidate.type === 'phase_shift' ? 14 : candidate.type === 'metric_pair' ? 7 : candidate.type === 'trend_shift' ? 3 : candidate.type === 'weekday_pattern' ? -20 : 0;
+    const typeBoost = candidate.type === 'phase_shift' ? 14 : candidate.type === 'metric_pair' ? 7 : candidate.type === 'trend_shift' ? 3 : candidate.type === 'event_effect' ? 8 : candidate.type === 'weekday_pattern' ? -20 : 0;
     const cycleBoost = candidate.phase && candidate.phase !== 'Unknown' ? 6 : 0;
-    const repeatabilityBoost = recencyWeight(candidate.sampleSize);
+    // Autocorrelated days count for less than fresh ones
+    const repeatabilityBoost = recencyWeight(candidate.stats ? candidate.stats.effectiveN : candidate.sampleSize);
     return { ...candidate, score: candidate.score + confidenceBoost + strengthBoost + typeBoost + cycleBoost + repeatabilityBoost };
   });
 }
@@ -460,6 +633,37 @@ export function rankInsights(scoredInsights: InsightSignal[]): InsightSignal[] {
     });
 }
 
+/**
+ * The full ranked list, reusing `cache` across calls. Only what the changed check-ins
+ * touch is recomputed; an unchanged set of entries returns the last result as is.
+ */
+export function getRankedInsightsCached(
+  entries: CheckInEntry[],
+  userData: UserData,
+  selectedMetrics: InsightMetricKey[],
+  cache: InsightCache,
+): InsightSignal[] {
+  syncInsightCache(cache, entries, userData);
+  // Today matters too: the current phase and what counts as "lately" move with it
+  const key = `ranked|${isoTodayLocal()}|${selectedMetrics.map(String).join(',')}`;
+  return cachedForRevision(cache, key, () => rankInsights(scoreInsights(generateCandidateInsights(entries, userData, selectedMetrics, cache))));
+}
+
+/**
+ * The influence effects behind the event_effect signals that survive the engine's FDR
+ * pass, biggest first. Same shape as analyseEventEffects, without testing everything again.
+ */
+export function eventEffectsFromSignals(signals: InsightSignal[], limit = 8): EventEffect[] {
+  const out: EventEffect[] = [];
+  for (const signal of signals) {
+    const { metric, event, delta, lag, lagDays, effectSize } = signal.summary;
+    if (signal.type !== 'event_effect' || !signal.stats || signal.stats.qValue > FDR_LEVEL) continue;
+    if (metric == null || event == null || delta == null || lag == null || lagDays == null || effectSize == null) continue;
+    out.push({ event, metric, lag, lagDays, delta, effectSize, sampleSize: signal.sampleSize, worse: isWorseChange(metric, delta), stats: signal.stats });
+  }
+  return out.sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize)).slice(0, limit);
+}
+
 export function getTopInsights(
   entries: CheckInEntry[],
   userData: UserData,
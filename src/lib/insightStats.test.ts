@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { meanDifferenceStats, tCritical95, tTestPValue } from './insightStats';
+
+describe('meanDifferenceStats', () => {
+  it('uses t tails for small groups', () => {
+    expect(tCritical95(4)).toBeCloseTo(2.776, 2);
+    expect(tTestPValue(tCritical95(9), 9)).toBeCloseTo(0.05, 4);
+
+    const stats = meanDifferenceStats([6, 7, 8, 6, 7], [3, 4, 5, 3, 4]);
+    expect(stats.delta).toBeCloseTo(3);
+    // A normal cut-off would put this around 1e-8
+    expect(stats.pValue).toBeGreaterThan(1e-4);
+    expect(stats.pValue).toBeLessThan(0.01);
+    expect(stats.interval.high - stats.interval.low).toBeGreaterThan(2 * 1.96 * Math.sqrt(0.7 / 5 + 0.7 / 5));
+  });
+
+  it('treats groups with no spread as untestable, not certain', () => {
+    const stats = meanDifferenceStats([7, 7, 7], [4, 4, 4]);
+    expect(stats.delta).toBe(3);
+    expect(stats.pValue).toBe(1);
+    expect(stats.interval.low).toBeLessThanOrEqual(0);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Small stats helpers so insight signals can say how sure they are.
+ *
+ * Daily logs aren't independent (a bad week is seven bad days in a row), so sample sizes
+ * are shrunk by lag-1 autocorrelation before working out intervals. With dozens of
+ * metric pairs tested at once some will look "strong" by luck, so p-values go through
+ * Benjamini–Hochberg across everything tested in the same run.
+ */
+
+export type StatInterval = {
+  low: number;
+  high: number;
+  level: 0.95;
+};
+
+export type SignalStats = {
+  /** 95% interval: for r (metric_pair) or the difference in points (phase_shift, trend_shift, event_effect) */
+  interval: StatInterval;
+  pValue: number;
+  /** Benjamini–Hochberg adjusted p across every candidate tested alongside this one */
+  qValue: number;
+  /** Sample size after allowing for day-to-day carry-over */
+  effectiveN: number;
+};
+
+/** False discovery rate we're willing to show as a real pattern. */
+export const FDR_LEVEL = 0.1;
+
+const Z95 = 1.96;
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+// Abramowitz & Stegun 7.1.26, good to ~1e-7 which is plenty here
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const a = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * a);
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-a * a);
+  return sign * y;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+function twoSidedP(z: number): number {
+  return Math.max(0, Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))));
+}
+
+// Lanczos approximation of ln Γ(x), x > 0
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const ci of c) ser += ci / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 3e-12) break;
+  }
+  return h;
+}
+
+// Regularised incomplete beta I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? (front * betaContinuedFraction(x, a, b)) / a : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Two-sided p-value for a t statistic with `df` degrees of freedom (small samples need the real t tails). */
+export function tTestPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  if (!(df > 0)) return 1;
+  return Math.max(0, Math.min(1, incompleteBeta(df / (df + t * t), df / 2, 0.5)));
+}
+
+/** Two-sided 95% cut-off for t with `df` degrees of freedom (bisection on tTestPValue). */
+export function tCritical95(df: number): number {
+  if (!(df > 0)) return Infinity;
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (tTestPValue(mid, df) > 0.05) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+}
+
+/** Lag-1 autocorrelation of a series in date order; 0 when there's too little to tell. */
+export function lag1Autocorrelation(xs: number[]): number {
+  if (xs.length < 4) return 0;
+  const m = mean(xs);
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const d = xs[i] - m;
+    den += d * d;
+    if (i > 0) num += d * (xs[i - 1] - m);
+  }
+  return den > 0 ? num / den : 0;
+}
+
+function clampRho(rho: number): number {
+  // Negative carry-over would inflate n; never give credit for that
+  return Number.isFinite(rho) ? Math.max(0, Math.min(0.9, rho)) : 0;
+}
+
+/**
+ * Same as lag1Autocorrelation, from running sums: Σx, Σx², Σ x·(previous x), and the
+ * first and last values.
+ */
+export function lag1AutocorrelationFromSums(n: number, sum: number, sumSq: number, lagSum: number, first: number, last: number): number {
+  if (n < 4) return 0;
+  const m = sum / n;
+  const den = sumSq - n * m * m;
+  const num = lagSum - m * (2 * sum - first - last) + (n - 1) * m * m;
+  return den > 0 ? num / den : 0;
+}
+
+/**
+ * Effective n for a correlation between two autocorrelated series (Bartlett's
+ * approximation): n · (1 − ρxρy) / (1 + ρxρy).
+ */
+export function effectiveSampleSizeFromRho(n: number, rhoX: number, rhoY: number): number {
+  const rr = clampRho(rhoX) * clampRho(rhoY);
+  return Math.max(Math.min(n, 2), n * ((1 - rr) / (1 + rr)));
+}
+
+export function effectiveSampleSizePair(xs: number[], ys: number[]): number {
+  return effectiveSampleSizeFromRho(Math.min(xs.length, ys.length), lag1Autocorrelation(xs), lag1Autocorrelation(ys));
+}
+
+/** Effective n for the mean of one autocorrelated series: n · (1 − ρ) / (1 + ρ). */
+export function effectiveSampleSize(xs: number[]): number {
+  const rho = clampRho(lag1Autocorrelation(xs));
+  return Math.max(Math.min(xs.length, 1), xs.length * ((1 - rho) / (1 + rho)));
+}
+
+/** Fisher-z 95% interval and p-value for a correlation. */
+export function correlationStats(r: number, effectiveN: number): { interval: StatInterval; pValue: number } {
+  const clipped = Math.max(-0.999, Math.min(0.999, r));
+  const z = Math.atanh(clipped);
+  if (effectiveN <= 3) return { interval: { low: -1, high: 1, level: 0.95 }, pValue: 1 };
+  const se = 1 / Math.sqrt(effectiveN - 3);
+  return {
+    interval: { low: round3(Math.tanh(z - Z95 * se)), high: round3(Math.tanh(z + Z95 * se)), level: 0.95 },
+    pValue: twoSidedP(z / se),
+  };
+}
+
+/**
+ * 95% interval and p-value for mean(a) − mean(b): Welch's t-test with each group's
+ * effective n, and Welch–Satterthwaite degrees of freedom. Groups with no spread (or a
+ * single effective day) can't be tested, so they get p = 1 and an interval that keeps 0.
+ */
+export function meanDifferenceStats(a: number[], b: number[]): { delta: number; interval: StatInterval; pValue: number; effectiveN: number } {
+  const delta = mean(a) - mean(b);
+  const nA = effectiveSampleSize(a);
+  const nB = effectiveSampleSize(b);
+  const varOf = (xs: number[]) => {
+    if (xs.length < 2) return 0;
+    const m = mean(xs);
+    return xs.reduce((acc, x) => acc + (x - m) * (x - m), 0) / (xs.length - 1);
+  };
+  const wA = varOf(a) / Math.max(1, nA);
+  const wB = varOf(b) / Math.max(1, nB);
+  const se = Math.sqrt(wA + wB);
+  const effectiveN = round3(Math.min(nA, nB));
+  const df = nA > 1 && nB > 1 ? (wA + wB) ** 2 / ((wA * wA) / (nA - 1) + (wB * wB) / (nB - 1)) : 0;
+  if (!(se > 0) || !(df > 0)) {
+    return { delta, interval: { low: round3(Math.min(0, delta)), high: round3(Math.max(0, delta)), level: 0.95 }, pValue: 1, effectiveN };
+  }
+  const margin = tCritical95(df) * se;
+  return {
+    delta,
+    interval: { low: round3(delta - margin), high: round3(delta + margin), level: 0.95 },
+    pValue: tTestPValue(delta / se, df),
+    effectiveN,
+  };
+}
+
+/** Benjamini–Hochberg adjusted p-values (q-values), returned in the input order. */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  if (!m) return [];
+  const order = pValues.map((p, i) => ({ p: Number.isFinite(p) ? p : 1, i })).sort((a, b) => a.p - b.p);
+  const q = new Array<number>(m).fill(1);
+  let running = 1;
+  for (let k = m - 1; k >= 0; k--) {
+    running = Math.min(running, (order[k].p * m) / (k + 1));
+    q[order[k].i] = Math.min(1, running);
+  }
+  return q;
+}
+
+/** The end of the interval closest to zero, or 0 when the interval straddles it. */
+export function weakestPlausible(interval: StatInterval): number {
+  if (interval.low <= 0 && interval.high >= 0) return 0;
+  return Math.min(Math.abs(interval.low), Math.abs(interval.high));
+}
+
+/**
+ * Confidence from the interval rather than the point estimate. `solid` is how big the
+ * weakest plausible effect needs to be for "high" (0.3 for r, ~0.5 points for a shift).
+ */
+export function confidenceFromStats(stats: Pick<SignalStats, 'interval' | 'qValue' | 'effectiveN'>, solid: number): 'low' | 'medium' | 'high' {
+  const floor = weakestPlausible(stats.interval);
+  if (stats.qValue <= FDR_LEVEL / 2 && floor >= solid && stats.effectiveN >= 10) return 'high';
+  if (stats.qValue <= FDR_LEVEL && floor > 0 && stats.effectiveN >= 6) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,51 @@
+import type { CheckInEntry, InsightMetricKey, UserData } from '../types';
+import { createInsightCache } from './insightCache';
+import { getInsightDetailsCached, type InsightDetails } from './insightDetails';
+import { getRankedInsightsCached } from './insightEngine';
+
+/**
+ * Runs the insight pipeline off the main thread. The page sends only the check-ins that
+ * changed since its last message (see insightClient); the worker keeps the full set and
+ * an InsightCache between messages, so one saved check-in only redoes what it touches.
+ */
+
+export type InsightWorkerRequest = {
+  id: number;
+  /** Start again from an empty set (first message, or after the worker was replaced) */
+  reset: boolean;
+  upserts: CheckInEntry[];
+  removed: string[];
+  userData: UserData;
+  selectedMetrics: InsightMetricKey[];
+  /** Also send lag patterns and drivers (the Insights page); everyone else only needs the signals */
+  details: boolean;
+};
+
+export type InsightWorkerResponse =
+  | { id: number; ok: true; signals: ReturnType<typeof getRankedInsightsCached>; details: InsightDetails | null }
+  | { id: number; ok: false; error: string };
+
+// The worker side of `self`, typed to just what we use (the DOM lib has no worker scope)
+type InsightWorkerScope = {
+  onmessage: ((event: MessageEvent<InsightWorkerRequest>) => void) | null;
+  postMessage: (message: InsightWorkerResponse) => void;
+};
+
+const ctx = self as unknown as InsightWorkerScope;
+const cache = createInsightCache();
+const entries = new Map<string, CheckInEntry>();
+
+ctx.onmessage = (event) => {
+  const req = event.data;
+  try {
+    if (req.reset) entries.clear();
+    for (const iso of req.removed) entries.delete(iso);
+    for (const entry of req.upserts) entries.set(String(entry.dateISO), entry);
+    const list = Array.from(entries.values());
+    const signals = getRankedInsightsCached(list, req.userData, req.selectedMetrics, cache);
+    const details = req.details ? getInsightDetailsCached(list, req.userData, signals, req.selectedMetrics, cache) : null;
+    ctx.postMessage({ id: req.id, ok: true, signals, details });
+  } catch (err: any) {
+    ctx.postMessage({ id: req.id, ok: false, error: String(err?.message || err) });
+  }
+};
@@ -0,0 +1,127 @@
+import type { CheckInEntry, MeasurementKey, MeasurementUnits, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+
+/**
+ * Body measurements (weight, blood pressure, resting heart rate, temperature).
+ *
+ * These keep their real units, so they are stored on entry.measurements rather
+ * than entry.values (which is all 0–10 sliders). Storage is always kg, mmHg,
+ * bpm and °C; UserData.measurementUnits only changes what we show and accept.
+ * In Insights they use the metric key `measure:<key>`.
+ */
+
+type MeasurementDef = {
+  label: string;
+  /** Storage unit */
+  unit: string;
+  /** Plausible range in storage units (anything outside is treated as a typo) */
+  min: number;
+  max: number;
+  decimals: number;
+};
+
+export const MEASUREMENT_DEFS: Record<MeasurementKey, MeasurementDef> = {
+  weight: { label: 'Weight', unit: 'kg', min: 20, max: 350, decimals: 1 },
+  bpSystolic: { label: 'Blood pressure (systolic)', unit: 'mmHg', min: 60, max: 260, decimals: 0 },
+  bpDiastolic: { label: 'Blood pressure (diastolic)', unit: 'mmHg', min: 30, max: 160, decimals: 0 },
+  restingHR: { label: 'Resting heart rate', unit: 'bpm', min: 25, max: 220, decimals: 0 },
+  temperature: { label: 'Temperature', unit: '°C', min: 34, max: 43, decimals: 1 },
+};
+
+export const MEASUREMENT_KEYS = Object.keys(MEASUREMENT_DEFS) as MeasurementKey[];
+
+/** What people pick in settings - blood pressure is one choice, stored as two numbers. */
+export const MEASUREMENT_OPTIONS: Array<{ key: 'weight' | 'bloodPressure' | 'restingHR' | 'temperature'; label: string; keys: MeasurementKey[] }> = [
+  { key: 'weight', label: 'Weight', keys: ['weight'] },
+  { key: 'bloodPressure', label: 'Blood pressure', keys: ['bpSystolic', 'bpDiastolic'] },
+  { key: 'restingHR', label: 'Resting heart rate', keys: ['restingHR'] },
+  { key: 'temperature', label: 'Temperature', keys: ['temperature'] },
+];
+
+export function isMeasurementKey(key: unknown): key is MeasurementKey {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(MEASUREMENT_DEFS, key);
+}
+
+export function measurementMetricKey(key: MeasurementKey): `measure:${MeasurementKey}` {
+  return `measure:${key}`;
+}
+
+export function measurementKeyFromMetric(key: string): MeasurementKey | null {
+  if (typeof key !== 'string' || !key.startsWith('measure:')) return null;
+  const k = key.slice('measure:'.length);
+  return isMeasurementKey(k) ? k : null;
+}
+
+export function measurementLabelForKey(key: string): string | null {
+  const k = measurementKeyFromMetric(key);
+  return k ? MEASUREMENT_DEFS[k].label : null;
+}
+
+export function getEnabledMeasurements(userData: UserData): MeasurementKey[] {
+  return (userData.enabledMeasurements ?? []).filter(isMeasurementKey);
+}
+
+export function getMeasurementUnits(userData: UserData): Required<MeasurementUnits> {
+  return {
+    weight: userData.measurementUnits?.weight ?? 'kg',
+    temperature: userData.measurementUnits?.temperature ?? 'C',
+  };
+}
+
+export function displayUnitFor(key: MeasurementKey, units: MeasurementUnits = {}): string {
+  if (key === 'weight') return units.weight === 'lb' ? 'lb' : 'kg';
+  if (key === 'temperature') return units.temperature === 'F' ? '°F' : '°C';
+  return MEASUREMENT_DEFS[key].unit;
+}
+
+function round(v: number, decimals: number): number {
+  const f = Math.pow(10, decimals);
+  return Math.round(v * f) / f;
+}
+
+/** Storage value → the user's preferred unit. */
+export function toDisplayUnit(key: MeasurementKey, value: number, units: MeasurementUnits = {}): number {
+  if (key === 'weight' && units.weight === 'lb') return round(value * 2.20462, 1);
+  if (key === 'temperature' && units.temperature === 'F') return round((value * 9) / 5 + 32, 1);
+  return round(value, MEASUREMENT_DEFS[key].decimals);
+}
+
+/** Typed value in the user's unit → storage value, or null if it isn't plausible. */
+export function fromDisplayUnit(key: MeasurementKey, value: number, units: MeasurementUnits = {}): number | null {
+  if (!Number.isFinite(value)) return null;
+  let v = value;
+  if (key === 'weight' && units.weight === 'lb') v = value / 2.20462;
+  if (key === 'temperature' && units.temperature === 'F') v = ((value - 32) * 5) / 9;
+  const def = MEASUREMENT_DEFS[key];
+  if (v < def.min || v > def.max) return null;
+  return round(v, key === 'weight' || key === 'temperature' ? 2 : 0);
+}
+
+export function formatMeasurement(key: MeasurementKey, value: number, units: MeasurementUnits = {}): string {
+  const unit = displayUnitFor(key, units);
+  const v = toDisplayUnit(key, value, units);
+  return unit.startsWith('°') ? `${v}${unit}` : `${v} ${unit}`;
+}
+
+export function getMeasurement(entry: CheckInEntry | null | undefined, key: MeasurementKey): number | undefined {
+  const v = entry?.measurements?.[key];
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
+export function hasAnyMeasurements(entries: CheckInEntry[]): boolean {
+  return (entries ?? []).some((e) => MEASUREMENT_KEYS.some((k) => getMeasurement(e, k) != null));
+}
+
+/** Day-by-day values in display units (only days with a reading). */
+export function getMeasurementSeries(
+  entries: CheckInEntry[],
+  key: MeasurementKey,
+  units: MeasurementUnits = {}
+): Array<{ dateISO: string; value: number }> {
+  return sortByDateAsc(entries)
+    .map((e) => {
+      const v = getMeasurement(e, key);
+      return v == null ? null : { dateISO: e.dateISO, value: toDisplayUnit(key, v, units) };
+    })
+    .filter((p): p is { dateISO: string; value: number } => p != null);
+}
@@ -0,0 +1,118 @@
+import type { CheckInEntry, Medication, MedicationSchedule, UserData } from '../types';
+import { isoTodayLocal } from './date';
+
+/**
+ * Medication + supplement helpers.
+ *
+ * The registry lives on UserData.medications, doses are logged per day in
+ * entry.medicationDoses (keyed by Medication.id). For Insights, each medication
+ * can be used like an influence via the metric key `med:<id>`.
+ */
+
+export const MEDICATION_SCHEDULE_LABELS: Record<MedicationSchedule, string> = {
+  daily: 'Once a day',
+  twice_daily: 'Twice a day',
+  weekly: 'Once a week',
+  as_needed: 'As needed',
+};
+
+export function dosesPerDay(schedule: MedicationSchedule): number {
+  if (schedule === 'twice_daily') return 2;
+  if (schedule === 'daily') return 1;
+  if (schedule === 'weekly') return 1 / 7;
+  return 0;
+}
+
+export function medicationMetricKey(id: string): `med:${string}` {
+  return `med:${id}`;
+}
+
+export function medicationIdFromKey(key: string): string | null {
+  return typeof key === 'string' && key.startsWith('med:') ? key.slice('med:'.length) : null;
+}
+
+export function formatMedicationDose(med: Medication): string {
+  if (typeof med.dose !== 'number' || !Number.isFinite(med.dose)) return '';
+  return `${med.dose}${med.unit ? ` ${med.unit}` : ''}`;
+}
+
+export function medicationLabelForKey(key: string, userData?: UserData): string | null {
+  const id = medicationIdFromKey(key);
+  if (!id) return null;
+  const med = (userData?.medications ?? []).find((m) => m.id === id);
+  return med?.name ?? 'Medication';
+}
+
+export function isMedicationActiveOn(med: Medication, dateISO: string): boolean {
+  if (med.startISO && dateISO < med.startISO) return false;
+  if (med.stopISO && dateISO > med.stopISO) return false;
+  return true;
+}
+
+export function getActiveMedications(userData: UserData, dateISO: string = isoTodayLocal()): Medication[] {
+  return (userData.medications ?? []).filter((m) => m && m.name && isMedicationActiveOn(m, dateISO));
+}
+
+/** Doses logged for a medication on this entry (undefined = not logged that day). */
+export function dosesTakenOn(entry: CheckInEntry | null | undefined, medId: string): number | undefined {
+  const v = entry?.medicationDoses?.[medId];
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
+/**
+ * Influence-style value for Insights: 10 on days it was taken, 0 on days it was
+ * logged as not taken. Days without dose logging are unknown (not "missed").
+ */
+export function medicationInfluenceValue(entry: CheckInEntry, medId: string, userData: UserData): number | undefined {
+  const med = (userData.medications ?? []).find((m) => m.id === medId);
+  if (!med || !isMedicationActiveOn(med, entry.dateISO)) return undefined;
+  const taken = dosesTakenOn(entry, medId);
+  if (taken == null) return undefined;
+  return taken > 0 ? 10 : 0;
+}
+
+export type MedicationAdherence = {
+  medicationId: string;
+  /** Days in the window with a check-in while the medication was active */
+  daysLogged: number;
+  expectedDoses: number;
+  takenDoses: number;
+  /** 0–100, or null for "as needed" medications / not enough data */
+  percent: number | null;
+};
+
+/**
+ * Adherence over the last `days` days. Only days with a check-in count, so a
+ * missed check-in is not treated as a missed dose.
+ */
+export function getMedicationAdherence(
+  entries: CheckInEntry[],
+  med: Medication,
+  opts: { days?: number; todayISO?: string } = {}
+): MedicationAdherence {
+  const days = opts.days ?? 30;
+  const todayISO = opts.todayISO ?? isoTodayLocal();
+  const from = new Date(`${todayISO}T00:00:00`);
+  from.setDate(from.getDate() - (days - 1));
+  const fromISO = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`;
+
+  const inWindow = (entries ?? []).filter(
+    (e) => e?.dateISO >= fromISO && e.dateISO <= todayISO && isMedicationActiveOn(med, e.dateISO) && dosesTakenOn(e, med.id) != null
+  );
+
+  const perDay = dosesPerDay(med.schedule);
+  const expectedDoses = inWindow.length * perDay;
+  let takenDoses = 0;
+  for (const e of inWindow) {
+    const taken = dosesTakenOn(e, med.id) ?? 0;
+    // Daily schedules: extra doses on one day don't make up for a missed day.
+    takenDoses += med.schedule === 'weekly' || med.schedule === 'as_needed' ? taken : Math.min(taken, perDay);
+  }
+
+  let percent: number | null = null;
+  if (perDay > 0 && expectedDoses >= 1) {
+    percent = Math.round(Math.min(1, takenDoses / expectedDoses) * 100);
+  }
+
+  return { medicationId: med.id, daysLogged: inWindow.length, expectedDoses, takenDoses, percent };
+}
@@ -0,0 +1,166 @@
+import type { CheckInEntry, UserData } from '../types';
+import { type CycleSources, sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+import { getActiveRegimens, isCycleSuppressedOn, isHrtKind } from './hormonalRegimen';
+import { spansPregnancyGap } from './pregnancy';
+
+/**
+ * Menopause transition staging (STRAW+10, bleeding criteria only).
+ *
+ * - Early perimenopause: a persistent 7+ day difference in length between consecutive
+ *   cycles ("persistent" = it happens again within 10 cycles)
+ * - Late perimenopause: a gap of 60+ days without a period
+ * - Menopause: 12 months with no bleeding after the final period
+ *
+ * We can't stage on hormonal contraception (bleeds aren't natural), and it's only as
+ * good as the logging, so the 12-month milestone needs the year to be reasonably logged.
+ */
+
+export type MenopauseStage = 'not_enough_data' | 'reproductive' | 'early_perimenopause' | 'late_perimenopause' | 'postmenopause';
+
+export const MENOPAUSE_STAGE_LABELS: Record<MenopauseStage, string> = {
+  not_enough_data: 'Not enough data yet',
+  reproductive: 'Regular cycles',
+  early_perimenopause: 'Early perimenopause',
+  late_perimenopause: 'Late perimenopause',
+  postmenopause: 'Post-menopause',
+};
+
+const VARIABILITY_DAYS = 7;
+const PERSISTENCE_CYCLES = 10;
+const AMENORRHOEA_DAYS = 60;
+const MENOPAUSE_DAYS = 365;
+// At least this many of the 12 months since the last bleed need check-ins
+const MIN_LOGGED_MONTHS = 9;
+
+export type MenopauseTransition = {
+  stage: MenopauseStage;
+  /** Last day with (non-breakthrough) bleeding logged */
+  lastBleedISO: string | null;
+  daysSinceLastBleed: number | null;
+  /** Longest stretch between periods, including the one still running */
+  longestGapDays: number | null;
+  /** Consecutive-cycle length differences of 7+ days */
+  variableCycles: number;
+  /** Months with check-ins since the last bleed (caps at 12) */
+  loggedMonthsSinceBleed: number;
+  note: string | null;
+};
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function flowTo10(v: any): number {
+  if (typeof v !== 'number') return 0;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+export function getLastBleedISO(entries: CheckInEntry[]): string | null {
+  const sorted = sortByDateAsc(entries);
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const e: any = sorted[i];
+    if (flowTo10(e?.values?.flow) > 0 && !e?.breakthroughBleed) return e.dateISO;
+  }
+  return null;
+}
+
+function loggedMonthsSince(entries: CheckInEntry[], fromISO: string, todayISO: string): number {
+  const months = new Set<string>();
+  for (const e of entries ?? []) {
+    const iso = (e as any)?.dateISO;
+    if (typeof iso === 'string' && iso > fromISO && iso <= todayISO) months.add(iso.slice(0, 7));
+  }
+  return Math.min(12, months.size);
+}
+
+export function getMenopauseTransition(
+  entries: CheckInEntry[],
+  sources?: CycleSources,
+  todayISO: string = isoTodayLocal()
+): MenopauseTransition {
+  const { starts } = buildCycleEngine(entries, sources, todayISO);
+  const lastBleedISO = getLastBleedISO(entries);
+  const daysSinceLastBleed = lastBleedISO ? daysBetweenISO(lastBleedISO, todayISO) : null;
+  const loggedMonthsSinceBleed = lastBleedISO ? loggedMonthsSince(entries, lastBleedISO, todayISO) : 0;
+
+  // Cycle lengths, leaving out pregnancies
+  const lengths: number[] = [];
+  for (let i = 0; i < starts.length - 1; i++) {
+    if (spansPregnancyGap(sources, starts[i], starts[i + 1])) continue;
+    const len = daysBetweenISO(starts[i], starts[i + 1]);
+    if (len >= 10) lengths.push(len);
+  }
+
+  // The gap still running only counts if you've actually been checking in during it
+  const gaps = [...lengths];
+  if (daysSinceLastBleed != null && loggedMonthsSinceBleed >= 2) gaps.push(daysSinceLastBleed);
+  const longestGapDays = gaps.length ? Math.max(...gaps) : null;
+
+  // Differences between consecutive "normal-ish" cycles (60+ day gaps are the late stage signal instead)
+  const variableAt: number[] = [];
+  for (let i = 1; i < lengths.length; i++) {
+    if (lengths[i] >= AMENORRHOEA_DAYS || lengths[i - 1] >= AMENORRHOEA_DAYS) continue;
+    if (Math.abs(lengths[i] - lengths[i - 1]) >= VARIABILITY_DAYS) variableAt.push(i);
+  }
+  const persistent = variableAt.some((idx, k) => variableAt[k + 1] != null && variableAt[k + 1] - idx <= PERSISTENCE_CYCLES);
+
+  const base = {
+    lastBleedISO,
+    daysSinceLastBleed,
+    longestGapDays,
+    variableCycles: variableAt.length,
+    loggedMonthsSinceBleed,
+  };
+
+  if (isCycleSuppressedOn(sources, todayISO)) {
+    return {
+      ...base,
+      stage: 'not_enough_data',
+      note: "Hormonal contraception hides your natural bleeding pattern, so we can't stage the transition while you're on it.",
+    };
+  }
+
+  const onHrt = getActiveRegimens(sources, todayISO).some((r) => isHrtKind(r.kind));
+  const hrtNote = onHrt ? ' HRT can cause bleeds of its own, so treat this as a rough guide.' : '';
+
+  if (daysSinceLastBleed != null && daysSinceLastBleed >= MENOPAUSE_DAYS && loggedMonthsSinceBleed >= MIN_LOGGED_MONTHS) {
+    return {
+      ...base,
+      stage: 'postmenopause',
+      note: `12 months without a period since ${lastBleedISO}. That's the usual marker for menopause.${hrtNote}`,
+    };
+  }
+
+  if (longestGapDays != null && longestGapDays >= AMENORRHOEA_DAYS) {
+    return {
+      ...base,
+      stage: 'late_perimenopause',
+      note: `You've had a gap of ${longestGapDays} days without a period. Gaps of 60+ days are typical of late perimenopause.${hrtNote}`,
+    };
+  }
+
+  if (persistent) {
+    return {
+      ...base,
+      stage: 'early_perimenopause',
+      note: `Your cycle length has changed by a week or more between cycles ${variableAt.length} times. That kind of repeat variation is typical of early perimenopause.${hrtNote}`,
+    };
+  }
+
+  if (lengths.length < 3) {
+    return { ...base, stage: 'not_enough_data', note: 'Log a few more periods and we can show where you are in the transition.' };
+  }
+
+  return { ...base, stage: 'reproductive', note: `Your cycle lengths have been fairly steady so far.${hrtNote}` };
+}
+
+/** The bleed-free date the milestone is about, or null if it hasn't been reached. */
+export function getMenopauseMilestoneISO(entries: CheckInEntry[], userData: UserData, todayISO: string = isoTodayLocal()): string | null {
+  if (userData.goal !== 'perimenopause') return null;
+  const t = getMenopauseTransition(entries, userData, todayISO);
+  return t.stage === 'postmenopause' ? t.lastBleedISO : null;
+}
@@ -1,4 +1,7 @@
-import type { InsightMetricKey } from '../types';
+import type { InsightMetricKey, UserData } from '../types';
+import { customInfluenceIdFromKey } from './customInfluences';
+import { isMedicationActiveOn, medicationIdFromKey } from './medications';
+import { isoTodayLocal } from './date';
 
 export const DRIVER_LABELS = {
   hormones: 'Hormones',
@@ -19,10 +22,12 @@ export const DRIVER_LABELS = {
   activity: 'Activity',
   cycle_timing: 'Cycle timing',
   overstimulation: 'Overstimulation',
+  medication: 'Medication or supplement',
   not_sure: 'Not sure',
 } as const;
 
-export type PatternDriverHint = keyof typeof DRIVER_LABELS;
+// Named medications and custom influences can be picked as a driver too.
+export type PatternDriverHint = keyof typeof DRIVER_LABELS | `med:${string}` | `influence:${string}`;
 
 type DriverOption = { key: PatternDriverHint; label: string };
 
@@ -45,6 +50,7 @@ const DRIVER_PRIORITY: Record<PatternDriverHint, number> = {
   activity: 4,
   cycle_timing: 6,
   overstimulation: 5,
+  medication: 5,
   not_sure: 0,
 };
 
@@ -84,9 +90,14 @@ const METRIC_DRIVER_MAP: Partial<Record<InsightMetricKey | string, PatternDriver
   hotFlushes: ['hormones', 'temperature', 'stress', 'caffeine'],
   nightSweats: ['hormones', 'temperature', 'poor_sleep', 'recovery_illness', 'stress'],
   restlessLegs: ['poor_sleep', 'nutrition', 'stress', 'activity'],
+  swelling: ['hormones', 'hydration', 'activity', 'temperature'],
+  pelvicGirdlePain: ['hormones', 'activity', 'pain_tension'],
+  afterPains: ['hormones', 'recovery_illness'],
+  perinealPain: ['recovery_illness', 'activity', 'pain_tension'],
+  nipplePain: ['hormones', 'recovery_illness'],
 };
 
-const METRIC_TO_DRIVER_EQUIVALENT: Partial<Record<InsightMetricKey | string, PatternDriverHint>> = {
+const METRIC_TO_DRIVER_EQUIVALENT: Partial<Record<InsightMetricKey | string, keyof typeof DRIVER_LABELS>> = {
   sleep: 'poor_sleep',
   insomnia: 'poor_sleep',
   stress: 'stress',
@@ -105,40 +116,134 @@ const METRIC_TO_DRIVER_EQUIVALENT: Partial<Record<InsightMetricKey | string, Pat
   flow: 'cycle_timing',
 };
 
+// Built-in influences (check-in events) to the closest driver
+const EVENT_TO_DRIVER: Record<string, keyof typeof DRIVER_LABELS> = {
+  alcohol: 'nutrition',
+  caffeine: 'caffeine',
+  lateNight: 'routine',
+  stressfulDay: 'stress',
+  exercise: 'activity',
+  illness: 'recovery_illness',
+  travel: 'routine',
+  socialising: 'overstimulation',
+  lowHydration: 'hydration',
+  medication: 'medication',
+};
+
+/**
+ * Driver hint for a feature in the drivers model: a metric key, `event:<key>`, `phase:<key>`,
+ * or a `med:` / `influence:` key (those are drivers in their own right).
+ */
+export function driverHintForFeature(key: string): PatternDriverHint | null {
+  if (medicationIdFromKey(key) || customInfluenceIdFromKey(key)) return key as PatternDriverHint;
+  if (key.startsWith('event:')) return EVENT_TO_DRIVER[key.slice('event:'.length)] ?? null;
+  if (key.startsWith('phase:')) return 'cycle_timing';
+  return METRIC_TO_DRIVER_EQUIVALENT[key] ?? null;
+}
+
 function uniqueMetrics(metrics: Array<InsightMetricKey | string>): string[] {
   return Array.from(new Set(metrics.map((metric) => String(metric)).filter(Boolean)));
 }
 
-export function getSuggestedDriverOptionsForMetrics(metrics: Array<InsightMetricKey | string>): DriverOption[] {
+type DriverSources = Pick<UserData, 'medications' | 'customInfluences'>;
+
+function builtInDriverKey(key: string | undefined): keyof typeof DRIVER_LABELS | null {
+  return key && key in DRIVER_LABELS ? (key as keyof typeof DRIVER_LABELS) : null;
+}
+
+export function getDriverLabel(key: PatternDriverHint, sources?: DriverSources): string {
+  const medId = medicationIdFromKey(key);
+  if (medId) return (sources?.medications ?? []).find((m) => m.id === medId)?.name ?? DRIVER_LABELS.medication;
+  const influenceId = customInfluenceIdFromKey(key);
+  if (influenceId) return (sources?.customInfluences ?? []).find((x) => x.id === influenceId)?.label ?? 'Custom influence';
+  return DRIVER_LABELS[key as keyof typeof DRIVER_LABELS] ?? String(key);
+}
+
+/**
+ * `learned` are drivers the drivers model found for these metrics, strongest first;
+ * they go ahead of the generic suggestions.
+ */
+export function getSuggestedDriverOptionsForMetrics(
+  metrics: Array<InsightMetricKey | string>,
+  sources?: DriverSources,
+  learned: PatternDriverHint[] = []
+): DriverOption[] {
   const metricKeys = uniqueMetrics(metrics);
   const excluded = new Set<PatternDriverHint>();
-  const scores = new Map<PatternDriverHint, number>();
+  const scores = new Map<keyof typeof DRIVER_LABELS, number>();
+  const customInfluences = (sources?.customInfluences ?? []).filter((x) => x?.id && x.label);
 
   metricKeys.forEach((metric) => {
+    // Medications / custom influences already in the pattern aren't offered as the explanation.
+    const medId = medicationIdFromKey(metric);
+    if (medId) {
+      excluded.add(`med:${medId}`);
+      excluded.add('medication');
+      return;
+    }
+    const influenceId = customInfluenceIdFromKey(metric);
+    if (influenceId) {
+      excluded.add(`influence:${influenceId}`);
+      const driver = builtInDriverKey(customInfluences.find((x) => x.id === influenceId)?.driver);
+      if (driver) excluded.add(driver);
+      return;
+    }
     const equivalent = METRIC_TO_DRIVER_EQUIVALENT[metric];
     if (equivalent) excluded.add(equivalent);
   });
 
   metricKeys.forEach((metric) => {
-    const options = METRIC_DRIVER_MAP[metric] ?? ['poor_sleep', 'hormones', 'stress', 'routine'];
+    const fallbackOptions: Array<keyof typeof DRIVER_LABELS> =
+      medicationIdFromKey(metric) || customInfluenceIdFromKey(metric)
+        ? ['recovery_illness', 'hormones', 'routine']
+        : ['poor_sleep', 'hormones', 'stress', 'routine'];
+    const options = METRIC_DRIVER_MAP[metric] ?? fallbackOptions;
     options.forEach((option, index) => {
       if (option === 'not_sure' || excluded.has(option)) return;
-      const next = (scores.get(option) ?? 0) + 10 - index + (DRIVER_PRIORITY[option] ?? 0);
-      scores.set(option, next);
+      const next = (scores.get(option as keyof typeof DRIVER_LABELS) ?? 0) + 10 - index + (DRIVER_PRIORITY[option as keyof typeof DRIVER_LABELS] ?? 0);
+      scores.set(option as keyof typeof DRIVER_LABELS, next);
     });
   });
 
-  const sorted = Array.from(scores.entries())
+  learned.forEach((key, index) => {
+    const builtIn = builtInDriverKey(key);
+    if (!builtIn || builtIn === 'not_sure' || excluded.has(builtIn)) return;
+    scores.set(builtIn, (scores.get(builtIn) ?? 0) + 100 - index * 10);
+  });
+
+  const sorted: DriverOption[] = Array.from(scores.entries())
     .sort((a, b) => b[1] - a[1] || (DRIVER_PRIORITY[b[0]] ?? 0) - (DRIVER_PRIORITY[a[0]] ?? 0))
     .slice(0, 3)
     .map(([key]) => ({ key, label: DRIVER_LABELS[key] }));
 
-  const fallback: PatternDriverHint[] = ['poor_sleep', 'hormones', 'stress'];
+  const fallback: Array<keyof typeof DRIVER_LABELS> = ['poor_sleep', 'hormones', 'stress'];
   fallback.forEach((key) => {
     if (sorted.length >= 3 || excluded.has(key) || sorted.some((item) => item.key === key)) return;
     sorted.push({ key, label: DRIVER_LABELS[key] });
   });
 
+  // Custom influences whose driver matches one of the suggestions, then anything
+  // the user is currently taking, can be picked by name.
+  const suggestedDrivers = new Set(sorted.map((item) => item.key));
+  const learnedNamed = learned.filter((key) => !builtInDriverKey(key) && !excluded.has(key));
+  customInfluences
+    .filter((x) => learnedNamed.includes(`influence:${x.id}`))
+    .forEach((x) => sorted.push({ key: `influence:${x.id}`, label: x.label }));
+  (sources?.medications ?? [])
+    .filter((m) => m?.id && m.name && learnedNamed.includes(`med:${m.id}`))
+    .forEach((m) => sorted.push({ key: `med:${m.id}`, label: m.name }));
+  customInfluences
+    .filter((x) => x.enabled && !excluded.has(`influence:${x.id}`) && !learnedNamed.includes(`influence:${x.id}`))
+    .filter((x) => !x.driver || suggestedDrivers.has(x.driver as PatternDriverHint))
+    .slice(0, 2)
+    .forEach((x) => sorted.push({ key: `influence:${x.id}`, label: x.label }));
+
+  const todayISO = isoTodayLocal();
+  (sources?.medications ?? [])
+    .filter((m) => m?.id && m.name && isMedicationActiveOn(m, todayISO) && !excluded.has(`med:${m.id}`) && !learnedNamed.includes(`med:${m.id}`))
+    .slice(0, 2)
+    .forEach((m) => sorted.push({ key: `med:${m.id}`, label: m.name }));
+
   sorted.push({ key: 'not_sure', label: DRIVER_LABELS.not_sure });
   return sorted;
 }
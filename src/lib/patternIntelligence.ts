@@ -1,7 +1,10 @@
 import type { CheckInEntry, CyclePhase, InsightMetricKey, UserData } from '../types';
 import type { InsightConfidence, InsightSignal } from './insightEngine';
-import { computeCycleStats, estimatePhaseByFlow, getCycleStarts, pearsonCorrelation, sortByDateAsc } from './analytics';
-import { getTopInsights } from './insightEngine';
+import { pearsonCorrelation, sortByDateAsc } from './analytics';
+import { type CycleEngine, buildCycleEngine } from './cycleEngine';
+import { medicationLabelForKey } from './medications';
+import { customInfluenceLabelForKey } from './customInfluences';
+import { getMeasurement, measurementKeyFromMetric, measurementLabelForKey } from './measurements';
 import { filterSignalsByPatternFeedback, isSuppressedPair, getResurfacingNoteForPair } from './patternFeedback';
 
 export type PatternRecord = {
@@ -52,6 +55,9 @@ function metricLabel(key: InsightMetricKey | string, userData?: UserData): strin
     const id = k.slice('custom:'.length);
     return userData?.customSymptoms?.find((item) => item.id === id)?.label ?? 'Custom symptom';
   }
+  const medLabel =
+    medicationLabelForKey(k, userData) ?? customInfluenceLabelForKey(k, userData) ?? measurementLabelForKey(k);
+  if (medLabel) return medLabel;
   const labels: Record<string, string> = {
     mood: 'Mood', energy: 'Energy', sleep: 'Sleep', pain: 'Pain', headache: 'Headaches', cramps: 'Cramps',
     jointPain: 'Joint pain', flow: 'Bleeding', stress: 'Stress', anxiety: 'Anxiety', irritability: 'Irritability',
@@ -82,6 +88,8 @@ function metricValue(entry: CheckInEntry, key: InsightMetricKey): number | null
     if (typeof v !== 'number') return null;
     return v > 10 ? Math.round(v / 10) : v;
   }
+  const measureKey = measurementKeyFromMetric(String(key));
+  if (measureKey) return getMeasurement(entry, measureKey) ?? null;
   const v = (entry as any).values?.[key as any];
   if (typeof v !== 'number') return null;
   return v > 10 ? Math.round(v / 10) : v;
@@ -109,9 +117,9 @@ function getCycleIndex(dateISO: string, starts: string[]): number {
   return idx;
 }
 
-function cycleBuckets(entries: CheckInEntry[]): Array<{ cycleIndex: number; entries: CheckInEntry[] }> {
+function cycleBuckets(entries: CheckInEntry[], engine: CycleEngine): Array<{ cycleIndex: number; entries: CheckInEntry[] }> {
   const sorted = sortByDateAsc(entries);
-  const starts = getCycleStarts(sorted);
+  const starts = engine.starts;
   if (starts.length < 2) return [];
   const buckets = new Map<number, CheckInEntry[]>();
   for (const entry of sorted) {
@@ -146,7 +154,7 @@ function detectPairInCycle(entries: CheckInEntry[], aKey: InsightMetricKey, bKey
   return true;
 }
 
-function detectPhaseInCycle(entries: CheckInEntry[], allEntries: CheckInEntry[], metric: InsightMetricKey, phase: string | null | undefined, direction?: 'higher' | 'lower' | 'together' | 'inverse'): boolean {
+function detectPhaseInCycle(entries: CheckInEntry[], engine: CycleEngine, metric: InsightMetricKey, phase: string | null | undefined, direction?: 'higher' | 'lower' | 'together' | 'inverse'): boolean {
   if (!phase || (direction !== 'higher' && direction !== 'lower')) return false;
   const phaseVals: number[] = [];
   const allVals: number[] = [];
@@ -154,7 +162,7 @@ function detectPhaseInCycle(entries: CheckInEntry[], allEntries: CheckInEntry[],
     const val = metricValue(entry, metric);
     if (typeof val !== 'number') continue;
     allVals.push(val);
-    const p = estimatePhaseByFlow(String(entry.dateISO), allEntries);
+    const p = engine.phaseOn(String(entry.dateISO));
     if (p === phase) phaseVals.push(val);
   }
   if (phaseVals.length < 2 || allVals.length < 4) return false;
@@ -163,7 +171,8 @@ function detectPhaseInCycle(entries: CheckInEntry[], allEntries: CheckInEntry[],
   return direction === 'higher' ? delta > 0 : delta < 0;
 }
 
-function detectLagPattern(entries: CheckInEntry[], aKey: InsightMetricKey, bKey: InsightMetricKey, userData?: UserData): LagPattern | null {
+/** The strongest 1–2 day lag between two metrics, if there is one. No pattern feedback is applied. */
+export function detectLagPattern(entries: CheckInEntry[], aKey: InsightMetricKey, bKey: InsightMetricKey, userData?: UserData): LagPattern | null {
   const sorted = sortByDateAsc(entries);
   const candidates: LagPattern[] = [];
   const pairKey = canonicalPairKey(aKey, bKey);
@@ -256,12 +265,14 @@ export function getPatternContextForSignal(signal: {
   return null;
 }
 
-export function buildPatternMemory(entries: CheckInEntry[], userData: UserData): Record<string, PatternRecord> {
+/** `rankedSignals` is the ranked insight list (useRankedInsights / requestRankedInsights), not worked out here. */
+export function buildPatternMemory(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[]): Record<string, PatternRecord> {
   const sorted = sortByDateAsc(entries);
-  const cycles = cycleBuckets(sorted);
+  const engine = buildCycleEngine(entries, userData);
+  const cycles = cycleBuckets(sorted, engine);
   if (cycles.length < 2) return {};
   const currentCycleIndex = cycles[cycles.length - 1]?.cycleIndex ?? 0;
-  const latestSignals = filterSignalsByPatternFeedback(getTopInsights(sorted, userData, 10));
+  const latestSignals = filterSignalsByPatternFeedback(rankedSignals.slice(0, 10));
   const records = new Map<string, PatternRecord>();
 
   const upsert = (patternId: string, cycleIndex: number, confidence: InsightConfidence, phaseContext?: string | null) => {
@@ -302,7 +313,7 @@ export function buildPatternMemory(entries: CheckInEntry[], userData: UserData):
     if (signal.type === 'phase_shift' && signal.metrics[0]) {
       const patternId = `phase:${String(signal.metrics[0])}:${String(signal.phase ?? '').toLowerCase()}:${signal.direction ?? 'higher'}`;
       for (const cycle of cycles) {
-        if (detectPhaseInCycle(cycle.entries, sorted, signal.metrics[0], signal.phase, signal.direction)) {
+        if (detectPhaseInCycle(cycle.entries, engine, signal.metrics[0], signal.phase, signal.direction)) {
           upsert(patternId, cycle.cycleIndex, signal.confidence, signal.phase ?? null);
         }
       }
@@ -341,9 +352,14 @@ export function getStrongestLagPattern(entries: CheckInEntry[], pairs: Array<{ a
 }
 
 export function getLagPatternForPair(entries: CheckInEntry[], aKey: InsightMetricKey, bKey: InsightMetricKey, userData?: UserData): LagPattern | null {
-  const found = detectLagPattern(entries, aKey, bKey, userData);
+  return visibleLagPattern(detectLagPattern(entries, aKey, bKey, userData));
+}
+
+/** A lag found earlier (say, in the insight worker), unless the user has said the pair isn't real. */
+export function visibleLagPattern(found: LagPattern | null): LagPattern | null {
   if (!found) return null;
-  return isSuppressedPair(aKey, bKey, found.score) ? null : { ...found, resurfacingNote: getResurfacingNoteForPair(aKey, bKey, found.score) as any };
+  const { leadKey, followKey, score } = found;
+  return isSuppressedPair(leadKey, followKey, score) ? null : { ...found, resurfacingNote: getResurfacingNoteForPair(leadKey, followKey, score) as any };
 }
 
 export function getPatternRecordForLag(lag: LagPattern | null, memory: Record<string, PatternRecord>): PatternRecord | null {
@@ -352,11 +368,10 @@ export function getPatternRecordForLag(lag: LagPattern | null, memory: Record<st
   return memory[key] ?? null;
 }
 
-export function getWeeklyPatternReflection(entries: CheckInEntry[], userData: UserData): { lines: string[]; repeatLine?: string | null } {
+export function getWeeklyPatternReflection(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[]): { lines: string[]; repeatLine?: string | null } {
   const sorted = sortByDateAsc(entries);
-  const week = sorted.slice(-7);
-  const memory = buildPatternMemory(sorted, userData);
-  const topSignals = getTopInsights(week.length >= 5 ? week : sorted, userData, 5).filter((signal) => signal.confidence !== 'low');
+  const memory = buildPatternMemory(sorted, userData, rankedSignals);
+  const topSignals = rankedSignals.slice(0, 5).filter((signal) => signal.confidence !== 'low');
   const lines: string[] = [];
   let repeatLine: string | null = null;
 
@@ -385,11 +400,12 @@ export function getCycleAwarePredictionLines(args: {
   phase: CyclePhase | null;
   heroSignals: InsightSignal[];
   strongSignals: InsightSignal[];
+  rankedSignals: InsightSignal[];
   existingLines?: string[];
 }): string[] {
-  const { entries, userData, phase, heroSignals, strongSignals, existingLines = [] } = args;
+  const { entries, userData, phase, heroSignals, strongSignals, rankedSignals, existingLines = [] } = args;
   const lines = existingLines.filter(Boolean);
-  const memory = buildPatternMemory(entries, userData);
+  const memory = buildPatternMemory(entries, userData, rankedSignals);
   const strongestLag = getStrongestLagPattern(entries, strongSignals.filter((s) => s.type === 'metric_pair').map((s) => ({ aKey: s.metrics[0], bKey: s.metrics[1] })), userData);
 
   if (strongestLag && strongestLag.score >= 0.55) {
@@ -407,17 +423,17 @@ export function getCycleAwarePredictionLines(args: {
     if (lines.length >= 3) break;
   }
 
-  const cycleStats = computeCycleStats(entries);
-  if (phase === 'Luteal' && cycleStats.predictedNextStartISO && !lines.some((line) => line.includes('next start'))) {
+  const { nextPeriod } = buildCycleEngine(entries, userData);
+  if (phase === 'Luteal' && nextPeriod && !lines.some((line) => line.includes('next start'))) {
     lines.push('Some people notice a little more sensitivity as the next bleed gets closer.');
   }
 
   return Array.from(new Set(lines)).slice(0, 3);
 }
 
-export function getResurfacingPatternMoment(entries: CheckInEntry[], userData: UserData): { key: string; title: string; body: string } | null {
-  const memory = buildPatternMemory(entries, userData);
-  const topSignals = getTopInsights(entries, userData, 6).filter((signal) => signal.confidence !== 'low');
+export function getResurfacingPatternMoment(entries: CheckInEntry[], userData: UserData, rankedSignals: InsightSignal[]): { key: string; title: string; body: string } | null {
+  const memory = buildPatternMemory(entries, userData, rankedSignals);
+  const topSignals = rankedSignals.slice(0, 6).filter((signal) => signal.confidence !== 'low');
   for (const signal of topSignals) {
     const record = getPatternRecordForSignal(signal, memory);
     const repeat = getRepeatPatternLine(record);
@@ -0,0 +1,264 @@
+import type { CheckInEntry, SymptomKey, UserData } from '../types';
+import { sortByDateAsc, type PhaseKey } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getDayMood, getDayValue } from './checkInSlots';
+import { isWorseChange } from './eventEffects';
+import { isMetricInScope } from './insightsScope';
+import { SYMPTOM_META } from './symptomMeta';
+
+/**
+ * "What's normal for you" per metric, so a day can be flagged against your own usual
+ * rather than the fixed low/mid/high bands.
+ *
+ * The baseline for a day is built from the 90 days before it: median and a robust spread
+ * (scaled MAD). When cycles are tracked and there's enough history in the same phase, the
+ * phase's own baseline is used instead, so period pain isn't "unusual" every period.
+ * A day is unusual when it's both 2+ points and 2.5 spreads away from that; back-to-back
+ * unusual days in the same direction make a run.
+ */
+
+export type BaselineStats = {
+  median: number;
+  /** Robust spread (1.4826 × MAD), never below 1 point on the 0–10 scale */
+  spread: number;
+  n: number;
+};
+
+export type MetricBaseline = BaselineStats & {
+  metric: string;
+  byPhase: Partial<Record<PhaseKey, BaselineStats>>;
+};
+
+export type AnomalyDay = {
+  dateISO: string;
+  metric: string;
+  value: number;
+  /** The usual it was compared with (phase-specific when `phaseKey` is set) */
+  usual: number;
+  delta: number;
+  direction: 'above' | 'below';
+  worse: boolean;
+  phaseKey?: PhaseKey;
+};
+
+export type AnomalyRun = {
+  metric: string;
+  direction: 'above' | 'below';
+  startISO: string;
+  endISO: string;
+  days: number;
+  /** Average distance from usual across the run, in points */
+  meanDelta: number;
+  worse: boolean;
+  phaseSpecific: boolean;
+};
+
+const WINDOW_DAYS = 90;
+const PHASE_WINDOW_DAYS = 180;
+const MIN_BASELINE = 14;
+const MIN_PHASE_BASELINE = 6;
+const MIN_DELTA = 2;
+const MIN_Z = 2.5;
+const DEFAULT_METRICS = ['mood', 'sleep', 'energy', 'stress', 'pain', 'fatigue', 'headache', 'anxiety', 'brainFog', 'bloating'];
+// Expected to swing by design, so never "unusual"
+const SKIP = new Set(['flow', 'lochia']);
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function median(xs: number[]): number {
+  const s = xs.slice().sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function statsFor(values: number[]): BaselineStats {
+  const med = median(values);
+  const mad = median(values.map((v) => Math.abs(v - med)));
+  return { median: round1(med), spread: round1(Math.max(1, 1.4826 * mad)), n: values.length };
+}
+
+function metricValue(entry: CheckInEntry | undefined, key: string, userData: UserData): number | null {
+  if (!entry || !isMetricInScope(userData, key, entry.dateISO)) return null;
+  if (key === 'mood') {
+    const m = getDayMood(entry);
+    return m ? (m === 1 ? 2 : m === 2 ? 5 : 8) : null;
+  }
+  const v = getDayValue(entry, key as SymptomKey);
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+export function baselineMetricLabel(key: string): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as SymptomKey]?.label ?? key;
+}
+
+function phaseLookup(entries: CheckInEntry[], userData: UserData): (iso: string) => PhaseKey | null {
+  if (userData.cycleTrackingMode !== 'cycle') return () => null;
+  try {
+    const engine = buildCycleEngine(entries, userData);
+    return (iso) => {
+      const info = engine.dayInfo(iso);
+      return info && !info.projected ? (info.phaseKey as PhaseKey) : null;
+    };
+  } catch {
+    return () => null;
+  }
+}
+
+function metricsFor(userData: UserData, requested?: string[]): string[] {
+  const enabled = (userData.enabledModules ?? []).map(String);
+  const keys = requested?.length ? requested : Array.from(new Set([...DEFAULT_METRICS.filter((k) => k === 'mood' || enabled.includes(k)), ...enabled]));
+  return keys.filter((k) => !SKIP.has(k) && (k === 'mood' || SYMPTOM_META[k as SymptomKey]));
+}
+
+/** Baseline as of a day (from the window before it), with phase variants. null until there's enough history. */
+export function getPersonalBaseline(entriesInput: CheckInEntry[], userData: UserData, metric: string, asOfISO: string): MetricBaseline | null {
+  const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  const phaseOf = phaseLookup(entries, userData);
+  const from = addDaysISO(asOfISO, -WINDOW_DAYS);
+  const fromPhase = addDaysISO(asOfISO, -PHASE_WINDOW_DAYS);
+  const recent: number[] = [];
+  const phased: Partial<Record<PhaseKey, number[]>> = {};
+  for (const entry of entries) {
+    if (entry.dateISO >= asOfISO || entry.dateISO < fromPhase) continue;
+    const v = metricValue(entry, metric, userData);
+    if (v == null) continue;
+    if (entry.dateISO >= from) recent.push(v);
+    const phase = phaseOf(entry.dateISO);
+    if (phase) {
+      if (!phased[phase]) phased[phase] = [];
+      phased[phase]!.push(v);
+    }
+  }
+  if (recent.length < MIN_BASELINE) return null;
+  const byPhase: MetricBaseline['byPhase'] = {};
+  for (const [phase, values] of Object.entries(phased) as Array<[PhaseKey, number[]]>) {
+    if (values.length >= MIN_PHASE_BASELINE) byPhase[phase] = statsFor(values);
+  }
+  return { metric, ...statsFor(recent), byPhase };
+}
+
+/**
+ * Unusual days and runs against the rolling personal baseline, oldest first.
+ * `fromISO` limits which days are checked (the history before it still feeds the baseline).
+ */
+export function detectAnomalies(
+  entriesInput: CheckInEntry[],
+  userData: UserData,
+  opts: { metrics?: string[]; fromISO?: string } = {}
+): { days: Record<string, AnomalyDay[]>; runs: AnomalyRun[] } {
+  const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  const days: Record<string, AnomalyDay[]> = {};
+  const runs: AnomalyRun[] = [];
+  if (entries.length < MIN_BASELINE + 1) return { days, runs };
+  const phaseOf = phaseLookup(entries, userData);
+  const phaseByISO = new Map(entries.map((e) => [e.dateISO, phaseOf(e.dateISO)]));
+
+  for (const metric of metricsFor(userData, opts.metrics)) {
+    const series = entries
+      .map((e) => ({ iso: e.dateISO, value: metricValue(e, metric, userData), phase: phaseByISO.get(e.dateISO) ?? null }))
+      .filter((p): p is { iso: string; value: number; phase: PhaseKey | null } => p.value != null);
+
+    const flagged: AnomalyDay[] = [];
+    // Sliding windows over the series; start pointers only move forward
+    let lo = 0;
+    let loPhase = 0;
+    for (let i = 0; i < series.length; i++) {
+      const day = series[i];
+      if (opts.fromISO && day.iso < opts.fromISO) continue;
+      const from = addDaysISO(day.iso, -WINDOW_DAYS);
+      const fromPhase = addDaysISO(day.iso, -PHASE_WINDOW_DAYS);
+      while (lo < i && series[lo].iso < from) lo++;
+      while (loPhase < i && series[loPhase].iso < fromPhase) loPhase++;
+      const recent = series.slice(lo, i).map((p) => p.value);
+      if (recent.length < MIN_BASELINE) continue;
+      const samePhase = day.phase ? series.slice(loPhase, i).filter((p) => p.phase === day.phase).map((p) => p.value) : [];
+      const usePhase = samePhase.length >= MIN_PHASE_BASELINE;
+      const base = statsFor(usePhase ? samePhase : recent);
+      const delta = day.value - base.median;
+      if (Math.abs(delta) < MIN_DELTA || Math.abs(delta) / base.spread < MIN_Z) continue;
+      flagged.push({
+        dateISO: day.iso,
+        metric,
+        value: day.value,
+        usual: base.median,
+        delta: round1(delta),
+        direction: delta > 0 ? 'above' : 'below',
+        worse: isWorseChange(metric, delta),
+        phaseKey: usePhase ? day.phase ?? undefined : undefined,
+      });
+    }
+
+    for (const item of flagged) {
+      if (!days[item.dateISO]) days[item.dateISO] = [];
+      days[item.dateISO].push(item);
+    }
+
+    // Back-to-back days, same direction
+    let run: AnomalyDay[] = [];
+    const flush = () => {
+      if (!run.length) return;
+      runs.push({
+        metric,
+        direction: run[0].direction,
+        startISO: run[0].dateISO,
+        endISO: run[run.length - 1].dateISO,
+        days: run.length,
+        meanDelta: round1(run.reduce((a, d) => a + d.delta, 0) / run.length),
+        worse: run[0].worse,
+        phaseSpecific: run.some((d) => d.phaseKey),
+      });
+      run = [];
+    };
+    for (const item of flagged) {
+      const last = run[run.length - 1];
+      if (last && (addDaysISO(last.dateISO, 1) !== item.dateISO || last.direction !== item.direction)) flush();
+      run.push(item);
+    }
+    flush();
+  }
+
+  runs.sort((a, b) => a.endISO.localeCompare(b.endISO) || b.days - a.days);
+  return { days, runs };
+}
+
+/** Runs still going as of `refISO` (ending today or yesterday), longest and worst first. */
+export function getOngoingAnomalyRuns(entries: CheckInEntry[], userData: UserData, refISO: string, minDays = 3): AnomalyRun[] {
+  const fromISO = addDaysISO(refISO, -30);
+  const yesterday = addDaysISO(refISO, -1);
+  return detectAnomalies(entries, userData, { fromISO })
+    .runs.filter((run) => run.days >= minDays && run.endISO >= yesterday && run.endISO <= refISO)
+    .sort((a, b) => Number(b.worse) - Number(a.worse) || b.days - a.days || Math.abs(b.meanDelta) - Math.abs(a.meanDelta));
+}
+
+function pointsText(delta: number): string {
+  const size = Math.abs(Math.round(delta));
+  return `${size} ${size === 1 ? 'point' : 'points'}`;
+}
+
+/** e.g. "Pain has been 3 points above your usual for 4 days." */
+export function describeAnomalyRun(run: AnomalyRun, refISO?: string): string {
+  const label = baselineMetricLabel(run.metric);
+  const usual = run.phaseSpecific ? 'your usual for this phase' : 'your usual';
+  const ongoing = refISO ? run.endISO >= addDaysISO(refISO, -1) : false;
+  if (run.days === 1) return `${label} was ${pointsText(run.meanDelta)} ${run.direction} ${usual} that day.`;
+  return ongoing
+    ? `${label} has been ${pointsText(run.meanDelta)} ${run.direction} ${usual} for ${run.days} days.`
+    : `${label} was ${pointsText(run.meanDelta)} ${run.direction} ${usual} for ${run.days} days in a row.`;
+}
+
+/** Short calendar copy for one day, e.g. "Pain 3 points above your usual". */
+export function describeAnomalyDay(day: AnomalyDay): string {
+  return `${baselineMetricLabel(day.metric)} ${pointsText(day.delta)} ${day.direction} ${day.phaseKey ? 'your usual for this phase' : 'your usual'}`;
+}
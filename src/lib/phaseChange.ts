@@ -1,5 +1,5 @@
 import type { CheckInEntry, UserData } from '../types';
-import { getRhythmModel, isoToday, sortByDateAsc } from './analytics';
+import { isoToday, sortByDateAsc } from './analytics';
 import { createMoment } from './companionMoments';
 import {
   getCurrentPhaseEntry,
@@ -9,6 +9,7 @@ import {
   type PhaseHistoryPhase,
   updatePhaseHistory,
 } from './phaseHistory';
+import { getRhythmModel } from './rhythmModel';
 
 const LAST_DETECTED_PHASE_KEY = 'everybody:v2:last_detected_phase';
 const RHYTHM_PHASE_STATE_KEY = 'everybody:v2:rhythm_phase_state';
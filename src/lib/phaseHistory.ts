@@ -1,6 +1,8 @@
 import { isoToday } from './analytics';
 
 export const PHASE_HISTORY_KEY = 'everybody:v2:phase_history';
+export const PHASE_HISTORY_AUDIT_KEY = 'everybody:v2:phase_history_audit';
+const AUDIT_LIMIT = 50;
 
 export type PhaseHistoryPhase = 'reset' | 'rebuilding' | 'expressive' | 'protective' | 'bleed' | string;
 
@@ -9,6 +11,8 @@ export type PhaseHistoryEntry = {
   startDate: string;
   endDate?: string;
   duration?: number;
+  /** Set once the user has corrected this entry by hand */
+  edited?: boolean;
 };
 
 function isISODate(value: unknown): value is string {
@@ -68,6 +72,7 @@ function normaliseEntry(value: unknown): PhaseHistoryEntry | null {
   } else if (out.endDate) {
     out.duration = diffDaysInclusive(out.startDate, out.endDate);
   }
+  if (entry.edited === true) out.edited = true;
   return out;
 }
 
@@ -144,28 +149,159 @@ export function getAveragePhaseLength(phase: PhaseHistoryPhase, fallback?: numbe
   return Math.max(1, Math.round(avg));
 }
 
-export function getAverageCycleLength(fallback?: number | null): number | null {
-  const resetStarts = getPhaseHistory()
-    .filter((entry) => entry.phase === 'reset' || entry.phase === 'bleed')
-    .map((entry) => entry.startDate)
-    .sort();
+export function getPhaseElapsedDays(refISO: string = isoToday()): number | null {
+  const current = getCurrentPhaseEntry();
+  if (!current) return null;
+  return diffDaysInclusive(current.startDate, refISO);
+}
+
+// ---- Manual corrections ----
+//
+// Detection writes phases on its own and can get it wrong. These let the user move a
+// start date, split, merge, relabel or delete entries. Everything else (timing,
+// diagnostics, the History timeline) reads the saved history, so it picks the
+// corrections up on the next read. Each edit keeps a before/after snapshot so it can be
+// looked back on or undone.
+
+export type PhaseHistoryEdit =
+  | { action: 'move'; index: number; startDate: string }
+  | { action: 'split'; index: number; atDate: string; phase: PhaseHistoryPhase }
+  | { action: 'merge'; index: number }
+  | { action: 'relabel'; index: number; phase: PhaseHistoryPhase }
+  | { action: 'delete'; index: number };
+
+export type PhaseHistoryAuditEntry = {
+  id: string;
+  action: PhaseHistoryEdit['action'] | 'undo';
+  at: string;
+  summary: string;
+  before: PhaseHistoryEntry[];
+  after: PhaseHistoryEntry[];
+  undone?: boolean;
+};
 
-  if (resetStarts.length < 2) return fallback ?? null;
+export type PhaseHistoryEditResult = { ok: true; history: PhaseHistoryEntry[] } | { ok: false; error: string };
 
-  const diffs: number[] = [];
-  for (let i = 1; i < resetStarts.length; i++) {
-    const start = resetStarts[i - 1];
-    const end = resetStarts[i];
-    const diff = diffDaysInclusive(start, addDaysISO(end, -1)) + 1;
-    if (diff >= 15 && diff <= 60) diffs.push(diff);
+function phaseName(phase: string): string {
+  const p = String(phase || '');
+  // Same naming as the Recent rhythm card
+  return p === 'bleed' || p === 'reset' ? 'Bleed' : p ? p.charAt(0).toUpperCase() + p.slice(1) : 'phase';
+}
+
+/** Sorted, back to back (each entry ends the day before the next starts), same phases joined up. */
+function tidyHistory(history: PhaseHistoryEntry[]): PhaseHistoryEntry[] {
+  const sorted = history.slice().sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const joined: PhaseHistoryEntry[] = [];
+  for (const entry of sorted) {
+    const prev = joined[joined.length - 1];
+    if (prev && prev.phase === entry.phase) {
+      joined[joined.length - 1] = { ...prev, endDate: entry.endDate, edited: prev.edited || entry.edited || undefined };
+      continue;
+    }
+    joined.push({ ...entry });
   }
-  const avg = average(diffs.slice(-6));
-  if (avg == null) return fallback ?? null;
-  return Math.max(15, Math.round(avg));
+  return joined.map((entry, i) => {
+    const next = joined[i + 1];
+    const endDate = next ? addDaysISO(next.startDate, -1) : entry.endDate;
+    const out: PhaseHistoryEntry = { phase: entry.phase, startDate: entry.startDate };
+    if (endDate && endDate >= entry.startDate) {
+      out.endDate = endDate;
+      out.duration = diffDaysInclusive(entry.startDate, endDate);
+    }
+    if (entry.edited) out.edited = true;
+    return out;
+  });
 }
 
-export function getPhaseElapsedDays(refISO: string = isoToday()): number | null {
-  const current = getCurrentPhaseEntry();
-  if (!current) return null;
-  return diffDaysInclusive(current.startDate, refISO);
+function applyEdit(history: PhaseHistoryEntry[], edit: PhaseHistoryEdit, todayISO: string): PhaseHistoryEditResult & { summary?: string } {
+  const entry = history[edit.index];
+  if (!entry) return { ok: false, error: 'That phase is no longer in your history.' };
+  const prev = history[edit.index - 1] ?? null;
+  const next = history[edit.index + 1] ?? null;
+  const lastDay = entry.endDate ?? todayISO;
+  const out = history.slice();
+
+  switch (edit.action) {
+    case 'move': {
+      if (!isISODate(edit.startDate)) return { ok: false, error: 'Pick a valid date.' };
+      if (prev && edit.startDate <= prev.startDate) {
+        return { ok: false, error: `It can't start before the ${phaseName(prev.phase)} phase before it.` };
+      }
+      if (edit.startDate > lastDay) return { ok: false, error: 'It needs to start before it ends.' };
+      out[edit.index] = { ...entry, startDate: edit.startDate, edited: true };
+      if (prev) out[edit.index - 1] = { ...prev, edited: true };
+      return { ok: true, history: tidyHistory(out), summary: `Moved the start of ${phaseName(entry.phase)} from ${entry.startDate} to ${edit.startDate}` };
+    }
+    case 'split': {
+      if (!isISODate(edit.atDate) || edit.atDate <= entry.startDate || edit.atDate > lastDay) {
+        return { ok: false, error: 'Pick a day inside this phase, after its first day.' };
+      }
+      if (edit.phase === entry.phase) return { ok: false, error: 'Pick a different phase for the second part.' };
+      out.splice(edit.index, 1, { ...entry, edited: true }, { phase: edit.phase, startDate: edit.atDate, endDate: entry.endDate, edited: true });
+      return { ok: true, history: tidyHistory(out), summary: `Split ${phaseName(entry.phase)} on ${edit.atDate}, ${phaseName(edit.phase)} from then` };
+    }
+    case 'merge': {
+      if (!next) return { ok: false, error: 'There is no later phase to merge with.' };
+      out.splice(edit.index, 2, { ...entry, endDate: next.endDate, edited: true });
+      return { ok: true, history: tidyHistory(out), summary: `Merged ${phaseName(next.phase)} (from ${next.startDate}) into ${phaseName(entry.phase)}` };
+    }
+    case 'relabel': {
+      if (edit.phase === entry.phase) return { ok: false, error: 'That is already the phase saved.' };
+      out[edit.index] = { ...entry, phase: edit.phase, edited: true };
+      return { ok: true, history: tidyHistory(out), summary: `Changed ${phaseName(entry.phase)} from ${entry.startDate} to ${phaseName(edit.phase)}` };
+    }
+    case 'delete': {
+      out.splice(edit.index, 1);
+      // The phase before takes over the days, so there's no gap
+      if (prev) out[edit.index - 1] = { ...prev, endDate: entry.endDate, edited: true };
+      return { ok: true, history: tidyHistory(out), summary: `Deleted ${phaseName(entry.phase)} from ${entry.startDate}` };
+    }
+    default:
+      return { ok: false, error: 'Unknown change.' };
+  }
+}
+
+export function getPhaseHistoryAudit(): PhaseHistoryAuditEntry[] {
+  const raw = readJson<unknown[]>(PHASE_HISTORY_AUDIT_KEY, []);
+  return (Array.isArray(raw) ? raw : []).filter(
+    (item): item is PhaseHistoryAuditEntry => !!item && typeof (item as any).id === 'string' && Array.isArray((item as any).before)
+  );
+}
+
+function appendAudit(item: Omit<PhaseHistoryAuditEntry, 'id' | 'at'>) {
+  const at = new Date().toISOString();
+  const next = getPhaseHistoryAudit().concat([{ ...item, id: `${at}:${item.action}`, at }]);
+  writeJson(PHASE_HISTORY_AUDIT_KEY, next.slice(-AUDIT_LIMIT));
+}
+
+export function editPhaseHistory(edit: PhaseHistoryEdit, todayISO: string = isoToday()): PhaseHistoryEditResult {
+  const before = getPhaseHistory();
+  const result = applyEdit(before, edit, todayISO);
+  if (!result.ok) return result;
+  savePhaseHistory(result.history);
+  appendAudit({ action: edit.action, summary: result.summary ?? edit.action, before, after: result.history });
+  return { ok: true, history: result.history };
+}
+
+/** Puts the history back the way it was before the latest edit (the undo is logged too). */
+export function undoLastPhaseHistoryEdit(): PhaseHistoryEditResult {
+  const last = getPhaseHistoryAudit()
+    .slice()
+    .reverse()
+    .find((item) => item.action !== 'undo' && !item.undone);
+  if (!last) return { ok: false, error: 'Nothing to undo.' };
+  const before = getPhaseHistory();
+  // Detection may have added phases since; rolling back over those would lose them
+  if (JSON.stringify(before) !== JSON.stringify(tidyHistory(last.after))) {
+    return { ok: false, error: 'Your history has moved on since that change, so it can’t be undone now. You can still edit it by hand.' };
+  }
+  const restored = last.before.map(normaliseEntry).filter((entry): entry is PhaseHistoryEntry => Boolean(entry));
+  savePhaseHistory(restored);
+  // Kept in the trail, just marked, so a second undo goes one further back
+  writeJson(
+    PHASE_HISTORY_AUDIT_KEY,
+    getPhaseHistoryAudit().map((item) => (item.id === last.id ? { ...item, undone: true } : item))
+  );
+  appendAudit({ action: 'undo', summary: `Undid: ${last.summary}`, before, after: restored });
+  return { ok: true, history: restored };
 }
@@ -0,0 +1,272 @@
+import type { CheckInEntry, ExperimentHistoryItem, SymptomKey, UserData } from '../types';
+import { type PhaseKey, getSymptomRhythm, phaseForCycleDay, sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+import { SYMPTOM_META } from './symptomMeta';
+import { getCustomInfluence } from './customInfluences';
+import { eventOn } from './eventEffects';
+
+/**
+ * "What this phase usually looks like for you": per-phase bands and standouts from the
+ * user's own history, to sit next to the generic copy in rhythmCopy.
+ *
+ * Days are placed in phases by the cycle engine. Without any cycles (no-cycle mode, coil,
+ * post-menopause) we fall back to the symptom rhythm if one has been found, so those
+ * users get profiles too. Every line carries how many cycles it's based on.
+ */
+
+export type PhaseBand = { low: number; high: number; label: string };
+
+export type PhaseProfile = {
+  phase: PhaseKey;
+  /** Distinct cycles (or symptom rhythm rounds) with logged days in this phase */
+  cycles: number;
+  days: number;
+  energy: PhaseBand | null;
+  sleep: PhaseBand | null;
+  mood: PhaseBand | null;
+  pain: PhaseBand | null;
+  /** Symptoms that run highest here compared with the rest of the cycle */
+  elevated: Array<{ key: SymptomKey; label: string; delta: number }>;
+  /** Influences whose next-day effect is bigger in this phase than in the others */
+  harderInfluences: Array<{ key: string; label: string; delta: number }>;
+  /** Experiments that helped and mostly ran in this phase */
+  helpedExperiments: string[];
+  lines: string[];
+};
+
+const PHASES: PhaseKey[] = ['reset', 'rebuilding', 'expressive', 'protective'];
+const MIN_CYCLES = 2;
+const PAIN_KEYS: SymptomKey[] = ['pain', 'cramps', 'headache', 'migraine', 'backPain', 'jointPain'];
+// Not "symptoms" for the elevated list / next-day load (higher is better, or it's flow)
+const NOT_SYMPTOMS = new Set<SymptomKey>(['energy', 'motivation', 'sleep', 'focus', 'libido', 'appetite', 'digestion', 'flow']);
+const MIN_ELEVATED_DELTA = 1;
+const MIN_INFLUENCE_DAYS = 3;
+const MIN_INFLUENCE_DELTA = 0.75;
+
+// Keep in sync with the influence labels in the check-in.
+const INFLUENCE_LABELS: Record<string, string> = {
+  sex: 'Intimacy',
+  exercise: 'Workout',
+  travel: 'Travel',
+  illness: 'Illness',
+  alcohol: 'Alcohol',
+  caffeine: 'Caffeine',
+  lateNight: 'Late night',
+  stressfulDay: 'Stressful day',
+  medication: 'Medication',
+  socialising: 'Socialising',
+  lowHydration: 'Low hydration',
+};
+
+const PHASE_NAMES: Record<PhaseKey, string> = {
+  reset: 'Reset',
+  rebuilding: 'Rebuilding',
+  expressive: 'Expressive',
+  protective: 'Protective',
+};
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function to10(v: any): number | null {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+function mean(nums: number[]): number | null {
+  return nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : null;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function levelWord(v: number): string {
+  return v < 3.5 ? 'low' : v < 6.5 ? 'moderate' : 'high';
+}
+
+/** Middle half of the days (25th–75th percentile), as "4–6" plus a word. */
+function band(values: number[], word: (v: number) => string = levelWord): PhaseBand | null {
+  if (values.length < 3) return null;
+  const s = values.slice().sort((a, b) => a - b);
+  const low = Math.round(quantile(s, 0.25));
+  const high = Math.round(quantile(s, 0.75));
+  const a = word(low);
+  const b = word(high);
+  return { low, high, label: a === b ? a : `${a} to ${b}` };
+}
+
+function moodWord(v: number): string {
+  return v <= 1 ? 'low' : v >= 3 ? 'good' : 'okay';
+}
+
+function range(b: PhaseBand): string {
+  return b.low === b.high ? `${b.low}/10` : `${b.low}–${b.high}/10`;
+}
+
+function basedOn(n: number): string {
+  return `based on ${n} ${n === 1 ? 'cycle' : 'cycles'}`;
+}
+
+/** Average of the "bad when high" symptoms logged that day, used for next-day influence effects. */
+function symptomLoad(e: CheckInEntry | undefined): number | null {
+  if (!e) return null;
+  const vals = Object.entries(e.values ?? {})
+    .filter(([k]) => !NOT_SYMPTOMS.has(k as SymptomKey) && SYMPTOM_META[k as SymptomKey])
+    .map(([, v]) => to10(v))
+    .filter((v): v is number => v != null);
+  return mean(vals);
+}
+
+export function getPhaseProfiles(
+  entries: CheckInEntry[],
+  userData: UserData,
+  experiments: ExperimentHistoryItem[] = [],
+  todayISO: string = isoTodayLocal()
+): Record<PhaseKey, PhaseProfile> {
+  const sorted = (sortByDateAsc(entries) as CheckInEntry[]).filter((e) => e.dateISO <= todayISO);
+  const byISO = new Map(sorted.map((e) => [e.dateISO, e]));
+  const engine = buildCycleEngine(sorted, userData, todayISO);
+  const rhythm = engine.cycles.length ? null : getSymptomRhythm(sorted, todayISO);
+
+  // Which phase (and which cycle) each logged day belongs to
+  const placeDay = (iso: string): { phase: PhaseKey; cycle: string } | null => {
+    const info = engine.dayInfo(iso);
+    if (info && !info.projected) return { phase: info.phaseKey, cycle: info.cycleStartISO };
+    if (!rhythm) return null;
+    const L = rhythm.periodDays;
+    const diff = daysBetweenISO(rhythm.anchorISO, iso);
+    const round = Math.floor(diff / L);
+    return { phase: phaseForCycleDay(diff - round * L + 1, L, null).key, cycle: addDaysISO(rhythm.anchorISO, round * L) };
+  };
+
+  const placed = sorted
+    .map((e) => ({ e, at: placeDay(e.dateISO) }))
+    .filter((x): x is { e: CheckInEntry; at: { phase: PhaseKey; cycle: string } } => x.at != null);
+
+  // Whole-history means, for "elevated compared with the rest of your cycle"
+  const otherMeans = (phase: PhaseKey, key: SymptomKey) =>
+    mean(placed.filter((x) => x.at.phase !== phase).map((x) => to10(x.e.values?.[key])).filter((v): v is number => v != null));
+
+  // Next-day load after an influence vs without it, split by the phase the influence was logged in
+  const influenceEffect = (key: string, inPhase: (p: PhaseKey) => boolean) => {
+    const withIt: number[] = [];
+    const without: number[] = [];
+    for (const x of placed) {
+      if (!inPhase(x.at.phase)) continue;
+      const next = symptomLoad(byISO.get(addDaysISO(x.e.dateISO, 1)));
+      if (next == null) continue;
+      const on = eventOn(x.e, key) === true;
+      (on ? withIt : without).push(next);
+    }
+    const a = mean(withIt);
+    const b = mean(without);
+    return withIt.length >= MIN_INFLUENCE_DAYS && a != null && b != null ? a - b : null;
+  };
+
+  const influenceKeys = new Set<string>();
+  for (const x of placed) {
+    for (const [k, on] of Object.entries(x.e.events ?? {})) if (on === true) influenceKeys.add(k);
+    for (const [id, on] of Object.entries(x.e.customEvents ?? {})) if (on === true) influenceKeys.add(`influence:${id}`);
+  }
+
+  const out = {} as Record<PhaseKey, PhaseProfile>;
+  for (const phase of PHASES) {
+    const days = placed.filter((x) => x.at.phase === phase);
+    const cycles = new Set(days.map((x) => x.at.cycle)).size;
+    const vals = (key: SymptomKey) => days.map((x) => to10(x.e.values?.[key])).filter((v): v is number => v != null);
+
+    const energy = band(vals('energy'));
+    const sleep = band(vals('sleep'));
+    const mood = band(
+      days.map((x) => x.e.mood).filter((v): v is 1 | 2 | 3 => typeof v === 'number'),
+      moodWord
+    );
+    const painDays = days
+      .map((x) => {
+        const p = PAIN_KEYS.map((k) => to10(x.e.values?.[k])).filter((v): v is number => v != null);
+        return p.length ? Math.max(...p) : null;
+      })
+      .filter((v): v is number => v != null);
+    const pain = band(painDays);
+
+    const symptomKeys = new Set<SymptomKey>();
+    for (const x of days) for (const k of Object.keys(x.e.values ?? {})) symptomKeys.add(k as SymptomKey);
+    const elevated = Array.from(symptomKeys)
+      .filter((k) => !NOT_SYMPTOMS.has(k) && SYMPTOM_META[k])
+      .map((k) => {
+        const here = mean(vals(k));
+        const rest = otherMeans(phase, k);
+        return { key: k, label: SYMPTOM_META[k].label, delta: here != null && rest != null ? Math.round((here - rest) * 10) / 10 : 0 };
+      })
+      .filter((x) => x.delta >= MIN_ELEVATED_DELTA)
+      .sort((a, b) => b.delta - a.delta)
+      .slice(0, 3);
+
+    const harderInfluences = Array.from(influenceKeys)
+      .map((key) => {
+        const here = influenceEffect(key, (p) => p === phase);
+        const elsewhere = influenceEffect(key, (p) => p !== phase);
+        const custom = key.startsWith('influence:') ? getCustomInfluence(userData, key.slice('influence:'.length)) : null;
+        return {
+          key,
+          label: custom?.label ?? INFLUENCE_LABELS[key] ?? key,
+          delta: here != null && elsewhere != null ? Math.round((here - elsewhere) * 10) / 10 : 0,
+        };
+      })
+      .filter((x) => x.delta >= MIN_INFLUENCE_DELTA)
+      .sort((a, b) => b.delta - a.delta)
+      .slice(0, 2);
+
+    // An experiment "belongs" to the phase most of its days fell in
+    const helpedExperiments = experiments
+      .filter((x) => x?.outcome?.status === 'helped' && x.startDateISO)
+      .filter((x) => {
+        const counts = new Map<PhaseKey, number>();
+        for (let i = 0; i < Math.max(1, x.durationDays ?? 1); i++) {
+          const p = placeDay(addDaysISO(x.startDateISO, i))?.phase;
+          if (p) counts.set(p, (counts.get(p) ?? 0) + 1);
+        }
+        const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        return top?.[0] === phase;
+      })
+      .map((x) => x.title);
+
+    const lines: string[] = [];
+    if (cycles >= MIN_CYCLES) {
+      const n = basedOn(cycles);
+      if (energy) lines.push(`Energy is usually ${energy.label} (${range(energy)}), ${n}.`);
+      if (sleep) lines.push(`Sleep is usually ${sleep.label} (${range(sleep)}), ${n}.`);
+      if (mood) lines.push(`Mood is usually ${mood.label}, ${n}.`);
+      if (pain && pain.high > 0) lines.push(`Pain is usually ${pain.label} (${range(pain)}), ${n}.`);
+      if (elevated.length) {
+        lines.push(`Higher here than the rest of your cycle: ${elevated.map((x) => x.label).join(', ')}, ${n}.`);
+      }
+      for (const inf of harderInfluences) {
+        lines.push(`${inf.label} tends to hit harder the next day in ${PHASE_NAMES[phase]} than at other times, ${n}.`);
+      }
+      if (helpedExperiments.length) {
+        lines.push(`${helpedExperiments.slice(0, 2).join(' and ')} helped when you tried ${helpedExperiments.length === 1 ? 'it' : 'them'} in this phase, ${n}.`);
+      }
+    }
+
+    out[phase] = { phase, cycles, days: days.length, energy, sleep, mood, pain, elevated, harderInfluences, helpedExperiments, lines };
+  }
+  return out;
+}
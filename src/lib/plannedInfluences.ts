@@ -0,0 +1,63 @@
+import { isoTodayLocal } from './date';
+
+export const PLANNED_INFLUENCES_KEY = 'everybody:v2:planned_influences';
+
+/** Something the user expects to happen on a day ("alcohol planned Friday"), used by forecasts. */
+export type PlannedInfluence = {
+  id: string;
+  /** Built-in events key (alcohol, lateNight...) or `influence:<id>` for custom influences */
+  event: string;
+  dateISO: string;
+};
+
+// Plans this old have either been logged or didn't happen; either way forecasts don't need them
+const KEEP_PAST_DAYS = 7;
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function readJson<T>(fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PLANNED_INFLUENCES_KEY);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(value: PlannedInfluence[]) {
+  try {
+    localStorage.setItem(PLANNED_INFLUENCES_KEY, JSON.stringify(value));
+  } catch {
+    // ignore
+  }
+}
+
+export function getPlannedInfluences(): PlannedInfluence[] {
+  return readJson<PlannedInfluence[]>([])
+    .filter((item) => item && typeof item.event === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(String(item.dateISO)))
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+}
+
+export function addPlannedInfluence(event: string, dateISO: string): PlannedInfluence[] {
+  const current = getPlannedInfluences().filter((item) => !(item.event === event && item.dateISO === dateISO));
+  const cutoff = addDaysISO(isoTodayLocal(), -KEEP_PAST_DAYS);
+  const next = current
+    .filter((item) => item.dateISO >= cutoff)
+    .concat([{ id: `${dateISO}:${event}`, event, dateISO }])
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+  writeJson(next);
+  return next;
+}
+
+export function removePlannedInfluence(id: string): PlannedInfluence[] {
+  const next = getPlannedInfluences().filter((item) => item.id !== id);
+  writeJson(next);
+  return next;
+}
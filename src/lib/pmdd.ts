@@ -0,0 +1,214 @@
+import type { CheckInEntry, DrspItemKey, DrspRecord, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+
+/**
+ * PMDD screening from the DRSP (Daily Record of Severity of Problems, Endicott et al. 2006).
+ *
+ * Each item is rated 1 (not at all) to 6 (extreme) every day. Per completed cycle we compare
+ * the 7 days before the period (premenstrual) with cycle days 4–10 (postmenstrual):
+ *
+ *   % change = (premenstrual mean − postmenstrual mean) / premenstrual mean
+ *
+ * A cycle "meets" the pattern when the total score changes by 30%+ and at least 5 items do
+ * (each also at least "mild", 3+, before the period), including one of the core mood items.
+ * It needs to show up in at least two cycles. This is a screen to take to a clinician, not
+ * a diagnosis.
+ */
+
+export type DrspItem = { key: DrspItemKey; label: string; core?: boolean; impairment?: boolean };
+
+export const DRSP_ITEMS: DrspItem[] = [
+  { key: 'depressed', label: 'Felt depressed, sad, down or blue', core: true },
+  { key: 'hopeless', label: 'Felt hopeless', core: true },
+  { key: 'worthless', label: 'Felt worthless or guilty', core: true },
+  { key: 'anxious', label: 'Felt anxious, tense, keyed up or on edge', core: true },
+  { key: 'moodSwings', label: 'Had mood swings (suddenly sad or tearful)', core: true },
+  { key: 'rejectionSensitive', label: 'More sensitive to rejection, feelings easily hurt', core: true },
+  { key: 'irritable', label: 'Felt angry or irritable', core: true },
+  { key: 'conflicts', label: 'Had conflicts or problems with people', core: true },
+  { key: 'lessInterest', label: 'Less interest in usual activities' },
+  { key: 'concentration', label: 'Difficulty concentrating' },
+  { key: 'lethargic', label: 'Lethargic, tired or lacking energy' },
+  { key: 'overate', label: 'Increased appetite or overate' },
+  { key: 'cravings', label: 'Cravings for specific foods' },
+  { key: 'sleptMore', label: 'Slept more, napped, hard to get up' },
+  { key: 'troubleSleeping', label: 'Trouble getting to sleep or staying asleep' },
+  { key: 'overwhelmed', label: "Felt overwhelmed or that I couldn't cope" },
+  { key: 'outOfControl', label: 'Felt out of control' },
+  { key: 'breastTenderness', label: 'Breast tenderness' },
+  { key: 'bloating', label: 'Breast swelling, bloating or weight gain' },
+  { key: 'headache', label: 'Headache' },
+  { key: 'jointPain', label: 'Joint or muscle pain' },
+  { key: 'impairWork', label: 'Got less done at work, school or home', impairment: true },
+  { key: 'impairSocial', label: 'Got in the way of hobbies or social life', impairment: true },
+  { key: 'impairRelationships', label: 'Got in the way of relationships', impairment: true },
+];
+
+export const DRSP_SCALE_LABELS: Record<number, string> = {
+  1: 'Not at all',
+  2: 'Minimal',
+  3: 'Mild',
+  4: 'Moderate',
+  5: 'Severe',
+  6: 'Extreme',
+};
+
+const SYMPTOM_ITEMS = DRSP_ITEMS.filter((i) => !i.impairment);
+const IMPAIRMENT_ITEMS = DRSP_ITEMS.filter((i) => i.impairment);
+
+const CHANGE_CRITERION = 0.3;
+const MIN_ITEMS = 5;
+// "Mild" or worse before the period, so a 1 → 1.4 wobble doesn't count as a 30% change
+const MIN_ITEM_SEVERITY = 3;
+// Days that need a DRSP record in each 7-day window
+const MIN_WINDOW_DAYS = 4;
+const MIN_CYCLES = 2;
+
+export type PmddCycleResult = {
+  startISO: string;
+  nextStartISO: string;
+  /** Mean daily total of the 21 symptom items (21–126) */
+  premenstrualTotal: number;
+  postmenstrualTotal: number;
+  changePct: number;
+  itemsMeeting: DrspItemKey[];
+  coreMet: boolean;
+  /** Mean of the 3 impairment items before the period (1–6) */
+  premenstrualImpairment: number | null;
+  meets: boolean;
+};
+
+export type PmddScreen = {
+  status: 'not_enough_data' | 'consistent' | 'not_consistent';
+  cycles: PmddCycleResult[];
+  cyclesMeeting: number;
+};
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function mean(nums: number[]): number | null {
+  return nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : null;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function rating(v: unknown): number | null {
+  return typeof v === 'number' && v >= 1 && v <= 6 ? v : null;
+}
+
+function pctChange(pre: number, post: number): number {
+  return pre > 0 ? (pre - post) / pre : 0;
+}
+
+export function drspItemLabel(key: DrspItemKey): string {
+  return DRSP_ITEMS.find((i) => i.key === key)?.label ?? key;
+}
+
+export function hasDrspRecord(entry: CheckInEntry | null | undefined): boolean {
+  const r = entry?.drsp;
+  return Boolean(r) && SYMPTOM_ITEMS.some((i) => rating(r?.[i.key]) != null);
+}
+
+function windowRecords(byISO: Map<string, DrspRecord>, fromISO: string, days: number): DrspRecord[] {
+  const out: DrspRecord[] = [];
+  for (let i = 0; i < days; i++) {
+    const r = byISO.get(addDaysISO(fromISO, i));
+    if (r) out.push(r);
+  }
+  return out;
+}
+
+// Unrated items count as 1 ("not at all") once the day has a record, same as a paper DRSP left blank
+function itemMean(records: DrspRecord[], key: DrspItemKey): number {
+  return mean(records.map((r) => rating(r[key]) ?? 1)) ?? 1;
+}
+
+function scoreCycle(byISO: Map<string, DrspRecord>, startISO: string, nextStartISO: string): PmddCycleResult | null {
+  const post = windowRecords(byISO, addDaysISO(startISO, 3), 7);
+  const pre = windowRecords(byISO, addDaysISO(nextStartISO, -7), 7);
+  if (post.length < MIN_WINDOW_DAYS || pre.length < MIN_WINDOW_DAYS) return null;
+
+  const total = (records: DrspRecord[]) => mean(records.map((r) => SYMPTOM_ITEMS.reduce((a, i) => a + (rating(r[i.key]) ?? 1), 0))) ?? 0;
+  const premenstrualTotal = total(pre);
+  const postmenstrualTotal = total(post);
+  const changePct = pctChange(premenstrualTotal, postmenstrualTotal);
+
+  const itemsMeeting = SYMPTOM_ITEMS.filter((i) => {
+    const a = itemMean(pre, i.key);
+    return a >= MIN_ITEM_SEVERITY && pctChange(a, itemMean(post, i.key)) >= CHANGE_CRITERION;
+  }).map((i) => i.key);
+  const coreMet = itemsMeeting.some((k) => DRSP_ITEMS.find((i) => i.key === k)?.core);
+
+  const impairmentDays = pre.filter((r) => IMPAIRMENT_ITEMS.some((i) => rating(r[i.key]) != null));
+  const premenstrualImpairment = impairmentDays.length
+    ? mean(impairmentDays.map((r) => Math.max(...IMPAIRMENT_ITEMS.map((i) => rating(r[i.key]) ?? 1))))
+    : null;
+
+  return {
+    startISO,
+    nextStartISO,
+    premenstrualTotal: round1(premenstrualTotal),
+    postmenstrualTotal: round1(postmenstrualTotal),
+    changePct: Math.round(changePct * 100),
+    itemsMeeting,
+    coreMet,
+    premenstrualImpairment: premenstrualImpairment != null ? round1(premenstrualImpairment) : null,
+    meets: changePct >= CHANGE_CRITERION && itemsMeeting.length >= MIN_ITEMS && coreMet,
+  };
+}
+
+export function getPmddScreen(entries: CheckInEntry[], userData: UserData, todayISO: string = isoTodayLocal()): PmddScreen {
+  const sorted = sortByDateAsc(entries) as CheckInEntry[];
+  const byISO = new Map<string, DrspRecord>();
+  for (const e of sorted) if (hasDrspRecord(e)) byISO.set(e.dateISO, e.drsp as DrspRecord);
+
+  const engine = buildCycleEngine(entries, userData, todayISO);
+  const cycles: PmddCycleResult[] = [];
+  for (const c of engine.cycles) {
+    if (!c.counted || !c.endISO) continue;
+    const scored = scoreCycle(byISO, c.startISO, addDaysISO(c.endISO, 1));
+    if (scored) cycles.push(scored);
+  }
+
+  const cyclesMeeting = cycles.filter((c) => c.meets).length;
+  const status = cycles.length < MIN_CYCLES ? 'not_enough_data' : cyclesMeeting >= MIN_CYCLES ? 'consistent' : 'not_consistent';
+  return { status, cycles, cyclesMeeting };
+}
+
+/** Plain summary for the doctor export. */
+export function describePmddScreen(screen: PmddScreen): string[] {
+  const lines: string[] = [];
+  const n = screen.cycles.length;
+  if (screen.status === 'not_enough_data') {
+    lines.push(
+      `PMDD screening (DRSP daily ratings): ${n} ${n === 1 ? 'cycle' : 'cycles'} rated so far. Two full cycles of prospective daily ratings are needed before the change criterion can be applied.`
+    );
+  } else {
+    lines.push(
+      `PMDD screening (DRSP daily ratings, ${n} cycles rated prospectively): ${screen.cyclesMeeting} of ${n} cycles met the 30% premenstrual vs postmenstrual change criterion with 5+ items including a core mood item. ${
+        screen.status === 'consistent' ? 'The pattern is consistent with PMDD and worth a clinical assessment.' : 'The pattern has not been consistent across cycles.'
+      }`
+    );
+  }
+  for (const c of screen.cycles.slice(-3)) {
+    const items = c.itemsMeeting.slice(0, 5).map((k) => drspItemLabel(k).toLowerCase());
+    lines.push(
+      `Cycle from ${c.startISO}: premenstrual total ${c.premenstrualTotal} vs postmenstrual ${c.postmenstrualTotal} (${c.changePct}% change), ${c.itemsMeeting.length} items met${
+        items.length ? ` (${items.join('; ')})` : ''
+      }${c.premenstrualImpairment != null ? `, impairment ${c.premenstrualImpairment}/6 before the period` : ''}.`
+    );
+  }
+  lines.push('Windows: 7 days before the period vs cycle days 4–10. Screening only, not a diagnosis; other conditions and premenstrual exacerbation of an existing condition need ruling out.');
+  return lines;
+}
@@ -0,0 +1,155 @@
+import type { FeedingMethod, PregnancyRecord, SymptomKey, UserData } from '../types';
+import { isoTodayLocal } from './date';
+
+/**
+ * Pregnancy + postpartum modes.
+ *
+ * While pregnant (or postpartum until periods come back) there's no cycle to predict,
+ * so cycle predictions are switched off and bleeding in that window isn't used as a
+ * cycle start. When the first period returns the gap is skipped for cycle lengths.
+ */
+
+export type PregnancySources = Partial<Pick<UserData, 'cycleTrackingMode' | 'pregnancies'>>;
+
+export const PREGNANCY_SYMPTOM_PACK: SymptomKey[] = ['nausea', 'fatigue', 'acidReflux', 'swelling', 'pelvicGirdlePain', 'backPain'];
+export const POSTPARTUM_SYMPTOM_PACK: SymptomKey[] = ['lochia', 'afterPains', 'perinealPain', 'nipplePain', 'sleep', 'fatigue'];
+
+export const FEEDING_METHOD_LABELS: Record<FeedingMethod, string> = {
+  breast: 'Breastfeeding',
+  bottle: 'Bottle / formula',
+  mixed: 'Mixed',
+};
+
+/** Keys that only make sense in pregnancy / postpartum (removed again when cycle tracking resumes). */
+export const PREGNANCY_ONLY_KEYS: SymptomKey[] = ['swelling', 'pelvicGirdlePain', 'lochia', 'afterPains', 'perinealPain', 'nipplePain'];
+
+// Bleeding straight after a loss isn't a period. Give it a couple of weeks before
+// bleeds count as cycle starts again (unless the user marks one manually).
+const LOSS_SETTLE_DAYS = 14;
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export function newPregnancyId(): string {
+  return `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** Naegele's rule: LMP + 280 days. */
+export function dueDateFromLmp(lmpISO: string): string {
+  return addDaysISO(lmpISO, 280);
+}
+
+export function isPregnancyMode(sources: PregnancySources | undefined): boolean {
+  return sources?.cycleTrackingMode === 'pregnancy' || sources?.cycleTrackingMode === 'postpartum';
+}
+
+/** The pregnancy the current mode is about (latest one). */
+export function getCurrentPregnancy(sources: PregnancySources | undefined): PregnancyRecord | null {
+  const list = (sources?.pregnancies ?? []).filter(Boolean);
+  if (!list.length) return null;
+  return list.slice().sort((a, b) => (a.startedISO ?? '').localeCompare(b.startedISO ?? ''))[list.length - 1];
+}
+
+export type Gestation = {
+  /** Completed weeks (the "24" in 24+3) */
+  weeks: number;
+  days: number;
+  trimester: 1 | 2 | 3;
+  dueDateISO: string;
+  /** Negative once past the due date */
+  daysToDue: number;
+};
+
+/** Gestational age counted from the LMP (or back from the due date when there's no LMP). */
+export function getGestation(record: PregnancyRecord, todayISO: string = isoTodayLocal()): Gestation | null {
+  const lmp = record.lmpISO || (record.dueDateISO ? addDaysISO(record.dueDateISO, -280) : '');
+  if (!lmp) return null;
+  const asOf = record.endISO && record.endISO < todayISO ? record.endISO : todayISO;
+  const total = daysBetweenISO(lmp, asOf);
+  if (!Number.isFinite(total) || total < 0) return null;
+  const weeks = Math.floor(total / 7);
+  const dueDateISO = record.dueDateISO || dueDateFromLmp(lmp);
+  return {
+    weeks,
+    days: total % 7,
+    trimester: weeks < 14 ? 1 : weeks < 28 ? 2 : 3,
+    dueDateISO,
+    daysToDue: daysBetweenISO(todayISO, dueDateISO),
+  };
+}
+
+export function formatGestation(g: Gestation): string {
+  return `${g.weeks}+${g.days} weeks`;
+}
+
+/** Weeks since birth, 1-based (the first 7 days are week 1). */
+export function getPostpartumWeek(record: PregnancyRecord, todayISO: string = isoTodayLocal()): number | null {
+  if (!record.endISO || record.outcome !== 'birth') return null;
+  const n = daysBetweenISO(record.endISO, todayISO);
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.floor(n / 7) + 1;
+}
+
+/**
+ * The stretch where bleeds shouldn't be read as cycle starts: from the day after the
+ * LMP until the first period comes back. Still open while pregnant or postpartum.
+ * `toISO` is exclusive (the return period itself is a cycle start).
+ */
+function pregnancyGap(record: PregnancyRecord): { fromISO: string; toISO: string | null } | null {
+  const fromISO = record.lmpISO ? addDaysISO(record.lmpISO, 1) : record.startedISO;
+  if (!fromISO) return null;
+  if (record.cycleReturnISO) return { fromISO, toISO: record.cycleReturnISO };
+  if (record.endISO && record.outcome && record.outcome !== 'birth') {
+    return { fromISO, toISO: addDaysISO(record.endISO, LOSS_SETTLE_DAYS) };
+  }
+  return { fromISO, toISO: null };
+}
+
+export function isInPregnancyGap(sources: PregnancySources | undefined, dateISO: string): boolean {
+  return (sources?.pregnancies ?? []).some((r) => {
+    const gap = r ? pregnancyGap(r) : null;
+    return gap != null && dateISO >= gap.fromISO && (gap.toISO == null || dateISO < gap.toISO);
+  });
+}
+
+/** True when a pregnancy gap starts between two cycle starts, so that "cycle" isn't a real one. */
+export function spansPregnancyGap(sources: PregnancySources | undefined, startISO: string, nextStartISO: string): boolean {
+  return (sources?.pregnancies ?? []).some((r) => {
+    const gap = r ? pregnancyGap(r) : null;
+    return gap != null && gap.fromISO > startISO && gap.fromISO <= nextStartISO;
+  });
+}
+
+/** Short line for the home screen / Rhythm. Null outside pregnancy + postpartum modes. */
+export function getPregnancyNote(sources: PregnancySources | undefined, todayISO: string = isoTodayLocal()): string | null {
+  if (!isPregnancyMode(sources)) return null;
+  const record = getCurrentPregnancy(sources);
+
+  if (sources?.cycleTrackingMode === 'pregnancy') {
+    const g = record ? getGestation(record, todayISO) : null;
+    if (!g) return "You're in pregnancy mode, so period predictions are paused.";
+    const due =
+      g.daysToDue > 0
+        ? `${Math.ceil(g.daysToDue / 7)} ${Math.ceil(g.daysToDue / 7) === 1 ? 'week' : 'weeks'} to your due date`
+        : g.daysToDue === 0
+          ? "it's your due date"
+          : 'past your due date';
+    return `${formatGestation(g)} pregnant (trimester ${g.trimester}), ${due}. Period predictions are paused.`;
+  }
+
+  const week = record ? getPostpartumWeek(record, todayISO) : null;
+  const base = week ? `Week ${week} after birth.` : "You're in postpartum mode.";
+  return `${base} Period predictions are paused until your period comes back. Feeding can keep periods away for a while, and that's normal.`;
+}
@@ -1,6 +1,5 @@
 import type { CheckInEntry, InsightMetricKey, UserData } from '../types';
 import type { InsightSignal } from './insightEngine';
-import { generateCandidateInsights, rankInsights, scoreInsights } from './insightEngine';
 import { getExperimentsForSignal, getHelpfulPatternsForMetrics } from './experimentLearning';
 import { getRhythmPhrase } from './confidenceCopy';
 
@@ -138,13 +137,12 @@ function signalPriority(signal: InsightSignal, phaseKey: RhythmPhaseKey): number
 }
 
 export function getRhythmRelevantSignals(
-  entries: CheckInEntry[],
+  rankedSignals: InsightSignal[],
   userData: UserData,
   phaseKey: RhythmPhaseKey,
   limit = 2,
 ): InsightSignal[] {
-  const ranked = rankInsights(scoreInsights(generateCandidateInsights(entries, userData)));
-  const filtered = ranked.filter((signal) => signal.type !== 'low_data');
+  const filtered = rankedSignals.filter((signal) => signal.type !== 'low_data');
   const sorted = filtered
     .slice()
     .sort((a, b) => signalPriority(b, phaseKey) - signalPriority(a, phaseKey));
@@ -163,12 +161,12 @@ export function getRhythmRelevantSignals(
 }
 
 export function getRhythmPatternLines(
-  entries: CheckInEntry[],
+  rankedSignals: InsightSignal[],
   userData: UserData,
   phaseKey: RhythmPhaseKey,
   limit = 2,
 ): { lines: string[]; strongestSignal: InsightSignal | null } {
-  const signals = getRhythmRelevantSignals(entries, userData, phaseKey, limit);
+  const signals = getRhythmRelevantSignals(rankedSignals, userData, phaseKey, limit);
   const lines = signals
     .map((signal) => copyForSignal(signal, userData, phaseKey))
     .filter((line): line is string => Boolean(line))
@@ -1,5 +1,7 @@
-import { isoToday } from './analytics';
-import { getAverageCycleLength, getAveragePhaseLength, getCurrentPhaseEntry, getPhaseHistory } from './phaseHistory';
+import type { CheckInEntry } from '../types';
+import { type CycleSources, isoToday } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getAveragePhaseLength, getCurrentPhaseEntry } from './phaseHistory';
 
 export type RhythmDiagnosticSignal = {
   type: 'long_phase' | 'short_cycle' | 'long_cycle';
@@ -25,34 +27,31 @@ export function detectUnusualPhaseLength(refISO: string = isoToday()): RhythmDia
   return null;
 }
 
-export function detectShortCycle(): RhythmDiagnosticSignal | null {
-  const history = getPhaseHistory().filter((entry) => entry.phase === 'reset' || entry.phase === 'bleed');
-  if (history.length < 2) return null;
-  const avg = getAverageCycleLength();
-  if (!avg) return null;
-  const latest = history[history.length - 1]?.startDate;
-  const prev = history[history.length - 2]?.startDate;
-  if (!latest || !prev) return null;
-  const diff = Math.round((new Date(`${latest}T00:00:00`).getTime() - new Date(`${prev}T00:00:00`).getTime()) / 86400000);
+// Latest completed cycle vs your recent average (same cycles as Calendar / Rhythm)
+function latestCycleVsUsual(entries: CheckInEntry[], sources?: CycleSources): { lastLen: number; avg: number } | null {
+  const { lengths, avgLength } = buildCycleEngine(entries, sources).stats;
+  if (lengths.length < 2 || !avgLength) return null;
+  return { lastLen: lengths[lengths.length - 1], avg: avgLength };
+}
+
+export function detectShortCycle(entries: CheckInEntry[], sources?: CycleSources): RhythmDiagnosticSignal | null {
+  const latest = latestCycleVsUsual(entries, sources);
+  if (!latest) return null;
+  const { lastLen, avg } = latest;
   const threshold = Math.max(3, Math.round(avg * 0.18));
-  if (diff <= avg - threshold) {
-    return { type: 'short_cycle', deviation: 'shorter_than_usual', amountDays: avg - diff };
+  if (lastLen <= avg - threshold) {
+    return { type: 'short_cycle', deviation: 'shorter_than_usual', amountDays: avg - lastLen };
   }
   return null;
 }
 
-export function detectLongCycle(): RhythmDiagnosticSignal | null {
-  const history = getPhaseHistory().filter((entry) => entry.phase === 'reset' || entry.phase === 'bleed');
-  if (history.length < 2) return null;
-  const avg = getAverageCycleLength();
-  if (!avg) return null;
-  const latest = history[history.length - 1]?.startDate;
-  const prev = history[history.length - 2]?.startDate;
-  if (!latest || !prev) return null;
-  const diff = Math.round((new Date(`${latest}T00:00:00`).getTime() - new Date(`${prev}T00:00:00`).getTime()) / 86400000);
+export function detectLongCycle(entries: CheckInEntry[], sources?: CycleSources): RhythmDiagnosticSignal | null {
+  const latest = latestCycleVsUsual(entries, sources);
+  if (!latest) return null;
+  const { lastLen, avg } = latest;
   const threshold = Math.max(3, Math.round(avg * 0.18));
-  if (diff >= avg + threshold) {
-    return { type: 'long_cycle', deviation: 'longer_than_usual', amountDays: diff - avg };
+  if (lastLen >= avg + threshold) {
+    return { type: 'long_cycle', deviation: 'longer_than_usual', amountDays: lastLen - avg };
   }
   return null;
 }
@@ -0,0 +1,118 @@
+import type { CheckInEntry, UserData } from '../types';
+import { type PhaseKey, getSymptomRhythm, inferPhaseKeyFromSignals, phaseForCycleDay, pickInferredReasons, sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { isoTodayLocal } from './date';
+import { isPregnancyMode } from './pregnancy';
+import type { SymptomRhythm } from './symptomRhythm';
+
+/**
+ * "Where am I in my rhythm today" for Home, Rhythm, Calendar and the phase moments.
+ * Cycle day and phase come straight from the cycle engine so every screen agrees; only
+ * when there's no cycle to go on do we fall back to a symptom rhythm or a gentle guess.
+ */
+
+export type RhythmSource = 'override' | 'bleed' | 'symptom_rhythm' | 'inferred' | 'none';
+
+// Confidence for Rhythm messaging.
+// Reflects how much consistent logging we have, not whether the user is tracking a formal cycle.
+export type ConfidenceLevel = 'Learning' | 'Emerging' | 'Established';
+
+function confidenceFromDays(daysLogged: number): ConfidenceLevel {
+  // 0–29 days: Learning
+  // 30–59 days: Emerging
+  // 60+ days: Established
+  if (daysLogged >= 60) return 'Established';
+  if (daysLogged >= 30) return 'Emerging';
+  return 'Learning';
+}
+
+export interface RhythmModel {
+  refISO: string;
+  phaseKey: PhaseKey | null;
+  source: RhythmSource;
+  dayInCycle: number | null;
+  cycleLen: number;
+  starts: string[];
+  confidence: ConfidenceLevel;
+  reasons: string[];
+  /** Repeating symptom pattern, when there's no period to go on */
+  symptomRhythm: SymptomRhythm | null;
+}
+
+function flowTo10(v: any): number | null {
+  if (typeof v !== 'number') return null;
+  const scaled = v > 10 ? Math.round(v / 10) : v;
+  return Math.max(0, Math.min(10, scaled));
+}
+
+export function getRhythmModel(
+  entriesRaw: CheckInEntry[] | unknown,
+  userData: UserData,
+  todayISO: string = isoTodayLocal()
+): RhythmModel {
+  const sorted = sortByDateAsc(entriesRaw);
+  const byISO = new Map<string, any>();
+  for (const e of sorted as any[]) if (e?.dateISO) byISO.set(e.dateISO, e);
+
+  // Use today if logged, otherwise most recent logged day.
+  const refISO = byISO.has(todayISO) || !sorted.length ? todayISO : String((sorted[sorted.length - 1] as any).dateISO);
+
+  const engine = buildCycleEngine(entriesRaw, userData, todayISO);
+  let cycleLen = engine.cycleLen;
+  let dayInCycle: number | null = null;
+  let phaseKey: PhaseKey | null = null;
+  let source: RhythmSource = 'none';
+  let reasons: string[] = [];
+  let symptomRhythm: SymptomRhythm | null = null;
+
+  // The engine already skips hormonal contraception and pregnancy gaps; pregnant / postpartum
+  // (before the first period back) and post-menopause have no cycle to place today in either.
+  const pregnancyMode = isPregnancyMode(userData);
+  const suppressed = pregnancyMode || userData.goal === 'postmenopause';
+  const today = suppressed ? null : engine.dayInfo(todayISO);
+
+  // If we have an explicit cycle anchor, use it (persistent). This is true regardless of cycle tracking mode.
+  if (today) {
+    dayInCycle = today.cycleDay;
+    phaseKey = today.phaseKey;
+    const flowToday = flowTo10(byISO.get(todayISO)?.values?.flow);
+    const isOverrideDay = Boolean(byISO.get(today.cycleStartISO)?.cycleStartOverride);
+    source = isOverrideDay ? 'override' : 'bleed';
+    reasons = isOverrideDay
+      ? ['Cycle start logged']
+      : flowToday != null && flowToday > 0
+      ? ['Bleeding logged']
+      : ['Recent cycle pattern'];
+  } else if (!pregnancyMode && (symptomRhythm = getSymptomRhythm(sorted, todayISO))) {
+    // No period to anchor on, but symptoms repeat on a rhythm of their own. Use it like a cycle.
+    // Not in pregnancy / postpartum: cycle predictions are on hold there, so no stand-in cycle day either.
+    cycleLen = symptomRhythm.periodDays;
+    dayInCycle = symptomRhythm.dayInRhythm;
+    phaseKey = phaseForCycleDay(dayInCycle, cycleLen, null).key;
+    source = 'symptom_rhythm';
+    reasons = [`Your symptoms have been repeating about every ${cycleLen} days`];
+  } else {
+    // Otherwise infer gently from symptom signals (no influences).
+    const inferred = inferPhaseKeyFromSignals(sorted);
+    if (inferred) {
+      phaseKey = inferred;
+      source = 'inferred';
+      reasons = pickInferredReasons(sorted, inferred);
+    }
+  }
+
+  // Confidence: based on number of distinct logged days.
+  const confidence = confidenceFromDays(byISO.size);
+
+  return {
+    refISO,
+    phaseKey,
+    source,
+    dayInCycle,
+    cycleLen: Number.isFinite(cycleLen) ? cycleLen : 28,
+    starts: engine.starts,
+    confidence,
+    reasons,
+    symptomRhythm,
+  };
+}
@@ -1,7 +1,9 @@
 import type { CheckInEntry, UserData } from '../types';
 import type { RhythmPhaseKey } from './rhythmCopy';
-import { getRhythmModel, isoToday } from './analytics';
-import { getAverageCycleLength, getAveragePhaseLength, getCurrentPhaseEntry, getPhaseElapsedDays } from './phaseHistory';
+import { type PhaseWindows, getPhaseWindows, isoToday } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getAveragePhaseLength, getCurrentPhaseEntry, getPhaseElapsedDays } from './phaseHistory';
+import { getRhythmModel } from './rhythmModel';
 
 export type RhythmTimingModel = {
   currentDay: number | null;
@@ -16,20 +18,17 @@ function clamp(n: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, n));
 }
 
-function getPhaseBounds(phaseKey: RhythmPhaseKey, cycleLen: number) {
-  const safeLen = clamp(Math.round(cycleLen || 28), 21, 45);
-  const ovStart = Math.max(12, Math.min(safeLen - 12, Math.round(safeLen * 0.5)));
-  const ovEnd = ovStart + 2;
+function getPhaseBounds(phaseKey: RhythmPhaseKey, w: PhaseWindows) {
   switch (phaseKey) {
     case 'reset':
-      return { start: 1, end: 5 };
+      return { start: 1, end: w.resetEnd };
     case 'rebuilding':
-      return { start: 6, end: Math.max(6, ovStart - 1) };
+      return { start: w.resetEnd + 1, end: Math.max(w.resetEnd + 1, w.expressiveStart - 1) };
     case 'expressive':
-      return { start: ovStart, end: ovEnd };
+      return { start: w.expressiveStart, end: w.expressiveEnd };
     case 'protective':
     default:
-      return { start: ovEnd + 1, end: safeLen };
+      return { start: w.expressiveEnd + 1, end: w.cycleLen };
   }
 }
 
@@ -72,7 +71,6 @@ export function getRhythmTimingModel(entries: CheckInEntry[], userData: UserData
 
   const currentEntry = getCurrentPhaseEntry();
   const historicalPhaseLength = getAveragePhaseLength(phaseKey, null);
-  const historicalCycleLength = getAverageCycleLength(rhythm.cycleLen || 28);
 
   if (currentEntry && currentEntry.phase === phaseKey) {
     const currentDay = getPhaseElapsedDays(isoToday()) ?? null;
@@ -92,12 +90,21 @@ export function getRhythmTimingModel(entries: CheckInEntry[], userData: UserData
   }
 
   if (rhythm.dayInCycle != null && rhythm.dayInCycle >= 1) {
-    const bounds = getPhaseBounds(phaseKey, historicalCycleLength || rhythm.cycleLen || 28);
+    // A symptom rhythm has its own length, the period-based windows don't apply
+    const windows =
+      rhythm.source === 'symptom_rhythm'
+        ? getPhaseWindows(rhythm.cycleLen)
+        : buildCycleEngine(entries, userData).currentWindows ?? getPhaseWindows(rhythm.cycleLen || 28);
+    const bounds = getPhaseBounds(phaseKey, windows);
     const boundedLength = Math.max(1, bounds.end - bounds.start + 1);
     const totalDays = historicalPhaseLength ?? boundedLength;
     const currentDay = clamp(rhythm.dayInCycle - bounds.start + 1, 1, totalDays);
     const daysRemaining = Math.max(0, totalDays - currentDay);
-    const approximate = rhythm.source === 'inferred' || lowData || !historicalPhaseLength;
+    const approximate =
+      rhythm.source === 'inferred' ||
+      (rhythm.source === 'symptom_rhythm' && rhythm.symptomRhythm?.confidence !== 'high') ||
+      lowData ||
+      !historicalPhaseLength;
     const model: RhythmTimingModel = {
       currentDay,
       totalDays,
@@ -0,0 +1,311 @@
+import type { CheckInEntry, InsightMetricKey, SymptomKey, UserData } from '../types';
+import { sortByDateAsc, type PhaseKey } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getDayMood, getDayValue } from './checkInSlots';
+import { customInfluenceMetricKey, customInfluenceValue } from './customInfluences';
+import { EVENT_KEYS, eventEffectLabel, eventOn } from './eventEffects';
+import { isMetricInScope } from './insightsScope';
+import { medicationInfluenceValue, medicationMetricKey } from './medications';
+import { driverHintForFeature, type PatternDriverHint } from './patternDrivers';
+import { SYMPTOM_META } from './symptomMeta';
+
+/**
+ * "What drives my fatigue?" Pairs only ever look at two things at once, so sleep and stress
+ * (which move together) both get the credit. This fits one ridge regression per target
+ * with everything in at once: other metrics the same day, influences that day or the day
+ * before, and cycle phase as dummies. Features are standardised, so a coefficient is
+ * "points of the target per typical swing in the driver".
+ *
+ * Stability is how often a driver keeps its sign and a non-trivial size when the days are
+ * resampled (bootstrap), so one odd week can't make something look important.
+ */
+
+export type SymptomDriver = {
+  /** Metric key, `event:<key>`, `phase:<key>`, `med:<id>` or `influence:<id>` */
+  feature: string;
+  label: string;
+  /** Closest patternDrivers hint, if there is one */
+  driver: PatternDriverHint | null;
+  /** Change in the target (0–10 points) per typical swing of the driver, or on vs off for influences and phases */
+  effect: number;
+  direction: 'raises' | 'lowers';
+  /** Share of the explained movement (0–1), across the drivers shown */
+  share: number;
+  /** Fraction of resamples where it kept the same sign and a meaningful size */
+  stability: number;
+};
+
+export type SymptomDriverModel = {
+  target: string;
+  /** Days with the target logged */
+  sampleSize: number;
+  /** How much of the day-to-day movement the drivers explain together (0–1) */
+  r2: number;
+  drivers: SymptomDriver[];
+};
+
+const DRIVER_METRICS = ['sleep', 'stress', 'anxiety', 'pain', 'energy', 'fatigue', 'headache', 'bloating', 'mood'];
+// Two names for the same feeling - one can't explain the other
+const SAME_THING: Array<[string, string]> = [['energy', 'fatigue']];
+const PHASES: PhaseKey[] = ['reset', 'expressive', 'protective']; // rebuilding is the reference
+const MIN_DAYS = 21;
+const MIN_ON_DAYS = 4;
+const MIN_COVERAGE = 0.6;
+const MIN_STD_EFFECT = 0.1;
+const MIN_STABILITY = 0.6;
+const RESAMPLES = 40;
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function sd(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) * (x - m), 0) / (xs.length - 1));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function metricValue(entry: CheckInEntry | undefined, key: string, userData: UserData): number | null {
+  if (!entry || !isMetricInScope(userData, key, entry.dateISO)) return null;
+  if (key === 'mood') {
+    const m = getDayMood(entry);
+    return m ? (m === 1 ? 2 : m === 2 ? 5 : 8) : null;
+  }
+  const v = getDayValue(entry, key as SymptomKey);
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+function metricLabel(key: string): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as SymptomKey]?.label ?? key;
+}
+
+// Small deterministic generator so the same logs always give the same stability numbers
+function seeded(seed: number): () => number {
+  let s = seed % 2147483647 || 1;
+  return () => {
+    s = (s * 48271) % 2147483647;
+    return s / 2147483647;
+  };
+}
+
+/** Solve (XᵀX + λI)β = Xᵀy by Gaussian elimination. Columns of X are already centred and scaled. */
+function ridge(X: number[][], y: number[], lambda: number): number[] {
+  const p = X[0]?.length ?? 0;
+  const A: number[][] = Array.from({ length: p }, () => new Array<number>(p + 1).fill(0));
+  for (let r = 0; r < X.length; r++) {
+    const row = X[r];
+    for (let i = 0; i < p; i++) {
+      A[i][p] += row[i] * y[r];
+      for (let j = i; j < p; j++) A[i][j] += row[i] * row[j];
+    }
+  }
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j < i; j++) A[i][j] = A[j][i];
+    A[i][i] += lambda;
+  }
+  for (let c = 0; c < p; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < p; r++) if (Math.abs(A[r][c]) > Math.abs(A[pivot][c])) pivot = r;
+    [A[c], A[pivot]] = [A[pivot], A[c]];
+    const d = A[c][c];
+    if (Math.abs(d) < 1e-12) continue;
+    for (let r = 0; r < p; r++) {
+      if (r === c) continue;
+      const f = A[r][c] / d;
+      if (!f) continue;
+      for (let k = c; k <= p; k++) A[r][k] -= f * A[c][k];
+    }
+  }
+  return A.map((row, i) => (Math.abs(row[i]) < 1e-12 ? 0 : row[p] / row[i]));
+}
+
+type Feature = { key: string; label: string; binary: boolean; values: Array<number | null> };
+
+function buildFeatures(entries: CheckInEntry[], userData: UserData, target: string, days: string[]): Feature[] {
+  const byISO = new Map(entries.map((e) => [e.dateISO, e]));
+  const features: Feature[] = [];
+  const sameThing = new Set(SAME_THING.filter((pair) => pair.includes(target)).flat());
+
+  for (const key of DRIVER_METRICS) {
+    if (key === target || sameThing.has(key)) continue;
+    features.push({ key, label: metricLabel(key), binary: false, values: days.map((d) => metricValue(byISO.get(d), key, userData)) });
+  }
+
+  // Influences count that day or the day before (alcohol tonight, tired tomorrow)
+  const onOrDayBefore = (read: (entry: CheckInEntry) => boolean | null) =>
+    days.map((d) => {
+      const today = byISO.get(d) ? read(byISO.get(d)!) : null;
+      const before = byISO.get(addDaysISO(d, -1)) ? read(byISO.get(addDaysISO(d, -1))!) : null;
+      if (today == null && before == null) return null;
+      return today || before ? 1 : 0;
+    });
+  for (const event of EVENT_KEYS) {
+    features.push({
+      key: `event:${event}`,
+      label: eventEffectLabel(event, userData),
+      binary: true,
+      values: onOrDayBefore((e) => eventOn(e, event)),
+    });
+  }
+  for (const item of (userData.customInfluences ?? []).filter((x) => x?.id)) {
+    features.push({
+      key: customInfluenceMetricKey(item.id),
+      label: item.label,
+      binary: true,
+      values: onOrDayBefore((e) => {
+        const v = customInfluenceValue(e, item.id);
+        return v == null ? null : v > 0;
+      }),
+    });
+  }
+  for (const med of (userData.medications ?? []).filter((m) => m?.id)) {
+    features.push({
+      key: medicationMetricKey(med.id),
+      label: med.name,
+      binary: true,
+      values: days.map((d) => {
+        const e = byISO.get(d);
+        const v = e ? medicationInfluenceValue(e, med.id, userData) : undefined;
+        return v == null ? null : v > 0 ? 1 : 0;
+      }),
+    });
+  }
+
+  if (userData.cycleTrackingMode === 'cycle') {
+    try {
+      const engine = buildCycleEngine(entries, userData);
+      const phaseOf = days.map((d) => {
+        const info = engine.dayInfo(d);
+        return info && !info.projected ? info.phaseKey : null;
+      });
+      for (const phase of PHASES) {
+        features.push({
+          key: `phase:${phase}`,
+          label: `${phase.charAt(0).toUpperCase() + phase.slice(1)} phase`,
+          binary: true,
+          values: phaseOf.map((p) => (p == null ? null : p === phase ? 1 : 0)),
+        });
+      }
+    } catch {
+      // no phase features then
+    }
+  }
+
+  return features.filter((f) => {
+    const known = f.values.filter((v): v is number => v != null);
+    if (known.length < days.length * MIN_COVERAGE) return false;
+    if (f.binary) {
+      const on = known.filter((v) => v > 0).length;
+      return on >= MIN_ON_DAYS && known.length - on >= MIN_ON_DAYS;
+    }
+    return sd(known) >= 0.4;
+  });
+}
+
+/** Ranked drivers for one target metric, or null until there's enough logged. */
+export function analyseSymptomDrivers(entriesInput: CheckInEntry[], userData: UserData, target: InsightMetricKey | string): SymptomDriverModel | null {
+  const entries = sortByDateAsc(entriesInput) as CheckInEntry[];
+  const rows = entries
+    .map((e) => ({ iso: e.dateISO, y: metricValue(e, String(target), userData) }))
+    .filter((r): r is { iso: string; y: number } => r.y != null);
+  if (rows.length < MIN_DAYS) return null;
+  const ys = rows.map((r) => r.y);
+  const ySd = sd(ys);
+  if (ySd < 0.5) return null;
+
+  const days = rows.map((r) => r.iso);
+  const features = buildFeatures(entries, userData, String(target), days);
+  if (!features.length) return null;
+  // Keep the model small relative to the data
+  const maxFeatures = Math.max(1, Math.floor(rows.length / 5));
+  const ranked = features
+    .map((f) => {
+      const known = f.values.map((v, i) => (v == null ? null : { x: v, y: ys[i] })).filter((p): p is { x: number; y: number } => p != null);
+      const mx = mean(known.map((p) => p.x));
+      const my = mean(known.map((p) => p.y));
+      const cov = known.reduce((a, p) => a + (p.x - mx) * (p.y - my), 0);
+      const sx = Math.sqrt(known.reduce((a, p) => a + (p.x - mx) * (p.x - mx), 0));
+      const sy = Math.sqrt(known.reduce((a, p) => a + (p.y - my) * (p.y - my), 0));
+      return { f, r: sx && sy ? Math.abs(cov / (sx * sy)) : 0 };
+    })
+    .sort((a, b) => b.r - a.r)
+    .slice(0, maxFeatures)
+    .map((x) => x.f);
+
+  // Standardise; a missing value sits at the feature's mean (contributes nothing)
+  const scales = ranked.map((f) => {
+    const known = f.values.filter((v): v is number => v != null);
+    return { m: mean(known), s: sd(known) || 1 };
+  });
+  const X = rows.map((_, i) => ranked.map((f, j) => (f.values[i] == null ? 0 : (f.values[i]! - scales[j].m) / scales[j].s)));
+  const yMean = mean(ys);
+  const yStd = ys.map((y) => (y - yMean) / ySd);
+  const lambda = Math.max(1, rows.length * 0.1);
+
+  const beta = ridge(X, yStd, lambda);
+  const fitted = X.map((row) => row.reduce((a, x, j) => a + x * beta[j], 0));
+  const sse = yStd.reduce((a, y, i) => a + (y - fitted[i]) * (y - fitted[i]), 0);
+  const sst = yStd.reduce((a, y) => a + y * y, 0);
+  const r2 = sst > 0 ? Math.max(0, 1 - sse / sst) : 0;
+
+  const rand = seeded(rows.length * 7919 + Math.round(yMean * 1000));
+  const kept = new Array<number>(ranked.length).fill(0);
+  for (let b = 0; b < RESAMPLES; b++) {
+    const idx = rows.map(() => Math.floor(rand() * rows.length));
+    const bBeta = ridge(idx.map((i) => X[i]), idx.map((i) => yStd[i]), lambda);
+    bBeta.forEach((v, j) => {
+      if (Math.sign(v) === Math.sign(beta[j]) && Math.abs(v) >= MIN_STD_EFFECT) kept[j] += 1;
+    });
+  }
+
+  const shown = ranked
+    .map((f, j) => ({ f, j, std: beta[j], stability: kept[j] / RESAMPLES }))
+    .filter((d) => Math.abs(d.std) >= MIN_STD_EFFECT && d.stability >= MIN_STABILITY);
+  const total = shown.reduce((a, d) => a + Math.abs(d.std), 0) || 1;
+
+  const drivers: SymptomDriver[] = shown
+    .map(({ f, j, std, stability }) => {
+      // Binary features: on vs off rather than per SD
+      const perUnit = (std * ySd) / scales[j].s;
+      const effect = f.binary ? perUnit : std * ySd;
+      return {
+        feature: f.key,
+        label: f.label,
+        driver: driverHintForFeature(f.key),
+        effect: round2(effect),
+        direction: effect >= 0 ? ('raises' as const) : ('lowers' as const),
+        share: round2(Math.abs(std) / total),
+        stability: round2(stability),
+      };
+    })
+    .sort((a, b) => b.share - a.share);
+
+  return { target: String(target), sampleSize: rows.length, r2: round2(r2), drivers };
+}
+
+/** Plain sentence for one driver, e.g. "When sleep is higher than usual, fatigue tends to be about 1.4 points lower." */
+export function describeSymptomDriver(driver: SymptomDriver, target: string): string {
+  const size = Math.abs(Math.round(driver.effect * 10) / 10);
+  const points = `${size} ${size === 1 ? 'point' : 'points'}`;
+  const targetLabel = metricLabel(target).toLowerCase();
+  const higherLower = driver.direction === 'raises' ? 'higher' : 'lower';
+  if (driver.feature.startsWith('phase:')) return `In your ${driver.label.toLowerCase()}, ${targetLabel} runs about ${points} ${higherLower}.`;
+  if (driver.feature.startsWith('event:') || driver.feature.startsWith('med:') || driver.feature.startsWith('influence:')) {
+    return `${driver.label} (that day or the day before): ${targetLabel} about ${points} ${higherLower}.`;
+  }
+  return `When ${driver.label.toLowerCase()} is higher than usual, ${targetLabel} tends to be about ${points} ${higherLower}.`;
+}
@@ -0,0 +1,366 @@
+import type { CheckInEntry, InsightMetricKey, SymptomKey, UserData } from '../types';
+import { sortByDateAsc } from './analytics';
+import { buildCycleEngine } from './cycleEngine';
+import { getDayMood, getDayValue } from './checkInSlots';
+import { isoTodayLocal } from './date';
+import { analyseEventEffects, eventEffectLabel, eventOn, type EventEffect } from './eventEffects';
+import { isMetricInScope } from './insightsScope';
+import { getPlannedInfluences, type PlannedInfluence } from './plannedInfluences';
+import { SYMPTOM_META } from './symptomMeta';
+
+/**
+ * Numeric forecasts for the next 1–7 days, per metric, with a band.
+ *
+ * Built up from parts so each can be explained:
+ * - level: a smoothed recent average, with the cycle-day pattern taken out first
+ * - cycle: how this metric usually sits on that cycle day (smoothed over ±2 days, shrunk
+ *   toward zero when there are only a few cycles to go on)
+ * - trend: the last three weeks' slope, damped so it fades out over the week
+ * - influences: lagged influence effects (eventEffects) triggered by what was logged in
+ *   the last few days or is planned ("alcohol planned Friday")
+ *
+ * The band is ~80%, from how far the smoothed level has missed the next day recently,
+ * widening with the horizon. Forecasts shown are logged so they can be scored against
+ * what actually gets checked in.
+ */
+
+export const FORECAST_LOG_KEY = 'everybody:v2:forecast_log';
+
+export type ForecastInfluence = {
+  event: string;
+  /** Day the influence was logged or is planned */
+  onISO: string;
+  planned: boolean;
+  delta: number;
+};
+
+export type SymptomForecast = {
+  metric: string;
+  dateISO: string;
+  /** Days ahead (1 = tomorrow) */
+  horizon: number;
+  value: number;
+  /** ~80% band, clamped to 0–10 */
+  low: number;
+  high: number;
+  parts: {
+    level: number;
+    cycle: number;
+    trend: number;
+    influences: ForecastInfluence[];
+  };
+};
+
+export type ForecastRecord = {
+  issuedISO: string;
+  dateISO: string;
+  metric: string;
+  horizon: number;
+  value: number;
+  low: number;
+  high: number;
+  /** "Same as the last logged day" at issue time, to compare against */
+  naive: number | null;
+};
+
+export type ForecastScore = {
+  metric: string;
+  /** Past forecasts with a logged day to check against */
+  n: number;
+  /** Mean absolute error, points */
+  mae: number;
+  /** Share of logged values that landed inside the band */
+  coverage: number;
+  /** Same, for just repeating the last logged value */
+  naiveMae: number | null;
+};
+
+const MAX_DAYS = 7;
+const MIN_POINTS = 10;
+const HISTORY_DAYS = 120;
+const TREND_DAYS = 21;
+const TREND_DAMPING = 0.8;
+const MAX_TREND = 1.5;
+const LEVEL_ALPHA = 0.3;
+const Z80 = 1.28;
+const LOG_KEEP_DAYS = 90;
+const LOG_LIMIT = 2000;
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function sd(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) * (x - m), 0) / (xs.length - 1));
+}
+
+function clamp10(n: number): number {
+  return Math.max(0, Math.min(10, n));
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function metricValue(entry: CheckInEntry | undefined, key: string, userData: UserData): number | null {
+  if (!entry || !isMetricInScope(userData, key, entry.dateISO)) return null;
+  if (key === 'mood') {
+    const m = getDayMood(entry);
+    return m ? (m === 1 ? 2 : m === 2 ? 5 : 8) : null;
+  }
+  const v = getDayValue(entry, key as SymptomKey);
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  return v > 10 ? Math.round(v / 10) : v;
+}
+
+export function forecastMetricLabel(key: string): string {
+  return key === 'mood' ? 'Mood' : SYMPTOM_META[key as SymptomKey]?.label ?? key;
+}
+
+/** Cycle day lookup (projected ahead) and a smoothed, shrunk cycle-day profile per metric. */
+function cycleModel(entries: CheckInEntry[], userData: UserData) {
+  if (userData.cycleTrackingMode !== 'cycle') return null;
+  try {
+    const engine = buildCycleEngine(entries, userData);
+    const cycleDayOn = (iso: string) => engine.dayInfo(iso)?.cycleDay ?? null;
+    const observed = new Map<string, number>();
+    for (const e of entries) {
+      const info = engine.dayInfo(e.dateISO);
+      if (info && !info.projected) observed.set(e.dateISO, info.cycleDay);
+    }
+    return { cycleDayOn, observed };
+  } catch {
+    return null;
+  }
+}
+
+function buildProfile(points: Array<{ cycleDay: number | null; value: number }>): (cycleDay: number | null) => number {
+  const withDay = points.filter((p): p is { cycleDay: number; value: number } => p.cycleDay != null);
+  if (withDay.length < MIN_POINTS * 2) return () => 0;
+  const overall = mean(withDay.map((p) => p.value));
+  const cache = new Map<number, number>();
+  return (cycleDay) => {
+    if (cycleDay == null) return 0;
+    const hit = cache.get(cycleDay);
+    if (hit != null) return hit;
+    const near = withDay.filter((p) => Math.abs(p.cycleDay - cycleDay) <= 2).map((p) => p.value - overall);
+    // A handful of days is mostly noise; lean on it more as cycles build up
+    const value = near.length ? (mean(near) * near.length) / (near.length + 6) : 0;
+    cache.set(cycleDay, value);
+    return value;
+  };
+}
+
+function slopePerDay(points: Array<{ x: number; y: number }>): number {
+  if (points.length < 8) return 0;
+  const mx = mean(points.map((p) => p.x));
+  const my = mean(points.map((p) => p.y));
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.x - mx) * (p.y - my);
+    den += (p.x - mx) * (p.x - mx);
+  }
+  return den > 0 ? num / den : 0;
+}
+
+/**
+ * Forecasts for each metric for the `days` days after `fromISO` (default today), using
+ * logs up to and including `fromISO`. Metrics without enough recent logs are left out.
+ */
+export function forecastSymptoms(
+  entriesInput: CheckInEntry[],
+  userData: UserData,
+  metrics: string[],
+  opts: { fromISO?: string; days?: number; planned?: PlannedInfluence[]; effects?: EventEffect[] } = {}
+): SymptomForecast[] {
+  const fromISO = opts.fromISO ?? isoTodayLocal();
+  const days = Math.max(1, Math.min(MAX_DAYS, opts.days ?? MAX_DAYS));
+  const entries = (sortByDateAsc(entriesInput) as CheckInEntry[]).filter((e) => e.dateISO <= fromISO);
+  if (entries.length < MIN_POINTS) return [];
+  const byISO = new Map(entries.map((e) => [e.dateISO, e]));
+  const planned = opts.planned ?? getPlannedInfluences();
+  const wanted = metrics.filter((k) => k === 'mood' || SYMPTOM_META[k as SymptomKey]);
+  const effects = opts.effects ?? analyseEventEffects(entries, userData, { metrics: wanted as InsightMetricKey[], limit: 100 });
+  const cycle = cycleModel(entries, userData);
+  const historyFrom = addDaysISO(fromISO, -HISTORY_DAYS);
+
+  const out: SymptomForecast[] = [];
+  for (const metric of wanted) {
+    const series = entries
+      .filter((e) => e.dateISO >= historyFrom)
+      .map((e) => ({ iso: e.dateISO, value: metricValue(e, metric, userData), cycleDay: cycle?.observed.get(e.dateISO) ?? null }))
+      .filter((p): p is { iso: string; value: number; cycleDay: number | null } => p.value != null);
+    if (series.length < MIN_POINTS) continue;
+
+    const profile = buildProfile(series);
+    const adjusted = series.map((p) => ({ iso: p.iso, y: p.value - profile(p.cycleDay) }));
+
+    // Smoothed level, and how far it missed the next logged day along the way
+    let level = mean(adjusted.slice(0, 3).map((p) => p.y));
+    const misses: number[] = [];
+    for (const p of adjusted.slice(3)) {
+      misses.push(p.y - level);
+      level += LEVEL_ALPHA * (p.y - level);
+    }
+    const sigma = Math.max(0.5, sd(misses.slice(-60)));
+
+    const trendFrom = addDaysISO(fromISO, -TREND_DAYS);
+    const slope = slopePerDay(adjusted.filter((p) => p.iso >= trendFrom).map((p) => ({ x: daysBetweenISO(fromISO, p.iso), y: p.y })));
+    const metricEffects = effects.filter((e) => e.metric === metric);
+
+    let damped = 0;
+    for (let h = 1; h <= days; h++) {
+      const dateISO = addDaysISO(fromISO, h);
+      damped += Math.pow(TREND_DAMPING, h);
+      const trend = Math.max(-MAX_TREND, Math.min(MAX_TREND, slope * damped));
+      const cyclePart = cycle ? profile(cycle.cycleDayOn(dateISO)) : 0;
+
+      const influences: ForecastInfluence[] = [];
+      for (const effect of metricEffects) {
+        // The effect shows from `lag` days after the influence for `lagDays` days
+        for (let back = effect.lag; back < effect.lag + effect.lagDays; back++) {
+          const onISO = addDaysISO(dateISO, -back);
+          const plan = onISO > fromISO ? planned.find((p) => p.event === effect.event && p.dateISO === onISO) : undefined;
+          const logged = onISO <= fromISO && eventOn(byISO.get(onISO), effect.event) === true;
+          if (!plan && !logged) continue;
+          influences.push({ event: effect.event, onISO, planned: Boolean(plan), delta: effect.delta });
+          break;
+        }
+      }
+      const influencePart = influences.reduce((a, i) => a + i.delta, 0);
+
+      const value = clamp10(level + cyclePart + trend + influencePart);
+      const spread = Z80 * sigma * Math.sqrt(1 + 0.15 * (h - 1));
+      out.push({
+        metric,
+        dateISO,
+        horizon: h,
+        value: round1(value),
+        low: round1(clamp10(value - spread)),
+        high: round1(clamp10(value + spread)),
+        parts: { level: round1(level), cycle: round1(cyclePart), trend: round1(trend), influences },
+      });
+    }
+  }
+  return out;
+}
+
+function weekdayName(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'long' });
+}
+
+/** e.g. "Alcohol planned for Friday: sleep looks about 1.4 points lower on Saturday." */
+export function describeForecastInfluence(forecast: SymptomForecast, influence: ForecastInfluence, userData?: UserData): string {
+  const size = Math.abs(round1(influence.delta));
+  const label = eventEffectLabel(influence.event, userData);
+  const when = influence.onISO === forecast.dateISO ? 'that day' : `on ${weekdayName(forecast.dateISO)}`;
+  return `${label} ${influence.planned ? 'planned for' : 'logged on'} ${weekdayName(influence.onISO)}: ${forecastMetricLabel(forecast.metric).toLowerCase()} looks about ${size} ${
+    size === 1 ? 'point' : 'points'
+  } ${influence.delta > 0 ? 'higher' : 'lower'} ${when}.`;
+}
+
+function readLog(): ForecastRecord[] {
+  try {
+    const raw = localStorage.getItem(FORECAST_LOG_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((r) => r && typeof r.metric === 'string' && typeof r.dateISO === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLog(records: ForecastRecord[]) {
+  try {
+    localStorage.setItem(FORECAST_LOG_KEY, JSON.stringify(records));
+  } catch {
+    // ignore
+  }
+}
+
+/** Keep what was forecast on `issuedISO` so it can be scored later. Re-issuing the same day replaces it. */
+export function recordForecasts(forecasts: SymptomForecast[], issuedISO: string, entries: CheckInEntry[], userData: UserData) {
+  if (!forecasts.length) return;
+  const sorted = (sortByDateAsc(entries) as CheckInEntry[]).filter((e) => e.dateISO <= issuedISO);
+  const lastValue = (metric: string) => {
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const v = metricValue(sorted[i], metric, userData);
+      if (v != null) return v;
+    }
+    return null;
+  };
+  const naive = new Map(Array.from(new Set(forecasts.map((f) => f.metric))).map((m) => [m, lastValue(m)]));
+  const fresh = new Set(forecasts.map((f) => `${f.dateISO}|${f.metric}`));
+  const cutoff = addDaysISO(issuedISO, -LOG_KEEP_DAYS);
+  const kept = readLog().filter((r) => r.dateISO >= cutoff && !(r.issuedISO === issuedISO && fresh.has(`${r.dateISO}|${r.metric}`)));
+  const next = kept.concat(
+    forecasts.map((f) => ({
+      issuedISO,
+      dateISO: f.dateISO,
+      metric: f.metric,
+      horizon: f.horizon,
+      value: f.value,
+      low: f.low,
+      high: f.high,
+      naive: naive.get(f.metric) ?? null,
+    }))
+  );
+  writeLog(next.slice(-LOG_LIMIT));
+}
+
+/** How past forecasts did against what was logged, per metric. Only days already past `todayISO`. */
+export function scoreForecasts(
+  entries: CheckInEntry[],
+  userData: UserData,
+  opts: { metrics?: string[]; todayISO?: string; sinceDays?: number } = {}
+): ForecastScore[] {
+  const todayISO = opts.todayISO ?? isoTodayLocal();
+  const since = addDaysISO(todayISO, -(opts.sinceDays ?? 60));
+  const byISO = new Map(entries.map((e) => [e.dateISO, e]));
+  const groups = new Map<string, { errors: number[]; inside: number; naive: number[] }>();
+  for (const r of readLog()) {
+    if (r.dateISO >= todayISO || r.dateISO < since) continue;
+    if (opts.metrics && !opts.metrics.includes(r.metric)) continue;
+    const actual = metricValue(byISO.get(r.dateISO), r.metric, userData);
+    if (actual == null) continue;
+    const g = groups.get(r.metric) ?? { errors: [], inside: 0, naive: [] };
+    g.errors.push(Math.abs(actual - r.value));
+    if (actual >= r.low && actual <= r.high) g.inside += 1;
+    if (typeof r.naive === 'number') g.naive.push(Math.abs(actual - r.naive));
+    groups.set(r.metric, g);
+  }
+  return Array.from(groups.entries()).map(([metric, g]) => ({
+    metric,
+    n: g.errors.length,
+    mae: round1(mean(g.errors)),
+    coverage: Math.round((g.inside / g.errors.length) * 100) / 100,
+    naiveMae: g.naive.length ? round1(mean(g.naive)) : null,
+  }));
+}
+
+/** e.g. "Sleep forecasts have been off by 1.1 points on average (24 checked), and 80% landed inside the band." */
+export function describeForecastScore(score: ForecastScore): string {
+  const base = `${forecastMetricLabel(score.metric)} forecasts have been off by ${score.mae} ${score.mae === 1 ? 'point' : 'points'} on average (${score.n} checked), and ${Math.round(
+    score.coverage * 100
+  )}% landed inside the band.`;
+  if (score.naiveMae == null || score.n < 5) return base;
+  if (score.mae < score.naiveMae - 0.05) return `${base} That's closer than assuming each day matches the last.`;
+  return `${base} No better yet than assuming each day matches the last.`;
+}
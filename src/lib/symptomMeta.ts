@@ -243,6 +243,48 @@ export const SYMPTOM_META: Record<SymptomKey, SymptomMeta> = {
     kind: 'hormonal',
     hormonal: true,
   },
+  swelling: {
+    key: 'swelling',
+    label: 'Swelling',
+    description: 'Puffy feet, ankles or hands',
+    kind: 'physio',
+    hormonal: true,
+  },
+  pelvicGirdlePain: {
+    key: 'pelvicGirdlePain',
+    label: 'Pelvic girdle pain',
+    description: 'Pain at the front or back of the pelvis, often worse walking or turning',
+    kind: 'physio',
+    hormonal: true,
+  },
+  lochia: {
+    key: 'lochia',
+    label: 'Postpartum bleeding',
+    description: 'Bleeding after birth (lochia)',
+    kind: 'physio',
+    hormonal: true,
+  },
+  afterPains: {
+    key: 'afterPains',
+    label: 'After-pains',
+    description: 'Cramping as the womb shrinks back, often while feeding',
+    kind: 'physio',
+    hormonal: true,
+  },
+  perinealPain: {
+    key: 'perinealPain',
+    label: 'Perineal or scar pain',
+    description: 'Soreness from stitches, tears or a caesarean scar',
+    kind: 'physio',
+    hormonal: false,
+  },
+  nipplePain: {
+    key: 'nipplePain',
+    label: 'Nipple or breast pain',
+    description: 'Sore nipples, engorgement or blocked ducts',
+    kind: 'physio',
+    hormonal: false,
+  },
 };
 
 export function kindLabel(k: SymptomKind | undefined): string {
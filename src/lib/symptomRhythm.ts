@@ -0,0 +1,216 @@
+import type { SymptomKey } from '../types';
+
+/**
+ * Symptom-based rhythm for people without periods to anchor on (coil, post-menopause,
+ * hysterectomy, no-cycle mode...). Hormonal cycles often carry on under the surface and
+ * show up as symptoms that repeat every 3–5 weeks.
+ *
+ * For each symptom series we look at autocorrelation at lags of 20–40 days, average the
+ * curves (weighted by how many day pairs each had) and take the strongest peak. Folding
+ * the days by that length shows where symptoms pile up; we treat the day after the
+ * worst 5-day stretch as "day 1", the way symptoms tend to build before a period.
+ *
+ * Kept free of other lib imports so analytics and rhythmModel can use it.
+ */
+
+export type SymptomRhythmConfidence = 'low' | 'medium' | 'high';
+
+export type SymptomRhythm = {
+  /** Length of the repeating pattern */
+  periodDays: number;
+  /** Autocorrelation at that length (0–1) */
+  strength: number;
+  confidence: SymptomRhythmConfidence;
+  /** Latest "day 1" on or before today */
+  anchorISO: string;
+  dayInRhythm: number;
+  nextAnchorISO: string;
+  /** The 5 days symptoms usually build over, this round or the next one */
+  buildUpFromISO: string;
+  buildUpToISO: string;
+  /** Symptoms that repeat most clearly */
+  drivers: SymptomKey[];
+};
+
+type Series = Array<{ dateISO: string; value: number }>;
+
+const MIN_LAG = 20;
+const MAX_LAG = 40;
+const WINDOW_DAYS = 180;
+const MIN_POINTS = 45;
+const MIN_PAIRS = 30;
+const MIN_STRENGTH = 0.2;
+const NOISE_Z = 2.5;
+const BUILD_UP_DAYS = 5;
+// Higher is better for these, so flip them before folding ("symptom load" goes up when they dip)
+const HIGHER_IS_BETTER = new Set<SymptomKey>(['energy', 'motivation', 'sleep', 'focus']);
+
+function daysBetweenISO(aISO: string, bISO: string): number {
+  const a = new Date(aISO + 'T00:00:00');
+  const b = new Date(bISO + 'T00:00:00');
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function addDaysISO(dateISO: string, days: number): string {
+  const d = new Date(dateISO + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/** Standardised, linearly detrended daily array (NaN where nothing was logged). */
+function toDailyZ(series: Series, fromISO: string, todayISO: string): number[] | null {
+  const arr = new Array<number>(WINDOW_DAYS).fill(NaN);
+  let n = 0;
+  for (const p of series) {
+    if (p.dateISO < fromISO || p.dateISO > todayISO) continue;
+    const v = p.value > 10 ? Math.round(p.value / 10) : p.value;
+    arr[daysBetweenISO(fromISO, p.dateISO)] = v;
+    n++;
+  }
+  if (n < MIN_POINTS) return null;
+
+  // Linear trend out, so slow drifts don't look like a rhythm at every lag
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (let t = 0; t < arr.length; t++) {
+    if (Number.isNaN(arr[t])) continue;
+    sx += t;
+    sy += arr[t];
+    sxx += t * t;
+    sxy += t * arr[t];
+  }
+  const denom = n * sxx - sx * sx;
+  const slope = denom ? (n * sxy - sx * sy) / denom : 0;
+  const intercept = (sy - slope * sx) / n;
+  const resid = arr.map((v, t) => (Number.isNaN(v) ? NaN : v - (intercept + slope * t)));
+
+  const vals = resid.filter((v) => !Number.isNaN(v));
+  const sd = Math.sqrt(vals.reduce((a, v) => a + v * v, 0) / vals.length);
+  if (sd < 0.3) return null;
+  return resid.map((v) => (Number.isNaN(v) ? NaN : v / sd));
+}
+
+function autocorr(z: number[], lag: number): { r: number; pairs: number } {
+  let s = 0;
+  let pairs = 0;
+  for (let t = 0; t + lag < z.length; t++) {
+    const a = z[t];
+    const b = z[t + lag];
+    if (Number.isNaN(a) || Number.isNaN(b)) continue;
+    s += a * b;
+    pairs++;
+  }
+  return { r: pairs ? s / pairs : 0, pairs };
+}
+
+export function detectSymptomRhythm(seriesByKey: Partial<Record<SymptomKey, Series>>, todayISO: string): SymptomRhythm | null {
+  const fromISO = addDaysISO(todayISO, -(WINDOW_DAYS - 1));
+
+  const usable: Array<{ key: SymptomKey; z: number[]; acf: Map<number, { r: number; pairs: number }> }> = [];
+  for (const [k, series] of Object.entries(seriesByKey) as Array<[SymptomKey, Series]>) {
+    if (k === 'flow' || !series?.length) continue;
+    const z = toDailyZ(series, fromISO, todayISO);
+    if (!z) continue;
+    const acf = new Map<number, { r: number; pairs: number }>();
+    for (let lag = MIN_LAG - 1; lag <= MAX_LAG + 1; lag++) acf.set(lag, autocorr(z, lag));
+    usable.push({ key: k, z: HIGHER_IS_BETTER.has(k) ? z.map((v) => -v) : z, acf });
+  }
+  // Symptoms with no repeat at all would just water the average down
+  const rhythmic = usable.filter((u) => {
+    let peak = 0;
+    for (let lag = MIN_LAG; lag <= MAX_LAG; lag++) {
+      const a = u.acf.get(lag);
+      // Pure noise gives r of about ±1/√pairs, and we're taking the best of 21 lags
+      if (a && a.pairs >= MIN_PAIRS) peak = Math.max(peak, a.r - NOISE_Z / Math.sqrt(a.pairs));
+    }
+    return peak >= 0;
+  });
+  if (!rhythmic.length) return null;
+
+  const composite = (lag: number) => {
+    let s = 0;
+    let w = 0;
+    for (const u of rhythmic) {
+      const a = u.acf.get(lag);
+      if (!a || a.pairs < MIN_PAIRS) continue;
+      s += a.r * a.pairs;
+      w += a.pairs;
+    }
+    return w ? s / w : 0;
+  };
+
+  let best = 0;
+  let bestR = -Infinity;
+  for (let lag = MIN_LAG; lag <= MAX_LAG; lag++) {
+    const r = composite(lag);
+    // Needs to be a real peak, not just the edge of a slope
+    if (r > bestR && r >= composite(lag - 1) && r >= composite(lag + 1)) {
+      best = lag;
+      bestR = r;
+    }
+  }
+  if (!best || bestR < MIN_STRENGTH) return null;
+
+  // How much of the window actually has data (first to last logged day)
+  const logged = usable.flatMap((u) => u.z.map((v, t) => (Number.isNaN(v) ? -1 : t))).filter((t) => t >= 0);
+  const spanDays = Math.max(...logged) - Math.min(...logged) + 1;
+  if (spanDays < 2 * best) return null;
+
+  // Fold the average symptom load by the rhythm length
+  const sum = new Array<number>(best).fill(0);
+  const count = new Array<number>(best).fill(0);
+  for (let t = 0; t < WINDOW_DAYS; t++) {
+    let s = 0;
+    let n = 0;
+    for (const u of usable) {
+      if (Number.isNaN(u.z[t])) continue;
+      s += u.z[t];
+      n++;
+    }
+    if (!n) continue;
+    sum[t % best] += s / n;
+    count[t % best] += 1;
+  }
+  const load = sum.map((s, i) => (count[i] ? s / count[i] : 0));
+  let peakEnd = 0;
+  let peakLoad = -Infinity;
+  for (let o = 0; o < best; o++) {
+    let s = 0;
+    for (let k = 0; k < BUILD_UP_DAYS; k++) s += load[(o - k + best * 2) % best];
+    if (s > peakLoad) {
+      peakLoad = s;
+      peakEnd = o;
+    }
+  }
+  const day1Offset = (peakEnd + 1) % best;
+
+  const todayIdx = WINDOW_DAYS - 1;
+  const anchorIdx = todayIdx - ((todayIdx - day1Offset + best * 10) % best);
+  const anchorISO = addDaysISO(fromISO, anchorIdx);
+  const nextAnchorISO = addDaysISO(anchorISO, best);
+
+  const drivers = rhythmic
+    .map((u) => ({ key: u.key, r: u.acf.get(best)?.r ?? 0 }))
+    .filter((x) => x.r >= MIN_STRENGTH)
+    .sort((a, b) => b.r - a.r)
+    .slice(0, 3)
+    .map((x) => x.key);
+
+  const strength = Math.round(bestR * 100) / 100;
+  const confidence: SymptomRhythmConfidence =
+    strength >= 0.4 && spanDays >= 3 * best ? 'high' : strength >= 0.28 && spanDays >= 2 * best ? 'medium' : 'low';
+
+  return {
+    periodDays: best,
+    strength,
+    confidence,
+    anchorISO,
+    dayInRhythm: todayIdx - anchorIdx + 1,
+    nextAnchorISO,
+    buildUpFromISO: addDaysISO(nextAnchorISO, -BUILD_UP_DAYS),
+    buildUpToISO: addDaysISO(nextAnchorISO, -1),
+    drivers,
+  };
+}
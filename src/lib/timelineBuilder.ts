@@ -1,3 +1,5 @@
+import type { CheckInEntry, UserData } from '../types';
+import { changePointMetricLabel, describeChangePoint, describeChangePointEvidence, detectChangePoints, matchChangePointContext } from './changePoints';
 import { getCompanionMoments, type CompanionMoment } from './companionMoments';
 import { getHelpfulPatternsFromExperiments } from './experimentLearning';
 import { safeFormatMonthYearFromKey } from './browserSafe';
@@ -265,7 +267,7 @@ function buildPhaseEvents(): TimelineEvent[] {
         date,
         title: `Entered ${phaseLabelFromKey(phase)}`,
         description: phaseDescription(phase),
-        evidence: 'Based on your saved phase history.',
+        evidence: entry.edited ? 'Based on your phase history, as you corrected it.' : 'Based on your saved phase history.',
         source: 'phase' as const,
         actionLabel: 'Open rhythm',
         actionTarget: 'rhythm',
@@ -273,6 +275,7 @@ function buildPhaseEvents(): TimelineEvent[] {
           phase,
           duration: entry.duration,
           endDate: entry.endDate,
+          edited: entry.edited ?? false,
         },
       };
     })
@@ -472,6 +475,35 @@ function buildRhythmEvents(): TimelineEvent[] {
     .filter((event): event is TimelineEvent => Boolean(event) && event.type === 'rhythm_shift');
 }
 
+function buildChangePointEvents(data?: TimelineData): TimelineEvent[] {
+  if (!data?.entries?.length) return [];
+  return detectChangePoints(data.entries, data.userData).map((cp) => {
+    const matches = matchChangePointContext(cp, data.userData);
+    const label = changePointMetricLabel(cp.metric);
+    return {
+      id: `change-point:${cp.metric}:${cp.dateISO}`,
+      type: 'rhythm_shift' as const,
+      date: cp.dateISO,
+      title: `${label} baseline ${cp.direction === 'up' ? 'rose' : 'dropped'}`,
+      description: describeChangePoint(cp),
+      evidence: describeChangePointEvidence(cp, matches),
+      signals: [metricLabel(cp.metric)],
+      confidence: cp.pValue < 0.001 && cp.beforeDays >= 14 && cp.afterDays >= 14 ? 'high' : 'moderate',
+      source: 'rhythm' as const,
+      actionLabel: 'Open insights',
+      actionTarget: 'insights',
+      metadata: {
+        metric: cp.metric,
+        before: cp.before,
+        after: cp.after,
+        delta: cp.delta,
+        worse: cp.worse,
+        matches,
+      },
+    };
+  });
+}
+
 export function sortTimelineEvents(events: TimelineEvent[]): TimelineEvent[] {
   return events.slice().sort((a, b) => {
     const dateCmp = String(b.date || '').localeCompare(String(a.date || ''));
@@ -548,13 +580,20 @@ export function groupEventsByMonth(events: TimelineEvent[]): Array<{ label: stri
     }));
 }
 
-export function buildTimelineEvents(limit = 40): TimelineEvent[] {
+/** Logs for the events worked out from check-ins (baseline shifts); the rest come from storage. */
+export type TimelineData = {
+  entries: CheckInEntry[];
+  userData: UserData;
+};
+
+export function buildTimelineEvents(limit = 40, data?: TimelineData): TimelineEvent[] {
   const all = [
     ...buildPhaseEvents(),
     ...buildPatternEvents(),
     ...buildHelpfulPatternEvents(),
     ...buildExperimentEvents(),
     ...buildRhythmEvents(),
+    ...buildChangePointEvents(data),
   ];
 
   return dedupeTimelineEvents(all).slice(0, Math.max(1, Math.min(50, limit)));
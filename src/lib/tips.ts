@@ -106,7 +106,7 @@ export function getDailyTip(args: {
   const pool: Tip[] = [];
   pool.push(...GENERAL);
 
-  if (goal === 'perimenopause') pool.push(...PERI);
+  if (goal === 'perimenopause' || goal === 'postmenopause') pool.push(...PERI);
   if (goal === 'post-contraception') pool.push(...POST_CONTRACEPTION);
 
   if (phase && BY_PHASE[phase]) pool.push(...BY_PHASE[phase]);
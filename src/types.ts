@@ -1,7 +1,7 @@
-export type UserGoal = 'cycle-health' | 'perimenopause' | 'post-contraception' | 'wellbeing';
+export type UserGoal = 'cycle-health' | 'perimenopause' | 'postmenopause' | 'post-contraception' | 'wellbeing';
 export type ColorTheme = 'sage' | 'lavender' | 'ocean' | 'terracotta';
 
-export type CycleTrackingMode = 'cycle' | 'no-cycle';
+export type CycleTrackingMode = 'cycle' | 'no-cycle' | 'pregnancy' | 'postpartum';
 
 export type SymptomKey =
   | 'energy'
@@ -37,7 +37,14 @@ export type SymptomKey =
   | 'breastTenderness'
   | 'hotFlushes'
   | 'nightSweats'
-  | 'restlessLegs';
+  | 'restlessLegs'
+  // Pregnancy + postpartum packs
+  | 'swelling'
+  | 'pelvicGirdlePain'
+  | 'lochia'
+  | 'afterPains'
+  | 'perinealPain'
+  | 'nipplePain';
 
 /** Metrics that can be shown on the dashboard chart */
 export type DashboardMetric = SymptomKey | 'mood';
@@ -65,6 +72,84 @@ export interface CustomSymptom {
   kind?: SymptomKind;
 }
 
+/** A user-defined influence (eg "Sauna", "Night shift"), logged as a yes/no toggle like the built-ins. */
+export interface CustomInfluence {
+  id: string;
+  label: string;
+  enabled: boolean;
+  /** Optional: which pattern driver this relates to (a key of DRIVER_LABELS, eg "nutrition"). */
+  driver?: string;
+}
+
+export type MedicationSchedule = 'daily' | 'twice_daily' | 'weekly' | 'as_needed';
+
+/** A medication or supplement the user takes (registry lives on UserData). */
+export interface Medication {
+  id: string;
+  name: string;
+  /** Amount per dose (eg 200) */
+  dose?: number;
+  /** Unit for the dose (eg "mg", "mcg", "ml", "tablet") */
+  unit?: string;
+  schedule: MedicationSchedule;
+  kind?: 'medication' | 'supplement';
+  /** First day taking it (YYYY-MM-DD). Missing means "always". */
+  startISO?: string;
+  /** Last day taking it (YYYY-MM-DD). Missing/null means still taking it. */
+  stopISO?: string | null;
+}
+
+export type PregnancyOutcome = 'birth' | 'loss';
+export type FeedingMethod = 'breast' | 'bottle' | 'mixed';
+
+/** One pregnancy. Cycle starts between lmpISO and cycleReturnISO are ignored for cycle stats. */
+export interface PregnancyRecord {
+  id: string;
+  /** First day of the last period before pregnancy (YYYY-MM-DD) */
+  lmpISO?: string;
+  /** Estimated due date (YYYY-MM-DD). Worked out from LMP if not given. */
+  dueDateISO: string;
+  /** When pregnancy mode was switched on */
+  startedISO: string;
+  /** Birth / loss date */
+  endISO?: string | null;
+  outcome?: PregnancyOutcome;
+  /** First period after pregnancy (set by the "period is back" flow) */
+  cycleReturnISO?: string | null;
+}
+
+export type HormonalRegimenKind =
+  | 'combined_pill'
+  | 'progestogen_pill'
+  | 'patch'
+  | 'ring'
+  | 'hormonal_coil'
+  | 'copper_coil'
+  | 'implant'
+  | 'injection'
+  | 'hrt_gel'
+  | 'hrt_patch'
+  | 'hrt_tablet';
+
+/** Contraception or HRT the user is on. Bleeds during suppressive regimens aren't treated as natural cycle starts. */
+export interface HormonalRegimen {
+  id: string;
+  kind: HormonalRegimenKind;
+  /** Brand or free text (eg "Microgynon", "Oestrogel 2 pumps") */
+  label?: string;
+  /** Free text dose (eg "2 pumps", "50mcg") */
+  dose?: string;
+  /** First day of the first active pack / patch / ring (YYYY-MM-DD) */
+  startISO: string;
+  /** Last day on it (YYYY-MM-DD). Missing/null means still on it. */
+  stopISO?: string | null;
+  /** Pill / patch / ring: active days per pack (eg 21) */
+  activeDays?: number;
+  /** Pill / patch / ring: break or placebo days per pack (eg 7). 0 = taken back to back. */
+  breakDays?: number;
+  /** Patches: change every N days (eg 7 for contraceptive, 3 or 4 for HRT) */
+  changeEveryDays?: number;
+}
 
 export interface UserData {
   name: string;
@@ -81,6 +166,9 @@ export interface UserData {
   /** Which lifestyle / influence toggles show in the daily check-in */
   enabledInfluences?: InfluenceKey[];
 
+  /** Optional: user-defined influences. Logged per day in entry.customEvents. */
+  customInfluences?: CustomInfluence[];
+
     /** Optional: show extra sleep detail questions in the daily check-in (collapsed by default). */
   sleepDetailsEnabled?: boolean;
 
@@ -96,6 +184,23 @@ export interface UserData {
   /** Optional: user-defined custom symptoms (freeform). Stored as ids + labels. */
   customSymptoms?: CustomSymptom[];
 
+  /** Optional: medications and supplements (doses are logged per day in the check-in). */
+  medications?: Medication[];
+
+  /** Optional: last period before menopause, set when switching to the post-menopause goal */
+  finalPeriodISO?: string | null;
+
+  /** Optional: pregnancy history (drives pregnancy / postpartum modes) */
+  pregnancies?: PregnancyRecord[];
+
+  /** Optional: contraception / HRT history (drives withdrawal vs breakthrough bleed detection) */
+  hormonalRegimens?: HormonalRegimen[];
+
+  /** Optional: body measurements shown in the check-in (weight, blood pressure...) */
+  enabledMeasurements?: MeasurementKey[];
+  /** Optional: display units for measurements (stored values are always kg / °C) */
+  measurementUnits?: MeasurementUnits;
+
   /** Dev/testing: use local mock Eve (no API calls) */
   useMockEve: boolean;
   /** Reduce context length and reply size for cheaper API usage */
@@ -112,6 +217,9 @@ export interface UserData {
   /** Optional: trying to conceive mode (enables fertility features like sex log + fertile window shading) */
   fertilityMode?: boolean;
 
+  /** Optional: PMDD screening mode (adds the DRSP daily record to the check-in) */
+  pmddMode?: boolean;
+
   /** Optional: if enabled, starting bleeding automatically starts a new period without asking. */
   autoStartPeriodFromBleeding?: boolean;
 
@@ -121,6 +229,9 @@ export interface UserData {
   /** Optional: user-confirmed ovulation dates (YYYY-MM-DD) to override predicted fertile windows */
   ovulationOverrideISOs?: string[];
 
+  /** Optional: ovulation dates we've auto-added from BBT/LH (so removed ones are not re-added) */
+  ovulationDetectedISOs?: string[];
+
   /** Optional: ignore older check-ins for Insights (keeps data saved, but Insights only uses entries on/after this date). */
   insightsFromISO?: string | null;
 
@@ -130,6 +241,102 @@ export interface UserData {
 }
 
 
+export type HeadacheSide = 'left' | 'right' | 'both' | 'unsure';
+export type RescueEffect = 'none' | 'some' | 'good' | 'full';
+
+/** One headache or migraine attack. Stored on the entry for the day it started. */
+export interface HeadacheEpisode {
+  id: string;
+  kind: 'migraine' | 'headache';
+  /** Local date-time "YYYY-MM-DDTHH:MM" */
+  start: string;
+  /** Local date-time "YYYY-MM-DDTHH:MM" (missing = still going / not noted) */
+  end?: string;
+  /** 0–10 at its worst */
+  intensity?: number;
+  aura?: boolean;
+  side?: HeadacheSide;
+  /** Medication.id from the registry, if it was one of theirs */
+  rescueMedicationId?: string;
+  /** Free text if it wasn't in the registry */
+  rescueMedicationName?: string;
+  rescueEffect?: RescueEffect;
+  /** Influence keys (built-in InfluenceKey or `influence:<id>` for custom ones) */
+  triggers?: string[];
+  notes?: string;
+}
+
+/** Real-unit body measurements. Not 0–10 sliders, so they live outside entry.values. */
+export type MeasurementKey = 'weight' | 'bpSystolic' | 'bpDiastolic' | 'restingHR' | 'temperature';
+export type WeightUnit = 'kg' | 'lb';
+export type TemperatureUnit = 'C' | 'F';
+
+export interface MeasurementUnits {
+  weight?: WeightUnit;
+  temperature?: TemperatureUnit;
+}
+
+export type CervicalMucus = 'dry' | 'sticky' | 'creamy' | 'watery' | 'eggWhite';
+export type LhTestResult = 'negative' | 'positive' | 'peak';
+export type PregnancyTestResult = 'negative' | 'positive' | 'unclear';
+
+/** Fertility awareness signals logged in the check-in (only shown when fertilityMode is on). */
+export interface FertilitySignals {
+  /** Basal body temperature in °C (always stored in °C) */
+  bbt?: number;
+  /** When BBT was taken, "HH:MM" local time */
+  bbtTime?: string;
+  /** Reading likely off (late night, illness, alcohol, broken sleep) - skipped by the detector */
+  bbtDisturbed?: boolean;
+  cervicalMucus?: CervicalMucus;
+  lhTest?: LhTestResult;
+  pregnancyTest?: PregnancyTestResult;
+}
+
+/** Daily Record of Severity of Problems (Endicott et al.): 21 symptom items + 3 impairment items. */
+export type DrspItemKey =
+  | 'depressed'
+  | 'hopeless'
+  | 'worthless'
+  | 'anxious'
+  | 'moodSwings'
+  | 'rejectionSensitive'
+  | 'irritable'
+  | 'conflicts'
+  | 'lessInterest'
+  | 'concentration'
+  | 'lethargic'
+  | 'overate'
+  | 'cravings'
+  | 'sleptMore'
+  | 'troubleSleeping'
+  | 'overwhelmed'
+  | 'outOfControl'
+  | 'breastTenderness'
+  | 'bloating'
+  | 'headache'
+  | 'jointPain'
+  | 'impairWork'
+  | 'impairSocial'
+  | 'impairRelationships';
+
+export type DrspRecord = Partial<Record<DrspItemKey, number>>;
+
+/** Rough time-of-day bucket for a check-in (lets people log more than once a day) */
+export type CheckInTimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+/** One check-in within a day. The parent entry keeps the rolled-up day values. */
+export interface CheckInSlot {
+  timeOfDay: CheckInTimeOfDay;
+  /** When this slot was last saved (ISO timestamp) */
+  loggedAt: string;
+  mood?: 1 | 2 | 3;
+  /** Per-module values 0-10 */
+  values: Partial<Record<SymptomKey, number>>;
+  /** Optional custom symptom values keyed by CustomSymptom.id (0-10) */
+  customValues?: Record<string, number>;
+}
+
 export interface CheckInEntry {
   id: string;
   dateISO: string; // YYYY-MM-DD
@@ -145,6 +352,12 @@ export interface CheckInEntry {
   /** Optional custom symptom values keyed by CustomSymptom.id (0-10) */
   customValues?: Record<string, number>;
 
+  /**
+   * Optional time-of-day check-ins for this day (morning/afternoon/evening).
+   * When present, `values`/`customValues`/`mood` hold the rolled-up day view.
+   */
+  slots?: CheckInSlot[];
+
   /** Optional extra sleep detail fields (not part of the 0–10 symptom sliders) */
   sleepDetails?: {
     /** 0, 1, 2, or 3 (meaning 3+) */
@@ -180,6 +393,27 @@ export interface CheckInEntry {
     lowHydration?: boolean;
   };
 
+  /** Optional feeding log (postpartum mode) */
+  feeding?: { method?: FeedingMethod; feeds?: number };
+
+  /** Optional headache / migraine episodes that started on this day */
+  headacheEpisodes?: HeadacheEpisode[];
+
+  /** Optional body measurements in storage units: kg, mmHg, bpm, °C */
+  measurements?: Partial<Record<MeasurementKey, number>>;
+
+  /** Optional fertility awareness signals (BBT, cervical mucus, LH and pregnancy tests) */
+  fertility?: FertilitySignals;
+
+  /** Optional DRSP daily record, 1 (not at all) to 6 (extreme). Only shown when pmddMode is on. */
+  drsp?: DrspRecord;
+
+  /** Optional custom influence toggles keyed by CustomInfluence.id (false = logged as "no") */
+  customEvents?: Record<string, boolean>;
+
+  /** Optional: doses taken today, keyed by Medication.id (0 = logged as not taken). */
+  medicationDoses?: Record<string, number>;
+
   /** Optional extra details for events (kept small and future-proof). */
   eventsDetails?: {
     /** If exercise is logged, how intense did it feel? */
@@ -193,7 +427,13 @@ export interface CheckInEntry {
  * A lightweight in-app “experiment” the user can run for a few days.
  * Stored locally only.
  */
-export type InsightMetricKey = SymptomKey | 'mood' | `custom:${string}`;
+export type InsightMetricKey =
+  | SymptomKey
+  | 'mood'
+  | `custom:${string}`
+  | `med:${string}`
+  | `influence:${string}`
+  | `measure:${MeasurementKey}`;
 
 export interface ExperimentPlan {
   id: string;